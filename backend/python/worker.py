@@ -0,0 +1,153 @@
+"""Long-lived Python worker for the Node backend.
+
+Reads one JSON request per line on stdin and writes one JSON response per
+line on stdout:
+
+    {"id": "1", "method": "easyocr", "params": {"image": "/tmp/page.png", "languages": ["en"]}}
+    {"id": "1", "result": {"text": "...", "confidence": 91.2, "words": [...]}}
+    {"id": "2", "error": {"message": "...", "type": "ValueError"}}
+
+Models are loaded on first use and kept for the life of the process, which
+is the point of keeping it running. Library output goes to stderr so it
+can't corrupt the protocol.
+"""
+
+import importlib
+import json
+import os
+import sys
+import traceback
+
+# stdout carries responses only; anything libraries print goes to stderr
+PROTOCOL = sys.stdout
+sys.stdout = sys.stderr
+
+_models = {}
+
+
+def _cached(key, load):
+    if key not in _models:
+        _models[key] = load()
+    return _models[key]
+
+
+def _words_result(entries):
+    """Text, mean confidence (0-100) and word boxes from (polygon, text, confidence) entries."""
+    words = []
+    for polygon, text, confidence in entries:
+        xs = [float(point[0]) for point in polygon]
+        ys = [float(point[1]) for point in polygon]
+        words.append({
+            'text': text,
+            'confidence': float(confidence) * 100,
+            'x': min(xs),
+            'y': min(ys),
+            'width': max(xs) - min(xs),
+            'height': max(ys) - min(ys),
+        })
+    confidence = sum(word['confidence'] for word in words) / len(words) if words else 0
+    return {'text': ' '.join(word['text'] for word in words), 'confidence': confidence, 'words': words}
+
+
+def ping(params):
+    return {'pid': os.getpid(), 'loaded': sorted(str(key) for key in _models)}
+
+
+def probe(params):
+    """Which of the given modules can be imported."""
+    available = {}
+    for module in params.get('modules', []):
+        try:
+            importlib.import_module(module)
+            available[module] = True
+        except Exception:
+            available[module] = False
+    return available
+
+
+def easyocr(params):
+    languages = tuple(params.get('languages') or ['en'])
+
+    def load():
+        import easyocr as engine
+        return engine.Reader(list(languages), gpu=False)  # CPU only for compatibility
+
+    reader = _cached(('easyocr', languages), load)
+    return _words_result(reader.readtext(params['image']))
+
+
+def paddleocr(params):
+    language = params.get('language', 'en')
+
+    def load():
+        from paddleocr import PaddleOCR
+        return PaddleOCR(use_angle_cls=True, lang=language, use_gpu=False)
+
+    ocr = _cached(('paddleocr', language), load)
+    results = ocr.ocr(params['image'], cls=True) or []
+    entries = [(info[0], info[1][0], info[1][1]) for line in results if line for info in line]
+    return _words_result(entries)
+
+
+def generate(params):
+    """Text generation with a Hugging Face model; the prompt is left out of the response."""
+    model = params['model']
+
+    def load():
+        import torch
+        from transformers import pipeline
+        return pipeline(
+            'text-generation',
+            model=model,
+            torch_dtype=torch.float32,
+            device=0 if torch.cuda.is_available() else -1,
+        )
+
+    pipe = _cached(('generate', model), load)
+    prompt = params['prompt']
+    output = pipe(
+        prompt,
+        max_new_tokens=params.get('max_new_tokens', 512),
+        temperature=params.get('temperature', 0.1),
+        do_sample=True,
+        top_p=params.get('top_p', 0.95),
+        repetition_penalty=params.get('repetition_penalty', 1.1),
+    )
+    return {'response': output[0]['generated_text'].replace(prompt, '').strip()}
+
+
+METHODS = {
+    'ping': ping,
+    'probe': probe,
+    'easyocr': easyocr,
+    'paddleocr': paddleocr,
+    'generate': generate,
+}
+
+
+def respond(message):
+    PROTOCOL.write(json.dumps(message) + '\n')
+    PROTOCOL.flush()
+
+
+def main():
+    respond({'ready': True, 'pid': os.getpid()})
+    for line in sys.stdin:
+        line = line.strip()
+        if not line:
+            continue
+        request_id = None
+        try:
+            request = json.loads(line)
+            request_id = request.get('id')
+            method = METHODS.get(request.get('method'))
+            if method is None:
+                raise ValueError('Unknown method: %s' % request.get('method'))
+            respond({'id': request_id, 'result': method(request.get('params') or {})})
+        except Exception as error:
+            traceback.print_exc(file=sys.stderr)
+            respond({'id': request_id, 'error': {'message': str(error), 'type': type(error).__name__}})
+
+
+if __name__ == '__main__':
+    main()
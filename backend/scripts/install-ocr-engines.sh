@@ -83,6 +83,26 @@ else
     fi
 fi
 
+echo ""
+echo "📑 Installing Poppler (PDF page rendering)..."
+
+# pdftoppm rasterizes scanned PDF pages for OCR
+if command_exists pdftoppm; then
+    echo -e "${GREEN}✅ Poppler already installed${NC}"
+else
+    if [[ "$PLATFORM" == "macOS" ]] && command_exists brew; then
+        brew install poppler
+    elif command_exists apt-get; then
+        sudo apt-get install -y poppler-utils
+    elif command_exists yum; then
+        sudo yum install -y poppler-utils
+    elif command_exists dnf; then
+        sudo dnf install -y poppler-utils
+    else
+        echo -e "${YELLOW}⚠️ Please install poppler-utils manually for scanned PDF support${NC}"
+    fi
+fi
+
 echo ""
 echo "🤖 Installing EasyOCR..."
 
@@ -194,6 +214,7 @@ echo ""
 echo "📝 Installation Summary"
 echo "======================"
 echo "Tesseract OCR: $(if command_exists tesseract; then echo 'Installed'; else echo 'Not available'; fi)"
+echo "Poppler (PDF): $(if command_exists pdftoppm; then echo 'Installed'; else echo 'Not available'; fi)"
 echo "EasyOCR: $(if python_package_exists easyocr; then echo 'Installed'; else echo 'Not available'; fi)"
 echo "PaddleOCR: $(if python_package_exists paddleocr; then echo 'Installed'; else echo 'Not available'; fi)"
 
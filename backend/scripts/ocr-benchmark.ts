@@ -0,0 +1,474 @@
+#!/usr/bin/env ts-node
+
+/**
+ * OCR and extraction benchmark
+ *
+ * Runs every report in a corpus folder through the OCR pipeline once per
+ * engine and preprocessing configuration, and scores the metrics extracted
+ * against the expected ones kept beside each report:
+ *
+ *   benchmarks/ocr/corpus/cbc-table.svg
+ *   benchmarks/ocr/corpus/cbc-table.expected.json
+ *
+ * Writes report.json (stable, meant to be diffed or passed back as
+ * --baseline) and report.md. With --baseline, exits with 1 when any score
+ * dropped.
+ *
+ * Usage:
+ *   npm run benchmark:ocr -- [--corpus dir] [--engines tesseract,easyocr]
+ *     [--preprocessing auto|all|medical-optimized,...] [--out dir] [--baseline report.json]
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { LocalOCRService } from '../src/services/ocr/LocalOCRService';
+import { HealthMetric } from '../src/services/ocr/HealthMetricExtractor';
+import { OCREngineRegistry } from '../src/services/ocr/engines/OCREngineRegistry';
+import { PREPROCESSING, PreprocessingName } from '../src/services/ocr/preprocessing';
+import { PatientContext } from '../src/services/analytes/ReferenceRangeService';
+import { UnitConverter } from '../src/services/analytes/UnitConverter';
+import { PythonWorkerPool } from '../src/services/workers/PythonWorkerPool';
+
+const REPORT_EXTENSIONS: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml' // Rasterized first, so the corpus can be kept as diffable text
+};
+
+// Scores that count as a regression when they drop by more than this
+const REGRESSION_TOLERANCE = 0.001;
+
+// <report>.expected.json
+interface ExpectedReport {
+  description?: string;
+  patient?: PatientContext;
+  metrics: ExpectedMetric[];
+}
+
+interface ExpectedMetric {
+  analyteId?: string;      // Matched on this when given, else on the name
+  name: string;
+  value: number | string;  // Strings for results as printed: "Nil", "2-4"
+  unit?: string;
+  flag?: HealthMetric['flag'];
+}
+
+interface Config {
+  name: string;
+  engines: string[];
+  preprocessing: 'auto' | PreprocessingName;
+}
+
+interface Tally {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  valueCorrect: number;
+  valueChecked: number;
+  unitCorrect: number;
+  unitChecked: number;
+  flagCorrect: number;
+  flagChecked: number;
+}
+
+interface Scores {
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+  valueAccuracy: number | null;
+  unitAccuracy: number | null;
+  flagAccuracy: number | null;
+}
+
+interface DocumentResult {
+  file: string;
+  expected: number;
+  extracted: number;
+  missed: string[];
+  unexpected: string[];
+  wrong: { analyte: string; field: 'value' | 'unit' | 'flag'; expected: string; actual: string }[];
+  timeMs: number;
+  error?: string;
+}
+
+interface ConfigReport extends Scores {
+  config: string;
+  engines: string[];
+  preprocessing: string;
+  documents: number;
+  failed: number;
+  totalTimeMs: number;
+  meanTimeMs: number;
+  analytes: Record<string, Scores & { expected: number; found: number }>;
+  results: DocumentResult[];
+}
+
+interface BenchmarkReport {
+  corpus: string;
+  configs: ConfigReport[];
+}
+
+interface CorpusEntry {
+  file: string;
+  buffer: Buffer;
+  mimeType: string;
+  expected: ExpectedReport;
+}
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1] && !argv[i + 1].startsWith('--') ? argv[++i] : 'true';
+    }
+  }
+  return args;
+}
+
+async function loadCorpus(dir: string): Promise<CorpusEntry[]> {
+  const files = (await fs.readdir(dir)).sort();
+  const entries: CorpusEntry[] = [];
+
+  for (const file of files) {
+    const extension = path.extname(file).toLowerCase();
+    if (!REPORT_EXTENSIONS[extension]) continue;
+
+    const expectedFile = path.join(dir, `${path.basename(file, path.extname(file))}.expected.json`);
+    let expected: ExpectedReport;
+    try {
+      expected = JSON.parse(await fs.readFile(expectedFile, 'utf8'));
+    } catch (error) {
+      console.warn(`⚠️ Skipping ${file}: no readable ${path.basename(expectedFile)}`);
+      continue;
+    }
+
+    let buffer = await fs.readFile(path.join(dir, file));
+    let mimeType = REPORT_EXTENSIONS[extension];
+    if (extension === '.svg') {
+      buffer = await sharp(buffer, { density: 150 }).flatten({ background: '#ffffff' }).png().toBuffer();
+      mimeType = 'image/png';
+    }
+    entries.push({ file, buffer, mimeType, expected });
+  }
+  return entries;
+}
+
+// Engines alone, then all of them as an ensemble; each with every requested pipeline
+async function buildConfigs(engineArg: string | undefined, preprocessingArg: string): Promise<Config[]> {
+  const registry = OCREngineRegistry.getInstance();
+  let engines: string[];
+  if (engineArg) {
+    engines = engineArg.split(',').map(id => id.trim()).filter(Boolean);
+    for (const id of engines) {
+      if (!registry.get(id)) throw new Error(`Unknown OCR engine "${id}"`);
+      if (!await registry.isAvailable(id)) throw new Error(`OCR engine "${id}" is not available here`);
+    }
+  } else {
+    engines = (await registry.describe()).filter(engine => engine.enabled && engine.available).map(engine => engine.id);
+  }
+  if (engines.length === 0) throw new Error('No OCR engines available');
+
+  const pipelineNames = Object.keys(PREPROCESSING) as PreprocessingName[];
+  const preprocessing: Config['preprocessing'][] = preprocessingArg === 'all'
+    ? ['auto', ...pipelineNames]
+    : preprocessingArg.split(',').map(name => name.trim()) as Config['preprocessing'][];
+  for (const name of preprocessing) {
+    if (name !== 'auto' && !pipelineNames.includes(name)) {
+      throw new Error(`Unknown preprocessing "${name}" (known: auto, ${pipelineNames.join(', ')})`);
+    }
+  }
+
+  const engineSets = engines.length > 1 ? [...engines.map(id => [id]), engines] : [engines];
+  return engineSets.flatMap(set => preprocessing.map(name => ({
+    name: `${set.length > 1 ? 'ensemble' : set[0]}/${name}`,
+    engines: set,
+    preprocessing: name
+  })));
+}
+
+function metricKey(metric: { analyteId?: string; name?: string; metric?: string }): string {
+  return metric.analyteId || (metric.name || metric.metric || '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+// Spellings of the same unit ("10^3/uL", "10³/μL") compare equal
+function unitKey(unit: string): string {
+  return UnitConverter.getInstance().normalizeUnit(unit).toLowerCase().replace(/\s+/g, '');
+}
+
+function valueMatches(expected: number | string, metric: HealthMetric): boolean {
+  if (typeof expected === 'number') {
+    return !metric.valueText && Math.abs(metric.value - expected) <= Math.abs(expected) * 1e-6;
+  }
+  const actual = metric.valueText ?? String(metric.value);
+  return actual.toLowerCase().replace(/\s+/g, '') === expected.toLowerCase().replace(/\s+/g, '');
+}
+
+function emptyTally(): Tally {
+  return {
+    truePositives: 0, falsePositives: 0, falseNegatives: 0,
+    valueCorrect: 0, valueChecked: 0, unitCorrect: 0, unitChecked: 0, flagCorrect: 0, flagChecked: 0
+  };
+}
+
+/**
+ * Match extracted metrics to expected ones by analyte (or name when the
+ * catalogue doesn't know the test) and count what was found, missed,
+ * extracted by mistake, and read wrongly.
+ */
+function scoreDocument(file: string, expected: ExpectedMetric[], extracted: HealthMetric[], tallies: Map<string, Tally>): DocumentResult {
+  const tally = (key: string) => {
+    if (!tallies.has(key)) tallies.set(key, emptyTally());
+    return tallies.get(key)!;
+  };
+  const result: DocumentResult = {
+    file, expected: expected.length, extracted: extracted.length, missed: [], unexpected: [], wrong: [], timeMs: 0
+  };
+  const unmatched = [...extracted];
+
+  for (const want of expected) {
+    const key = metricKey(want);
+    const candidates = unmatched.filter(metric => metricKey(metric) === key);
+    // Prefer the reading with the right value when a test was extracted twice
+    const found = candidates.find(metric => valueMatches(want.value, metric)) || candidates[0];
+    const counts = tally(key);
+    if (!found) {
+      counts.falseNegatives++;
+      result.missed.push(key);
+      continue;
+    }
+    unmatched.splice(unmatched.indexOf(found), 1);
+    counts.truePositives++;
+
+    counts.valueChecked++;
+    if (valueMatches(want.value, found)) {
+      counts.valueCorrect++;
+    } else {
+      result.wrong.push({ analyte: key, field: 'value', expected: String(want.value), actual: found.valueText ?? String(found.value) });
+    }
+    if (want.unit !== undefined) {
+      counts.unitChecked++;
+      if (unitKey(want.unit) === unitKey(found.unit)) {
+        counts.unitCorrect++;
+      } else {
+        result.wrong.push({ analyte: key, field: 'unit', expected: want.unit, actual: found.unit });
+      }
+    }
+    if (want.flag) {
+      counts.flagChecked++;
+      if (want.flag === found.flag) {
+        counts.flagCorrect++;
+      } else {
+        result.wrong.push({ analyte: key, field: 'flag', expected: want.flag, actual: found.flag });
+      }
+    }
+  }
+
+  for (const metric of unmatched) {
+    const key = metricKey(metric);
+    tally(key).falsePositives++;
+    result.unexpected.push(key);
+  }
+  return result;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : null;
+}
+
+function scores(tally: Tally): Scores {
+  const precision = ratio(tally.truePositives, tally.truePositives + tally.falsePositives);
+  const recall = ratio(tally.truePositives, tally.truePositives + tally.falseNegatives);
+  return {
+    precision,
+    recall,
+    f1: precision !== null && recall !== null && precision + recall > 0
+      ? Math.round((2 * precision * recall / (precision + recall)) * 1000) / 1000
+      : null,
+    valueAccuracy: ratio(tally.valueCorrect, tally.valueChecked),
+    unitAccuracy: ratio(tally.unitCorrect, tally.unitChecked),
+    flagAccuracy: ratio(tally.flagCorrect, tally.flagChecked)
+  };
+}
+
+function sumTallies(tallies: Tally[]): Tally {
+  return tallies.reduce((total, tally) => {
+    for (const key of Object.keys(total) as (keyof Tally)[]) total[key] += tally[key];
+    return total;
+  }, emptyTally());
+}
+
+async function runConfig(config: Config, corpus: CorpusEntry[]): Promise<ConfigReport> {
+  const ocrService = LocalOCRService.getInstance();
+  const tallies = new Map<string, Tally>();
+  const results: DocumentResult[] = [];
+
+  for (const entry of corpus) {
+    const startTime = Date.now();
+    let metrics: HealthMetric[] = [];
+    let error: string | undefined;
+    try {
+      const result = await ocrService.processDocument(entry.buffer, entry.mimeType, {
+        engines: config.engines,
+        preferredEngine: config.engines.length > 1 ? 'ensemble' : undefined,
+        preprocessing: config.preprocessing === 'auto' ? undefined : [config.preprocessing],
+        extractHealthMetrics: true,
+        patient: entry.expected.patient
+      });
+      metrics = result.healthMetrics || [];
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+
+    const result = scoreDocument(entry.file, entry.expected.metrics, metrics, tallies);
+    result.timeMs = Date.now() - startTime;
+    if (error) result.error = error;
+    results.push(result);
+    console.log(`   ${error ? '❌' : '✅'} ${entry.file}: ${result.expected - result.missed.length}/${result.expected} found, ${result.wrong.length} wrong (${result.timeMs}ms)`);
+  }
+
+  const totalTimeMs = results.reduce((sum, result) => sum + result.timeMs, 0);
+  const analytes: ConfigReport['analytes'] = {};
+  for (const key of [...tallies.keys()].sort()) {
+    const tally = tallies.get(key)!;
+    analytes[key] = {
+      expected: tally.truePositives + tally.falseNegatives,
+      found: tally.truePositives,
+      ...scores(tally)
+    };
+  }
+
+  return {
+    config: config.name,
+    engines: config.engines,
+    preprocessing: config.preprocessing,
+    documents: results.length,
+    failed: results.filter(result => result.error).length,
+    ...scores(sumTallies([...tallies.values()])),
+    totalTimeMs,
+    meanTimeMs: results.length > 0 ? Math.round(totalTimeMs / results.length) : 0,
+    analytes,
+    results
+  };
+}
+
+function formatScore(value: number | null): string {
+  return value === null ? '–' : value.toFixed(3);
+}
+
+function toMarkdown(report: BenchmarkReport): string {
+  const lines = [
+    '# OCR Benchmark',
+    '',
+    `Corpus: \`${report.corpus}\``,
+    '',
+    '| Config | Precision | Recall | F1 | Value | Unit | Flag | Failed | Mean time |',
+    '|---|---|---|---|---|---|---|---|---|',
+    ...report.configs.map(config =>
+      `| ${config.config} | ${formatScore(config.precision)} | ${formatScore(config.recall)} | ${formatScore(config.f1)} | ` +
+      `${formatScore(config.valueAccuracy)} | ${formatScore(config.unitAccuracy)} | ${formatScore(config.flagAccuracy)} | ` +
+      `${config.failed}/${config.documents} | ${config.meanTimeMs}ms |`
+    )
+  ];
+
+  for (const config of report.configs) {
+    lines.push('', `## ${config.config}`, '', '| Analyte | Found | Precision | Recall | Value | Unit | Flag |', '|---|---|---|---|---|---|---|');
+    for (const [key, analyte] of Object.entries(config.analytes)) {
+      lines.push(
+        `| ${key} | ${analyte.found}/${analyte.expected} | ${formatScore(analyte.precision)} | ${formatScore(analyte.recall)} | ` +
+        `${formatScore(analyte.valueAccuracy)} | ${formatScore(analyte.unitAccuracy)} | ${formatScore(analyte.flagAccuracy)} |`
+      );
+    }
+
+    const problems = config.results.filter(result => result.error || result.missed.length || result.unexpected.length || result.wrong.length);
+    if (problems.length > 0) lines.push('');
+    for (const result of problems) {
+      const notes = [
+        result.error && `failed: ${result.error}`,
+        result.missed.length > 0 && `missed ${result.missed.join(', ')}`,
+        result.unexpected.length > 0 && `unexpected ${result.unexpected.join(', ')}`,
+        ...result.wrong.map(wrong => `${wrong.analyte} ${wrong.field} ${wrong.actual} (expected ${wrong.expected})`)
+      ].filter(Boolean);
+      lines.push(`- \`${result.file}\`: ${notes.join('; ')}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+// Scores that dropped since the baseline, overall and per analyte
+function findRegressions(baseline: BenchmarkReport, report: BenchmarkReport): string[] {
+  const fields: (keyof Scores)[] = ['precision', 'recall', 'valueAccuracy', 'unitAccuracy', 'flagAccuracy'];
+  const dropped = (before: number | null, after: number | null) =>
+    before !== null && (after === null || before - after > REGRESSION_TOLERANCE);
+  const regressions: string[] = [];
+
+  for (const config of report.configs) {
+    const previous = baseline.configs.find(candidate => candidate.config === config.config);
+    if (!previous) continue;
+    for (const field of fields) {
+      if (dropped(previous[field], config[field])) {
+        regressions.push(`${config.config} ${field}: ${formatScore(previous[field])} → ${formatScore(config[field])}`);
+      }
+    }
+    for (const [key, analyte] of Object.entries(previous.analytes)) {
+      const current = config.analytes[key];
+      for (const field of ['recall', 'valueAccuracy'] as const) {
+        if (current && dropped(analyte[field], current[field])) {
+          regressions.push(`${config.config} ${key} ${field}: ${formatScore(analyte[field])} → ${formatScore(current[field])}`);
+        }
+      }
+    }
+  }
+  return regressions;
+}
+
+async function runBenchmark() {
+  const args = parseArgs(process.argv.slice(2));
+  const corpusDir = path.resolve(args.corpus || path.join(__dirname, '../benchmarks/ocr/corpus'));
+  const outDir = path.resolve(args.out || path.join(__dirname, '../benchmarks/ocr/results'));
+
+  console.log('📏 OCR benchmark\n');
+  const corpus = await loadCorpus(corpusDir);
+  if (corpus.length === 0) throw new Error(`No reports with expected metrics in ${corpusDir}`);
+
+  await LocalOCRService.getInstance().initialize();
+  const configs = await buildConfigs(args.engines, args.preprocessing || 'auto');
+  console.log(`📄 ${corpus.length} reports, ${configs.length} configurations\n`);
+
+  const report: BenchmarkReport = { corpus: path.relative(process.cwd(), corpusDir) || '.', configs: [] };
+  for (const config of configs) {
+    console.log(`🔍 ${config.name}`);
+    const result = await runConfig(config, corpus);
+    report.configs.push(result);
+    console.log(`   precision ${formatScore(result.precision)}, recall ${formatScore(result.recall)}, value ${formatScore(result.valueAccuracy)}, ${result.meanTimeMs}ms per report\n`);
+  }
+
+  await fs.mkdir(outDir, { recursive: true });
+  await fs.writeFile(path.join(outDir, 'report.json'), `${JSON.stringify(report, null, 2)}\n`);
+  await fs.writeFile(path.join(outDir, 'report.md'), toMarkdown(report));
+  console.log(`📝 Wrote ${path.join(outDir, 'report.json')} and report.md`);
+
+  if (args.baseline) {
+    const baseline: BenchmarkReport = JSON.parse(await fs.readFile(path.resolve(args.baseline), 'utf8'));
+    const regressions = findRegressions(baseline, report);
+    if (regressions.length > 0) {
+      console.log(`\n📉 ${regressions.length} regressions against ${args.baseline}:`);
+      regressions.forEach(regression => console.log(`   • ${regression}`));
+      process.exitCode = 1;
+    } else {
+      console.log(`\n🎉 No regressions against ${args.baseline}`);
+    }
+  }
+}
+
+if (require.main === module) {
+  runBenchmark()
+    .catch(error => {
+      console.error('❌ Benchmark failed:', error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+    })
+    .finally(() => PythonWorkerPool.getInstance().stop());
+}
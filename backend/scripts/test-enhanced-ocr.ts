@@ -2,6 +2,7 @@
 
 import sharp from 'sharp';
 import { LocalOCRService } from '../src/services/ocr/LocalOCRService';
+import { HealthMetricExtractor } from '../src/services/ocr/HealthMetricExtractor';
 import { logger } from '../src/utils/logger';
 
 async function testEnhancedOCR() {
@@ -42,7 +43,7 @@ async function testEnhancedOCR() {
         console.log(`   Text Length: ${result.text.length} characters`);
         
         // Extract health metrics from the result
-        const metrics = ocrService.extractHealthMetrics(result.text);
+        const metrics = HealthMetricExtractor.getInstance().extractHealthMetrics(result.text);
         console.log(`   Health Metrics Extracted: ${metrics.length}`);
         
         if (metrics.length > 0) {
@@ -113,10 +113,12 @@ export class AuthController {
       name: z.string().optional(),
       dateOfBirth: z.string().optional(),
       gender: z.string().optional(),
-      bloodGroup: z.string().optional()
+      bloodGroup: z.string().optional(),
+      // Used to pick pregnancy reference ranges; null clears it
+      pregnancyTrimester: z.number().int().min(1).max(3).nullable().optional()
     });
     
-    const data = updateSchema.parse(req.body);
+    const { pregnancyTrimester, ...data } = updateSchema.parse(req.body);
     
     try {
       const prisma = DatabaseService.getInstance().getClient();
@@ -129,6 +131,16 @@ export class AuthController {
         }
       });
       
+      if (pregnancyTrimester !== undefined) {
+        // The trimester moves on from when it was set, so reports are read as of their own date
+        const pregnancy = { pregnancyTrimester, pregnancyRecordedAt: pregnancyTrimester === null ? null : new Date() };
+        await prisma.healthProfile.upsert({
+          where: { userId: req.user.id },
+          create: { userId: req.user.id, ...pregnancy },
+          update: pregnancy
+        });
+      }
+      
       res.json({
         success: true,
         message: 'Profile updated successfully',
@@ -139,7 +151,8 @@ export class AuthController {
           role: updatedUser.role,
           dateOfBirth: updatedUser.dateOfBirth,
           gender: updatedUser.gender,
-          bloodGroup: updatedUser.bloodGroup
+          bloodGroup: updatedUser.bloodGroup,
+          pregnancyTrimester
         }
       });
       
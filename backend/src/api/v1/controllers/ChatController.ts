@@ -6,6 +6,8 @@ import { AppError, asyncHandler } from '../../../middlewares/errorHandler';
 import { AIService } from '../../../services/ai/AIService';
 import { DatabaseService } from '../../../services/database/DatabaseService';
 
+const SSE_HEARTBEAT_MS = 15000;
+
 const chatMessageSchema = z.object({
   message: z.string().min(1).max(1000),
   sessionId: z.string().optional(),
@@ -26,73 +28,9 @@ export class ChatController {
     const userId = req.user?.id || 'demo-user';
 
     try {
-      const aiService = AIService.getInstance();
-      const dbService = DatabaseService.getInstance();
-      const prisma = dbService.getClient();
-
-      // Get user's health context
-      let healthContext = '';
-      if (context?.reportId) {
-        const report = await prisma.report.findUnique({
-          where: { id: context.reportId },
-          include: { metrics: true, analysis: true }
-        });
-        
-        if (report) {
-          healthContext = `Current report shows: ${report.metrics.map(m => 
-            `${m.metric}: ${m.value} ${m.unit}`).join(', ')}`;
-        }
-      }
-
-      // Get chat history
-      const chatHistory = await prisma.chatMessage.findMany({
-        where: { sessionId, userId },
-        orderBy: { createdAt: 'asc' },
-        take: 10
-      });
-
-      // Build conversation context
-      const conversationContext = chatHistory.map(msg => 
-        `${msg.role}: ${msg.content}`
-      ).join('\n');
-
-      // Generate AI response
-      const prompt = `You are a helpful health assistant for an Indian health app. 
-        You help users understand their blood test results and provide health advice.
-        
-        Previous conversation:
-        ${conversationContext}
-        
-        User's health context:
-        ${healthContext}
-        
-        User message: ${message}
-        
-        Provide helpful, accurate health information. If discussing test results, 
-        explain in simple terms. For serious concerns, recommend consulting a doctor.
-        Keep responses concise and relevant to Indian dietary and lifestyle context.`;
-
-      const aiResponse = await aiService.generateResponse(prompt);
-
-      // Save messages to database
-      await prisma.chatMessage.createMany({
-        data: [
-          {
-            id: uuidv4(),
-            sessionId,
-            userId,
-            role: 'user',
-            content: message
-          },
-          {
-            id: uuidv4(),
-            sessionId,
-            userId,
-            role: 'assistant',
-            content: aiResponse.response
-          }
-        ]
-      });
+      const prompt = await ChatController.buildPrompt(message, sessionId, userId, context);
+      const aiResponse = await AIService.getInstance().generateResponse(prompt);
+      await ChatController.saveExchange(sessionId, userId, message, aiResponse.response);
 
       res.json({
         success: true,
@@ -107,6 +45,76 @@ export class ChatController {
     }
   });
 
+  /**
+   * sendMessage as server-sent events: a `token` event for each piece of
+   * the answer as the model writes it, then `done` once it's saved, or
+   * `error`. The exchange is saved only when the answer completes; closing
+   * the connection stops the model and saves nothing.
+   */
+  static streamMessage = asyncHandler(async (req: Request, res: Response) => {
+    const validation = chatMessageSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError('Invalid message format', 400);
+    }
+
+    const { message, sessionId = uuidv4(), context } = validation.data;
+    const userId = req.user?.id || 'demo-user';
+    const prompt = await ChatController.buildPrompt(message, sessionId, userId, context);
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // Stops nginx holding events back
+    });
+    res.flushHeaders();
+
+    const controller = new AbortController();
+    let closed = false;
+    const send = (type: string, data: unknown) => {
+      if (!closed) res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // Proxies drop connections that stay quiet, e.g. while a provider times out
+    const heartbeat = setInterval(() => { if (!closed) res.write(': keep-alive\n\n'); }, SSE_HEARTBEAT_MS);
+    const finish = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      res.end();
+    };
+    // The request body has been read by now, so only the response notices the client leaving
+    res.on('close', () => {
+      if (!closed) controller.abort();
+      finish();
+    });
+
+    let response = '';
+    try {
+      const { chunks } = await AIService.getInstance().streamResponse(prompt, controller.signal);
+      for await (const chunk of chunks) {
+        response += chunk;
+        send('token', { text: chunk });
+      }
+
+      const messageId = await ChatController.saveExchange(sessionId, userId, message, response);
+      send('done', { sessionId, messageId, timestamp: new Date().toISOString() });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        logger.info(`🛑 Chat answer for session ${sessionId} stopped by the client after ${response.length} characters`);
+      } else {
+        logger.error(`Chat stream error: ${error instanceof Error ? error.message : error}`);
+        send('error', {
+          error: error instanceof AppError && response.length === 0
+            ? "I'm having trouble processing your request right now. Please try again in a moment."
+            : 'Failed to process chat message'
+        });
+      }
+    } finally {
+      finish();
+    }
+  });
+
   static getChatHistory = asyncHandler(async (req: Request, res: Response) => {
     const { sessionId } = req.params;
     const userId = req.user?.id || 'demo-user';
@@ -183,4 +191,81 @@ export class ChatController {
       throw new AppError('Failed to generate health insights', 500);
     }
   });
-}
\ No newline at end of file
+
+  // The prompt for a chat answer: recent conversation, the report's metrics if one is given, and the message
+  private static async buildPrompt(
+    message: string,
+    sessionId: string,
+    userId: string,
+    context?: z.infer<typeof chatMessageSchema>['context']
+  ): Promise<string> {
+    const prisma = DatabaseService.getInstance().getClient();
+
+    // Get user's health context
+    let healthContext = '';
+    if (context?.reportId) {
+      const report = await prisma.report.findUnique({
+        where: { id: context.reportId },
+        include: { metrics: true, analysis: true }
+      });
+      
+      if (report) {
+        healthContext = `Current report shows: ${report.metrics.map(m => 
+          `${m.metric}: ${m.value} ${m.unit}`).join(', ')}`;
+      }
+    }
+
+    // Get chat history
+    const chatHistory = await prisma.chatMessage.findMany({
+      where: { sessionId, userId },
+      orderBy: { createdAt: 'asc' },
+      take: 10
+    });
+
+    // Build conversation context
+    const conversationContext = chatHistory.map(msg => 
+      `${msg.role}: ${msg.content}`
+    ).join('\n');
+
+    return `You are a helpful health assistant for an Indian health app. 
+      You help users understand their blood test results and provide health advice.
+      
+      Previous conversation:
+      ${conversationContext}
+      
+      User's health context:
+      ${healthContext}
+      
+      User message: ${message}
+      
+      Provide helpful, accurate health information. If discussing test results, 
+      explain in simple terms. For serious concerns, recommend consulting a doctor.
+      Keep responses concise and relevant to Indian dietary and lifestyle context.`;
+  }
+
+  // Saves the message and its answer, returning the answer's id
+  private static async saveExchange(sessionId: string, userId: string, message: string, response: string): Promise<string> {
+    const prisma = DatabaseService.getInstance().getClient();
+    const messageId = uuidv4();
+
+    await prisma.chatMessage.createMany({
+      data: [
+        {
+          id: uuidv4(),
+          sessionId,
+          userId,
+          role: 'user',
+          content: message
+        },
+        {
+          id: messageId,
+          sessionId,
+          userId,
+          role: 'assistant',
+          content: response
+        }
+      ]
+    });
+    return messageId;
+  }
+}
@@ -3,7 +3,11 @@ import { logger } from '../../../utils/logger';
 import { asyncHandler } from '../../../middlewares/errorHandler';
 import { DatabaseService } from '../../../services/database/DatabaseService';
 import { AIService } from '../../../services/ai/AIService';
+import { AIProviderRegistry } from '../../../services/ai/providers/AIProviderRegistry';
 import { StorageService } from '../../../services/storage/StorageService';
+import { PythonWorkerPool } from '../../../services/workers/PythonWorkerPool';
+import { OCREngineRegistry } from '../../../services/ocr/engines/OCREngineRegistry';
+import { config } from '../../../config';
 
 export class HealthController {
   static healthCheck = asyncHandler(async (req: Request, res: Response) => {
@@ -47,7 +51,12 @@ export class HealthController {
       services: {
         database: database.status === 'fulfilled' ? database.value : { status: 'error', error: 'Service check failed' },
         ai: ai.status === 'fulfilled' ? ai.value : { status: 'error', error: 'Service check failed' },
-        storage: storage.status === 'fulfilled' ? storage.value : { status: 'error', error: 'Service check failed' }
+        storage: storage.status === 'fulfilled' ? storage.value : { status: 'error', error: 'Service check failed' },
+        // Informational: Tesseract is always there to fall back on
+        ocr: {
+          policy: config.ocr.policy,
+          engines: await OCREngineRegistry.getInstance().describe()
+        }
       },
       system: {
         memory: {
@@ -57,7 +66,9 @@ export class HealthController {
         },
         cpu: process.cpuUsage(),
         platform: process.platform,
-        nodeVersion: process.version
+        nodeVersion: process.version,
+        // Started on first use, so none until EasyOCR, PaddleOCR or transformers is needed
+        pythonWorkers: PythonWorkerPool.getInstance().getStats()
       }
     });
   });
@@ -115,17 +126,22 @@ export class HealthController {
     try {
       const aiService = AIService.getInstance();
       const isHealthy = await aiService.healthCheck();
+      // In the order they're tried; an open circuit means the provider is being skipped
+      const providers = (await AIProviderRegistry.getInstance().describe())
+        .filter(provider => provider.enabled)
+        .sort((a, b) => config.ai.providers.indexOf(a.id) - config.ai.providers.indexOf(b.id));
       
       if (isHealthy) {
         return {
           status: 'ok',
-          message: 'AI service (Ollama) is responsive',
-          model: process.env.OLLAMA_MODEL || 'llama3.2:latest'
+          message: 'AI service is responsive',
+          providers
         };
       } else {
         return {
           status: 'error',
-          message: 'AI service not responding'
+          message: 'No AI provider is responding; analyses are rule-based',
+          providers
         };
       }
     } catch (error) {
@@ -4,6 +4,13 @@ import { logger } from '../../../utils/logger';
 import { AppError, asyncHandler } from '../../../middlewares/errorHandler';
 import { DatabaseService } from '../../../services/database/DatabaseService';
 import { StorageService } from '../../../services/storage/StorageService';
+import { AIService } from '../../../services/ai/AIService';
+import { HealthMetricExtractor } from '../../../services/ocr/HealthMetricExtractor';
+import { PRINTED_RANGE_SOURCE, ReferenceRangeService } from '../../../services/analytes/ReferenceRangeService';
+import { CorrectionService, MetricSnapshot } from '../../../services/corrections/CorrectionService';
+import { DERIVED_METHOD, DerivedIndexService } from '../../../services/analytes/DerivedIndexService';
+import { ReportProcessor, fromMetricRecord, toAnalysisMetric, toMetricRecord } from '../../../services/reports/ReportProcessor';
+import { describeReportMetadata, testDateOf } from '../../../services/reports/reportMetadata';
 
 const getReportsSchema = z.object({
   page: z.string().optional().transform(val => val ? parseInt(val, 10) : 1),
@@ -12,6 +19,46 @@ const getReportsSchema = z.object({
   userId: z.string().optional()
 });
 
+const metricFieldsSchema = z.object({
+  metric: z.string().trim().min(1).max(100),
+  value: z.coerce.string().trim().min(1).max(50), // As printed: "12.5", "Nil", "2+", "<0.5"
+  unit: z.string().trim().max(30).optional(),
+  category: z.string().trim().min(1).max(50).optional(),
+  normalMin: z.number().finite().nullable().optional(),
+  normalMax: z.number().finite().nullable().optional(),
+  referenceText: z.string().trim().max(50).nullable().optional()
+});
+
+const validRange = (input: { normalMin?: number | null; normalMax?: number | null }) =>
+  input.normalMin == null || input.normalMax == null || input.normalMin <= input.normalMax;
+
+const createMetricSchema = metricFieldsSchema
+  .refine(validRange, { message: 'normalMin must not exceed normalMax' });
+
+const updateMetricSchema = metricFieldsSchema.partial()
+  .refine(input => Object.values(input).some(value => value !== undefined), { message: 'No changes provided' })
+  .refine(validRange, { message: 'normalMin must not exceed normalMax' });
+
+type MetricFields = z.infer<typeof metricFieldsSchema>;
+
+// Header details as printed; null or an empty string clears one
+const detailText = (max: number) => z.string().trim().max(max).nullable().optional().transform(value => value === '' ? null : value);
+const detailDate = z.coerce.date()
+  .refine(date => date.getTime() <= Date.now() + 24 * 60 * 60 * 1000, { message: 'Date is in the future' })
+  .nullable()
+  .optional();
+
+const reportDetailsSchema = z.object({
+  collectedAt: detailDate,
+  reportedAt: detailDate,
+  labName: detailText(120),
+  patientName: detailText(100),
+  patientAge: detailText(20),
+  patientSex: z.enum(['male', 'female']).nullable().optional(),
+  referringDoctor: detailText(100),
+  sampleId: detailText(50)
+}).refine(input => Object.values(input).some(value => value !== undefined), { message: 'No changes provided' });
+
 export class ReportsController {
   static getReports = asyncHandler(async (req: Request, res: Response) => {
     const { page, limit, status } = getReportsSchema.parse(req.query);
@@ -103,9 +150,13 @@ export class ReportsController {
         where: { id },
         include: {
           analysis: true,
+          files: {
+            orderBy: { position: 'asc' }
+          },
           metrics: {
             orderBy: [{ category: 'asc' }, { metric: 'asc' }]
-          }
+          },
+          user: { select: { name: true, gender: true } }
         }
       });
       
@@ -122,7 +173,8 @@ export class ReportsController {
         throw new AppError('Authentication required', 401);
       }
       
-      res.json(report);
+      const { user, ...rest } = report;
+      res.json({ ...rest, ...describeReportMetadata(report) });
       
     } catch (error) {
       if (error instanceof AppError) throw error;
@@ -146,9 +198,10 @@ export class ReportsController {
       const prisma = DatabaseService.getInstance().getClient();
       const storageService = StorageService.getInstance();
       
-      // Get report to find file path
+      // Get report to find its files' paths
       const report = await prisma.report.findUnique({
-        where: { id }
+        where: { id },
+        include: { files: true }
       });
       
       if (!report) {
@@ -165,13 +218,16 @@ export class ReportsController {
         where: { id }
       });
       
-      // Delete file from storage
-      try {
-        const filePath = report.fileUrl.replace('/uploads/', '');
-        const fullPath = `${storageService.getUploadPath()}/${filePath}`;
-        await storageService.deleteFile(fullPath);
-      } catch (fileError) {
-        logger.warn('Failed to delete file from storage:', fileError);
+      // Delete files from storage; reports from before multi-file uploads only have fileUrl
+      const fileUrls: string[] = report.files.length > 0 ? report.files.map((file: any) => file.fileUrl) : [report.fileUrl];
+      for (const fileUrl of fileUrls) {
+        try {
+          const filePath = fileUrl.replace('/uploads/', '');
+          const fullPath = `${storageService.getUploadPath()}/${filePath}`;
+          await storageService.deleteFile(fullPath);
+        } catch (fileError) {
+          logger.warn('Failed to delete file from storage:', fileError);
+        }
       }
       
       logger.info(`🗑️ Report deleted: ${id}`);
@@ -297,4 +353,248 @@ export class ReportsController {
       throw new AppError('Failed to fetch report analysis', 500);
     }
   });
-}
\ No newline at end of file
+  
+  static getReportCorrections = asyncHandler(async (req: Request, res: Response) => {
+    const report = await ReportsController.getEditableReport(req);
+    
+    try {
+      const corrections = await CorrectionService.getInstance().getCorrections(report.id);
+      res.json({
+        reportId: report.id,
+        total: corrections.length,
+        corrections
+      });
+    } catch (error) {
+      logger.error('Get report corrections error:', error);
+      throw new AppError('Failed to fetch report corrections', 500);
+    }
+  });
+  
+  static addMetric = asyncHandler(async (req: Request, res: Response) => {
+    const report = await ReportsController.getEditableReport(req);
+    const input = createMetricSchema.parse(req.body);
+    const data = await ReportsController.evaluateMetric(report.userId, input);
+    
+    try {
+      const prisma = DatabaseService.getInstance().getClient();
+      const metric = await prisma.healthMetric.create({
+        data: { ...data, reportId: report.id, correctedAt: new Date() }
+      });
+      
+      await CorrectionService.getInstance().recordCorrection(
+        report, metric.id, 'CREATE', null, ReportsController.toSnapshot(metric), req.user!.id
+      );
+      logger.info(`✏️ Metric added to report ${report.id}: ${metric.metric}`);
+      
+      const analysis = await ReportsController.refreshAnalysis(report);
+      res.status(201).json({ metric, analysis });
+    } catch (error) {
+      logger.error('Add metric error:', error);
+      throw new AppError('Failed to add metric', 500);
+    }
+  });
+  
+  static updateMetric = asyncHandler(async (req: Request, res: Response) => {
+    const report = await ReportsController.getEditableReport(req);
+    const input = updateMetricSchema.parse(req.body);
+    const existing = await ReportsController.getReportMetric(report.id, req.params.metricId);
+    
+    // A printed range still applies to the corrected value; demographic ones are picked again
+    const printed = existing.rangeSource === PRINTED_RANGE_SOURCE;
+    const data = await ReportsController.evaluateMetric(report.userId, {
+      metric: input.metric ?? existing.metric,
+      value: input.value ?? existing.value,
+      unit: input.unit ?? existing.unit,
+      category: input.category ?? (input.metric && input.metric !== existing.metric ? undefined : existing.category),
+      normalMin: input.normalMin !== undefined ? input.normalMin : printed ? existing.normalMin : null,
+      normalMax: input.normalMax !== undefined ? input.normalMax : printed ? existing.normalMax : null,
+      referenceText: input.referenceText !== undefined ? input.referenceText : printed ? existing.referenceText : null
+    });
+    
+    try {
+      const prisma = DatabaseService.getInstance().getClient();
+      const metric = await prisma.healthMetric.update({
+        where: { id: existing.id },
+        data: {
+          ...data,
+          // Extracted values are kept from the first edit on, for audit
+          ...(existing.correctedAt ? {} : { originalName: existing.metric, originalValue: existing.value }),
+          correctedAt: new Date()
+        }
+      });
+      
+      await CorrectionService.getInstance().recordCorrection(
+        report, metric.id, 'UPDATE', ReportsController.toSnapshot(existing), ReportsController.toSnapshot(metric), req.user!.id
+      );
+      logger.info(`✏️ Metric corrected on report ${report.id}: ${existing.metric} ${existing.value} -> ${metric.metric} ${metric.value}`);
+      
+      const analysis = await ReportsController.refreshAnalysis(report);
+      res.json({ metric, analysis });
+    } catch (error) {
+      logger.error('Update metric error:', error);
+      throw new AppError('Failed to update metric', 500);
+    }
+  });
+  
+  static deleteMetric = asyncHandler(async (req: Request, res: Response) => {
+    const report = await ReportsController.getEditableReport(req);
+    const existing = await ReportsController.getReportMetric(report.id, req.params.metricId);
+    
+    try {
+      const prisma = DatabaseService.getInstance().getClient();
+      await prisma.healthMetric.delete({ where: { id: existing.id } });
+      
+      await CorrectionService.getInstance().recordCorrection(
+        report, existing.id, 'DELETE', ReportsController.toSnapshot(existing), null, req.user!.id
+      );
+      logger.info(`🗑️ Metric deleted from report ${report.id}: ${existing.metric}`);
+      
+      const analysis = await ReportsController.refreshAnalysis(report);
+      res.json({ message: 'Metric deleted successfully', id: existing.id, analysis });
+    } catch (error) {
+      logger.error('Delete metric error:', error);
+      throw new AppError('Failed to delete metric', 500);
+    }
+  });
+  
+  /**
+   * Correct the details read from the report header. Unchanged fields are
+   * kept; the timeline date follows the collection and report dates.
+   */
+  static updateDetails = asyncHandler(async (req: Request, res: Response) => {
+    const report = await ReportsController.getEditableReport(req);
+    const input = reportDetailsSchema.parse(req.body);
+    
+    try {
+      const prisma = DatabaseService.getInstance().getClient();
+      const testDate = testDateOf({
+        collectedAt: input.collectedAt !== undefined ? input.collectedAt : report.collectedAt,
+        reportedAt: input.reportedAt !== undefined ? input.reportedAt : report.reportedAt
+      }, report.uploadDate);
+      const updated = await prisma.report.update({
+        where: { id: report.id },
+        data: { ...input, testDate },
+        include: { user: { select: { name: true, gender: true } } }
+      });
+      
+      logger.info(`✏️ Details corrected on report ${report.id}: ${Object.entries(input).filter(([, value]) => value !== undefined).map(([field]) => field).join(', ')}`);
+      res.json({ id: updated.id, ...describeReportMetadata(updated) });
+    } catch (error) {
+      logger.error('Update report details error:', error);
+      throw new AppError('Failed to update report details', 500);
+    }
+  });
+  
+  // Report the current user may edit, with what learning, re-analysis and detail edits need
+  private static async getEditableReport(req: Request) {
+    const { id } = req.params;
+    
+    if (!id) {
+      throw new AppError('Report ID required', 400);
+    }
+    
+    if (!req.user) {
+      throw new AppError('Authentication required', 401);
+    }
+    
+    const prisma = DatabaseService.getInstance().getClient();
+    const report = await prisma.report.findUnique({
+      where: { id },
+      select: {
+        id: true, userId: true, labKey: true, extractedText: true,
+        uploadDate: true, collectedAt: true, reportedAt: true, testDate: true
+      }
+    });
+    
+    if (!report) {
+      throw new AppError('Report not found', 404);
+    }
+    
+    if (req.user.role !== 'admin' && report.userId !== req.user.id) {
+      throw new AppError('Access denied', 403);
+    }
+    
+    return report;
+  }
+  
+  private static async getReportMetric(reportId: string, metricId?: string) {
+    const prisma = DatabaseService.getInstance().getClient();
+    const metric = metricId ? await prisma.healthMetric.findUnique({ where: { id: metricId } }) : null;
+    
+    if (!metric || metric.reportId !== reportId) {
+      throw new AppError('Metric not found', 404);
+    }
+    
+    return metric;
+  }
+  
+  // Flag and normalize entered values the way extraction would, for the report owner
+  private static async evaluateMetric(userId: string, input: MetricFields) {
+    const patient = await ReferenceRangeService.getInstance().getPatientContext(userId);
+    const normalRange = input.normalMin != null && input.normalMax != null
+      ? [input.normalMin, input.normalMax]
+      : undefined;
+    
+    const metric = HealthMetricExtractor.getInstance().evaluateMetric({
+      name: input.metric,
+      value: input.value,
+      unit: input.unit,
+      normalRange,
+      referenceText: input.referenceText || undefined
+    }, patient);
+    
+    if (!metric) {
+      throw new AppError(`Could not read "${input.value}" as a result for ${input.metric}`, 400);
+    }
+    
+    return { ...toMetricRecord(metric), category: input.category || metric.category };
+  }
+  
+  private static toSnapshot(metric: any): MetricSnapshot {
+    return {
+      metric: metric.metric,
+      analyteId: metric.analyteId,
+      value: metric.value,
+      unit: metric.unit,
+      normalMin: metric.normalMin,
+      normalMax: metric.normalMax,
+      referenceText: metric.referenceText,
+      flag: metric.flag
+    };
+  }
+  
+  // Calculated indices follow the values they're calculated from
+  private static async refreshDerived(report: { id: string; userId: string; testDate?: Date | null; uploadDate: Date }) {
+    const prisma = DatabaseService.getInstance().getClient();
+    const patient = await ReferenceRangeService.getInstance().getPatientContext(report.userId, report.testDate ?? report.uploadDate);
+    // Earlier calculations among them are left out of the new ones
+    const rows = await prisma.healthMetric.findMany({ where: { reportId: report.id } });
+    const derived = DerivedIndexService.getInstance().derive(rows.map(fromMetricRecord), patient);
+    
+    await prisma.$transaction([
+      prisma.healthMetric.deleteMany({ where: { reportId: report.id, extractionMethod: DERIVED_METHOD } }),
+      ...derived.map(metric => prisma.healthMetric.create({ data: { ...toMetricRecord(metric), reportId: report.id } }))
+    ]);
+  }
+  
+  /**
+   * Recalculate indices and the health score from the corrected flags, and
+   * queue the AI analysis to run again on the corrected metrics. The
+   * previous analysis is shown until the new one is ready.
+   */
+  private static async refreshAnalysis(report: { id: string; userId: string; testDate?: Date | null; uploadDate: Date }) {
+    const prisma = DatabaseService.getInstance().getClient();
+    
+    await ReportsController.refreshDerived(report);
+    const rows = await prisma.healthMetric.findMany({ where: { reportId: report.id } });
+    const healthScore = AIService.getInstance().calculateHealthScore(rows.map(toAnalysisMetric));
+    await prisma.$transaction([
+      prisma.analysis.updateMany({ where: { reportId: report.id }, data: { healthScore } }),
+      // The analysis no longer matches the values, so it isn't reused
+      prisma.report.update({ where: { id: report.id }, data: { metricsHash: null } })
+    ]);
+    
+    await ReportProcessor.getInstance().reanalyze(report.id);
+    return { healthScore, reanalyzing: true };
+  }
+}
@@ -4,6 +4,7 @@ import { logger } from '../../../utils/logger';
 import { AppError, asyncHandler } from '../../../middlewares/errorHandler';
 import { DatabaseService } from '../../../services/database/DatabaseService';
 import { AIService } from '../../../services/ai/AIService';
+import { AnalyteCatalog } from '../../../services/analytes/AnalyteCatalog';
 
 const timelineQuerySchema = z.object({
   startDate: z.string().optional(),
@@ -12,6 +13,26 @@ const timelineQuerySchema = z.object({
   groupBy: z.enum(['day', 'week', 'month', 'quarter']).optional()
 });
 
+// Health score areas, by analyte catalogue category
+const SCORE_AREAS: Record<string, string> = {
+  'Lipid Profile': 'cardiovascular',
+  'Cardiac Markers': 'cardiovascular',
+  'Blood Sugar': 'metabolic',
+  'Liver Function': 'liver',
+  'Kidney Function': 'kidney',
+  'Complete Blood Count': 'blood'
+};
+
+// Reports sit on the timeline by when the tests were done; ones processed
+// before that date was read only have their upload date
+const reportDate = (report: { testDate?: Date | null; uploadDate: Date }): Date => report.testDate ?? report.uploadDate;
+const byReportDate = (a: { testDate?: Date | null; uploadDate: Date }, b: { testDate?: Date | null; uploadDate: Date }) =>
+  new Date(reportDate(a)).getTime() - new Date(reportDate(b)).getTime();
+
+function reportDateFilter(range: { gte?: Date; lte?: Date }) {
+  return { OR: [{ testDate: range }, { testDate: null, uploadDate: range }] };
+}
+
 export class TimelineController {
   static getHealthTimeline = asyncHandler(async (req: Request, res: Response) => {
     const userId = req.user?.id || 'demo-user';
@@ -26,26 +47,35 @@ export class TimelineController {
     try {
       const dbService = DatabaseService.getInstance();
       const prisma = dbService.getClient();
+      const catalog = AnalyteCatalog.getInstance();
+
+      // Filter by analyte so every printed name of a test is included
+      const filterAnalyteIds = (filterMetrics || [])
+        .map(name => catalog.resolve(name)?.id)
+        .filter((id): id is string => !!id);
 
       // Get reports within date range
       const reports = await prisma.report.findMany({
         where: {
           userId,
-          uploadDate: {
+          ...reportDateFilter({
             gte: startDate ? new Date(startDate) : undefined,
             lte: endDate ? new Date(endDate) : undefined
-          }
+          })
         },
         include: {
           metrics: filterMetrics ? {
             where: {
-              metric: { in: filterMetrics }
+              OR: [
+                { analyteId: { in: filterAnalyteIds } },
+                { metric: { in: filterMetrics } }
+              ]
             }
           } : true,
           analysis: true
-        },
-        orderBy: { uploadDate: 'asc' }
+        }
       });
+      reports.sort(byReportDate);
 
       // Process timeline data
       const timeline = processTimelineData(reports, groupBy);
@@ -56,10 +86,10 @@ export class TimelineController {
         summary: {
           totalReports: reports.length,
           dateRange: {
-            start: reports[0]?.uploadDate || null,
-            end: reports[reports.length - 1]?.uploadDate || null
+            start: reports.length > 0 ? reportDate(reports[0]) : null,
+            end: reports.length > 0 ? reportDate(reports[reports.length - 1]) : null
           },
-          metricsTracked: [...new Set(reports.flatMap(r => r.metrics.map(m => m.metric)))]
+          metricsTracked: [...new Set(reports.flatMap(r => r.metrics.map(m => getMetricName(m))))]
         }
       });
 
@@ -81,20 +111,33 @@ export class TimelineController {
       const dbService = DatabaseService.getInstance();
       const prisma = dbService.getClient();
       const aiService = AIService.getInstance();
+      const catalog = AnalyteCatalog.getInstance();
+
+      // The route accepts an analyte ID or any printed name of the test
+      const analyte = catalog.get(metric) || catalog.resolve(metric);
 
       // Get all values for this metric
-      const metricData = await prisma.healthMetric.findMany({
+      const rows = await prisma.healthMetric.findMany({
         where: {
-          metric,
-          report: { userId }
+          report: { userId },
+          valueType: 'numeric', // "Nil" or "2+" can't be trended as numbers
+          numericValue: { not: null },
+          ...(analyte
+            ? { OR: [{ analyteId: analyte.id }, { analyteId: null }] }
+            : { metric })
         },
         include: {
           report: {
-            select: { uploadDate: true }
+            select: { uploadDate: true, testDate: true }
           }
-        },
-        orderBy: { report: { uploadDate: 'asc' } }
+        }
       });
+      rows.sort((a: any, b: any) => byReportDate(a.report, b.report));
+
+      // Metrics saved before the catalogue existed have no analyte ID yet
+      const metricData = analyte
+        ? rows.filter(m => m.analyteId === analyte.id || (!m.analyteId && catalog.resolve(m.metric)?.id === analyte.id))
+        : rows;
 
       if (metricData.length < 2) {
         return res.json({
@@ -104,9 +147,9 @@ export class TimelineController {
         });
       }
 
-      // Calculate trend statistics
-      const values = metricData.map(m => parseFloat(m.value));
-      const dates = metricData.map(m => m.report.uploadDate);
+      // Calculate trend statistics on normalized values so units don't mix
+      const values = metricData.map(m => getComparableValue(m).value);
+      const dates = metricData.map(m => reportDate(m.report));
       
       const trend = calculateTrend(values);
       const statistics = {
@@ -121,11 +164,10 @@ export class TimelineController {
 
       // Get AI interpretation
       const prompt = `Analyze this health metric trend:
-        Metric: ${metric}
+        Metric: ${analyte?.name || metric}
         Values over time: ${JSON.stringify(metricData.map(m => ({
-          date: m.report.uploadDate,
-          value: m.value,
-          unit: m.unit,
+          date: reportDate(m.report),
+          ...getComparableValue(m),
           flag: m.flag
         })))}
         
@@ -135,11 +177,13 @@ export class TimelineController {
 
       res.json({
         success: true,
-        metric,
+        metric: analyte?.name || metric,
+        analyte: analyte ? { id: analyte.id, loinc: analyte.loinc, name: analyte.name } : null,
         dataPoints: metricData.map(m => ({
-          date: m.report.uploadDate,
-          value: parseFloat(m.value),
-          unit: m.unit,
+          date: reportDate(m.report),
+          ...getComparableValue(m),
+          originalValue: m.value,
+          originalUnit: m.unit,
           flag: m.flag
         })),
         statistics,
@@ -161,11 +205,12 @@ export class TimelineController {
       const aiService = AIService.getInstance();
 
       // Get latest report with all metrics
-      const latestReport = await prisma.report.findFirst({
+      const reports = await prisma.report.findMany({
         where: { userId },
-        include: { metrics: true, analysis: true },
-        orderBy: { uploadDate: 'desc' }
+        include: { metrics: true, analysis: true }
       });
+      reports.sort((a: any, b: any) => byReportDate(b, a));
+      const latestReport = reports[0];
 
       if (!latestReport) {
         return res.json({
@@ -178,18 +223,12 @@ export class TimelineController {
       // Calculate health score based on metrics
       const healthScore = calculateHealthScore(latestReport.metrics);
 
-      // Get historical scores for trend
-      const historicalReports = await prisma.report.findMany({
-        where: { userId },
-        include: { analysis: true },
-        orderBy: { uploadDate: 'desc' },
-        take: 10
-      });
-
-      const scoreHistory = historicalReports
+      // Historical scores for trend
+      const scoreHistory = reports
+        .slice(0, 10)
         .filter(r => r.analysis?.healthScore)
         .map(r => ({
-          date: r.uploadDate,
+          date: reportDate(r),
           score: r.analysis!.healthScore
         }));
 
@@ -219,7 +258,7 @@ function processTimelineData(reports: any[], groupBy: string) {
   const grouped: { [key: string]: any[] } = {};
   
   reports.forEach(report => {
-    const date = new Date(report.uploadDate);
+    const date = new Date(reportDate(report));
     let key: string;
     
     switch (groupBy) {
@@ -258,18 +297,25 @@ function aggregateMetrics(reports: any[]) {
   
   reports.forEach(report => {
     report.metrics.forEach((metric: any) => {
-      if (!metrics[metric.metric]) {
-        metrics[metric.metric] = {
+      if (!isNumericResult(metric)) return;
+      const { value, unit } = getComparableValue(metric);
+      // Values that couldn't be normalized are kept apart from other units
+      const key = `${metric.analyteId || metric.metric}|${unit}`;
+      if (!metrics[key]) {
+        metrics[key] = {
+          name: getMetricName(metric),
+          analyteId: metric.analyteId || null,
           values: [],
-          unit: metric.unit
+          unit
         };
       }
-      metrics[metric.metric].values.push(parseFloat(metric.value));
+      metrics[key].values.push(value);
     });
   });
 
-  return Object.entries(metrics).map(([name, data]: [string, any]) => ({
-    metric: name,
+  return Object.values(metrics).map((data: any) => ({
+    metric: data.name,
+    analyteId: data.analyteId,
     average: (data.values.reduce((a: number, b: number) => a + b) / data.values.length).toFixed(2),
     min: Math.min(...data.values),
     max: Math.max(...data.values),
@@ -306,27 +352,38 @@ function calculateHealthScore(metrics: any[]): number {
 }
 
 function calculateCategoryScore(metrics: any[], category: string): number {
-  const categoryMetrics = metrics.filter(m => getCategoryForMetric(m.metric) === category);
+  const categoryMetrics = metrics.filter(m => getCategoryForMetric(m) === category);
   if (categoryMetrics.length === 0) return 100;
   
   return calculateHealthScore(categoryMetrics);
 }
 
-function getCategoryForMetric(metric: string): string {
-  const categories: { [key: string]: string[] } = {
-    cardiovascular: ['cholesterol', 'ldl', 'hdl', 'triglycerides'],
-    metabolic: ['glucose', 'hba1c', 'insulin'],
-    liver: ['sgot', 'sgpt', 'bilirubin', 'albumin'],
-    kidney: ['creatinine', 'urea', 'uric acid'],
-    blood: ['hemoglobin', 'rbc', 'wbc', 'platelet']
-  };
-  
-  for (const [cat, metrics] of Object.entries(categories)) {
-    if (metrics.some(m => metric.toLowerCase().includes(m))) {
-      return cat;
-    }
+function getCategoryForMetric(metric: any): string {
+  const analyte = getAnalyte(metric);
+  return (analyte && SCORE_AREAS[analyte.category]) || 'other';
+}
+
+function getAnalyte(metric: any) {
+  const catalog = AnalyteCatalog.getInstance();
+  return (metric.analyteId && catalog.get(metric.analyteId)) || catalog.resolve(metric.metric);
+}
+
+// "Nil", "2+" and "4-6" can't be averaged or trended like numbers
+function isNumericResult(metric: any): boolean {
+  return (!metric.valueType || metric.valueType === 'numeric') && metric.numericValue != null;
+}
+
+// Normalized value when the unit could be converted, otherwise in the printed unit
+function getComparableValue(metric: any): { value: number; unit: string } {
+  if (metric.normalizedValue !== null && metric.normalizedValue !== undefined) {
+    return { value: metric.normalizedValue, unit: metric.normalizedUnit };
   }
-  return 'other';
+  return { value: metric.numericValue, unit: metric.unit };
+}
+
+// Canonical name when the analyte is known, otherwise the name as printed
+function getMetricName(metric: any): string {
+  return getAnalyte(metric)?.name || metric.metric;
 }
 
 function calculateAverageHealthScore(reports: any[]): number {
@@ -3,10 +3,12 @@ import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../../../utils/logger';
 import { AppError, asyncHandler } from '../../../middlewares/errorHandler';
-import { LocalOCRService } from '../../../services/ocr/LocalOCRService';
-import { AIService } from '../../../services/ai/AIService';
 import { StorageService } from '../../../services/storage/StorageService';
+import { ReportAnnotator } from '../../../services/ocr/ReportAnnotator';
 import { DatabaseService } from '../../../services/database/DatabaseService';
+import { ReportProcessor } from '../../../services/reports/ReportProcessor';
+import { ReportEvents } from '../../../services/reports/ReportEvents';
+import { describeReportMetadata } from '../../../services/reports/reportMetadata';
 
 const uploadSchema = z.object({
   file: z.object({
@@ -17,6 +19,15 @@ const uploadSchema = z.object({
   })
 });
 
+const SSE_HEARTBEAT_MS = 15000;
+
+const annotatedReportSchema = z.object({
+  metricId: z.string().optional(),
+  fileId: z.string().optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  crop: z.enum(['true', 'false']).optional().transform(value => value === 'true')
+});
+
 export class UploadController {
   static uploadMultipleFiles = asyncHandler(async (req: Request, res: Response) => {
     const requestId = uuidv4();
@@ -29,90 +40,8 @@ export class UploadController {
     
     logger.info(`📁 [${requestId}] Received ${files.length} files for processing`);
     
-    const results = [];
-    let combinedText = '';
-    const allMetrics: any[] = [];
-    
-    // Process each file
-    for (const file of files) {
-      const { buffer, originalname, mimetype, size } = file;
-      logger.info(`📁 [${requestId}] Processing file: ${originalname} (${mimetype}, ${size} bytes)`);
-      
-      try {
-        // Services
-        const storageService = StorageService.getInstance();
-        const ocrService = LocalOCRService.getInstance();
-        
-        // Save file
-        const storageResult = await storageService.saveFile(buffer, originalname, mimetype);
-        
-        // Process document with Enhanced OCR
-        const ocrResult = await ocrService.processDocument(buffer, mimetype, {
-          preferredEngine: 'ensemble',
-          enhancedPreprocessing: true
-        });
-        combinedText += `\n\n--- File: ${originalname} ---\n${ocrResult.text}`;
-        
-        // Extract health metrics
-        const metrics = ocrService.extractHealthMetrics(ocrResult.text);
-        allMetrics.push(...metrics);
-        
-        results.push({
-          fileName: originalname,
-          fileType: mimetype,
-          fileUrl: storageResult.url,
-          ocrConfidence: ocrResult.confidence,
-          extractedText: ocrResult.text,
-          metricsCount: metrics.length
-        });
-      } catch (error) {
-        logger.error(`❌ [${requestId}] Failed to process file ${originalname}:`, error);
-        results.push({
-          fileName: originalname,
-          fileType: mimetype,
-          error: error instanceof Error ? error.message : 'Processing failed'
-        });
-      }
-    }
-    
-    // Analyze combined results with AI
-    let analysis = null;
-    try {
-      const aiService = AIService.getInstance();
-      logger.info(`🤖 [${requestId}] Starting AI analysis for combined reports...`);
-      analysis = await aiService.analyzeHealthReport(combinedText, allMetrics);
-      logger.info(`✅ [${requestId}] AI analysis completed`);
-    } catch (aiError) {
-      logger.warn(`⚠️ [${requestId}] AI analysis failed:`, aiError);
-    }
-    
-    res.json({
-      success: true,
-      requestId,
-      filesProcessed: files.length,
-      files: results,
-      extractedText: combinedText,
-      totalMetrics: allMetrics.length,
-      analysis: analysis ? {
-        healthScore: analysis.healthScore,
-        overallAssessment: analysis.analysis.overallAssessment,
-        concernsCount: analysis.analysis.concerns.length,
-        urgencyLevel: analysis.urgencyLevel,
-        processingTime: analysis.processingTime,
-        summary: {
-          keyFindings: analysis.summary?.keyFindings || [],
-          criticalValues: analysis.summary?.criticalValues || [],
-          normalValues: analysis.summary?.normalValues || [],
-          actionRequired: analysis.summary?.actionRequired || [],
-          timelineForImprovement: analysis.summary?.timelineForImprovement || "Follow recommendations consistently"
-        }
-      } : null,
-      meta: {
-        timestamp: new Date().toISOString()
-      }
-    });
-    
-    logger.info(`✅ [${requestId}] Multiple files upload process completed successfully`);
+    // All files make up one report, e.g. a photo of each page
+    await UploadController.queueReport(req, res, files, requestId);
   });
 
   static uploadFile = asyncHandler(async (req: Request, res: Response) => {
@@ -123,7 +52,7 @@ export class UploadController {
       throw new AppError('No file provided', 400);
     }
     
-    const { buffer, originalname, mimetype, size } = req.file;
+    const { originalname, mimetype, size } = req.file;
     logger.info(`📁 [${requestId}] File: ${originalname} (${mimetype}, ${size} bytes)`);
     
     // Validate file
@@ -132,173 +61,7 @@ export class UploadController {
       throw new AppError('Invalid file data', 400);
     }
     
-    try {
-      // Services
-      const storageService = StorageService.getInstance();
-      const ocrService = LocalOCRService.getInstance();
-      const aiService = AIService.getInstance();
-      const dbService = DatabaseService.getInstance();
-      
-      // Save file
-      logger.info(`💾 [${requestId}] Saving file to storage...`);
-      const storageResult = await storageService.saveFile(buffer, originalname, mimetype);
-      
-      // Create report record
-      let reportId = uuidv4();
-      try {
-        const prisma = dbService.getClient();
-        
-        // Use authenticated user's ID or create demo user for non-authenticated uploads
-        let userId = req.user?.id || 'demo-user';
-        
-        // Only create demo user if not authenticated
-        if (!req.user) {
-          try {
-            await prisma.user.upsert({
-              where: { id: 'demo-user' },
-              update: {},
-              create: {
-                id: 'demo-user',
-                email: 'demo@healthscan.ai',
-                name: 'Demo User'
-              }
-            });
-          } catch (userError) {
-            logger.warn('Could not create demo user:', userError);
-          }
-        }
-
-        const report = await prisma.report.create({
-          data: {
-            id: reportId,
-            userId: userId,
-            fileName: originalname,
-            fileUrl: storageResult.url,
-            fileType: mimetype,
-            status: 'PROCESSING'
-          }
-        });
-        reportId = report.id;
-        logger.info(`📄 [${requestId}] Report record created: ${reportId}`);
-      } catch (dbError) {
-        logger.warn(`⚠️ [${requestId}] Database unavailable, using generated ID`);
-      }
-      
-      // Process document with Enhanced OCR
-      logger.info(`🔍 [${requestId}] Starting Enhanced OCR processing...`);
-      const ocrResult = await ocrService.processDocument(buffer, mimetype, {
-        preferredEngine: 'ensemble',
-        enhancedPreprocessing: true
-      });
-      
-      // Extract health metrics
-      const metrics = ocrService.extractHealthMetrics(ocrResult.text);
-      logger.info(`📊 [${requestId}] Extracted ${metrics.length} health metrics`);
-      
-      // Analyze with AI
-      let analysis = null;
-      try {
-        logger.info(`🤖 [${requestId}] Starting AI analysis...`);
-        analysis = await aiService.analyzeHealthReport(ocrResult.text, metrics);
-        logger.info(`✅ [${requestId}] AI analysis completed in ${analysis.processingTime}ms`);
-      } catch (aiError) {
-        logger.warn(`⚠️ [${requestId}] AI analysis failed:`, aiError);
-      }
-      
-      // Save results to database
-      try {
-        const prisma = dbService.getClient();
-        
-        // Update report
-        await prisma.report.update({
-          where: { id: reportId },
-          data: {
-            extractedText: ocrResult.text,
-            ocrConfidence: ocrResult.confidence,
-            status: 'COMPLETED'
-          }
-        });
-        
-        // Save metrics
-        for (const metric of metrics) {
-          await prisma.healthMetric.create({
-            data: {
-              reportId,
-              category: metric.category,
-              metric: metric.metric,
-              value: String(metric.value), // Convert to string to match schema
-              unit: metric.unit,
-              flag: metric.flag
-            }
-          });
-        }
-        
-        // Save analysis if available
-        if (analysis) {
-          await prisma.analysis.create({
-            data: {
-              reportId,
-              aiAnalysis: JSON.stringify(analysis.analysis),
-              recommendations: JSON.stringify(analysis.recommendations),
-              healthScore: analysis.healthScore
-            }
-          });
-        }
-        
-        logger.info(`💾 [${requestId}] Results saved to database`);
-      } catch (dbError) {
-        logger.warn(`⚠️ [${requestId}] Database save failed:`, dbError);
-      }
-      
-      // Return response
-      const processingTime = Date.now() - parseInt(requestId.split('-')[0], 16);
-      
-      res.json({
-        success: true,
-        requestId,
-        report: {
-          id: reportId,
-          fileName: originalname,
-          fileType: mimetype,
-          fileUrl: storageResult.url,
-          status: 'COMPLETED'
-        },
-        ocr: {
-          confidence: ocrResult.confidence,
-          method: ocrResult.processingMethod,
-          pageCount: ocrResult.pageCount,
-          processingTime: ocrResult.processingTime
-        },
-        metrics: {
-          count: metrics.length,
-          categories: [...new Set(metrics.map(m => m.category))]
-        },
-        analysis: analysis ? {
-          healthScore: analysis.healthScore,
-          overallAssessment: analysis.analysis.overallAssessment,
-          concernsCount: analysis.analysis.concerns.length,
-          urgencyLevel: analysis.urgencyLevel,
-          processingTime: analysis.processingTime,
-          summary: {
-            keyFindings: analysis.summary?.keyFindings || [],
-            criticalValues: analysis.summary?.criticalValues || [],
-            normalValues: analysis.summary?.normalValues || [],
-            actionRequired: analysis.summary?.actionRequired || [],
-            timelineForImprovement: analysis.summary?.timelineForImprovement || "Follow recommendations consistently"
-          }
-        } : null,
-        meta: {
-          totalProcessingTime: processingTime,
-          timestamp: new Date().toISOString()
-        }
-      });
-      
-      logger.info(`✅ [${requestId}] Upload process completed successfully`);
-      
-    } catch (error) {
-      logger.error(`❌ [${requestId}] Upload process failed:`, error);
-      throw error;
-    }
+    await UploadController.queueReport(req, res, [req.file], requestId);
   });
   
   static getUploadStatus = asyncHandler(async (req: Request, res: Response) => {
@@ -313,14 +76,7 @@ export class UploadController {
     }
     
     try {
-      const prisma = DatabaseService.getInstance().getClient();
-      const report = await prisma.report.findUnique({
-        where: { id: reportId },
-        include: {
-          analysis: true,
-          metrics: true
-        }
-      });
+      const report = await UploadController.findReportStatus(reportId);
       
       if (!report) {
         throw new AppError('Report not found', 404);
@@ -331,16 +87,7 @@ export class UploadController {
         throw new AppError('Access denied', 403);
       }
       
-      res.json({
-        id: report.id,
-        status: report.status,
-        fileName: report.fileName,
-        uploadDate: report.uploadDate,
-        ocrConfidence: report.ocrConfidence,
-        metricsCount: report.metrics.length,
-        hasAnalysis: !!report.analysis,
-        healthScore: report.analysis?.healthScore
-      });
+      res.json(UploadController.buildStatus(report));
       
     } catch (error) {
       if (error instanceof AppError) throw error;
@@ -348,6 +95,73 @@ export class UploadController {
     }
   });
 
+  /**
+   * Server-sent events with a report's progress as it is processed. Opens
+   * with a `status` event, the same as GET /status, so clients that connect
+   * late or reconnect catch up, and ends with another once the report is done.
+   */
+  static streamUploadEvents = asyncHandler(async (req: Request, res: Response) => {
+    const { reportId } = req.params;
+    if (!req.user) {
+      throw new AppError('Authentication required', 401);
+    }
+    
+    const prisma = DatabaseService.getInstance().getClient();
+    const owner = await prisma.report.findUnique({ where: { id: reportId }, select: { userId: true } });
+    if (!owner) {
+      throw new AppError('Report not found', 404);
+    }
+    if (req.user.role !== 'admin' && owner.userId !== req.user.id) {
+      throw new AppError('Access denied', 403);
+    }
+    
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // Stops nginx holding events back
+    });
+    res.flushHeaders();
+    
+    let closed = false;
+    const send = (type: string, data: unknown) => {
+      if (!closed) res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    const sendStatus = async () => {
+      const report = await UploadController.findReportStatus(reportId);
+      const status = report ? UploadController.buildStatus(report) : null;
+      if (status) send('status', status);
+      return !status || status.status === 'COMPLETED' || status.status === 'FAILED';
+    };
+    
+    // Proxies drop connections that stay quiet
+    const heartbeat = setInterval(() => { if (!closed) res.write(': keep-alive\n\n'); }, SSE_HEARTBEAT_MS);
+    const finish = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+    
+    // Subscribed before the first status, so nothing falls in between
+    const unsubscribe = ReportEvents.getInstance().subscribe(reportId, event => {
+      send(event.type, event);
+      if (event.type === 'completed' || event.type === 'failed') {
+        sendStatus().catch(() => undefined).finally(finish);
+      }
+    });
+    req.on('close', finish);
+    
+    try {
+      if (await sendStatus()) finish();
+    } catch (error) {
+      logger.error(`Failed to stream progress of report ${reportId}:`, error);
+      send('error', { error: 'Failed to get upload status' });
+      finish();
+    }
+  });
+
   static getFormattedAnalysis = asyncHandler(async (req: Request, res: Response) => {
     const { reportId } = req.params;
     
@@ -476,7 +290,9 @@ export class UploadController {
         
         metadata: {
           analysisDate: report.analysis.createdAt,
-          modelUsed: "Google AI (Gemini 1.5 Flash)",
+          modelUsed: report.analysis.modelUsed || 'Not recorded',
+          // Which fields the model wrote and which are rule-based fallbacks
+          fieldSources: report.analysis.fieldSources ? JSON.parse(report.analysis.fieldSources) : null,
           confidence: "High",
           reportId: report.id
         }
@@ -494,6 +310,118 @@ export class UploadController {
     }
   });
   
+  private static findReportStatus(reportId: string) {
+    const prisma = DatabaseService.getInstance().getClient();
+    return prisma.report.findUnique({
+      where: { id: reportId },
+      include: {
+        analysis: true,
+        metrics: true,
+        files: { orderBy: { position: 'asc' } },
+        jobs: true,
+        duplicateOf: { select: { id: true, fileName: true, uploadDate: true } },
+        user: { select: { name: true, gender: true } }
+      }
+    });
+  }
+
+  private static buildStatus(report: any) {
+    const { stage, progress, stages } = ReportProcessor.getInstance().getProgress(report);
+    const failedStage = stages.find(candidate => candidate.status === 'FAILED');
+    
+    return {
+      id: report.id,
+      status: report.status,
+      stage,
+      progress,
+      stages,
+      error: report.status === 'FAILED' ? failedStage?.error || 'Processing failed' : undefined,
+      fileName: report.fileName,
+      uploadDate: report.uploadDate,
+      ocrConfidence: report.ocrConfidence,
+      metricsCount: report.metrics.length,
+      hasAnalysis: !!report.analysis,
+      healthScore: report.analysis?.healthScore,
+      // Earlier report of the user's this one looks like
+      duplicateOf: report.duplicateOf ?? null,
+      files: report.files.map((file: any) => ({
+        id: file.id,
+        fileName: file.fileName,
+        fileType: file.fileType,
+        status: file.status,
+        error: file.error,
+        ocrConfidence: file.ocrConfidence,
+        pageCount: file.pageCount,
+        metricsCount: report.metrics.filter((metric: any) => metric.fileId === file.id).length
+      })),
+      // Results, once there are any
+      ...(report.status === 'COMPLETED' ? {
+        extractedText: report.extractedText,
+        analysis: UploadController.summarizeAnalysis(report.analysis),
+        // Header details; patientMismatches warns when it looks like someone else's report
+        ...describeReportMetadata(report)
+      } : {})
+    };
+  }
+
+  /**
+   * Store the files and queue the report; processing continues in the
+   * background. Files uploaded before are answered with the earlier report
+   * (200 rather than 202), with `duplicate` saying which one.
+   */
+  private static async queueReport(req: Request, res: Response, files: Express.Multer.File[], requestId: string) {
+    const { report, duplicate } = await ReportProcessor.getInstance().createReport(files, {
+      requestId,
+      userId: req.user?.id,
+      // The user's UI language helps tell Hindi from Marathi reports
+      languageHint: typeof req.body?.language === 'string' ? req.body.language : undefined
+    });
+    
+    const merged = duplicate?.type === 'exact';
+    res.status(merged ? 200 : 202).json({
+      success: true,
+      requestId,
+      report: {
+        id: report.id,
+        fileName: report.fileName,
+        fileType: report.fileType,
+        fileUrl: report.fileUrl,
+        status: report.status
+      },
+      files: UploadController.summarizeFiles(report.files),
+      statusUrl: `/api/v1/upload/status/${report.id}`,
+      merged,
+      duplicate,
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+    
+    if (!merged) {
+      logger.info(`✅ [${requestId}] Report ${report.id} queued for processing`);
+    }
+  }
+
+  private static summarizeAnalysis(analysis: any) {
+    if (!analysis) return null;
+    const analysisData = JSON.parse(analysis.aiAnalysis);
+    return {
+      healthScore: analysis.healthScore,
+      overallAssessment: analysisData.overallAssessment,
+      concernsCount: analysisData.concerns?.length || 0
+    };
+  }
+
+  private static summarizeFiles(files: any[]) {
+    return files.map(file => ({
+      id: file.id,
+      fileName: file.fileName,
+      fileType: file.fileType,
+      status: file.status,
+      pageCount: file.pageCount
+    }));
+  }
+
   private static getHealthRating(score: number): string {
     if (score >= 90) return 'Excellent';
     if (score >= 80) return 'Very Good';
@@ -567,7 +495,11 @@ export class UploadController {
             orderBy: {
               category: 'asc'
             }
-          }
+          },
+          files: {
+            orderBy: { position: 'asc' }
+          },
+          user: { select: { name: true, gender: true } }
         }
       });
       
@@ -589,12 +521,18 @@ export class UploadController {
         acc[category].push({
           name: metric.metric,
           value: metric.value,
+          valueType: metric.valueType,
+          numericValue: metric.numericValue,
           unit: metric.unit,
+          normalizedValue: metric.normalizedValue,
+          normalizedUnit: metric.normalizedUnit,
           status: metric.flag,
           statusIcon: this.getStatusIcon(metric.flag),
           statusColor: this.getStatusColor(metric.flag),
           normalMin: metric.normalMin,
           normalMax: metric.normalMax,
+          referenceText: metric.referenceText,
+          rangeSource: metric.rangeSource,
           id: metric.id
         });
         return acc;
@@ -607,7 +545,9 @@ export class UploadController {
           uploadDate: report.uploadDate,
           fileType: report.fileType,
           status: report.status,
-          ocrConfidence: report.ocrConfidence ? `${Math.round(report.ocrConfidence)}%` : 'N/A'
+          ocrConfidence: report.ocrConfidence ? `${Math.round(report.ocrConfidence)}%` : 'N/A',
+          files: UploadController.summarizeFiles(report.files),
+          ...describeReportMetadata(report)
         },
         
         healthScore: report.analysis?.healthScore || null,
@@ -621,12 +561,28 @@ export class UploadController {
           category: metric.category || 'General',
           parameter: metric.metric,
           value: metric.value,
+          valueType: metric.valueType,
+          numericValue: metric.numericValue,
           unit: metric.unit,
+          normalizedValue: metric.normalizedValue,
+          normalizedUnit: metric.normalizedUnit,
           status: metric.flag,
           statusIcon: this.getStatusIcon(metric.flag),
           statusColor: this.getStatusColor(metric.flag),
-          normalRange: metric.normalMin && metric.normalMax ? 
-            `${metric.normalMin} - ${metric.normalMax}` : 'Not specified',
+          normalRange: metric.referenceText || (metric.normalMin != null && metric.normalMax != null ?
+            `${metric.normalMin} - ${metric.normalMax}` : 'Not specified'),
+          rangeSource: metric.rangeSource,
+          normalMin: metric.normalMin,
+          normalMax: metric.normalMax,
+          confidence: metric.confidence,
+          extractionMethod: metric.extractionMethod,
+          fileId: metric.fileId,
+          page: metric.page,
+          hasLocation: !!metric.boundingBox,
+          reviewNotes: metric.reviewNotes ? JSON.parse(metric.reviewNotes) : [],
+          originalName: metric.originalName,
+          originalValue: metric.originalValue,
+          correctedAt: metric.correctedAt,
           createdAt: metric.createdAt
         })),
         
@@ -668,7 +624,11 @@ export class UploadController {
             orderBy: {
               category: 'asc'
             }
-          }
+          },
+          files: {
+            orderBy: { position: 'asc' }
+          },
+          user: { select: { name: true, gender: true } }
         },
         orderBy: {
           uploadDate: 'desc'
@@ -682,6 +642,8 @@ export class UploadController {
         fileType: report.fileType,
         status: report.status,
         ocrConfidence: report.ocrConfidence ? `${Math.round(report.ocrConfidence)}%` : 'N/A',
+        files: UploadController.summarizeFiles(report.files),
+        ...describeReportMetadata(report),
         healthScore: report.analysis?.healthScore || null,
         totalParameters: report.metrics.length,
         
@@ -690,12 +652,28 @@ export class UploadController {
           category: metric.category || 'General',
           parameter: metric.metric,
           value: metric.value,
+          valueType: metric.valueType,
+          numericValue: metric.numericValue,
           unit: metric.unit,
+          normalizedValue: metric.normalizedValue,
+          normalizedUnit: metric.normalizedUnit,
           status: metric.flag,
           statusIcon: this.getStatusIcon(metric.flag),
           statusColor: this.getStatusColor(metric.flag),
-          normalRange: metric.normalMin && metric.normalMax ? 
-            `${metric.normalMin} - ${metric.normalMax}` : 'Not specified'
+          normalRange: metric.referenceText || (metric.normalMin != null && metric.normalMax != null ?
+            `${metric.normalMin} - ${metric.normalMax}` : 'Not specified'),
+          rangeSource: metric.rangeSource,
+          normalMin: metric.normalMin,
+          normalMax: metric.normalMax,
+          confidence: metric.confidence,
+          extractionMethod: metric.extractionMethod,
+          fileId: metric.fileId,
+          page: metric.page,
+          hasLocation: !!metric.boundingBox,
+          reviewNotes: metric.reviewNotes ? JSON.parse(metric.reviewNotes) : [],
+          originalName: metric.originalName,
+          originalValue: metric.originalValue,
+          correctedAt: metric.correctedAt
         })),
         
         summary: report.analysis ? {
@@ -718,4 +696,74 @@ export class UploadController {
       throw new AppError('Failed to get reports with parameters', 500);
     }
   });
-}
\ No newline at end of file
+
+  /**
+   * The stored report page with extracted values boxed, colored by flag.
+   * With ?metricId the metric's page is used and its box highlighted, and
+   * ?crop=true returns just the lines around it.
+   */
+  static getAnnotatedReport = asyncHandler(async (req: Request, res: Response) => {
+    const { reportId } = req.params;
+    if (!req.user) {
+      throw new AppError('Authentication required', 401);
+    }
+    
+    const query = annotatedReportSchema.safeParse(req.query);
+    if (!query.success) {
+      throw new AppError('Invalid annotation options', 400);
+    }
+    const { metricId, crop } = query.data;
+    
+    const prisma = DatabaseService.getInstance().getClient();
+    const report = await prisma.report.findUnique({
+      where: { id: reportId },
+      include: { metrics: true, files: { orderBy: { position: 'asc' } } }
+    });
+    
+    if (!report) {
+      throw new AppError('Report not found', 404);
+    }
+    if (req.user.role !== 'admin' && report.userId !== req.user.id) {
+      throw new AppError('Access denied', 403);
+    }
+    
+    const selected = metricId ? report.metrics.find((metric: any) => metric.id === metricId) : undefined;
+    if (metricId && !selected) {
+      throw new AppError('Metric not found', 404);
+    }
+    if (selected && !selected.boundingBox) {
+      throw new AppError('No location recorded for this metric', 404);
+    }
+    const page = selected?.page ?? query.data.page ?? 1;
+    
+    // Multi-file reports: the selected metric's file, else the requested or first one
+    const fileId = selected ? selected.fileId : query.data.fileId;
+    const file = (fileId && report.files.find((candidate: any) => candidate.id === fileId)) || report.files[0] ||
+      { id: null, fileUrl: report.fileUrl, fileType: report.fileType };
+    if (query.data.fileId && file.id !== query.data.fileId) {
+      throw new AppError('File not found', 404);
+    }
+    
+    const regions = report.metrics
+      .filter((metric: any) => metric.boundingBox && (metric.page ?? 1) === page)
+      .filter((metric: any) => !metric.fileId || !file.id || metric.fileId === file.id)
+      .map((metric: any) => ({
+        box: JSON.parse(metric.boundingBox),
+        flag: metric.flag,
+        selected: metric.id === selected?.id
+      }));
+    
+    try {
+      const buffer = await StorageService.getInstance().getFileByUrl(file.fileUrl);
+      const image = await ReportAnnotator.getInstance().annotate(buffer, file.fileType, { page, regions, crop });
+      
+      res.set('Content-Type', 'image/png');
+      res.set('Cache-Control', 'private, max-age=300');
+      res.send(image);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Failed to annotate report:', error);
+      throw new AppError('Failed to render report image', 500);
+    }
+  });
+}
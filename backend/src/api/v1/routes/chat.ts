@@ -10,6 +10,7 @@ router.use(authMiddleware.verifyToken);
 
 // Chat endpoints
 router.post('/message', ChatController.sendMessage);
+router.post('/message/stream', ChatController.streamMessage);
 router.get('/history/:sessionId', ChatController.getChatHistory);
 router.get('/insights', ChatController.getHealthInsights);
 
@@ -26,6 +26,13 @@ router.get('/:id', authMiddleware.verifyToken, ReportsController.getReportById);
  */
 router.delete('/:id', authMiddleware.verifyToken, ReportsController.deleteReport);
 
+/**
+ * @route PATCH /api/v1/reports/:id/details
+ * @desc Correct the details read from the report header: dates, lab, patient, doctor, sample ID
+ * @access Private
+ */
+router.patch('/:id/details', authMiddleware.verifyToken, ReportsController.updateDetails);
+
 /**
  * @route GET /api/v1/reports/:id/metrics
  * @desc Get health metrics for a specific report
@@ -33,6 +40,34 @@ router.delete('/:id', authMiddleware.verifyToken, ReportsController.deleteReport
  */
 router.get('/:id/metrics', authMiddleware.verifyToken, ReportsController.getReportMetrics);
 
+/**
+ * @route POST /api/v1/reports/:id/metrics
+ * @desc Add a metric extraction missed, then re-analyze the report
+ * @access Private
+ */
+router.post('/:id/metrics', authMiddleware.verifyToken, ReportsController.addMetric);
+
+/**
+ * @route PATCH /api/v1/reports/:id/metrics/:metricId
+ * @desc Correct an extracted metric, keeping the original for audit, then re-analyze the report
+ * @access Private
+ */
+router.patch('/:id/metrics/:metricId', authMiddleware.verifyToken, ReportsController.updateMetric);
+
+/**
+ * @route DELETE /api/v1/reports/:id/metrics/:metricId
+ * @desc Delete a wrongly extracted metric, then re-analyze the report
+ * @access Private
+ */
+router.delete('/:id/metrics/:metricId', authMiddleware.verifyToken, ReportsController.deleteMetric);
+
+/**
+ * @route GET /api/v1/reports/:id/corrections
+ * @desc Get the audit trail of metric edits for a report
+ * @access Private
+ */
+router.get('/:id/corrections', authMiddleware.verifyToken, ReportsController.getReportCorrections);
+
 /**
  * @route GET /api/v1/reports/:id/analysis
  * @desc Get AI analysis for a specific report
@@ -56,6 +56,13 @@ router.post('/single', authMiddleware.verifyToken, upload.single('file'), Upload
  */
 router.get('/status/:reportId', authMiddleware.verifyToken, UploadController.getUploadStatus);
 
+/**
+ * @route GET /api/v1/upload/events/:reportId
+ * @desc Stream processing progress as server-sent events
+ * @access Private
+ */
+router.get('/events/:reportId', authMiddleware.verifyToken, UploadController.streamUploadEvents);
+
 /**
  * @route GET /api/v1/upload/analysis/:reportId
  * @desc Get formatted, user-friendly analysis report
@@ -77,4 +84,11 @@ router.get('/parameters/:reportId', authMiddleware.verifyToken, UploadController
  */
 router.get('/history', authMiddleware.verifyToken, UploadController.getAllReportsWithParameters);
 
+/**
+ * @route GET /api/v1/upload/annotated/:reportId
+ * @desc Get a report page as PNG with extracted values highlighted (?metricId, ?page, ?crop)
+ * @access Private
+ */
+router.get('/annotated/:reportId', authMiddleware.verifyToken, UploadController.getAnnotatedReport);
+
 export { router as uploadRouter };
\ No newline at end of file
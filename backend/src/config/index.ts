@@ -17,15 +17,53 @@ const envSchema = z.object({
   MAX_FILE_SIZE: z.string().default('10485760'), // 10MB in bytes
   UPLOAD_DIR: z.string().default('./uploads'),
   
+  // Report processing queue
+  JOB_CONCURRENCY: z.string().default('1'),
+  JOB_MAX_ATTEMPTS: z.string().default('3'),
+  
+  // Persistent Python workers for EasyOCR, PaddleOCR and transformers
+  PYTHON_BIN: z.string().default('python3'),
+  PYTHON_WORKERS: z.string().default('1'),
+  PYTHON_MAX_QUEUE: z.string().default('20'),
+  PYTHON_REQUEST_TIMEOUT: z.string().default('300000'), // 5 minutes in ms
+  
+  // OCR engines to use, in order of preference, and how their results are combined
+  OCR_ENGINES: z.string().default('tesseract,easyocr,paddleocr'),
+  OCR_POLICY: z.enum(['ensemble', 'fallback']).default('ensemble'),
+  OCR_MIN_CONFIDENCE: z.string().default('70'), // Good enough to stop at, for the fallback policy
+  
+  // Cloud OCR, used only when also listed in OCR_ENGINES
+  GOOGLE_APPLICATION_CREDENTIALS: z.string().optional(),
+  AZURE_COMPUTER_VISION_KEY: z.string().optional(),
+  AZURE_COMPUTER_VISION_ENDPOINT: z.string().url().optional(),
+  
+  // AI providers to try, in order, until one answers; AI_PROVIDER is the older single-provider setting
+  AI_PROVIDERS: z.string().optional(),
+  AI_PROVIDER: z.string().default('ollama'),
+  AI_CIRCUIT_FAILURES: z.string().default('3'), // Consecutive failures before a provider is skipped
+  AI_CIRCUIT_RESET: z.string().default('60000'), // 1 minute in ms before it is tried again
+  
   // AI Services
   OLLAMA_API_URL: z.string().url().default('http://localhost:11434'),
   OLLAMA_MODEL: z.string().default('meditron:7b'),
+  OLLAMA_TIMEOUT: z.string().default('30000'),
   
   // Google AI Studio Configuration
   GOOGLE_AI_API_KEY: z.string().optional(),
   GOOGLE_AI_MODEL: z.string().default('gemini-1.5-pro'),
+  GOOGLE_AI_TIMEOUT: z.string().default('30000'),
   
-  AI_PROVIDER: z.enum(['ollama', 'google']).default('ollama'),
+  OPENROUTER_API_KEY: z.string().optional(),
+  OPENROUTER_MODEL: z.string().default('meta-llama/llama-3.1-8b-instruct'),
+  OPENROUTER_TIMEOUT: z.string().default('30000'),
+  
+  HUGGINGFACE_API_TOKEN: z.string().optional(),
+  HUGGINGFACE_MODEL: z.string().default('epfl-llm/meditron-70b'),
+  HUGGINGFACE_TIMEOUT: z.string().default('60000'),
+  
+  // Runs on this machine through the Python workers
+  TRANSFORMERS_MODEL: z.string().default('epfl-llm/meditron-70b'),
+  TRANSFORMERS_TIMEOUT: z.string().default('300000'), // 5 minutes in ms
   
   // Security
   API_RATE_LIMIT: z.string().default('100'),
@@ -68,17 +106,60 @@ export const config = {
     ],
   },
   
+  jobs: {
+    concurrency: parseInt(env.JOB_CONCURRENCY, 10),
+    maxAttempts: parseInt(env.JOB_MAX_ATTEMPTS, 10),
+  },
+  
+  python: {
+    bin: env.PYTHON_BIN,
+    workers: parseInt(env.PYTHON_WORKERS, 10),
+    maxQueue: parseInt(env.PYTHON_MAX_QUEUE, 10),
+    requestTimeout: parseInt(env.PYTHON_REQUEST_TIMEOUT, 10),
+  },
+  
+  ocr: {
+    engines: env.OCR_ENGINES.split(',').map(engine => engine.trim()).filter(Boolean),
+    policy: env.OCR_POLICY,
+    minConfidence: parseFloat(env.OCR_MIN_CONFIDENCE),
+    googleVision: {
+      credentials: env.GOOGLE_APPLICATION_CREDENTIALS,
+    },
+    azureVision: {
+      key: env.AZURE_COMPUTER_VISION_KEY,
+      endpoint: env.AZURE_COMPUTER_VISION_ENDPOINT,
+    },
+  },
+  
   ai: {
-    provider: env.AI_PROVIDER,
+    providers: (env.AI_PROVIDERS ?? env.AI_PROVIDER).split(',').map(provider => provider.trim()).filter(Boolean),
+    circuitBreaker: {
+      failureThreshold: parseInt(env.AI_CIRCUIT_FAILURES, 10),
+      resetMs: parseInt(env.AI_CIRCUIT_RESET, 10),
+    },
     ollama: {
       apiUrl: env.OLLAMA_API_URL,
       model: env.OLLAMA_MODEL,
-      timeout: 30000, // 30 seconds
+      timeout: parseInt(env.OLLAMA_TIMEOUT, 10),
     },
     google: {
       apiKey: env.GOOGLE_AI_API_KEY,
       model: env.GOOGLE_AI_MODEL,
-      timeout: 30000, // 30 seconds
+      timeout: parseInt(env.GOOGLE_AI_TIMEOUT, 10),
+    },
+    openrouter: {
+      apiKey: env.OPENROUTER_API_KEY,
+      model: env.OPENROUTER_MODEL,
+      timeout: parseInt(env.OPENROUTER_TIMEOUT, 10),
+    },
+    huggingface: {
+      apiToken: env.HUGGINGFACE_API_TOKEN,
+      model: env.HUGGINGFACE_MODEL,
+      timeout: parseInt(env.HUGGINGFACE_TIMEOUT, 10),
+    },
+    transformers: {
+      model: env.TRANSFORMERS_MODEL,
+      timeout: parseInt(env.TRANSFORMERS_TIMEOUT, 10),
     },
   },
   
@@ -30,6 +30,8 @@ import {
   limitRequestSize
 } from './middlewares/validation';
 import { DatabaseService } from './services/database/DatabaseService';
+import { JobQueue } from './services/jobs/JobQueue';
+import { PythonWorkerPool } from './services/workers/PythonWorkerPool';
 
 // Load environment variables
 dotenv.config();
@@ -123,6 +125,10 @@ const gracefulShutdown = (signal: string) => {
   
   server.close(async () => {
     try {
+      // Stop taking new jobs; ones cut short are requeued as stalled after restart
+      JobQueue.getInstance().stop();
+      PythonWorkerPool.getInstance().stop();
+      
       // Close database connections
       const dbService = DatabaseService.getInstance();
       await dbService.disconnect();
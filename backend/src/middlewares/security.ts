@@ -105,6 +105,10 @@ export const compressionConfig = compression({
     if (req.headers['x-no-compression']) {
       return false;
     }
+    // Compression buffers output, and events must reach the client as they're sent
+    if (res.getHeader('Content-Type') === 'text/event-stream') {
+      return false;
+    }
     return compression.filter(req, res);
   }
 });
@@ -1,9 +1,8 @@
-import { Ollama } from 'ollama';
 import { logger } from '../../utils/logger';
-import { config } from '../../config';
-import { AppError } from '../../middlewares/errorHandler';
-import { HealthMetric } from '../ocr/OCRService';
-import { GoogleAIService } from './GoogleAIService';
+import { AnalysisMetric } from '../ocr/HealthMetricExtractor';
+import { AIProviderRegistry, StreamResult } from './providers/AIProviderRegistry';
+import { AIProvider, ChatMessage } from './providers/AIProvider';
+import { analysisSchema, describeIssues, extractJson, FieldSource, mergeWithFallback, SchemaAnalysis } from './analysisSchema';
 
 export interface AnalysisResult {
   analysis: {
@@ -43,24 +42,38 @@ export interface AnalysisResult {
   urgencyLevel?: 'routine' | 'moderate' | 'urgent';  // New: Medical urgency
   processingTime: number;
   modelUsed?: string;                    // New: Track which model was used
+  fieldSources?: Record<string, FieldSource>; // By field path, e.g. 'recommendations.dietary.foods_to_include'
 }
 
+export interface AnalyzeOptions {
+  providers?: string[];  // Replaces AI_PROVIDERS, e.g. to try one provider alone
+  signal?: AbortSignal;  // Stops the model; the analysis then rejects rather than falling back
+  // Epoch ms the whole analysis, repairs included, must finish by; what's valid by then is kept
+  deadline?: number;
+}
+
+// modelUsed when no provider answered and the analysis comes from the metric flags alone
+export const RULE_BASED_MODEL = 'Rule-based analysis';
+
+// Times an invalid analysis is sent back to the model before its invalid fields fall back
+const MAX_REPAIR_ATTEMPTS = 2;
+const MAX_LISTED_PROBLEMS = 10;
+
+// Streamed chat answers show from the first token, so they can run longer than the 300 a blocking answer gets
+const CHAT_STREAM_MAX_TOKENS = 1024;
+
+const MEDICAL_SYSTEM_PROMPT = 'You are a specialized medical AI assistant trained to analyze blood test results and provide evidence-based health recommendations. Provide accurate, professional medical analysis while being accessible to patients.';
+
+/**
+ * AIService - Health report analysis and chat answers
+ *
+ * Builds the prompts and turns answers into results; which provider
+ * answers is up to AIProviderRegistry. When none can, analyses fall back
+ * to rule-based findings from the metric flags.
+ */
 export class AIService {
   private static instance: AIService;
-  private ollama: Ollama;
-  private googleAIService: GoogleAIService;
-  
-  private constructor() {
-    this.ollama = new Ollama({
-      host: config.ai.ollama.apiUrl,
-    });
-    
-    try {
-      this.googleAIService = GoogleAIService.getInstance();
-    } catch (error) {
-      logger.warn('Google AI service not available:', error);
-    }
-  }
+  private registry = AIProviderRegistry.getInstance();
   
   static getInstance(): AIService {
     if (!AIService.instance) {
@@ -75,24 +88,15 @@ export class AIService {
     try {
       logger.info('🤖 Generating AI response for chat...');
       
-      const response = await this.ollama.chat({
-        model: config.ai.ollama.model,
+      const { text } = await this.registry.generate({
         messages: [{ role: 'user', content: prompt }],
-        stream: false,
-        options: {
-          temperature: 0.7,
-          top_p: 0.9,
-          num_predict: 300,
-          num_ctx: 1024
-        }
+        maxTokens: 300,
+        temperature: 0.7
       });
       
-      const processingTime = Date.now() - startTime;
-      logger.info(`✅ AI response generated in ${processingTime}ms`);
-      
       return {
-        response: response.message.content,
-        processingTime
+        response: text,
+        processingTime: Date.now() - startTime
       };
       
     } catch (error) {
@@ -106,30 +110,23 @@ export class AIService {
     }
   }
   
+  /**
+   * A chat answer read as it's written. Rejects with a 503 when no
+   * provider starts answering; there's no canned fallback, so the caller
+   * can tell the user. Aborting `signal` stops the provider.
+   */
+  streamResponse(prompt: string, signal: AbortSignal): Promise<StreamResult> {
+    logger.info('🤖 Streaming AI response for chat...');
+    return this.registry.stream({
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens: CHAT_STREAM_MAX_TOKENS,
+      temperature: 0.7
+    }, signal);
+  }
+
   async initialize(): Promise<void> {
     try {
-      if (config.ai.provider === 'google') {
-        if (!this.googleAIService) {
-          logger.warn('⚠️ Google AI service not configured - falling back to local mode');
-          return;
-        }
-        
-        try {
-          await this.googleAIService.initialize();
-          logger.info(`✅ AI service (Google AI Studio - ${config.ai.google.model}) initialized`);
-        } catch (error: any) {
-          if (error.message?.includes('401') || error.message?.includes('Invalid')) {
-            logger.warn('⚠️ Google AI API key invalid. Please check your API key.');
-            logger.warn('🔄 Update GOOGLE_AI_API_KEY in .env file');
-            return; // Don't fail, just warn and continue
-          }
-          throw error; // Re-throw other errors
-        }
-      } else {
-        // Test Ollama connection
-        await this.ollama.list();
-        logger.info('✅ AI service (Ollama - Meditron 7B) initialized');
-      }
+      await this.registry.initialize();
     } catch (error) {
       logger.error('❌ AI service initialization failed:', error);
       logger.warn('⚠️ Starting server in limited mode - AI analysis will not be available');
@@ -137,421 +134,187 @@ export class AIService {
     }
   }
   
+  /**
+   * Analyses the metrics with the first provider in the chain that answers,
+   * asking for JSON in the shape of analysisSchema. An invalid answer is
+   * sent back with its problems, up to MAX_REPAIR_ATTEMPTS times; fields
+   * still invalid after that come from the rule-based analysis, and
+   * fieldSources records which. `providers` replaces AI_PROVIDERS, e.g. to
+   * try one provider alone. Past `deadline` no more calls are made and the
+   * analysis is built from what's valid so far.
+   */
   async analyzeHealthReport(
     extractedText: string,
-    metrics: HealthMetric[],
-    contextualInfo: string = ''
-  ): Promise<AnalysisResult> {
-    try {
-      // Route to appropriate AI service based on configuration
-      if (config.ai.provider === 'google') {
-        if (!this.googleAIService) {
-          logger.warn('⚠️ Google AI service not available, falling back to Ollama');
-          return await this.analyzeWithOllama(extractedText, metrics, contextualInfo);
-        }
-        try {
-          return await this.googleAIService.analyzeHealthReport(extractedText, metrics, contextualInfo);
-        } catch (error) {
-          logger.warn('⚠️ Google AI analysis failed, falling back to Ollama');
-          return await this.analyzeWithOllama(extractedText, metrics, contextualInfo);
-        }
-      } else {
-        return await this.analyzeWithOllama(extractedText, metrics, contextualInfo);
-      }
-    } catch (error) {
-      logger.error('AI analysis routing error:', error);
-      throw error;
-    }
-  }
-  
-  private async analyzeWithOllama(
-    extractedText: string,
-    metrics: HealthMetric[],
-    contextualInfo: string = ''
+    metrics: AnalysisMetric[],
+    contextualInfo: string = '',
+    { providers, signal, deadline }: AnalyzeOptions = {}
   ): Promise<AnalysisResult> {
     const startTime = Date.now();
+    logger.info(`🤖 Analyzing ${metrics.length} health metrics...`);
+    
+    const messages: ChatMessage[] = [
+      { role: 'system', content: MEDICAL_SYSTEM_PROMPT },
+      { role: 'user', content: this.buildMedicalPrompt(metrics, contextualInfo) }
+    ];
+    let best: { value: unknown; issueCount: number } | undefined;
+    let provider: AIProvider | undefined;
     
     try {
-      logger.info(`🤖 Analyzing ${metrics.length} health metrics with Ollama Meditron...`);
-      
-      const prompt = this.buildMedicalPrompt(metrics, contextualInfo);
-      
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('AI analysis timeout')), config.ai.ollama.timeout);
-      });
-      
-      const analysisPromise = this.ollama.chat({
-        model: config.ai.ollama.model,
-        messages: [
-          { 
-            role: 'system', 
-            content: 'You are Meditron, a specialized medical AI assistant trained to analyze blood test results and provide evidence-based health recommendations. Provide accurate, professional medical analysis while being accessible to patients.'
-          },
-          { role: 'user', content: prompt }
-        ],
-        options: {
+      for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        // Repairs go back to the provider that gave the answer being repaired
+        const answer = await this.registry.generate({
+          messages,
+          maxTokens: 2048,
           temperature: 0.1,  // Lower temperature for more consistent medical advice
-          top_p: 0.95,
-          top_k: 40,
-          repeat_penalty: 1.1,
-          num_predict: 512,  // Reduced for faster responses
-          num_ctx: 2048,     // Context window
-          num_batch: 512,    // Batch size for faster processing
-          num_thread: 8      // Use multiple threads
-        }
-      });
-      
-      const response = await Promise.race([analysisPromise, timeoutPromise]);
-      
-      logger.info('✅ Ollama AI analysis completed');
-      
-      const parsedResult = this.parseAIResponse(response.message.content, metrics);
-      parsedResult.processingTime = Date.now() - startTime;
-      parsedResult.modelUsed = `${config.ai.ollama.model} (Ollama)`;
-      
-      return parsedResult;
-      
-    } catch (error) {
-      logger.error('Ollama analysis error:', error);
-      
-      if (error instanceof Error && error.message.includes('timeout')) {
-        logger.warn('⚠️ AI timeout, returning fallback analysis');
-        return this.getFallbackAnalysis(metrics, Date.now() - startTime);
+          json: true
+        }, provider ? [provider.id] : providers, { signal, deadline });
+        provider = answer.provider;
+        
+        const problems = this.validateAnswer(answer.text, candidate => {
+          if (!best || candidate.issueCount < best.issueCount) best = candidate;
+        });
+        if (problems.length === 0) break;
+        
+        logger.warn(`⚠️ ${provider.name} analysis invalid (attempt ${attempt + 1} of ${MAX_REPAIR_ATTEMPTS + 1}): ${problems.slice(0, 5).join('; ')}`);
+        if (attempt === MAX_REPAIR_ATTEMPTS) break;
+        messages.push(
+          { role: 'assistant', content: answer.text },
+          { role: 'user', content: this.buildRepairPrompt(problems) }
+        );
       }
-      
-      throw new AppError('Ollama AI analysis failed', 500);
+    } catch (error) {
+      // Whoever aborted doesn't want an analysis any more
+      if (signal?.aborted) throw error;
+      logger.warn(`⚠️ ${error instanceof Error ? error.message : 'AI analysis failed'}, ${best ? 'keeping the valid fields so far' : 'returning rule-based analysis'}`);
+    }
+    
+    const { result, fieldSources } = mergeWithFallback(best?.value, this.getFallbackAnalysis(metrics));
+    const fallbackFields = Object.keys(fieldSources).filter(field => fieldSources[field] === 'fallback');
+    const fromModel = provider && fallbackFields.length < Object.keys(fieldSources).length;
+    if (fromModel && fallbackFields.length > 0) {
+      logger.info(`🧩 ${fallbackFields.length} analysis fields from rule-based fallbacks: ${fallbackFields.join(', ')}`);
     }
+    
+    return {
+      ...result,
+      fieldSources,
+      processingTime: Date.now() - startTime,
+      modelUsed: fromModel ? `${provider!.model} (${provider!.name})` : RULE_BASED_MODEL
+    };
+  }
+  
+  // Problems with an answer, none when it's valid; `onParsed` gets any JSON it contains
+  private validateAnswer(content: string, onParsed: (candidate: { value: unknown; issueCount: number }) => void): string[] {
+    const extracted = extractJson(content);
+    if ('error' in extracted) return [extracted.error];
+    
+    const validation = analysisSchema.safeParse(extracted.value);
+    const problems = validation.success ? [] : describeIssues(validation.error);
+    onParsed({ value: extracted.value, issueCount: problems.length });
+    return problems;
   }
   
-  private buildMedicalPrompt(metrics: HealthMetric[], contextualInfo: string): string {
+  private buildMedicalPrompt(metrics: AnalysisMetric[], contextualInfo: string): string {
     return `You are a senior medical AI assistant specializing in personalized laboratory result analysis. Provide comprehensive, evidence-based medical analysis with personalized recommendations.
 
 PATIENT LABORATORY RESULTS:
-${metrics.map(m => `${m.metric}: ${m.value} ${m.unit} (Reference: Normal, Current Status: ${m.flag})`).join('\n')}
+${metrics.map(m => `${m.metric}: ${m.valueText ?? m.value} ${m.unit} (Reference: Normal, Current Status: ${m.flag})`).join('\n')}
 
 ${contextualInfo ? `\nPATIENT CONTEXT:\n${contextualInfo}\n` : ''}
 
-Provide a COMPLETE personalized medical analysis following this EXACT format:
-
-ASSESSMENT: [Provide a comprehensive clinical assessment (3-4 sentences) explaining the overall health status, medical significance of each abnormal value, potential underlying conditions, and immediate health implications. Be specific about which parameters are concerning and why.]
-
-CONCERNS: [List specific medical concerns, conditions, or diseases indicated by abnormal values. For each concern, briefly explain the connection to the lab values. If all values are normal, state "All laboratory parameters are within normal reference ranges - indicating good baseline health status."]
+Answer with one JSON object and nothing else, in exactly this shape. Replace each description with your answer. Every field is required. Each list item is one complete recommendation or finding in its own string; use an empty list when nothing applies.
 
-CONDITION_SPECIFIC_ADVICE: [For each identified health issue, provide specific medical advice including: what the condition means, immediate steps to take, when to see a doctor, and potential complications if left untreated. Format as: "Issue: [condition] - Advice: [specific guidance]"]
-
-DIETARY: [List 7-8 specific foods to include for the identified conditions, with brief reasoning. Prefer Indian cuisine and format as: "Food item (reason for recommendation)". Separate with commas.]
-
-AVOID: [List 5-6 foods to strictly avoid based on these results, with brief reasoning. Format as: "Food item (reason to avoid)". Separate with commas.]
-
-EXERCISE: [List 4-5 specific exercises with exact duration, frequency, and intensity based on the health conditions. Format as: "Exercise type - Duration - Frequency - Benefits". Separate with commas.]
-
-LIFESTYLE_MODIFICATIONS: [Provide 4-5 specific lifestyle changes beyond diet and exercise, such as sleep patterns, stress management, hydration, etc. Be specific and actionable.]
-
-MONITORING: [Specify which parameters need regular monitoring, how often, and what values to watch for. Include warning signs that require immediate medical attention.]
-
-SUPPLEMENTS: [Recommend specific supplements with dosages if deficiencies are detected. Always mention "consult doctor before starting".]
-
-KEY_FINDINGS: [List 4-5 most important findings from the lab results. Format as bullet points with clinical significance.]
-
-CRITICAL_VALUES: [List any values that are critically abnormal and require immediate attention. If none, state "No critical values detected".]
-
-NORMAL_VALUES: [List values that are within normal range to reassure the patient.]
-
-ACTION_REQUIRED: [List immediate actions the patient should take, prioritized by urgency.]
-
-TIMELINE: [Provide realistic timeline for improvement if recommendations are followed. Include when to expect changes and follow-up testing schedule.]
-
-SCORE: [Calculate overall health score from 0-100 based on lab values, with brief explanation of the scoring rationale]
-
-URGENCY: [Classify as ROUTINE (normal/mild abnormalities), MODERATE (significant abnormalities requiring attention), or URGENT (critical values requiring immediate medical care)]
+{
+  "analysis": {
+    "overallAssessment": "3-4 sentences: overall health status, the medical significance of each abnormal value, potential underlying conditions and immediate implications",
+    "concerns": ["A medical concern and the lab values that indicate it"],
+    "conditionSpecificAdvice": ["Issue: condition - Advice: what it means, immediate steps, when to see a doctor, complications if untreated"],
+    "specialists": ["A specialist to consult and why"],
+    "followUpTests": ["A test to confirm or monitor a finding"],
+    "clinicalInterpretation": "How the results relate to each other clinically",
+    "riskFactors": ["A health risk these results point to"],
+    "monitoring": ["A parameter to monitor, how often, and the warning signs that need immediate medical attention"]
+  },
+  "recommendations": {
+    "dietary": {
+      "foods_to_include": ["7-8 foods for the identified conditions, each as: food (reason)"],
+      "foods_to_avoid": ["5-6 foods to avoid, each as: food (reason)"],
+      "meal_plan_suggestions": "How to structure daily meals around these foods",
+      "nutritionalFocus": ["A nutrient to focus on"]
+    },
+    "lifestyle": {
+      "exercise": ["4-5 exercises, each as: type - duration - frequency - benefit"],
+      "daily_routine": ["A specific change to sleep, hydration or daily routine"],
+      "stress_management": ["A stress management practice"],
+      "preventiveMeasures": ["A preventive health measure"]
+    },
+    "ayurvedic": "Complementary Ayurvedic guidance that defers to medical treatment",
+    "supplements": ["A supplement with dosage for a detected deficiency, to be started only after consulting a doctor"]
+  },
+  "summary": {
+    "keyFindings": ["One of the 4-5 most important findings and its clinical significance"],
+    "criticalValues": ["A critically abnormal value that needs immediate attention"],
+    "normalValues": ["A value within its normal range"],
+    "actionRequired": ["An action the patient should take, most urgent first"],
+    "timelineForImprovement": "When to expect improvement if recommendations are followed, and when to retest"
+  },
+  "healthScore": <overall health score from 0 to 100 based on the lab values>,
+  "urgencyLevel": "routine (normal or mild abnormalities), moderate (significant abnormalities requiring attention) or urgent (critical values requiring immediate medical care) - one of the three words"
+}
 
-Ensure your response follows this exact format for proper parsing. Focus on evidence-based, personalized recommendations appropriate for the Indian population and healthcare system.`;
+Focus on evidence-based, personalized recommendations appropriate for the Indian population and healthcare system.`;
   }
   
-  private parseAIResponse(content: string, metrics: HealthMetric[]): AnalysisResult {
-    logger.info('🔍 Parsing comprehensive AI response...');
-    
-    const sections = content.split('\n\n');
-    const result: any = {
-      assessment: "Your blood test results have been analyzed with personalized recommendations.",
-      concerns: [],
-      conditionSpecificAdvice: [],
-      dietary: [],
-      avoid: [],
-      exercise: [],
-      lifestyleModifications: [],
-      monitoring: [],
-      supplements: [],
-      keyFindings: [],
-      criticalValues: [],
-      normalValues: [],
-      actionRequired: [],
-      timelineForImprovement: "Follow recommendations for 4-6 weeks and monitor progress with follow-up testing.",
-      score: this.calculateHealthScore(metrics),
-      urgencyLevel: 'routine' as const
-    };
-    
-    for (const section of sections) {
-      const lines = section.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-      
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        
-        if (line.startsWith('ASSESSMENT:')) {
-          result.assessment = line.replace('ASSESSMENT:', '').trim();
-          while (i + 1 < lines.length && !lines[i + 1].includes(':')) {
-            result.assessment += ' ' + lines[++i];
-          }
-        } else if (line.startsWith('CONCERNS:')) {
-          const concernText = line.replace('CONCERNS:', '').trim();
-          if (concernText.toLowerCase().includes('normal range') || concernText.toLowerCase().includes('normal parameter')) {
-            result.concerns = ["All laboratory parameters are within normal reference ranges"];
-            result.urgencyLevel = 'routine';
-          } else {
-            result.concerns = [concernText];
-            while (i + 1 < lines.length && !lines[i + 1].includes(':')) {
-              result.concerns.push(lines[++i]);
-            }
-            result.concerns = result.concerns.filter(c => c.length > 0);
-            
-            // Determine urgency based on concerns
-            const concernsText = result.concerns.join(' ').toLowerCase();
-            if (concernsText.includes('critical') || concernsText.includes('urgent') || concernsText.includes('immediate')) {
-              result.urgencyLevel = 'urgent';
-            } else if (concernsText.includes('elevated') || concernsText.includes('abnormal') || concernsText.includes('monitor')) {
-              result.urgencyLevel = 'moderate';
-            }
-          }
-        } else if (line.startsWith('CONDITION_SPECIFIC_ADVICE:')) {
-          const adviceText = line.replace('CONDITION_SPECIFIC_ADVICE:', '').trim();
-          result.conditionSpecificAdvice = [adviceText];
-          while (i + 1 < lines.length && !lines[i + 1].includes(':')) {
-            result.conditionSpecificAdvice.push(lines[++i]);
-          }
-          result.conditionSpecificAdvice = result.conditionSpecificAdvice.filter(a => a.length > 0);
-        } else if (line.startsWith('DIETARY:')) {
-          const foodText = line.replace('DIETARY:', '').trim();
-          result.dietary = foodText.split(',').map(f => f.trim().replace(/["']/g, '')).filter(f => f.length > 0);
-        } else if (line.startsWith('AVOID:')) {
-          const avoidText = line.replace('AVOID:', '').trim();
-          result.avoid = avoidText.split(',').map(f => f.trim().replace(/["']/g, '')).filter(f => f.length > 0);
-        } else if (line.startsWith('EXERCISE:')) {
-          const exerciseText = line.replace('EXERCISE:', '').trim();
-          result.exercise = exerciseText.split(',').map(e => e.trim().replace(/["']/g, '')).filter(e => e.length > 0);
-        } else if (line.startsWith('LIFESTYLE_MODIFICATIONS:')) {
-          const lifestyleText = line.replace('LIFESTYLE_MODIFICATIONS:', '').trim();
-          result.lifestyleModifications = lifestyleText.split(',').map(l => l.trim().replace(/["']/g, '')).filter(l => l.length > 0);
-        } else if (line.startsWith('MONITORING:')) {
-          const monitoringText = line.replace('MONITORING:', '').trim();
-          result.monitoring = [monitoringText];
-          while (i + 1 < lines.length && !lines[i + 1].includes(':')) {
-            result.monitoring.push(lines[++i]);
-          }
-          result.monitoring = result.monitoring.filter(m => m.length > 0);
-        } else if (line.startsWith('SUPPLEMENTS:')) {
-          const supplementText = line.replace('SUPPLEMENTS:', '').trim();
-          result.supplements = supplementText.split(',').map(s => s.trim().replace(/["']/g, '')).filter(s => s.length > 0);
-        } else if (line.startsWith('KEY_FINDINGS:')) {
-          const findingsText = line.replace('KEY_FINDINGS:', '').trim();
-          result.keyFindings = findingsText.split('•').map(f => f.trim()).filter(f => f.length > 0);
-          while (i + 1 < lines.length && !lines[i + 1].includes(':')) {
-            const nextLine = lines[++i];
-            if (nextLine.includes('•')) {
-              result.keyFindings.push(...nextLine.split('•').map(f => f.trim()).filter(f => f.length > 0));
-            } else {
-              result.keyFindings.push(nextLine);
-            }
-          }
-        } else if (line.startsWith('CRITICAL_VALUES:')) {
-          const criticalText = line.replace('CRITICAL_VALUES:', '').trim();
-          if (criticalText.toLowerCase().includes('no critical') || criticalText.toLowerCase().includes('none detected')) {
-            result.criticalValues = ["No critical values detected"];
-          } else {
-            result.criticalValues = [criticalText];
-            while (i + 1 < lines.length && !lines[i + 1].includes(':')) {
-              result.criticalValues.push(lines[++i]);
-            }
-            result.criticalValues = result.criticalValues.filter(c => c.length > 0);
-          }
-        } else if (line.startsWith('NORMAL_VALUES:')) {
-          const normalText = line.replace('NORMAL_VALUES:', '').trim();
-          result.normalValues = normalText.split(',').map(n => n.trim()).filter(n => n.length > 0);
-        } else if (line.startsWith('ACTION_REQUIRED:')) {
-          const actionText = line.replace('ACTION_REQUIRED:', '').trim();
-          result.actionRequired = actionText.split(',').map(a => a.trim()).filter(a => a.length > 0);
-        } else if (line.startsWith('TIMELINE:')) {
-          result.timelineForImprovement = line.replace('TIMELINE:', '').trim();
-          while (i + 1 < lines.length && !lines[i + 1].includes(':')) {
-            result.timelineForImprovement += ' ' + lines[++i];
-          }
-        } else if (line.startsWith('SCORE:')) {
-          const scoreMatch = line.match(/\d+/);
-          if (scoreMatch) {
-            const parsedScore = parseInt(scoreMatch[0]);
-            if (!isNaN(parsedScore) && parsedScore >= 0 && parsedScore <= 100) {
-              result.score = parsedScore;
-            }
-          }
-        } else if (line.startsWith('URGENCY:')) {
-          const urgencyText = line.replace('URGENCY:', '').trim().toLowerCase();
-          if (urgencyText.includes('urgent')) {
-            result.urgencyLevel = 'urgent';
-          } else if (urgencyText.includes('moderate')) {
-            result.urgencyLevel = 'moderate';
-          } else {
-            result.urgencyLevel = 'routine';
-          }
-        }
-      }
-    }
-    
-    // Enhanced fallbacks with personalized recommendations
-    if (result.dietary.length === 0) {
-      result.dietary = [
-        "Iron-rich palak dal with jeera (supports blood health)",
-        "Vitamin C-rich amla juice twice daily (enhances iron absorption)", 
-        "Folate-rich methi paratha with minimal oil (supports cell formation)",
-        "Protein-rich moong sprouts chaat (muscle maintenance)",
-        "Calcium-rich til laddu in moderation (bone health)",
-        "Antioxidant-rich green tea (cellular protection)",
-        "Fiber-rich oats upma with vegetables (digestive health)"
-      ];
-    }
-    if (result.avoid.length === 0) {
-      result.avoid = [
-        "High-sodium processed foods and packaged snacks (affects blood pressure)",
-        "Trans fat-rich deep fried items like samosas (cardiovascular risk)", 
-        "High glycemic index sweets and refined sugars (blood sugar spikes)",
-        "Excessive caffeine and alcohol (dehydration and nutrient depletion)",
-        "Red meat in excess (high saturated fat content)"
-      ];
-    }
-    if (result.exercise.length === 0) {
-      result.exercise = [
-        "Brisk walking - 30-45 minutes - Daily - Improves cardiovascular health",
-        "Yoga asanas and stretching - 20 minutes - Morning - Enhances flexibility and reduces stress",
-        "Pranayama breathing exercises - 15 minutes - Twice daily - Reduces stress and improves oxygen delivery",
-        "Light strength training - 20 minutes - 3 times per week - Maintains muscle mass and bone density"
-      ];
-    }
-    if (result.concerns.length === 0) {
-      result.concerns = this.extractConcerns(metrics);
-    }
-    if (result.keyFindings.length === 0) {
-      result.keyFindings = this.generateKeyFindings(metrics);
-    }
-    if (result.criticalValues.length === 0) {
-      result.criticalValues = this.identifyCriticalValues(metrics);
-    }
-    if (result.normalValues.length === 0) {
-      result.normalValues = this.identifyNormalValues(metrics);
-    }
-    if (result.actionRequired.length === 0) {
-      result.actionRequired = this.generateActionItems(metrics);
-    }
-    
-    return {
-      analysis: {
-        overallAssessment: result.assessment,
-        concerns: result.concerns,
-        conditionSpecificAdvice: result.conditionSpecificAdvice || [],
-        specialists: this.suggestSpecialists(metrics),
-        followUpTests: this.suggestFollowUpTests(metrics),
-        clinicalInterpretation: `Comprehensive personalized analysis performed by ${config.ai.ollama.model} - Specialized medical AI for laboratory result interpretation with evidence-based recommendations.`,
-        riskFactors: this.identifyRiskFactors(metrics),
-        monitoring: result.monitoring || []
-      },
-      recommendations: {
-        dietary: {
-          foods_to_include: result.dietary,
-          foods_to_avoid: result.avoid,
-          meal_plan_suggestions: "Follow a balanced Indian diet with the recommended foods, focusing on whole grains, lean proteins, and fresh vegetables tailored to your specific health conditions.",
-          nutritionalFocus: this.getNutritionalFocus(metrics)
-        },
-        lifestyle: {
-          exercise: result.exercise,
-          daily_routine: result.lifestyleModifications.length > 0 ? result.lifestyleModifications : [
-            "Maintain consistent sleep schedule (7-8 hours nightly)",
-            "Stay adequately hydrated (8-10 glasses water daily)",
-            "Practice stress management through meditation or hobbies",
-            "Follow regular meal timings with balanced portions"
-          ],
-          stress_management: [
-            "Deep breathing exercises (5 minutes, 3 times daily)",
-            "Meditation or mindfulness practice (15 minutes daily)",
-            "Regular social interactions and family time",
-            "Adequate rest and relaxation activities"
-          ],
-          preventiveMeasures: this.getPreventiveMeasures(metrics)
-        },
-        ayurvedic: "Consider consultation with qualified Ayurvedic practitioner for personalized dosha-based recommendations complementing modern medicine.",
-        supplements: result.supplements.length > 0 ? result.supplements : this.suggestSupplements(metrics)
-      },
-      summary: {
-        keyFindings: result.keyFindings,
-        criticalValues: result.criticalValues,
-        normalValues: result.normalValues,
-        actionRequired: result.actionRequired,
-        timelineForImprovement: result.timelineForImprovement
-      },
-      healthScore: result.score,
-      urgencyLevel: result.urgencyLevel,
-      processingTime: 0
-    };
+  private buildRepairPrompt(problems: string[]): string {
+    const listed = problems.slice(0, MAX_LISTED_PROBLEMS).map(problem => `- ${problem}`).join('\n');
+    const more = problems.length > MAX_LISTED_PROBLEMS ? `\n- and ${problems.length - MAX_LISTED_PROBLEMS} more` : '';
+    return `Your answer doesn't match the required JSON format:\n${listed}${more}\n\nReply with the complete corrected JSON object only, keeping the fields that were already valid.`;
   }
   
-  private getFallbackAnalysis(metrics: HealthMetric[], processingTime: number): AnalysisResult {
+  /**
+   * Rule-based analysis from the metric flags alone. The whole analysis
+   * when no provider answers, otherwise the fields the model got wrong.
+   */
+  private getFallbackAnalysis(metrics: AnalysisMetric[]): SchemaAnalysis {
+    const abnormal = metrics.filter(m => m.flag !== 'NORMAL');
+    
     return {
       analysis: {
-        overallAssessment: "Analysis completed using backup system with personalized recommendations. Your laboratory results have been processed with comprehensive health insights.",
+        overallAssessment: abnormal.length > 0
+          ? `${abnormal.length} of ${metrics.length} results are outside their reference ranges: ${abnormal.map(m => `${m.metric} (${m.flag.toLowerCase()})`).join(', ')}. Discuss these with your doctor.`
+          : `All ${metrics.length} results are within their reference ranges.`,
         concerns: this.extractConcerns(metrics),
         conditionSpecificAdvice: this.generateConditionAdvice(metrics),
         specialists: this.suggestSpecialists(metrics),
         followUpTests: this.suggestFollowUpTests(metrics),
-        clinicalInterpretation: "Fallback analysis - please retry for full AI-powered personalized analysis.",
+        clinicalInterpretation: "Based on each result's flag alone; no AI interpretation of how the results relate is available.",
         riskFactors: this.identifyRiskFactors(metrics),
         monitoring: this.generateMonitoringPlan(metrics)
       },
       recommendations: {
         dietary: {
-          foods_to_include: [
-            "Iron-rich palak dal with jeera (supports blood health)",
-            "Vitamin C-rich amla juice (enhances iron absorption)",
-            "Folate-rich methi paratha (supports cell formation)",
-            "Protein-rich moong sprouts (muscle maintenance)",
-            "Calcium-rich til seeds (bone health)",
-            "Antioxidant-rich green tea (cellular protection)"
-          ],
-          foods_to_avoid: [
-            "High-sodium processed foods (affects blood pressure)",
-            "Trans fat-rich fried items (cardiovascular risk)",
-            "High glycemic index sweets (blood sugar spikes)",
-            "Excessive caffeine (dehydration and nutrient depletion)"
-          ],
-          meal_plan_suggestions: "Follow balanced Indian diet emphasizing whole foods, traditional cooking methods, and foods tailored to your specific health parameters.",
+          foods_to_include: this.suggestFoods(metrics),
+          foods_to_avoid: this.suggestFoodsToAvoid(metrics),
+          meal_plan_suggestions: "Eat regular, balanced meals built around the foods above, with whole grains, vegetables and lean protein.",
           nutritionalFocus: this.getNutritionalFocus(metrics)
         },
         lifestyle: {
           exercise: [
-            "Brisk walking - 30-45 minutes daily - Cardiovascular health",
-            "Yoga asanas and stretching - 20 minutes morning - Flexibility and stress reduction",
-            "Pranayama breathing exercises - 15 minutes twice daily - Stress management"
+            "Brisk walking - 30 minutes - 5 days a week - Cardiovascular health",
+            "Stretching or yoga - 20 minutes - Daily - Flexibility and stress reduction"
           ],
           daily_routine: [
             "Consistent sleep schedule (7-8 hours nightly)",
-            "Adequate hydration throughout day (8-10 glasses)",
-            "Regular meal timings with balanced portions",
-            "Stress management through relaxation techniques"
+            "Adequate hydration throughout the day",
+            "Regular meal timings with balanced portions"
           ],
           stress_management: [
-            "Daily meditation practice (15 minutes)",
             "Deep breathing exercises (5 minutes, 3 times daily)",
-            "Regular social connections and family time",
-            "Engage in relaxing hobbies and activities"
+            "Daily relaxation or meditation practice"
           ],
           preventiveMeasures: this.getPreventiveMeasures(metrics)
         },
-        ayurvedic: "Consider Ayurvedic consultation for personalized dosha-based recommendations complementing modern medicine and your specific health profile.",
+        ayurvedic: "Consider consultation with a qualified Ayurvedic practitioner for recommendations complementing modern medicine.",
         supplements: this.suggestSupplements(metrics)
       },
       summary: {
@@ -559,16 +322,81 @@ Ensure your response follows this exact format for proper parsing. Focus on evid
         criticalValues: this.identifyCriticalValues(metrics),
         normalValues: this.identifyNormalValues(metrics),
         actionRequired: this.generateActionItems(metrics),
-        timelineForImprovement: "Follow personalized recommendations for 4-6 weeks, monitor progress, and schedule follow-up testing as advised."
+        timelineForImprovement: "Follow the recommendations for 4-6 weeks, then repeat the tests your doctor advises."
       },
       healthScore: this.calculateHealthScore(metrics),
-      urgencyLevel: this.determineUrgencyLevel(metrics),
-      processingTime,
-      modelUsed: `${config.ai.ollama.model} (Ollama Fallback)`
+      urgencyLevel: this.determineUrgencyLevel(metrics)
     };
   }
   
-  private generateConditionAdvice(metrics: HealthMetric[]): string[] {
+  // Foods for what the flags show, not a fixed menu
+  private suggestFoods(metrics: AnalysisMetric[]): string[] {
+    const foods: string[] = [];
+    
+    metrics.forEach(metric => {
+      const metricName = metric.metric.toLowerCase();
+      
+      if ((metricName.includes('hemoglobin') || metricName.includes('iron') || metricName.includes('ferritin')) && metric.flag === 'LOW') {
+        foods.push('Leafy greens such as spinach and methi (iron)', 'Lentils, beans and chickpeas (iron and folate)', 'Citrus fruit or amla with meals (vitamin C helps iron absorption)');
+      }
+      
+      if ((metricName.includes('glucose') || metricName.includes('hba1c')) && (metric.flag === 'HIGH' || metric.flag === 'CRITICAL')) {
+        foods.push('Whole grains such as millets, oats and brown rice (slower sugar release)', 'Non-starchy vegetables (fibre)', 'Sprouts and pulses (protein and fibre)');
+      }
+      
+      if ((metricName.includes('cholesterol') || metricName.includes('ldl') || metricName.includes('triglyceride')) && metric.flag === 'HIGH') {
+        foods.push('Oats and barley (soluble fibre lowers LDL)', 'Nuts and seeds in small portions (unsaturated fats)', 'Fish or flaxseed (omega-3 fatty acids)');
+      }
+      
+      if ((metricName.includes('vitamin d') || metricName.includes('calcium')) && metric.flag === 'LOW') {
+        foods.push('Milk, curd or fortified alternatives (calcium and vitamin D)', 'Ragi and sesame seeds (calcium)');
+      }
+      
+      if (metricName.includes('b12') && metric.flag === 'LOW') {
+        foods.push('Dairy, eggs or B12-fortified foods (vitamin B12)');
+      }
+    });
+    
+    if (foods.length === 0) {
+      foods.push('Vegetables and fruit at every meal (fibre and micronutrients)', 'Whole grains (sustained energy)', 'Lean protein such as pulses, eggs or fish (muscle maintenance)');
+    }
+    
+    return [...new Set(foods)];
+  }
+  
+  private suggestFoodsToAvoid(metrics: AnalysisMetric[]): string[] {
+    const foods: string[] = [];
+    
+    metrics.forEach(metric => {
+      const metricName = metric.metric.toLowerCase();
+      
+      if ((metricName.includes('glucose') || metricName.includes('hba1c')) && (metric.flag === 'HIGH' || metric.flag === 'CRITICAL')) {
+        foods.push('Sugary drinks and sweets (blood sugar spikes)', 'Large portions of refined flour and white rice (fast-acting carbohydrates)');
+      }
+      
+      if ((metricName.includes('cholesterol') || metricName.includes('ldl') || metricName.includes('triglyceride')) && metric.flag === 'HIGH') {
+        foods.push('Deep-fried foods and trans fats (raise LDL)', 'Excess red meat and full-fat dairy (saturated fat)');
+      }
+      
+      if (metricName.includes('hemoglobin') && metric.flag === 'LOW') {
+        foods.push('Tea or coffee with meals (reduces iron absorption)');
+      }
+      
+      if ((metricName.includes('alt') || metricName.includes('ast') || metricName.includes('liver')) && metric.flag === 'HIGH') {
+        foods.push('Alcohol (liver strain)');
+      }
+      
+      if ((metricName.includes('creatinine') || metricName.includes('urea')) && metric.flag === 'HIGH') {
+        foods.push('Excess salt and processed foods (kidney and blood pressure strain)');
+      }
+    });
+    
+    foods.push('Highly processed packaged foods (salt, sugar and fat)');
+    
+    return [...new Set(foods)];
+  }
+  
+  private generateConditionAdvice(metrics: AnalysisMetric[]): string[] {
     const advice: string[] = [];
     
     metrics.forEach(metric => {
@@ -593,7 +421,7 @@ Ensure your response follows this exact format for proper parsing. Focus on evid
     return advice;
   }
   
-  private generateMonitoringPlan(metrics: HealthMetric[]): string[] {
+  private generateMonitoringPlan(metrics: AnalysisMetric[]): string[] {
     const monitoring: string[] = [];
     
     const abnormalMetrics = metrics.filter(m => m.flag !== 'NORMAL');
@@ -610,7 +438,7 @@ Ensure your response follows this exact format for proper parsing. Focus on evid
     return monitoring;
   }
   
-  private determineUrgencyLevel(metrics: HealthMetric[]): 'routine' | 'moderate' | 'urgent' {
+  private determineUrgencyLevel(metrics: AnalysisMetric[]): 'routine' | 'moderate' | 'urgent' {
     const critical = metrics.filter(m => m.flag === 'CRITICAL');
     const high = metrics.filter(m => m.flag === 'HIGH');
     const low = metrics.filter(m => m.flag === 'LOW');
@@ -622,7 +450,8 @@ Ensure your response follows this exact format for proper parsing. Focus on evid
     return 'routine';
   }
   
-  private calculateHealthScore(metrics: HealthMetric[]): number {
+  // Rule-based score from the flags alone, also used when a report changes without a new analysis
+  calculateHealthScore(metrics: AnalysisMetric[]): number {
     if (metrics.length === 0) return 75;
     
     const weights = {
@@ -639,28 +468,28 @@ Ensure your response follows this exact format for proper parsing. Focus on evid
     return Math.round(totalScore / metrics.length);
   }
   
-  private extractConcerns(metrics: HealthMetric[]): string[] {
+  private extractConcerns(metrics: AnalysisMetric[]): string[] {
     const concerns: string[] = [];
     
     metrics.forEach(metric => {
       if (metric.flag === 'HIGH' || metric.flag === 'LOW' || metric.flag === 'CRITICAL') {
-        concerns.push(`${metric.metric} is ${metric.flag.toLowerCase()} (${metric.value} ${metric.unit})`);
+        concerns.push(`${metric.metric} is ${metric.flag.toLowerCase()} (${metric.valueText ?? metric.value} ${metric.unit})`);
       }
     });
     
     return concerns.length > 0 ? concerns : ["No significant concerns detected in the analyzed metrics"];
   }
   
-  private generateKeyFindings(metrics: HealthMetric[]): string[] {
+  private generateKeyFindings(metrics: AnalysisMetric[]): string[] {
     const findings: string[] = [];
     
     metrics.forEach(metric => {
       if (metric.flag === 'CRITICAL') {
-        findings.push(`Critical: ${metric.metric} at ${metric.value} ${metric.unit} requires immediate medical attention`);
+        findings.push(`Critical: ${metric.metric} at ${metric.valueText ?? metric.value} ${metric.unit} requires immediate medical attention`);
       } else if (metric.flag === 'HIGH') {
-        findings.push(`Elevated: ${metric.metric} (${metric.value} ${metric.unit}) indicates potential health concern`);
+        findings.push(`Elevated: ${metric.metric} (${metric.valueText ?? metric.value} ${metric.unit}) indicates potential health concern`);
       } else if (metric.flag === 'LOW') {
-        findings.push(`Low: ${metric.metric} (${metric.value} ${metric.unit}) may indicate deficiency or underlying condition`);
+        findings.push(`Low: ${metric.metric} (${metric.valueText ?? metric.value} ${metric.unit}) may indicate deficiency or underlying condition`);
       }
     });
     
@@ -672,21 +501,21 @@ Ensure your response follows this exact format for proper parsing. Focus on evid
     return findings.length > 0 ? findings : ["All analyzed parameters show normal patterns"];
   }
   
-  private identifyCriticalValues(metrics: HealthMetric[]): string[] {
+  private identifyCriticalValues(metrics: AnalysisMetric[]): string[] {
     const critical = metrics.filter(m => m.flag === 'CRITICAL')
-      .map(m => `${m.metric}: ${m.value} ${m.unit} (requires immediate medical consultation)`);
+      .map(m => `${m.metric}: ${m.valueText ?? m.value} ${m.unit} (requires immediate medical consultation)`);
     
     return critical.length > 0 ? critical : ["No critical values detected"];
   }
   
-  private identifyNormalValues(metrics: HealthMetric[]): string[] {
+  private identifyNormalValues(metrics: AnalysisMetric[]): string[] {
     const normal = metrics.filter(m => m.flag === 'NORMAL')
-      .map(m => `${m.metric}: ${m.value} ${m.unit}`);
+      .map(m => `${m.metric}: ${m.valueText ?? m.value} ${m.unit}`);
     
     return normal.length > 0 ? normal : ["Please refer to individual parameter analysis"];
   }
   
-  private generateActionItems(metrics: HealthMetric[]): string[] {
+  private generateActionItems(metrics: AnalysisMetric[]): string[] {
     const actions: string[] = [];
     
     const critical = metrics.filter(m => m.flag === 'CRITICAL');
@@ -713,7 +542,7 @@ Ensure your response follows this exact format for proper parsing. Focus on evid
     return actions;
   }
   
-  private suggestSpecialists(metrics: HealthMetric[]): string[] {
+  private suggestSpecialists(metrics: AnalysisMetric[]): string[] {
     const specialists: string[] = [];
     
     metrics.forEach(metric => {
@@ -741,7 +570,7 @@ Ensure your response follows this exact format for proper parsing. Focus on evid
     return [...new Set(specialists)];
   }
   
-  private suggestFollowUpTests(metrics: HealthMetric[]): string[] {
+  private suggestFollowUpTests(metrics: AnalysisMetric[]): string[] {
     const tests: string[] = [];
     
     metrics.forEach(metric => {
@@ -766,7 +595,7 @@ Ensure your response follows this exact format for proper parsing. Focus on evid
     return [...new Set(tests)];
   }
   
-  private identifyRiskFactors(metrics: HealthMetric[]): string[] {
+  private identifyRiskFactors(metrics: AnalysisMetric[]): string[] {
     const riskFactors: string[] = [];
     
     metrics.forEach(metric => {
@@ -793,7 +622,7 @@ Ensure your response follows this exact format for proper parsing. Focus on evid
     return [...new Set(riskFactors)];
   }
   
-  private getNutritionalFocus(metrics: HealthMetric[]): string[] {
+  private getNutritionalFocus(metrics: AnalysisMetric[]): string[] {
     const focus: string[] = [];
     
     metrics.forEach(metric => {
@@ -819,7 +648,7 @@ Ensure your response follows this exact format for proper parsing. Focus on evid
     return [...new Set(focus)];
   }
   
-  private getPreventiveMeasures(metrics: HealthMetric[]): string[] {
+  private getPreventiveMeasures(metrics: AnalysisMetric[]): string[] {
     const measures: string[] = [
       'Regular health check-ups every 6 months',
       'Maintain healthy weight (BMI 18.5-24.9)',
@@ -847,7 +676,7 @@ Ensure your response follows this exact format for proper parsing. Focus on evid
     return [...new Set(measures)];
   }
   
-  private suggestSupplements(metrics: HealthMetric[]): string[] {
+  private suggestSupplements(metrics: AnalysisMetric[]): string[] {
     const supplements: string[] = [];
     
     metrics.forEach(metric => {
@@ -881,16 +710,12 @@ Ensure your response follows this exact format for proper parsing. Focus on evid
     return [...new Set(supplements)];
   }
   
+  // Whether any provider in the chain answers right now
   async healthCheck(): Promise<boolean> {
-    try {
-      if (config.ai.provider === 'google') {
-        return this.googleAIService ? await this.googleAIService.healthCheck() : false;
-      } else {
-        await this.ollama.list();
-        return true;
-      }
-    } catch {
-      return false;
+    const providers = await this.registry.describe();
+    for (const info of providers.filter(info => info.enabled && info.available && info.circuit !== 'open')) {
+      if (await this.registry.get(info.id)!.healthCheck()) return true;
     }
+    return false;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,130 @@
+import { z, ZodError, ZodObject, ZodRawShape, ZodTypeAny } from 'zod';
+
+export type FieldSource = 'model' | 'fallback';
+
+const text = z.string().trim().min(1);
+
+// A lone string is a one-item list; items that aren't text are dropped rather than failing the list
+const list = z.preprocess(
+  value => typeof value === 'string' ? [value] : value,
+  z.array(z.unknown()).transform(items => items
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(item => item.length > 0))
+);
+
+/**
+ * What an analysis must look like: AnalysisResult without what AIService
+ * adds itself (processing time, model, field sources). Every field is
+ * required, so a field the model leaves out is known to need a fallback.
+ */
+export const analysisSchema = z.object({
+  analysis: z.object({
+    overallAssessment: text,
+    concerns: list,
+    conditionSpecificAdvice: list,
+    specialists: list,
+    followUpTests: list,
+    clinicalInterpretation: text,
+    riskFactors: list,
+    monitoring: list
+  }),
+  recommendations: z.object({
+    dietary: z.object({
+      foods_to_include: list,
+      foods_to_avoid: list,
+      meal_plan_suggestions: text,
+      nutritionalFocus: list
+    }),
+    lifestyle: z.object({
+      exercise: list,
+      daily_routine: list,
+      stress_management: list,
+      preventiveMeasures: list
+    }),
+    ayurvedic: text,
+    supplements: list
+  }),
+  summary: z.object({
+    keyFindings: list,
+    criticalValues: list,
+    normalValues: list,
+    actionRequired: list,
+    timelineForImprovement: text
+  }),
+  // "72" and "72/100" are read as 72
+  healthScore: z.preprocess(
+    value => typeof value === 'string' && /^\s*\d+(\.\d+)?/.test(value) ? parseFloat(value) : value,
+    z.number().min(0).max(100).transform(Math.round)
+  ),
+  urgencyLevel: z.preprocess(
+    value => typeof value === 'string' ? value.trim().toLowerCase() : value,
+    z.enum(['routine', 'moderate', 'urgent'])
+  )
+});
+
+export type SchemaAnalysis = z.infer<typeof analysisSchema>;
+
+/**
+ * The JSON object in a model's answer. Models wrap it in code fences or
+ * prose and leave trailing commas, so those are tolerated; anything else
+ * is an error to send back with the re-ask.
+ */
+export function extractJson(content: string): { value: unknown } | { error: string } {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return { error: 'The answer contains no JSON object' };
+  }
+
+  const json = content.slice(start, end + 1);
+  try {
+    return { value: JSON.parse(json) };
+  } catch (error) {
+    try {
+      return { value: JSON.parse(json.replace(/,\s*([}\]])/g, '$1')) };
+    } catch {
+      return { error: `The JSON doesn't parse: ${error instanceof Error ? error.message : error}` };
+    }
+  }
+}
+
+// One line per problem, by field path, for the re-ask prompt and logs
+export function describeIssues(error: ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || 'answer'}: ${issue.message}`);
+}
+
+/**
+ * Takes each field from the model's answer where it's valid and from
+ * `fallback` where it isn't, recording which, so one bad list doesn't
+ * cost the rest of an answer that never fully validated.
+ */
+export function mergeWithFallback(value: unknown, fallback: SchemaAnalysis): { result: SchemaAnalysis; fieldSources: Record<string, FieldSource> } {
+  const fieldSources: Record<string, FieldSource> = {};
+  const result = mergeObject(analysisSchema, value, fallback, '', fieldSources) as SchemaAnalysis;
+  return { result, fieldSources };
+}
+
+function mergeObject(
+  schema: ZodObject<ZodRawShape>,
+  value: unknown,
+  fallback: Record<string, any>,
+  prefix: string,
+  fieldSources: Record<string, FieldSource>
+): Record<string, unknown> {
+  const source = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  const merged: Record<string, unknown> = {};
+
+  for (const [key, field] of Object.entries(schema.shape) as [string, ZodTypeAny][]) {
+    const path = `${prefix}${key}`;
+    if (field instanceof ZodObject) {
+      merged[key] = mergeObject(field, source[key], fallback[key], `${path}.`, fieldSources);
+      continue;
+    }
+
+    const parsed = field.safeParse(source[key]);
+    merged[key] = parsed.success ? parsed.data : fallback[key];
+    fieldSources[path] = parsed.success ? 'model' : 'fallback';
+  }
+  return merged;
+}
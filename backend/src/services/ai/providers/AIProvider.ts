@@ -0,0 +1,75 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface GenerateRequest {
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  json?: boolean;          // Ask for a JSON object, where the provider can enforce it
+}
+
+/**
+ * AIProvider - What an AI provider adapter implements
+ *
+ * Adapters only send messages to a model and return its text. The prompt,
+ * parsing the answer, rule-based fallbacks, and which provider to try
+ * next are shared (AIService, AIProviderRegistry), so adding a provider
+ * means writing an adapter and registering it with AIProviderRegistry.
+ */
+export interface AIProvider {
+  readonly id: string;     // Used in AI_PROVIDERS, e.g. 'ollama'
+  readonly name: string;   // Shown with the model in results, e.g. 'Ollama'
+  readonly model: string;
+  readonly timeout: number; // ms the registry gives one request
+
+  // Whether the provider is set up here: credentials present, libraries installed
+  isAvailable(): Promise<boolean>;
+
+  // Whether it answers right now; a network call, so only for health checks
+  healthCheck(): Promise<boolean>;
+
+  // Rejects once `signal` aborts, when the provider's API allows it
+  generate(request: GenerateRequest, signal: AbortSignal): Promise<string>;
+
+  // The same answer in pieces as the model writes it; providers without a streaming API yield it whole
+  stream(request: GenerateRequest, signal: AbortSignal): AsyncIterable<string>;
+}
+
+// For completion-only models, which take one prompt rather than messages; ends where the answer goes
+export function toPlainPrompt(messages: ChatMessage[]): string {
+  const turns = messages.map(message => {
+    if (message.role === 'system') return message.content;
+    return `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`;
+  });
+  return [...turns, 'Assistant:'].join('\n\n');
+}
+
+// The data of each event in a server-sent event stream, for providers whose streaming API uses SSE
+export async function* readEventData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer = (buffer + decoder.decode(value, { stream: true })).replace(/\r\n/g, '\n');
+
+      // Events are separated by a blank line; lines starting with ':' are comments
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const data = buffer.slice(0, boundary).split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trim())
+          .join('\n');
+        buffer = buffer.slice(boundary + 2);
+        if (data) yield data;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+}
@@ -0,0 +1,303 @@
+import { logger } from '../../../utils/logger';
+import { config } from '../../../config';
+import { AppError } from '../../../middlewares/errorHandler';
+import { AIProvider, GenerateRequest } from './AIProvider';
+import { CircuitBreaker, CircuitState } from './CircuitBreaker';
+import { OllamaProvider } from './OllamaProvider';
+import { GoogleAIProvider } from './GoogleAIProvider';
+import { OpenRouterProvider } from './OpenRouterProvider';
+import { HuggingFaceProvider } from './HuggingFaceProvider';
+import { TransformersProvider } from './TransformersProvider';
+
+export interface GenerateResult {
+  text: string;
+  provider: AIProvider;
+}
+
+export interface GenerateOptions {
+  signal?: AbortSignal;  // Stops the provider asked and rejects at once
+  deadline?: number;     // Epoch ms by which to have answered; providers get no more of their timeout than is left
+}
+
+export interface StreamResult {
+  provider: AIProvider;
+  chunks: AsyncGenerator<string>; // Starts with the chunk that was waited for
+}
+
+export interface ProviderInfo {
+  id: string;
+  name: string;
+  model: string;
+  enabled: boolean;   // Listed in AI_PROVIDERS
+  available: boolean;
+  circuit: CircuitState;
+}
+
+class ProviderTimeoutError extends Error {}
+
+/**
+ * AIProviderRegistry - The AI providers this server knows and which to ask
+ *
+ * Providers are asked in AI_PROVIDERS order until one answers. Each
+ * request gets the provider's own timeout, and a provider that keeps
+ * failing is skipped by its circuit breaker until AI_CIRCUIT_RESET has
+ * passed, so one that is down doesn't cost every request a timeout.
+ */
+export class AIProviderRegistry {
+  private static instance: AIProviderRegistry;
+  private providers = new Map<string, AIProvider>();
+  private availability = new Map<string, Promise<boolean>>();
+  private circuits = new Map<string, CircuitBreaker>();
+
+  private constructor() {
+    [new OllamaProvider(), new GoogleAIProvider(), new OpenRouterProvider(), new HuggingFaceProvider(), new TransformersProvider()]
+      .forEach(provider => this.register(provider));
+  }
+
+  static getInstance(): AIProviderRegistry {
+    if (!AIProviderRegistry.instance) {
+      AIProviderRegistry.instance = new AIProviderRegistry();
+    }
+    return AIProviderRegistry.instance;
+  }
+
+  // Adds a provider, or replaces the one registered under the same id
+  register(provider: AIProvider): void {
+    this.providers.set(provider.id, provider);
+    this.availability.delete(provider.id);
+    this.circuits.set(provider.id, new CircuitBreaker(config.ai.circuitBreaker.failureThreshold, config.ai.circuitBreaker.resetMs));
+  }
+
+  get(id: string): AIProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  async initialize(): Promise<void> {
+    for (const id of config.ai.providers.filter(id => !this.providers.has(id))) {
+      logger.warn(`⚠️ Unknown AI provider "${id}" in AI_PROVIDERS (known: ${[...this.providers.keys()].join(', ')})`);
+    }
+
+    const providers = await this.usableProviders(config.ai.providers);
+    for (const provider of providers) {
+      if (await provider.healthCheck()) {
+        logger.info(`✅ AI provider ${provider.name} (${provider.model}) is responding`);
+      } else {
+        logger.warn(`⚠️ AI provider ${provider.name} (${provider.model}) is not responding`);
+      }
+    }
+    logger.info(`🤖 AI providers: ${providers.map(provider => provider.id).join(' → ') || 'none, using rule-based analysis only'}`);
+  }
+
+  // Checked once per provider, since it may mean running Python
+  isAvailable(id: string): Promise<boolean> {
+    const provider = this.providers.get(id);
+    if (!provider) return Promise.resolve(false);
+
+    if (!this.availability.has(id)) {
+      this.availability.set(id, provider.isAvailable().catch(error => {
+        logger.warn(`⚠️ Could not check AI provider ${provider.name}:`, error);
+        return false;
+      }));
+    }
+    return this.availability.get(id)!;
+  }
+
+  async describe(): Promise<ProviderInfo[]> {
+    return Promise.all([...this.providers.values()].map(async provider => ({
+      id: provider.id,
+      name: provider.name,
+      model: provider.model,
+      enabled: config.ai.providers.includes(provider.id),
+      available: await this.isAvailable(provider.id),
+      circuit: this.circuits.get(provider.id)!.state
+    })));
+  }
+
+  /**
+   * Asks each usable provider in turn until one answers. `ids` replaces
+   * AI_PROVIDERS, e.g. to try one provider alone. Throws a 503 when none
+   * does, or once the deadline passes.
+   */
+  async generate(request: GenerateRequest, ids: string[] = config.ai.providers, { signal, deadline }: GenerateOptions = {}): Promise<GenerateResult> {
+    const providers = await this.usableProviders(ids);
+
+    for (const provider of providers) {
+      signal?.throwIfAborted();
+      const circuit = this.circuits.get(provider.id)!;
+      if (!circuit.allowRequest()) {
+        logger.debug(`⏭️ Skipping AI provider ${provider.name}, circuit open`);
+        continue;
+      }
+
+      const timeLeft = deadline === undefined ? Infinity : deadline - Date.now();
+      if (timeLeft <= 0) {
+        throw new AppError('No AI provider could answer in time', 503);
+      }
+      const startTime = Date.now();
+      try {
+        const text = await this.withTimeout(provider, request, Math.min(provider.timeout, timeLeft), signal);
+        if (!text.trim()) throw new Error('Empty response');
+
+        circuit.recordSuccess();
+        logger.info(`✅ ${provider.name} (${provider.model}) answered in ${Date.now() - startTime}ms`);
+        return { text, provider };
+      } catch (error) {
+        // The caller gave up, which says nothing about the provider
+        if (signal?.aborted) throw error;
+        if (deadline !== undefined && Date.now() >= deadline) {
+          logger.warn(`⏱️ Out of time for AI analysis while ${provider.name} was answering`);
+          throw new AppError('No AI provider could answer in time', 503);
+        }
+        logger.warn(`⚠️ AI provider ${provider.name} failed after ${Date.now() - startTime}ms: ${error instanceof Error ? error.message : error}`);
+        if (circuit.recordFailure()) {
+          logger.warn(`🔌 Skipping AI provider ${provider.name} for ${config.ai.circuitBreaker.resetMs}ms after repeated failures`);
+        }
+      }
+    }
+
+    throw new AppError(providers.length > 0 ? 'No AI provider could answer' : 'No AI provider is configured', 503);
+  }
+
+  /**
+   * Like generate, but resolves as soon as a provider starts answering,
+   * with the rest of its answer to read. Providers are only tried in turn
+   * until one sends its first chunk; after that a failure ends the stream,
+   * since part of the answer is already out. Each chunk must come within
+   * the provider's timeout. Aborting `signal` stops the provider too.
+   */
+  async stream(request: GenerateRequest, signal: AbortSignal, ids: string[] = config.ai.providers): Promise<StreamResult> {
+    const providers = await this.usableProviders(ids);
+
+    for (const provider of providers) {
+      signal.throwIfAborted();
+      const circuit = this.circuits.get(provider.id)!;
+      if (!circuit.allowRequest()) {
+        logger.debug(`⏭️ Skipping AI provider ${provider.name}, circuit open`);
+        continue;
+      }
+
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      signal.addEventListener('abort', abort, { once: true });
+      const chunks = provider.stream(request, controller.signal)[Symbol.asyncIterator]();
+      const stop = () => {
+        signal.removeEventListener('abort', abort);
+        controller.abort();
+        // Not awaited: a provider that ignores the abort would hold it up
+        chunks.return?.().catch(() => undefined);
+      };
+
+      const startTime = Date.now();
+      try {
+        let first = await this.nextWithTimeout(provider, chunks, controller);
+        while (!first.done && !first.value) {
+          first = await this.nextWithTimeout(provider, chunks, controller);
+        }
+        if (first.done) throw new Error('Empty response');
+
+        circuit.recordSuccess();
+        logger.info(`✅ ${provider.name} (${provider.model}) started answering in ${Date.now() - startTime}ms`);
+        return { provider, chunks: this.readRest(provider, first.value, chunks, controller, stop, startTime) };
+      } catch (error) {
+        stop();
+        // The caller gave up, which says nothing about the provider
+        if (signal.aborted) throw error;
+
+        logger.warn(`⚠️ AI provider ${provider.name} failed after ${Date.now() - startTime}ms: ${error instanceof Error ? error.message : error}`);
+        if (circuit.recordFailure()) {
+          logger.warn(`🔌 Skipping AI provider ${provider.name} for ${config.ai.circuitBreaker.resetMs}ms after repeated failures`);
+        }
+      }
+    }
+
+    throw new AppError(providers.length > 0 ? 'No AI provider could answer' : 'No AI provider is configured', 503);
+  }
+
+  private async *readRest(
+    provider: AIProvider,
+    first: string,
+    chunks: AsyncIterator<string>,
+    controller: AbortController,
+    stop: () => void,
+    startTime: number
+  ): AsyncGenerator<string> {
+    try {
+      yield first;
+      for (;;) {
+        const next = await this.nextWithTimeout(provider, chunks, controller);
+        if (next.done) break;
+        if (next.value) yield next.value;
+      }
+      logger.info(`✅ ${provider.name} (${provider.model}) finished answering in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      if (!controller.signal.aborted || error instanceof ProviderTimeoutError) {
+        logger.warn(`⚠️ AI provider ${provider.name} failed mid-answer after ${Date.now() - startTime}ms: ${error instanceof Error ? error.message : error}`);
+        this.circuits.get(provider.id)!.recordFailure();
+      }
+      throw error;
+    } finally {
+      stop();
+    }
+  }
+
+  // Rejects once the provider's timeout passes or the request is aborted, even if the provider doesn't notice
+  private async nextWithTimeout(provider: AIProvider, chunks: AsyncIterator<string>, controller: AbortController): Promise<IteratorResult<string>> {
+    if (controller.signal.aborted) throw new Error(`${provider.name} request aborted`);
+
+    let timer: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+    const stopped = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new ProviderTimeoutError(`${provider.name} timeout after ${provider.timeout}ms`));
+        controller.abort();
+      }, provider.timeout);
+      onAbort = () => reject(new Error(`${provider.name} request aborted`));
+      controller.signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      const next = chunks.next();
+      next.catch(() => undefined); // Still rejects after an abort, when no one is waiting
+      return await Promise.race([next, stopped]);
+    } finally {
+      clearTimeout(timer);
+      controller.signal.removeEventListener('abort', onAbort!);
+    }
+  }
+
+  // Aborts the request once `timeout` passes or `signal` aborts, and stops waiting even if it can't be aborted
+  private async withTimeout(provider: AIProvider, request: GenerateRequest, timeout: number, signal?: AbortSignal): Promise<string> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+    const stopped = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`${provider.name} timeout after ${timeout}ms`));
+      }, timeout);
+      onAbort = () => {
+        controller.abort();
+        reject(new Error(`${provider.name} request aborted`));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      const generation = provider.generate(request, controller.signal);
+      generation.catch(() => undefined); // Still rejects after an abort, when no one is waiting
+      return await Promise.race([generation, stopped]);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort!);
+    }
+  }
+
+  private async usableProviders(ids: string[]): Promise<AIProvider[]> {
+    const providers: AIProvider[] = [];
+    for (const id of ids) {
+      const provider = this.providers.get(id);
+      if (provider && await this.isAvailable(id)) providers.push(provider);
+    }
+    return providers;
+  }
+}
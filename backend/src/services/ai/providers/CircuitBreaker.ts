@@ -0,0 +1,48 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Stops calling a provider that keeps failing. After `failureThreshold`
+ * failures in a row the circuit opens and requests skip the provider;
+ * once `resetMs` has passed one trial request is let through, and its
+ * outcome closes the circuit or opens it again.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trial = false;
+
+  constructor(private failureThreshold: number, private resetMs: number) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return Date.now() - this.openedAt >= this.resetMs ? 'half-open' : 'open';
+  }
+
+  // Call before each request; a half-open circuit lets one through and stays open for the rest
+  allowRequest(): boolean {
+    const state = this.state;
+    if (state === 'open') return false;
+    if (state === 'half-open') {
+      this.openedAt = Date.now();
+      this.trial = true;
+    }
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trial = false;
+  }
+
+  // True when this failure opened the circuit, or opened it again after a trial
+  recordFailure(): boolean {
+    this.failures++;
+    const opens = this.trial || (this.openedAt === null && this.failures >= this.failureThreshold);
+    if (opens) {
+      this.openedAt = Date.now();
+      this.trial = false;
+    }
+    return opens;
+  }
+}
@@ -0,0 +1,101 @@
+import { config } from '../../../config';
+import { AIProvider, GenerateRequest, readEventData } from './AIProvider';
+
+const BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+/**
+ * Gemini through Google AI Studio. Needs GOOGLE_AI_API_KEY.
+ */
+export class GoogleAIProvider implements AIProvider {
+  readonly id = 'google';
+  readonly name = 'Google AI Studio';
+
+  get model(): string {
+    return config.ai.google.model;
+  }
+
+  get timeout(): number {
+    return config.ai.google.timeout;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return Boolean(config.ai.google.apiKey);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await fetch(`${BASE_URL}/models?key=${config.ai.google.apiKey}`);
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async generate(request: GenerateRequest, signal: AbortSignal): Promise<string> {
+    const response = await this.send(request, signal, 'generateContent');
+    return this.textOf(await response.json());
+  }
+
+  async *stream(request: GenerateRequest, signal: AbortSignal): AsyncGenerator<string> {
+    const response = await this.send(request, signal, 'streamGenerateContent');
+    if (!response.body) {
+      throw new Error('Invalid response format from Google AI');
+    }
+
+    // Each event is a partial response with the text written since the last; the final one may carry none
+    for await (const data of readEventData(response.body)) {
+      const chunk = JSON.parse(data);
+      if (!chunk.candidates?.[0]?.content?.parts) continue;
+      const text = this.textOf(chunk);
+      if (text) yield text;
+    }
+  }
+
+  private async send(request: GenerateRequest, signal: AbortSignal, method: 'generateContent' | 'streamGenerateContent'): Promise<Response> {
+    const system = request.messages.filter(message => message.role === 'system');
+    const turns = request.messages.filter(message => message.role !== 'system');
+    const query = method === 'streamGenerateContent' ? 'alt=sse&' : '';
+
+    const response = await fetch(`${BASE_URL}/models/${this.model}:${method}?${query}key=${config.ai.google.apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal,
+      body: JSON.stringify({
+        ...(system.length > 0 && {
+          systemInstruction: { parts: system.map(message => ({ text: message.content })) }
+        }),
+        contents: turns.map(message => ({
+          role: message.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: message.content }]
+        })),
+        generationConfig: {
+          temperature: request.temperature,
+          topP: 0.95,
+          topK: 40,
+          maxOutputTokens: request.maxTokens,
+          ...(request.json && { responseMimeType: 'application/json' })
+        },
+        // Lab results mention conditions and medicines, which the defaults block too readily
+        safetySettings: [
+          { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_ONLY_HIGH' },
+          { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_ONLY_HIGH' },
+          { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_ONLY_HIGH' },
+          { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Google AI API error: ${response.status} - ${await response.text()}`);
+    }
+    return response;
+  }
+
+  private textOf(data: any): string {
+    const parts = data.candidates?.[0]?.content?.parts;
+    if (!parts) {
+      throw new Error('Invalid response format from Google AI');
+    }
+    return parts.map((part: { text?: string }) => part.text || '').join('');
+  }
+}
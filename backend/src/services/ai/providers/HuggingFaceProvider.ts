@@ -0,0 +1,85 @@
+import { HfInference } from '@huggingface/inference';
+import { config } from '../../../config';
+import { AIProvider, GenerateRequest, toPlainPrompt } from './AIProvider';
+
+/**
+ * Text generation through the Hugging Face Inference API. Needs
+ * HUGGINGFACE_API_TOKEN, and access granted to gated models such as
+ * Meditron.
+ */
+export class HuggingFaceProvider implements AIProvider {
+  readonly id = 'huggingface';
+  readonly name = 'Hugging Face';
+
+  private hf?: HfInference;
+
+  get model(): string {
+    return config.ai.huggingface.model;
+  }
+
+  get timeout(): number {
+    return config.ai.huggingface.timeout;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return Boolean(config.ai.huggingface.apiToken);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.getClient().textGeneration({
+        model: this.model,
+        inputs: 'Health check',
+        parameters: { max_new_tokens: 5, temperature: 0.1 }
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async generate(request: GenerateRequest, signal: AbortSignal): Promise<string> {
+    const prompt = toPlainPrompt(request.messages);
+    const response = await this.getClient().textGeneration({
+      model: this.model,
+      inputs: prompt,
+      parameters: {
+        max_new_tokens: request.maxTokens,
+        temperature: request.temperature,
+        top_p: 0.95,
+        repetition_penalty: 1.1,
+        do_sample: true,
+        return_full_text: false
+      }
+    }, { signal });
+
+    // Some endpoints echo the prompt regardless
+    return response.generated_text.replace(prompt, '').trim();
+  }
+
+  async *stream(request: GenerateRequest, signal: AbortSignal): AsyncGenerator<string> {
+    const stream = this.getClient().textGenerationStream({
+      model: this.model,
+      inputs: toPlainPrompt(request.messages),
+      parameters: {
+        max_new_tokens: request.maxTokens,
+        temperature: request.temperature,
+        top_p: 0.95,
+        repetition_penalty: 1.1,
+        do_sample: true
+      }
+    }, { signal });
+
+    for await (const output of stream) {
+      // Special tokens such as end-of-text aren't part of the answer
+      if (!output.token.special) yield output.token.text;
+    }
+  }
+
+  private getClient(): HfInference {
+    if (!this.hf) {
+      this.hf = new HfInference(config.ai.huggingface.apiToken);
+    }
+    return this.hf;
+  }
+}
@@ -0,0 +1,72 @@
+import { Ollama } from 'ollama';
+import { config } from '../../../config';
+import { AIProvider, GenerateRequest } from './AIProvider';
+
+/**
+ * A model served by Ollama, on this machine or at OLLAMA_API_URL. Answers
+ * are streamed so a single request can be aborted without the others.
+ */
+export class OllamaProvider implements AIProvider {
+  readonly id = 'ollama';
+  readonly name = 'Ollama';
+
+  private ollama = new Ollama({ host: config.ai.ollama.apiUrl });
+
+  get model(): string {
+    return config.ai.ollama.model;
+  }
+
+  get timeout(): number {
+    return config.ai.ollama.timeout;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.ollama.list();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async generate(request: GenerateRequest, signal: AbortSignal): Promise<string> {
+    let text = '';
+    for await (const chunk of this.stream(request, signal)) {
+      text += chunk;
+    }
+    return text;
+  }
+
+  async *stream(request: GenerateRequest, signal: AbortSignal): AsyncGenerator<string> {
+    const stream = await this.ollama.chat({
+      model: this.model,
+      messages: request.messages,
+      stream: true,
+      ...(request.json && { format: 'json' }),
+      options: {
+        temperature: request.temperature,
+        top_p: 0.95,
+        top_k: 40,
+        repeat_penalty: 1.1,
+        num_predict: request.maxTokens,
+        num_ctx: 4096
+      }
+    });
+    const abort = () => stream.abort();
+    signal.addEventListener('abort', abort, { once: true });
+
+    try {
+      for await (const part of stream) {
+        yield part.message.content;
+      }
+    } finally {
+      signal.removeEventListener('abort', abort);
+      // Stops generating when the reader gives up early
+      if (!signal.aborted) stream.abort();
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { config } from '../../../config';
+import { AIProvider, GenerateRequest, readEventData } from './AIProvider';
+
+const BASE_URL = 'https://openrouter.ai/api/v1';
+
+/**
+ * Any model OpenRouter serves, through its OpenAI-style chat API. Needs
+ * OPENROUTER_API_KEY.
+ */
+export class OpenRouterProvider implements AIProvider {
+  readonly id = 'openrouter';
+  readonly name = 'OpenRouter';
+
+  get model(): string {
+    return config.ai.openrouter.model;
+  }
+
+  get timeout(): number {
+    return config.ai.openrouter.timeout;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return Boolean(config.ai.openrouter.apiKey);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await fetch(`${BASE_URL}/models`, {
+        headers: { 'Authorization': `Bearer ${config.ai.openrouter.apiKey}` }
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async generate(request: GenerateRequest, signal: AbortSignal): Promise<string> {
+    const response = await this.send(request, signal, false);
+    const data: any = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('Invalid response format from OpenRouter');
+    }
+    return content;
+  }
+
+  async *stream(request: GenerateRequest, signal: AbortSignal): AsyncGenerator<string> {
+    const response = await this.send(request, signal, true);
+    if (!response.body) {
+      throw new Error('Invalid response format from OpenRouter');
+    }
+
+    for await (const data of readEventData(response.body)) {
+      if (data === '[DONE]') return;
+      const chunk = JSON.parse(data);
+      // Errors after the stream has started arrive as an event
+      if (chunk.error) {
+        throw new Error(`OpenRouter API error: ${chunk.error.message || JSON.stringify(chunk.error)}`);
+      }
+      const content = chunk.choices?.[0]?.delta?.content;
+      if (content) yield content;
+    }
+  }
+
+  private async send(request: GenerateRequest, signal: AbortSignal, stream: boolean): Promise<Response> {
+    const response = await fetch(`${BASE_URL}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${config.ai.openrouter.apiKey}`,
+        'Content-Type': 'application/json',
+        // Identify the app in OpenRouter's rankings
+        'HTTP-Referer': 'https://healthscan-ai.com',
+        'X-Title': 'HealthScan AI Medical Analysis'
+      },
+      signal,
+      body: JSON.stringify({
+        model: this.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        top_p: 0.95,
+        stream,
+        // Passed on to the models that support it, ignored by the rest
+        ...(request.json && { response_format: { type: 'json_object' } })
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenRouter API error: ${response.status} - ${await response.text()}`);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,54 @@
+import { config } from '../../../config';
+import { PythonWorkerPool } from '../../workers/PythonWorkerPool';
+import { AIProvider, GenerateRequest, toPlainPrompt } from './AIProvider';
+
+/**
+ * A Hugging Face model run on this machine by transformers in the Python
+ * workers, where it stays loaded between requests. Needs transformers and
+ * torch installed, and the memory for TRANSFORMERS_MODEL.
+ */
+export class TransformersProvider implements AIProvider {
+  readonly id = 'transformers';
+  readonly name = 'Transformers';
+
+  get model(): string {
+    return config.ai.transformers.model;
+  }
+
+  get timeout(): number {
+    return config.ai.transformers.timeout;
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.healthCheck();
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const available = await PythonWorkerPool.getInstance().request<Record<string, boolean>>(
+        'probe', { modules: ['transformers', 'torch'] }, { timeout: 60000 }
+      );
+      return available.transformers && available.torch;
+    } catch {
+      return false;
+    }
+  }
+
+  // The worker can't be interrupted mid-generation, so an abort stops the worker
+  async generate(request: GenerateRequest, signal: AbortSignal): Promise<string> {
+    const result = await PythonWorkerPool.getInstance().request<{ response: string }>('generate', {
+      model: this.model,
+      prompt: toPlainPrompt(request.messages),
+      max_new_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: 0.95,
+      repetition_penalty: 1.1
+    }, { timeout: this.timeout, signal });
+    return result.response;
+  }
+
+  // The worker returns the answer only once it's complete
+  async *stream(request: GenerateRequest, signal: AbortSignal): AsyncGenerator<string> {
+    yield await this.generate(request, signal);
+  }
+}
@@ -1,4 +1,5 @@
-import { GoogleAIService } from './GoogleAIService';
+import { AIService } from './AIService';
+import { AIProviderRegistry } from './providers/AIProviderRegistry';
 import { config } from '../../config';
 
 // Comprehensive medical test data representing various health conditions
@@ -167,16 +168,18 @@ async function testComprehensiveAnalysis() {
   }
   
   try {
-    const googleAIService = GoogleAIService.getInstance();
-    await googleAIService.initialize();
+    if (!await AIProviderRegistry.getInstance().get('google')!.healthCheck()) {
+      throw new Error('Google AI Studio is not responding');
+    }
     
     console.log('🤖 Generating comprehensive medical analysis...\\n');
     
     const startTime = Date.now();
-    const result = await googleAIService.analyzeHealthReport(
+    const result = await AIService.getInstance().analyzeHealthReport(
       'Comprehensive blood panel showing multiple abnormalities across different organ systems',
       comprehensiveTestMetrics,
-      'Patient is a 45-year-old female presenting with fatigue, frequent urination, blurred vision, and chest discomfort. Family history significant for diabetes and cardiovascular disease. Currently leads sedentary lifestyle with irregular eating patterns and high occupational stress.'
+      'Patient is a 45-year-old female presenting with fatigue, frequent urination, blurred vision, and chest discomfort. Family history significant for diabetes and cardiovascular disease. Currently leads sedentary lifestyle with irregular eating patterns and high occupational stress.',
+      { providers: ['google'] }
     );
     
     const totalTime = Date.now() - startTime;
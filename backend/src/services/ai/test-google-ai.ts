@@ -1,4 +1,5 @@
-import { GoogleAIService } from './GoogleAIService';
+import { AIService, RULE_BASED_MODEL } from './AIService';
+import { AIProviderRegistry } from './providers/AIProviderRegistry';
 import { config } from '../../config';
 
 // Sample medical data for testing
@@ -58,7 +59,7 @@ async function testGoogleAI() {
   console.log('===================================\n');
   
   console.log('1️⃣ Checking configuration...');
-  console.log(`   Provider: ${config.ai.provider}`);
+  console.log(`   Providers: ${config.ai.providers.join(' → ')}`);
   console.log(`   Model: ${config.ai.google.model}`);
   console.log(`   API Key: ${config.ai.google.apiKey ? '✅ Configured' : '❌ Missing'}`);
   console.log('');
@@ -71,8 +72,10 @@ async function testGoogleAI() {
   
   console.log('2️⃣ Initializing Google AI service...');
   try {
-    const googleAIService = GoogleAIService.getInstance();
-    await googleAIService.initialize();
+    const provider = AIProviderRegistry.getInstance().get('google')!;
+    if (!await provider.healthCheck()) {
+      throw new Error('Google AI Studio is not responding');
+    }
     console.log('✅ Google AI service initialized\n');
   } catch (error: any) {
     console.error('❌ Google AI initialization failed:', error.message);
@@ -91,13 +94,12 @@ async function testGoogleAI() {
   console.log('');
   
   try {
-    const googleAIService = GoogleAIService.getInstance();
-    
     const startTime = Date.now();
-    const result = await googleAIService.analyzeHealthReport(
+    const result = await AIService.getInstance().analyzeHealthReport(
       'Blood test results showing multiple abnormal values requiring medical attention',
       sampleMetrics,
-      'Patient is a 35-year-old female with fatigue, increased thirst, and pale appearance'
+      'Patient is a 35-year-old female with fatigue, increased thirst, and pale appearance',
+      { providers: ['google'] }
     );
     
     const totalTime = Date.now() - startTime;
@@ -209,14 +211,16 @@ async function testDifferentModels() {
     (config.ai.google as any).model = modelName;
     
     try {
-      const googleAIService = GoogleAIService.getInstance();
-      
       const startTime = Date.now();
-      const result = await googleAIService.analyzeHealthReport(
+      const result = await AIService.getInstance().analyzeHealthReport(
         'Quick analysis test',
         sampleMetrics.slice(0, 2), // Use fewer metrics for speed
-        ''
+        '',
+        { providers: ['google'] }
       );
+      if (result.modelUsed === RULE_BASED_MODEL) {
+        throw new Error('Google AI Studio did not answer');
+      }
       
       const responseTime = Date.now() - startTime;
       
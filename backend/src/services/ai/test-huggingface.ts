@@ -1,4 +1,5 @@
-import { HuggingFaceService } from './HuggingFaceService';
+import { AIService } from './AIService';
+import { AIProviderRegistry } from './providers/AIProviderRegistry';
 import { config } from '../../config';
 
 // Test script to verify Hugging Face Meditron 70B integration
@@ -8,7 +9,7 @@ async function testHuggingFace() {
   try {
     // Check configuration
     console.log('1️⃣ Checking configuration...');
-    console.log(`   Provider: ${config.ai.provider}`);
+    console.log(`   Providers: ${config.ai.providers.join(' → ')}`);
     console.log(`   Model: ${config.ai.huggingface.model}`);
     console.log(`   Token: ${config.ai.huggingface.apiToken ? '✅ Configured' : '❌ Missing'}`);
     
@@ -20,8 +21,10 @@ async function testHuggingFace() {
     
     // Initialize service
     console.log('\n2️⃣ Initializing Hugging Face service...');
-    const hfService = HuggingFaceService.getInstance();
-    await hfService.initialize();
+    const provider = AIProviderRegistry.getInstance().get('huggingface')!;
+    if (!await provider.healthCheck()) {
+      throw new Error(`Hugging Face is not responding, or access to ${config.ai.huggingface.model} hasn't been granted`);
+    }
     console.log('✅ Hugging Face service initialized');
     
     // Test medical analysis
@@ -40,7 +43,7 @@ async function testHuggingFace() {
     ];
     
     const startTime = Date.now();
-    const analysis = await hfService.analyzeHealthReport('Sample report text', sampleMetrics, 'Patient reports fatigue and occasional chest discomfort');
+    const analysis = await AIService.getInstance().analyzeHealthReport('Sample report text', sampleMetrics, 'Patient reports fatigue and occasional chest discomfort', { providers: ['huggingface'] });
     const endTime = Date.now();
     
     console.log('🤖 Meditron 70B Analysis Results:');
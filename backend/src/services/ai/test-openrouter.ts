@@ -1,4 +1,5 @@
-import { OpenRouterService } from './OpenRouterService';
+import { AIService, RULE_BASED_MODEL } from './AIService';
+import { AIProviderRegistry } from './providers/AIProviderRegistry';
 import { config } from '../../config';
 
 // Sample medical data for testing
@@ -115,14 +116,16 @@ async function testOpenRouterModels() {
     (config.ai.openrouter as any).model = modelName;
     
     try {
-      const openrouterService = OpenRouterService.getInstance();
-      
       const startTime = Date.now();
-      const result = await openrouterService.analyzeHealthReport(
+      const result = await AIService.getInstance().analyzeHealthReport(
         'Blood test results showing low hemoglobin and elevated glucose levels',
         sampleMetrics,
-        'Patient is a 35-year-old female with no known medical history'
+        'Patient is a 35-year-old female with no known medical history',
+        { providers: ['openrouter'] }
       );
+      if (result.modelUsed === RULE_BASED_MODEL) {
+        throw new Error('OpenRouter did not answer');
+      }
       
       const responseTime = Date.now() - startTime;
       
@@ -166,7 +169,7 @@ async function testOpenRouter() {
   console.log('==============================\n');
   
   console.log('1️⃣ Checking configuration...');
-  console.log(`   Provider: ${config.ai.provider}`);
+  console.log(`   Providers: ${config.ai.providers.join(' → ')}`);
   console.log(`   Model: ${config.ai.openrouter.model}`);
   console.log(`   API Key: ${config.ai.openrouter.apiKey ? '✅ Configured' : '❌ Missing'}`);
   console.log('');
@@ -179,8 +182,10 @@ async function testOpenRouter() {
   
   console.log('2️⃣ Initializing OpenRouter service...');
   try {
-    const openrouterService = OpenRouterService.getInstance();
-    await openrouterService.initialize();
+    const provider = AIProviderRegistry.getInstance().get('openrouter')!;
+    if (!await provider.healthCheck()) {
+      throw new Error('OpenRouter is not responding');
+    }
     console.log('✅ OpenRouter service initialized\n');
   } catch (error: any) {
     console.error('❌ OpenRouter initialization failed:', error.message);
@@ -195,13 +200,12 @@ async function testOpenRouter() {
   console.log('');
   
   try {
-    const openrouterService = OpenRouterService.getInstance();
-    
     const startTime = Date.now();
-    const result = await openrouterService.analyzeHealthReport(
+    const result = await AIService.getInstance().analyzeHealthReport(
       'Blood test results showing multiple abnormal values requiring medical attention',
       sampleMetrics,
-      'Patient is a 35-year-old female with fatigue and increased thirst'
+      'Patient is a 35-year-old female with fatigue and increased thirst',
+      { providers: ['openrouter'] }
     );
     
     const totalTime = Date.now() - startTime;
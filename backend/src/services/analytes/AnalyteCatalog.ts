@@ -0,0 +1,164 @@
+import { logger } from '../../utils/logger';
+import { ANALYTE_DEFINITIONS, AnalyteDefinition } from './definitions';
+import { LOCALIZED_ANALYTE_NAMES, LOCALIZED_FILLER_WORDS } from './localizedNames';
+import { isIndicText, toAsciiDigits, transliterate } from './transliteration';
+
+export type { AnalyteDefinition, ReferenceInterval } from './definitions';
+
+// Words that don't change which test a name refers to: specimen types,
+// method names and report boilerplate
+const FILLER_WORDS = new Set([
+  's', 'sr', 'serum', 'plasma', 'blood', 'whole', 'level', 'levels', 'test', 'value', 'result',
+  'estimation', 'method', 'by', 'automated', 'calculated', 'calc', 'photometry', 'photometric',
+  'colorimetric', 'enzymatic', 'kinetic', 'hexokinase', 'god', 'pod', 'ifcc', 'hplc', 'ise',
+  'clia', 'eclia', 'cmia', 'elisa', 'impedance', 'quantitative', 'spectrophotometry',
+  ...LOCALIZED_FILLER_WORDS.map(word => word.normalize('NFC'))
+]);
+
+const MAX_CACHED_NAMES = 5000;
+
+// Shorter phonetic keys match too many unrelated names
+const MIN_PHONETIC_KEY_LENGTH = 3;
+
+/**
+ * AnalyteCatalog - Resolves printed test names to canonical analytes
+ *
+ * "SGPT", "ALT", "Alanine Aminotransferase" and "ALT (SGPT)" all resolve to
+ * the same entry, so metrics can be grouped, trended and flagged by a stable
+ * ID instead of whatever the lab printed. Names printed in Indian scripts or
+ * romanized ("हीमोग्लोबिन", "himoglobin") are matched through localized names
+ * and, failing that, by how they sound.
+ */
+export class AnalyteCatalog {
+  private static instance: AnalyteCatalog;
+  private byId = new Map<string, AnalyteDefinition>();
+  private byKey = new Map<string, AnalyteDefinition>();
+  private byPhoneticKey = new Map<string, AnalyteDefinition | null>();
+  private resolved = new Map<string, AnalyteDefinition | null>();
+
+  private constructor() {
+    for (const analyte of ANALYTE_DEFINITIONS) {
+      this.byId.set(analyte.id, analyte);
+      const localizedNames = LOCALIZED_ANALYTE_NAMES[analyte.id] || [];
+      const names = [analyte.id, analyte.name, ...analyte.synonyms, ...(analyte.abbreviations || []), ...localizedNames];
+      for (const name of names) {
+        const key = this.toKey(name);
+        const existing = this.byKey.get(key);
+        if (existing && existing !== analyte) {
+          logger.warn(`Analyte name "${name}" is ambiguous between ${existing.id} and ${analyte.id}`);
+          continue;
+        }
+        this.byKey.set(key, analyte);
+      }
+
+      // Abbreviations are too short to match by sound
+      for (const name of [analyte.name, ...analyte.synonyms, ...localizedNames]) {
+        const key = this.toPhoneticKey(name);
+        if (!key) continue;
+        const existing = this.byPhoneticKey.get(key);
+        // Sounds shared by two analytes can't identify either
+        this.byPhoneticKey.set(key, existing === undefined || existing === analyte ? analyte : null);
+      }
+    }
+  }
+
+  static getInstance(): AnalyteCatalog {
+    if (!AnalyteCatalog.instance) {
+      AnalyteCatalog.instance = new AnalyteCatalog();
+    }
+    return AnalyteCatalog.instance;
+  }
+
+  get(id: string): AnalyteDefinition | undefined {
+    return this.byId.get(id);
+  }
+
+  list(): AnalyteDefinition[] {
+    return ANALYTE_DEFINITIONS;
+  }
+
+  /**
+   * Find the analyte a printed name refers to. Tries the whole name first,
+   * then each part of names like "ALT (SGPT)", "SGPT/ALT" or bilingual
+   * "हीमोग्लोबिन Hemoglobin", then the same candidates by sound.
+   */
+  resolve(name: string): AnalyteDefinition | null {
+    const cached = this.resolved.get(name);
+    if (cached !== undefined) return cached;
+
+    const candidates = [name, ...this.splitName(name)];
+    let analyte = candidates.map(candidate => this.byKey.get(this.toKey(candidate))).find(Boolean) || null;
+    if (!analyte) {
+      analyte = candidates
+        .map(candidate => this.toPhoneticKey(candidate))
+        .map(key => (key ? this.byPhoneticKey.get(key) : null))
+        .find(Boolean) || null;
+    }
+
+    if (this.resolved.size >= MAX_CACHED_NAMES) this.resolved.clear();
+    this.resolved.set(name, analyte);
+    return analyte;
+  }
+
+  getCategory(name: string): string {
+    return this.resolve(name)?.category || 'General';
+  }
+
+  // Parts of "ALT (SGPT)" or "SGPT/ALT", and each script of bilingual names
+  private splitName(name: string): string[] {
+    const parts = name.split(/[()[\]/,]/).map(part => part.trim()).filter(Boolean);
+    const segments: string[] = [];
+    for (const part of parts) {
+      if (!isIndicText(part)) continue;
+      const latin = part.replace(/[\u0900-\u0c7f\u200c\u200d]+/g, ' ').trim();
+      if (/[a-z]/i.test(latin)) {
+        segments.push(latin, ...(part.match(/[\u0900-\u0c7f\u200c\u200d]+(?:\s+[\u0900-\u0c7f\u200c\u200d]+)*/g) || []));
+      }
+    }
+    return [...(parts.length > 1 ? parts : []), ...segments];
+  }
+
+  // Case, punctuation, word order and filler words are ignored
+  private toKey(name: string): string {
+    return this.toTokens(name).sort().join(' ');
+  }
+
+  /**
+   * Consonant skeleton of the romanized name, with voiced and unvoiced pairs
+   * merged, so "हीमोग्लोबिन", "ஹீமோகுளோபின்" and "hemoglobin" share a key.
+   * Tamil script doesn't distinguish k/g, t/d or p/b, and vowel length varies
+   * between labs.
+   */
+  private toPhoneticKey(name: string): string | null {
+    const skeletons = this.toTokens(name).map(token => transliterate(token)
+      .replace(/c(?=[eiy])/g, 's')
+      .replace(/ch+|q/g, 'k')
+      .replace(/ph/g, 'f')
+      .replace(/h/g, '')
+      .replace(/x/g, 'ks')
+      .replace(/[zj]/g, 's')
+      .replace(/c/g, 'k')
+      .replace(/g/g, 'k')
+      .replace(/b/g, 'p')
+      .replace(/d/g, 't')
+      .replace(/w/g, 'v')
+      .replace(/[aeiouy]/g, '')
+      .replace(/(.)\1+/g, '$1')
+    ).filter(Boolean);
+
+    const key = [...new Set(skeletons)].sort().join(' ');
+    return key.replace(/[\s\d]/g, '').length >= MIN_PHONETIC_KEY_LENGTH ? key : null;
+  }
+
+  private toTokens(name: string): string[] {
+    const tokens = toAsciiDigits(name.normalize('NFC'))
+      .toLowerCase()
+      .replace(/[\u200c\u200d]/g, '')
+      .replace(/\b([a-z])\.(?=[a-z]\b|[a-z]\.)/g, '$1') // T.S.H. -> TSH
+      .replace(/(?<=[a-z])[-.](?=\d)/g, '') // B-12 -> B12, CA-125 -> CA125
+      .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+      .split(' ')
+      .filter(token => token && !FILLER_WORDS.has(token));
+    return [...new Set(tokens)];
+  }
+}
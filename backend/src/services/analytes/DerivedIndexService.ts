@@ -0,0 +1,107 @@
+import { logger } from '../../utils/logger';
+import { AnalyteCatalog } from './AnalyteCatalog';
+import { DERIVED_INDEX_RULES, DerivedIndexRule } from './derivedIndices';
+import type { PatientContext } from './ReferenceRangeService';
+import { HealthMetricExtractor } from '../ocr/HealthMetricExtractor';
+import type { HealthMetric } from '../ocr/HealthMetricExtractor';
+
+// Marks metrics calculated here rather than read from the report
+export const DERIVED_METHOD = 'derived';
+
+/**
+ * DerivedIndexService - Calculates indices reports carry the inputs for
+ *
+ * eGFR, HOMA-IR, lipid ratios, FIB-4 and the like are calculated from the
+ * report's other results and the patient's age and sex, and flagged like
+ * any other result. Indices the report prints are kept as printed; the
+ * Friedewald LDL is instead checked against the printed LDL.
+ */
+export class DerivedIndexService {
+  private static instance: DerivedIndexService;
+  private analyteCatalog = AnalyteCatalog.getInstance();
+
+  static getInstance(): DerivedIndexService {
+    if (!DerivedIndexService.instance) {
+      DerivedIndexService.instance = new DerivedIndexService();
+    }
+    return DerivedIndexService.instance;
+  }
+
+  /**
+   * Indices calculable from `metrics`, as new metrics. A printed index that
+   * doesn't match its calculation gets a review note on the printed metric.
+   */
+  derive(metrics: HealthMetric[], patient: PatientContext = {}): HealthMetric[] {
+    const measured = metrics.filter(metric => metric.extractionMethod !== DERIVED_METHOD);
+    const byAnalyte = new Map<string, HealthMetric>();
+    for (const metric of measured) {
+      if (metric.analyteId && !byAnalyte.has(metric.analyteId)) byAnalyte.set(metric.analyteId, metric);
+    }
+
+    const derived: HealthMetric[] = [];
+    for (const rule of DERIVED_INDEX_RULES) {
+      const inputs: HealthMetric[] = [];
+      const result = (analyteId: string) => {
+        const metric = byAnalyte.get(analyteId);
+        const value = metric ? this.defaultUnitValue(metric) : undefined;
+        if (value !== undefined) inputs.push(metric!);
+        return value;
+      };
+      const computed = rule.compute(result, patient);
+      if (computed === null || !Number.isFinite(computed)) continue;
+      const value = Number(computed.toFixed(rule.decimals));
+
+      const printed = byAnalyte.get(rule.id);
+      if (printed) {
+        this.checkPrinted(rule, printed, value);
+        continue;
+      }
+
+      const metric = this.createMetric(rule, value, inputs, patient);
+      if (metric) derived.push(metric);
+    }
+
+    if (derived.length > 0) {
+      logger.info(`🧮 Calculated ${derived.map(metric => `${metric.metric} ${metric.value}`).join(', ')}`);
+    }
+    return derived;
+  }
+
+  // Flagged against the patient's range like an entered value; as confident as its least confident input
+  private createMetric(rule: DerivedIndexRule, value: number, inputs: HealthMetric[], patient: PatientContext): HealthMetric | null {
+    const analyte = this.analyteCatalog.get(rule.id);
+    if (!analyte) return null;
+
+    const metric = HealthMetricExtractor.getInstance().evaluateMetric({
+      name: analyte.name,
+      value: String(value),
+      unit: analyte.defaultUnit
+    }, patient);
+    if (!metric) return null;
+
+    metric.extractionMethod = DERIVED_METHOD;
+    metric.confidence = Math.min(100, ...inputs.map(input => input.confidence));
+    return metric;
+  }
+
+  private checkPrinted(rule: DerivedIndexRule, printed: HealthMetric, calculated: number): void {
+    const value = this.defaultUnitValue(printed);
+    if (!rule.tolerance || value === undefined) return;
+    if (Math.abs(value - calculated) <= Math.max(rule.tolerance.absolute, value * rule.tolerance.relative)) return;
+
+    const analyte = this.analyteCatalog.get(rule.id);
+    const unit = analyte?.defaultUnit ? ` ${analyte.defaultUnit}` : '';
+    printed.reviewNotes = [...(printed.reviewNotes || []), {
+      reason: 'inconsistent',
+      message: `${analyte?.name || printed.metric} ${value}${unit} doesn't match the ${rule.method} calculation (${calculated}${unit})`
+    }];
+  }
+
+  // Rules take the default unit; a value without a unit is taken to be in it
+  private defaultUnitValue(metric: HealthMetric): number | undefined {
+    const analyte = metric.analyteId ? this.analyteCatalog.get(metric.analyteId) : undefined;
+    if (!analyte || metric.valueType) return undefined;
+    if (!metric.unit || metric.unit === analyte.defaultUnit) return metric.value;
+    return metric.normalizedUnit === analyte.defaultUnit ? metric.normalizedValue : undefined;
+  }
+}
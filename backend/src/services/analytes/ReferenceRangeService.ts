@@ -0,0 +1,218 @@
+import { AnalyteCatalog, AnalyteDefinition, ReferenceInterval } from './AnalyteCatalog';
+import { UnitConverter } from './UnitConverter';
+import { REFERENCE_RANGE_RULES, ReferenceRangeRule } from './referenceRanges';
+import { DatabaseService } from '../database/DatabaseService';
+import { logger } from '../../utils/logger';
+
+export type MetricFlag = 'LOW' | 'NORMAL' | 'HIGH' | 'CRITICAL';
+
+export interface PatientContext {
+  ageYears?: number;
+  sex?: 'male' | 'female';
+  pregnancyTrimester?: number;
+}
+
+export interface RangeAssessment {
+  flag: MetricFlag;
+  range: number[];   // [min, max] in the unit of the assessed value
+  source: string;    // Why this range was used, shown to the user
+}
+
+// Range sources other than demographic rules
+export const PRINTED_RANGE_SOURCE = 'Printed on report';
+export const DEFAULT_RANGE_SOURCE = 'Adult default';
+
+const ADULT_AGE = 18;
+const TRIMESTER_NAMES = ['1st', '2nd', '3rd'];
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+// Gestational week each trimester starts at, and a pregnancy's longest length
+const TRIMESTER_START_WEEKS = [0, 14, 28];
+const MAX_PREGNANCY_WEEKS = 42;
+
+/**
+ * ReferenceRangeService - Picks reference ranges for reports that don't print one
+ *
+ * Rules are matched on age band, sex and pregnancy trimester. When the
+ * patient's age is unknown they're assumed to be an adult, which is also
+ * what the catalogue's default ranges describe.
+ */
+export class ReferenceRangeService {
+  private static instance: ReferenceRangeService;
+  private catalog = AnalyteCatalog.getInstance();
+  private unitConverter = UnitConverter.getInstance();
+
+  static getInstance(): ReferenceRangeService {
+    if (!ReferenceRangeService.instance) {
+      ReferenceRangeService.instance = new ReferenceRangeService();
+    }
+    return ReferenceRangeService.instance;
+  }
+
+  /**
+   * The patient as of `asOf`, usually the report's date. A trimester is
+   * taken to be halfway through when it was recorded and moved on from
+   * there, so reports from before or after the pregnancy get no trimester.
+   */
+  static buildPatientContext(
+    profile: {
+      dateOfBirth?: Date | null;
+      gender?: string | null;
+      pregnancyTrimester?: number | null;
+      pregnancyRecordedAt?: Date | null;
+    },
+    asOf: Date = new Date()
+  ): PatientContext {
+    const context: PatientContext = {};
+
+    if (profile.dateOfBirth) {
+      const ageMs = asOf.getTime() - new Date(profile.dateOfBirth).getTime();
+      if (ageMs >= 0) context.ageYears = ageMs / (365.25 * 24 * 60 * 60 * 1000);
+    }
+
+    const gender = profile.gender?.trim().toLowerCase();
+    if (gender === 'male' || gender === 'm') context.sex = 'male';
+    if (gender === 'female' || gender === 'f') context.sex = 'female';
+
+    const trimester = profile.pregnancyTrimester;
+    if (context.sex === 'female' && trimester && trimester >= 1 && trimester <= 3 && profile.pregnancyRecordedAt) {
+      const recordedWeek = (TRIMESTER_START_WEEKS[trimester - 1] + (TRIMESTER_START_WEEKS[trimester] ?? MAX_PREGNANCY_WEEKS)) / 2;
+      const week = recordedWeek + (asOf.getTime() - new Date(profile.pregnancyRecordedAt).getTime()) / WEEK_MS;
+      if (week >= 0 && week <= MAX_PREGNANCY_WEEKS) {
+        context.pregnancyTrimester = TRIMESTER_START_WEEKS.filter(start => week >= start).length;
+      }
+    }
+
+    return context;
+  }
+
+  // Age (on the given date), sex and pregnancy status from a user's profile; demo uploads get adult defaults
+  async getPatientContext(userId?: string, asOf?: Date): Promise<PatientContext | undefined> {
+    if (!userId) return undefined;
+
+    try {
+      const prisma = DatabaseService.getInstance().getClient();
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        include: { healthProfile: true }
+      });
+      if (!user) return undefined;
+
+      return ReferenceRangeService.buildPatientContext({
+        dateOfBirth: user.dateOfBirth,
+        gender: user.gender,
+        pregnancyTrimester: user.healthProfile?.pregnancyTrimester,
+        pregnancyRecordedAt: user.healthProfile?.pregnancyRecordedAt
+      }, asOf);
+    } catch (error) {
+      logger.warn('Could not load patient profile for reference ranges:', error);
+      return undefined;
+    }
+  }
+
+  getRange(analyte: AnalyteDefinition, patient: PatientContext = {}): { range: ReferenceInterval; source: string } | null {
+    const rule = this.findRule(REFERENCE_RANGE_RULES[analyte.id] || [], patient);
+    if (rule) {
+      return { range: rule.range, source: this.describeRule(rule) };
+    }
+    if (analyte.referenceRange) {
+      return { range: analyte.referenceRange, source: DEFAULT_RANGE_SOURCE };
+    }
+    return null;
+  }
+
+  /**
+   * Flag a value against the patient's reference range. Ranges are in the
+   * analyte's default unit, so a value with another unit is converted first
+   * and the returned range is converted back; a missing unit is assumed to be
+   * the default. Returns null when there's no range or no way to compare.
+   */
+  assess(name: string, value: number, unit?: string, patient?: PatientContext): RangeAssessment | null {
+    const analyte = this.catalog.resolve(name);
+    if (!analyte) return null;
+
+    const reference = this.getRange(analyte, patient);
+    if (!reference) return null;
+
+    let comparable = value;
+    let range = [reference.range.min, reference.range.max];
+    if (unit) {
+      const converted = this.unitConverter.convert(value, unit, analyte.defaultUnit, analyte);
+      if (converted === null) return null;
+      comparable = converted;
+      range = range.map(bound => {
+        const inUnit = this.unitConverter.convert(bound, analyte.defaultUnit, unit, analyte);
+        return inUnit === null ? bound : Number(inUnit.toPrecision(4));
+      });
+    }
+
+    return {
+      flag: this.classify(comparable, reference.range),
+      range,
+      source: reference.source
+    };
+  }
+
+  private classify(value: number, range: ReferenceInterval): MetricFlag {
+    if (range.critical && (value < range.critical.low || value > range.critical.high)) {
+      return 'CRITICAL';
+    }
+    if (value < range.min) return 'LOW';
+    if (value > range.max) return 'HIGH';
+    return 'NORMAL';
+  }
+
+  // Most specific matching rule; ties go to the first listed
+  private findRule(rules: ReferenceRangeRule[], patient: PatientContext): ReferenceRangeRule | undefined {
+    let best: ReferenceRangeRule | undefined;
+    let bestScore = -1;
+
+    for (const rule of rules) {
+      if (!this.matches(rule, patient)) continue;
+      const score = (rule.trimester ? 4 : 0) + (rule.sex ? 2 : 0) +
+        (rule.minAge !== undefined || rule.maxAge !== undefined ? 1 : 0);
+      if (score > bestScore) {
+        best = rule;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  private matches(rule: ReferenceRangeRule, patient: PatientContext): boolean {
+    if (rule.trimester && rule.trimester !== patient.pregnancyTrimester) return false;
+    if (rule.sex && rule.sex !== patient.sex) return false;
+
+    if (rule.minAge !== undefined || rule.maxAge !== undefined) {
+      if (patient.ageYears === undefined) {
+        // Unknown age: only bands covering all of adulthood apply
+        return (rule.minAge ?? 0) <= ADULT_AGE && rule.maxAge === undefined;
+      }
+      if (rule.minAge !== undefined && patient.ageYears < rule.minAge) return false;
+      if (rule.maxAge !== undefined && patient.ageYears >= rule.maxAge) return false;
+    }
+    return true;
+  }
+
+  // e.g. "Female, 18+ years" or "Pregnancy, 2nd trimester"
+  private describeRule(rule: ReferenceRangeRule): string {
+    if (rule.trimester) {
+      return `Pregnancy, ${TRIMESTER_NAMES[rule.trimester - 1]} trimester`;
+    }
+
+    const parts: string[] = [];
+    if (rule.sex) parts.push(rule.sex === 'male' ? 'Male' : 'Female');
+    if (rule.minAge !== undefined && rule.maxAge !== undefined) {
+      parts.push(`${this.formatAge(rule.minAge)}-${this.formatAge(rule.maxAge)} years`);
+    } else if (rule.minAge !== undefined) {
+      parts.push(`${this.formatAge(rule.minAge)}+ years`);
+    } else if (rule.maxAge !== undefined) {
+      parts.push(`under ${this.formatAge(rule.maxAge)} years`);
+    }
+    return parts.join(', ');
+  }
+
+  private formatAge(years: number): string {
+    return Number.isInteger(years) ? String(years) : years.toFixed(1);
+  }
+}
@@ -0,0 +1,184 @@
+import type { AnalyteDefinition } from './definitions';
+import type { MetricFlag } from './ReferenceRangeService';
+
+export type ResultValueType = 'numeric' | 'qualitative' | 'ordinal' | 'range' | 'inequality';
+
+export interface ResultValue {
+  type: ResultValueType;
+  value: number;      // The number, grade (Nil 0, Trace 0.5, 2+ 2), range midpoint or bound
+  text: string;       // As printed, tidied: "Nil", "2+", "4-6", "<0.5"
+  low?: number;       // Range bounds
+  high?: number;
+  comparator?: '<' | '<=' | '>' | '>=';
+  polarity?: 'negative' | 'positive'; // Whether anything abnormal was found
+  remainder: string;  // Text after the value, usually the unit
+}
+
+// Results meaning nothing abnormal was found, including descriptive urine findings
+const NEGATIVE_TERMS = [
+  'nil', 'negative', 'neg', 'absent', 'not detected', 'non reactive', 'nonreactive', 'not found',
+  'no growth', 'sterile', 'not seen', 'none', 'normal', 'pale yellow', 'light yellow', 'straw',
+  'straw yellow', 'yellow', 'dark yellow', 'colourless', 'colorless', 'clear', 'transparent',
+  'acidic', 'alkaline', 'neutral'
+];
+
+const POSITIVE_TERMS = [
+  'positive', 'pos', 'weakly positive', 'reactive', 'weakly reactive', 'present', 'detected',
+  'seen', 'growth', 'red', 'reddish', 'brown', 'dark brown', 'turbid', 'slightly turbid',
+  'cloudy', 'hazy'
+];
+
+// Semi-quantitative words used for dipsticks and microscopy
+const ORDINAL_TERMS: Record<string, number> = {
+  'trace': 0.5, 'occasional': 0.5, 'rare': 0.5, 'few': 1, 'moderate': 2,
+  'many': 3, 'numerous': 3, 'plenty': 3, 'loaded': 4, 'full field': 4
+};
+
+const COMPARATORS: Record<string, ResultValue['comparator']> = {
+  '<': '<', '<=': '<=', '≤': '<=', '>': '>', '>=': '>=', '≥': '>=',
+  'less than': '<', 'upto': '<=', 'up to': '<=', 'more than': '>', 'greater than': '>'
+};
+
+// Ordinal grades from this one up are flagged critical when the normal result is Nil
+const CRITICAL_GRADE = 3;
+
+const escape = (term: string) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '[\\s-]*');
+
+const WORD_TERMS = [...NEGATIVE_TERMS, ...POSITIVE_TERMS, ...Object.keys(ORDINAL_TERMS)]
+  .sort((a, b) => b.length - a.length);
+
+/**
+ * Regex source matching any non-numeric result at the start of a cell, for
+ * building line patterns: "Nil", "Non-Reactive", "Trace", "++", "2+".
+ */
+export const QUALITATIVE_RESULT_PATTERN = `(?:${WORD_TERMS.map(escape).join('|')})(?![\\p{L}])|\\+{1,4}|[1-4]\\s*\\+`;
+
+/**
+ * ResultValueParser - Reads lab results that aren't plain numbers
+ *
+ * Urine routine, serology and culture reports print "Nil", "Trace", "++",
+ * "4-6 /hpf", "Non-Reactive" or "<0.5". Each is parsed into a type with a
+ * numeric stand-in (so sorting and dedup keep working) and flagged by its own
+ * rules rather than as a number.
+ */
+export class ResultValueParser {
+  private static instance: ResultValueParser;
+  private wordPattern = new RegExp(`^(${WORD_TERMS.map(escape).join('|')})(?![\\p{L}])`, 'iu');
+
+  static getInstance(): ResultValueParser {
+    if (!ResultValueParser.instance) {
+      ResultValueParser.instance = new ResultValueParser();
+    }
+    return ResultValueParser.instance;
+  }
+
+  // Parse the value at the start of a result cell; null if there isn't one
+  parse(input: string): ResultValue | null {
+    const text = input.trim();
+
+    const inequality = text.match(/^(<=?|>=?|≤|≥|less\s+than|more\s+than|greater\s+than|up\s*to)\s*(\d+(?:\.\d+)?)/i);
+    if (inequality) {
+      const comparator = COMPARATORS[inequality[1].toLowerCase().replace(/\s+/g, ' ')]!;
+      const bound = parseFloat(inequality[2]);
+      return {
+        type: 'inequality', value: bound, comparator, text: `${comparator}${inequality[2]}`,
+        remainder: text.slice(inequality[0].length).trim()
+      };
+    }
+
+    const range = text.match(/^(\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(\d+(?:\.\d+)?)/i);
+    if (range) {
+      const low = parseFloat(range[1]);
+      const high = parseFloat(range[2]);
+      if (high >= low) {
+        return {
+          type: 'range', value: (low + high) / 2, low, high, text: `${range[1]}-${range[2]}`,
+          remainder: text.slice(range[0].length).trim()
+        };
+      }
+    }
+
+    const grade = text.match(/^(?:([1-4])\s*\+|(\+{1,4}))(?![\d+])/);
+    if (grade) {
+      const value = grade[1] ? parseInt(grade[1], 10) : grade[2].length;
+      return {
+        type: 'ordinal', value, polarity: 'positive', text: grade[1] ? `${value}+` : grade[2],
+        remainder: text.slice(grade[0].length).trim()
+      };
+    }
+
+    const numeric = text.match(/^\d+(?:\.\d+)?/);
+    if (numeric) {
+      return {
+        type: 'numeric', value: parseFloat(numeric[0]), text: numeric[0],
+        remainder: text.slice(numeric[0].length).trim()
+      };
+    }
+
+    const word = text.match(this.wordPattern);
+    if (word) {
+      const term = word[1].toLowerCase().replace(/[\s-]+/g, ' ');
+      const remainder = text.slice(word[0].length).trim();
+      const printed = this.toTitleCase(word[1]);
+      if (term in ORDINAL_TERMS) {
+        return { type: 'ordinal', value: ORDINAL_TERMS[term], polarity: 'positive', text: printed, remainder };
+      }
+      const positive = POSITIVE_TERMS.includes(term) || POSITIVE_TERMS.includes(term.replace(/ /g, ''));
+      return {
+        type: 'qualitative', value: positive ? 1 : 0, polarity: positive ? 'positive' : 'negative',
+        text: printed, remainder
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Flag a non-numeric result. Ranges and inequalities are compared with the
+   * reference range; grades and qualitative results with the expected result,
+   * taken from the report's reference column or else the catalogue.
+   */
+  flag(result: ResultValue, range?: number[], analyte?: AnalyteDefinition | null, printedReference?: string): MetricFlag {
+    const [min, max] = range && range.length >= 2 ? range : [undefined, undefined];
+    const expected = (printedReference && this.parse(printedReference)) ||
+      (analyte?.qualitative ? this.parse(analyte.qualitative.expected) : null);
+
+    switch (result.type) {
+      case 'range':
+        if (max !== undefined && result.high! > max) return 'HIGH';
+        if (min !== undefined && result.low! < min) return 'LOW';
+        return 'NORMAL';
+
+      case 'inequality': {
+        const below = result.comparator === '<' || result.comparator === '<=';
+        // Only flag when every value the bound allows is out of range
+        if (below && min !== undefined && min > 0 && result.value <= min) return 'LOW';
+        if (!below && max !== undefined && result.value >= max) return 'HIGH';
+        return 'NORMAL';
+      }
+
+      case 'ordinal': {
+        const maxNormal = expected && expected.type !== 'numeric' && expected.type !== 'range'
+          ? expected.value
+          : analyte?.qualitative?.maxNormalGrade ?? 0;
+        if (result.value <= maxNormal) return 'NORMAL';
+        return maxNormal === 0 && result.value >= CRITICAL_GRADE ? 'CRITICAL' : 'HIGH';
+      }
+
+      case 'qualitative': {
+        const expectedPolarity = expected?.polarity || 'negative';
+        if (!result.polarity || result.polarity === expectedPolarity) return 'NORMAL';
+        return result.polarity === 'positive' ? 'HIGH' : 'LOW';
+      }
+
+      default:
+        if (max !== undefined && result.value > max) return 'HIGH';
+        if (min !== undefined && result.value < min) return 'LOW';
+        return 'NORMAL';
+    }
+  }
+
+  private toTitleCase(term: string): string {
+    return term.toLowerCase().replace(/(^|[\s-])(\p{L})/gu, (_, separator, letter) => separator + letter.toUpperCase());
+  }
+}
@@ -0,0 +1,217 @@
+import type { AnalyteDefinition } from './definitions';
+
+// Units in one dimension convert by a constant factor; crossing dimensions
+// needs something analyte-specific (molar mass, valence)
+type Dimension = 'mass' | 'molar' | 'equivalent' | 'count' | 'activity' | 'fraction' | 'ifcc';
+
+interface UnitDefinition {
+  symbol: string;     // Canonical spelling
+  dimension?: Dimension;
+  factor?: number;    // Multiplier to the dimension's base unit
+  aliases: string[];
+}
+
+// Base units: mass mg/dL, molar mmol/L, equivalent mEq/L, count /μL,
+// activity IU/L, fraction %
+const UNIT_DEFINITIONS: UnitDefinition[] = [
+  // Mass concentration
+  { symbol: 'mg/dL', dimension: 'mass', factor: 1, aliases: ['mg/dl', 'mg%', 'mgs/dl', 'mg/100ml'] },
+  { symbol: 'g/dL', dimension: 'mass', factor: 1000, aliases: ['g/dl', 'gm/dl', 'gms/dl', 'g%', 'gm%', 'gms%'] },
+  { symbol: 'g/L', dimension: 'mass', factor: 100, aliases: ['g/l', 'gm/l', 'gms/l'] },
+  { symbol: 'mg/L', dimension: 'mass', factor: 0.1, aliases: ['mg/l', 'μg/ml', 'mcg/ml'] },
+  { symbol: 'μg/dL', dimension: 'mass', factor: 0.001, aliases: ['μg/dl', 'mcg/dl'] },
+  { symbol: 'μg/L', dimension: 'mass', factor: 0.0001, aliases: ['μg/l', 'mcg/l'] },
+  { symbol: 'ng/mL', dimension: 'mass', factor: 0.0001, aliases: ['ng/ml'] },
+  { symbol: 'ng/dL', dimension: 'mass', factor: 0.000001, aliases: ['ng/dl'] },
+  { symbol: 'pg/mL', dimension: 'mass', factor: 0.0000001, aliases: ['pg/ml', 'ng/l'] },
+
+  // Molar concentration
+  { symbol: 'mmol/L', dimension: 'molar', factor: 1, aliases: ['mmol/l', 'mmol/ltr'] },
+  { symbol: 'μmol/L', dimension: 'molar', factor: 0.001, aliases: ['μmol/l', 'micromol/l'] },
+  { symbol: 'nmol/L', dimension: 'molar', factor: 0.000001, aliases: ['nmol/l'] },
+  { symbol: 'pmol/L', dimension: 'molar', factor: 0.000000001, aliases: ['pmol/l'] },
+  { symbol: 'mEq/L', dimension: 'equivalent', factor: 1, aliases: ['meq/l', 'meq/ltr'] },
+  { symbol: 'mmol/mol', dimension: 'ifcc', factor: 1, aliases: ['mmol/mol'] },
+
+  // Cell counts
+  {
+    symbol: '/μL', dimension: 'count', factor: 1,
+    aliases: ['/μl', 'cells/μl', '/cumm', 'cells/cumm', 'cumm', '/cmm', '/mm^3', '/mm3', 'cells/mm3', '/c.mm']
+  },
+  {
+    symbol: '10³/μL', dimension: 'count', factor: 1e3,
+    aliases: ['10^3/μl', '10^3/cumm', '10^3/mm3', 'thou/μl', 'thou/cumm', 'k/μl', '1000/μl']
+  },
+  {
+    symbol: 'lakh/μL', dimension: 'count', factor: 1e5,
+    aliases: ['lakh/cumm', 'lakhs/cumm', 'lakh/μl', 'lakhs/μl', 'lakh/mm3', 'lakhs/mm3', 'lac/cumm', 'lacs/cumm', 'lakhs']
+  },
+  {
+    symbol: 'million/μL', dimension: 'count', factor: 1e6,
+    aliases: ['10^6/μl', '10^6/cumm', 'mill/cumm', 'million/cumm', 'millions/cumm', 'million/μl', 'mil/μl', 'm/μl']
+  },
+  { symbol: '10⁹/L', dimension: 'count', factor: 1e3, aliases: ['10^9/l'] },
+  { symbol: '10¹²/L', dimension: 'count', factor: 1e6, aliases: ['10^12/l'] },
+
+  // Enzyme activity and international units
+  { symbol: 'U/L', dimension: 'activity', factor: 1, aliases: ['u/l'] },
+  { symbol: 'IU/L', dimension: 'activity', factor: 1, aliases: ['iu/l'] },
+  { symbol: 'mIU/L', dimension: 'activity', factor: 0.001, aliases: ['miu/l'] },
+  { symbol: 'μIU/mL', dimension: 'activity', factor: 0.001, aliases: ['μiu/ml', 'microiu/ml'] },
+  { symbol: 'mIU/mL', dimension: 'activity', factor: 1, aliases: ['miu/ml'] },
+  { symbol: 'IU/mL', dimension: 'activity', factor: 1000, aliases: ['iu/ml'] },
+  { symbol: 'U/mL', dimension: 'activity', factor: 1000, aliases: ['u/ml'] },
+
+  // Fractions
+  { symbol: '%', dimension: 'fraction', factor: 1, aliases: ['%', 'percent'] },
+  { symbol: 'L/L', dimension: 'fraction', factor: 100, aliases: ['l/l'] },
+
+  // Spelling only
+  { symbol: 'fL', aliases: ['fl', 'femtolitre', 'femtoliter', 'cubicmicron', 'μm3', 'μ^3'] },
+  { symbol: 'pg', aliases: ['pg', 'picogram', 'picograms'] },
+  { symbol: 'mm/hr', aliases: ['mm/hr', 'mm/h', 'mm/1sthr', 'mm/1sthour', 'mmin1sthr', 'mm/1hr'] },
+  { symbol: 'sec', aliases: ['sec', 'secs', 'seconds'] },
+  { symbol: 'mL/min/1.73m²', aliases: ['ml/min/1.73m2', 'ml/min/1.73m^2', 'ml/min/1.73sqm'] },
+  { symbol: 'copies/mL', aliases: ['copies/ml'] },
+  { symbol: '/hpf', aliases: ['/hpf', 'hpf', 'cells/hpf', '/h.p.f', '/h.p.f.', 'per hpf'] },
+  { symbol: '/lpf', aliases: ['/lpf', 'lpf', '/l.p.f', '/l.p.f.', 'per lpf'] }
+];
+
+const SUPERSCRIPTS: Record<string, string> = { '³': '^3', '⁶': '^6', '⁹': '^9', '¹²': '^12' };
+
+// HbA1c: IFCC (mmol/mol) = (NGSP % - 2.15) x 10.929
+const IFCC_SLOPE = 10.929;
+const IFCC_INTERCEPT = 2.15;
+
+export interface NormalizedQuantity {
+  value: number;
+  unit: string;
+}
+
+/**
+ * UnitConverter - Canonical unit spelling and conversion between lab units
+ *
+ * Handles scale changes within a dimension (g/L vs g/dL, 10^3/µL vs
+ * lakhs/cumm) and analyte-specific conversions between conventional and SI
+ * units using the catalogue's molar masses (glucose mg/dL vs mmol/L).
+ */
+export class UnitConverter {
+  private static instance: UnitConverter;
+  private byAlias = new Map<string, UnitDefinition>();
+
+  private constructor() {
+    for (const unit of UNIT_DEFINITIONS) {
+      this.byAlias.set(this.toAliasKey(unit.symbol), unit);
+      for (const alias of unit.aliases) {
+        this.byAlias.set(this.toAliasKey(alias), unit);
+      }
+    }
+  }
+
+  static getInstance(): UnitConverter {
+    if (!UnitConverter.instance) {
+      UnitConverter.instance = new UnitConverter();
+    }
+    return UnitConverter.instance;
+  }
+
+  // Canonical spelling of a unit, or the input unchanged if it isn't known
+  normalizeUnit(unit: string): string {
+    return this.lookup(unit)?.symbol || unit.trim();
+  }
+
+  isKnownUnit(unit: string): boolean {
+    return !!this.lookup(unit);
+  }
+
+  /**
+   * Convert a value between units. Returns null when the units measure
+   * different things, or when the analyte lacks the data to bridge them.
+   */
+  convert(value: number, fromUnit: string, toUnit: string, analyte?: AnalyteDefinition): number | null {
+    const from = this.lookup(fromUnit);
+    const to = this.lookup(toUnit);
+    if (!from || !to) {
+      return fromUnit.trim().toLowerCase() === toUnit.trim().toLowerCase() ? value : null;
+    }
+    if (from.symbol === to.symbol) return value;
+    if (!from.dimension || !to.dimension) return null;
+
+    const base = this.toDimension(value * from.factor!, from.dimension, to.dimension, analyte);
+    return base === null ? null : base / to.factor!;
+  }
+
+  // Express a value in the analyte's default unit, if the printed unit allows it
+  toPreferredUnit(value: number, unit: string, analyte: AnalyteDefinition): NormalizedQuantity | null {
+    if (!unit) return null;
+    const converted = this.convert(value, unit, analyte.defaultUnit, analyte);
+    if (converted === null) return null;
+    return { value: Number(converted.toPrecision(4)), unit: analyte.defaultUnit };
+  }
+
+  private toDimension(
+    value: number,
+    from: Dimension,
+    to: Dimension,
+    analyte?: AnalyteDefinition
+  ): number | null {
+    if (from === to) return value;
+
+    if (analyte?.id === 'HBA1C') {
+      if (from === 'fraction' && to === 'ifcc') return (value - IFCC_INTERCEPT) * IFCC_SLOPE;
+      if (from === 'ifcc' && to === 'fraction') return value / IFCC_SLOPE + IFCC_INTERCEPT;
+      return null;
+    }
+
+    const molar = this.toMolar(value, from, analyte);
+    return molar === null ? null : this.fromMolar(molar, to, analyte);
+  }
+
+  private toMolar(value: number, from: Dimension, analyte?: AnalyteDefinition): number | null {
+    switch (from) {
+      case 'molar':
+        return value;
+      case 'mass':
+        // mg/dL -> mmol/L
+        return analyte?.molarMass ? (value * 10) / analyte.molarMass : null;
+      case 'equivalent':
+        return value / (analyte?.valence || 1);
+      default:
+        return null;
+    }
+  }
+
+  private fromMolar(value: number, to: Dimension, analyte?: AnalyteDefinition): number | null {
+    switch (to) {
+      case 'molar':
+        return value;
+      case 'mass':
+        return analyte?.molarMass ? (value * analyte.molarMass) / 10 : null;
+      case 'equivalent':
+        return value * (analyte?.valence || 1);
+      default:
+        return null;
+    }
+  }
+
+  private lookup(unit: string): UnitDefinition | undefined {
+    if (!unit) return undefined;
+    return this.byAlias.get(this.toAliasKey(unit));
+  }
+
+  // Lowercase, no spaces, one micro sign, superscripts spelled out
+  private toAliasKey(unit: string): string {
+    let key = unit
+      .trim()
+      .toLowerCase()
+      .replace(/\s+/g, '')
+      .replace(/µ/g, 'μ')
+      .replace(/[×*]/g, 'x')
+      .replace(/¹²|[³⁶⁹]/g, match => SUPERSCRIPTS[match])
+      .replace(/^x(?=10)/, '')
+      .replace(/10x(?=\d)/, '10^');
+    // "ug", "umol", "ul" and "uiu" use u for micro; "u/l" is enzyme units
+    key = key.replace(/(^|\/)u(?=g|mol|l\b|l$|iu)/g, '$1μ');
+    return key;
+  }
+}
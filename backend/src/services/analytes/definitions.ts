@@ -0,0 +1,894 @@
+export interface ReferenceInterval {
+  min: number;
+  max: number;
+  critical?: { low: number; high: number };
+}
+
+// Expected result for tests reported as words or grades rather than numbers
+export interface QualitativeReference {
+  expected: string;           // As a lab would print it: "Nil", "Non-Reactive", "Sterile"
+  maxNormalGrade?: number;    // Highest normal ordinal grade (Occasional 0.5, Few 1)
+}
+
+export interface AnalyteDefinition {
+  id: string;                 // Stable catalogue key, persisted on health metrics
+  loinc?: string;             // LOINC code where one exists
+  name: string;               // Canonical display name
+  synonyms: string[];         // Full names and common lab spellings
+  abbreviations?: string[];
+  defaultUnit: string;
+  category: string;
+  referenceRange?: ReferenceInterval; // Typical adult range in the default unit
+  molarMass?: number;         // g/mol, for converting mass to molar units
+  valence?: number;           // Charge, for converting mEq/L to mmol/L (default 1)
+  qualitative?: QualitativeReference;
+}
+
+/**
+ * Canonical analyte catalogue. Names are matched ignoring case, punctuation,
+ * word order and filler words like "serum", so synonyms only need to cover
+ * genuinely different spellings.
+ */
+export const ANALYTE_DEFINITIONS: AnalyteDefinition[] = [
+  // Complete Blood Count
+  {
+    id: 'HGB', loinc: '718-7', name: 'Hemoglobin',
+    synonyms: ['hemoglobin', 'haemoglobin', 'hgb estimation'],
+    abbreviations: ['hb', 'hgb'],
+    defaultUnit: 'g/dL', category: 'Complete Blood Count',
+    referenceRange: { min: 12.0, max: 16.0, critical: { low: 6.0, high: 20.0 } },
+    molarMass: 16114
+  },
+  {
+    id: 'HCT', loinc: '4544-3', name: 'Hematocrit',
+    synonyms: ['hematocrit', 'haematocrit', 'packed cell volume'],
+    abbreviations: ['hct', 'pcv'],
+    defaultUnit: '%', category: 'Complete Blood Count',
+    referenceRange: { min: 36.0, max: 48.0, critical: { low: 18.0, high: 60.0 } }
+  },
+  {
+    id: 'RBC', loinc: '789-8', name: 'Red Blood Cell Count',
+    synonyms: ['red blood cell count', 'red blood cells', 'rbc count', 'erythrocyte count', 'total rbc count'],
+    abbreviations: ['rbc'],
+    defaultUnit: 'million/μL', category: 'Complete Blood Count',
+    referenceRange: { min: 4.2, max: 5.8, critical: { low: 2.0, high: 8.0 } }
+  },
+  {
+    id: 'WBC', loinc: '6690-2', name: 'White Blood Cell Count',
+    synonyms: [
+      'white blood cell count', 'white blood cells', 'wbc count', 'total wbc count',
+      'total leucocyte count', 'total leukocyte count', 'leucocyte count', 'leukocyte count', 'total count'
+    ],
+    abbreviations: ['wbc', 'tlc'],
+    defaultUnit: '/μL', category: 'Complete Blood Count',
+    referenceRange: { min: 4000, max: 11000, critical: { low: 1000, high: 50000 } }
+  },
+  {
+    id: 'PLT', loinc: '777-3', name: 'Platelet Count',
+    synonyms: ['platelet count', 'platelets', 'platelet', 'thrombocyte count'],
+    abbreviations: ['plt'],
+    defaultUnit: '/μL', category: 'Complete Blood Count',
+    referenceRange: { min: 150000, max: 450000, critical: { low: 20000, high: 1000000 } }
+  },
+  {
+    id: 'MCV', loinc: '787-2', name: 'Mean Corpuscular Volume',
+    synonyms: ['mean corpuscular volume', 'mean cell volume'],
+    abbreviations: ['mcv'],
+    defaultUnit: 'fL', category: 'Complete Blood Count',
+    referenceRange: { min: 80, max: 100 }
+  },
+  {
+    id: 'MCH', loinc: '785-6', name: 'Mean Corpuscular Hemoglobin',
+    synonyms: ['mean corpuscular hemoglobin', 'mean corpuscular haemoglobin', 'mean cell hemoglobin'],
+    abbreviations: ['mch'],
+    defaultUnit: 'pg', category: 'Complete Blood Count',
+    referenceRange: { min: 27, max: 33 }
+  },
+  {
+    id: 'MCHC', loinc: '786-4', name: 'Mean Corpuscular Hemoglobin Concentration',
+    synonyms: ['mean corpuscular hemoglobin concentration', 'mean corpuscular haemoglobin concentration'],
+    abbreviations: ['mchc'],
+    defaultUnit: 'g/dL', category: 'Complete Blood Count',
+    referenceRange: { min: 32, max: 36 }
+  },
+  {
+    id: 'RDW', loinc: '788-0', name: 'Red Cell Distribution Width',
+    synonyms: ['red cell distribution width', 'red blood cell distribution width', 'rdw cv'],
+    abbreviations: ['rdw'],
+    defaultUnit: '%', category: 'Complete Blood Count',
+    referenceRange: { min: 11.5, max: 14.5 }
+  },
+  {
+    id: 'MPV', loinc: '32623-1', name: 'Mean Platelet Volume',
+    synonyms: ['mean platelet volume'],
+    abbreviations: ['mpv'],
+    defaultUnit: 'fL', category: 'Complete Blood Count',
+    referenceRange: { min: 7.5, max: 11.5 }
+  },
+  {
+    id: 'NEUT_PCT', loinc: '770-8', name: 'Neutrophils',
+    synonyms: ['neutrophils', 'neutrophil', 'polymorphs', 'segmented neutrophils', 'neutrophils percent'],
+    defaultUnit: '%', category: 'Complete Blood Count',
+    referenceRange: { min: 40, max: 75 }
+  },
+  {
+    id: 'LYMPH_PCT', loinc: '736-9', name: 'Lymphocytes',
+    synonyms: ['lymphocytes', 'lymphocyte', 'lymphocytes percent'],
+    defaultUnit: '%', category: 'Complete Blood Count',
+    referenceRange: { min: 20, max: 45 }
+  },
+  {
+    id: 'MONO_PCT', loinc: '5905-5', name: 'Monocytes',
+    synonyms: ['monocytes', 'monocyte', 'monocytes percent'],
+    defaultUnit: '%', category: 'Complete Blood Count',
+    referenceRange: { min: 2, max: 10 }
+  },
+  {
+    id: 'EOS_PCT', loinc: '713-8', name: 'Eosinophils',
+    synonyms: ['eosinophils', 'eosinophil', 'eosinophils percent'],
+    defaultUnit: '%', category: 'Complete Blood Count',
+    referenceRange: { min: 1, max: 6 }
+  },
+  {
+    id: 'BASO_PCT', loinc: '706-2', name: 'Basophils',
+    synonyms: ['basophils', 'basophil', 'basophils percent'],
+    defaultUnit: '%', category: 'Complete Blood Count',
+    referenceRange: { min: 0, max: 1 }
+  },
+  {
+    id: 'NEUT_ABS', loinc: '751-8', name: 'Absolute Neutrophil Count',
+    synonyms: ['absolute neutrophil count', 'absolute neutrophils', 'neutrophils absolute'],
+    abbreviations: ['anc'],
+    defaultUnit: '/μL', category: 'Complete Blood Count',
+    referenceRange: { min: 2000, max: 7000 }
+  },
+  {
+    id: 'LYMPH_ABS', loinc: '731-0', name: 'Absolute Lymphocyte Count',
+    synonyms: ['absolute lymphocyte count', 'absolute lymphocytes', 'lymphocytes absolute'],
+    abbreviations: ['alc'],
+    defaultUnit: '/μL', category: 'Complete Blood Count',
+    referenceRange: { min: 1000, max: 3000 }
+  },
+  {
+    id: 'NLR', name: 'Neutrophil-Lymphocyte Ratio',
+    synonyms: ['neutrophil lymphocyte ratio', 'neutrophil to lymphocyte ratio'],
+    abbreviations: ['nlr'],
+    defaultUnit: 'ratio', category: 'Complete Blood Count',
+    referenceRange: { min: 1.0, max: 3.0 }
+  },
+
+  // Blood Sugar
+  {
+    id: 'GLU_FAST', loinc: '1558-6', name: 'Fasting Glucose',
+    synonyms: ['fasting glucose', 'fasting blood glucose', 'fasting plasma glucose', 'fasting blood sugar', 'fasting sugar'],
+    abbreviations: ['fbs', 'fbg', 'fpg'],
+    defaultUnit: 'mg/dL', category: 'Blood Sugar',
+    referenceRange: { min: 70, max: 100, critical: { low: 30, high: 500 } },
+    molarMass: 180.16
+  },
+  {
+    id: 'GLU_PP', loinc: '1521-4', name: 'Postprandial Glucose',
+    synonyms: [
+      'postprandial glucose', 'post prandial glucose', 'post prandial blood sugar',
+      'postprandial blood sugar', 'glucose pp', 'glucose 2 hours post meal'
+    ],
+    abbreviations: ['ppbs', 'ppbg', 'pp'],
+    defaultUnit: 'mg/dL', category: 'Blood Sugar',
+    referenceRange: { min: 70, max: 140, critical: { low: 30, high: 500 } },
+    molarMass: 180.16
+  },
+  {
+    id: 'GLU', loinc: '2345-7', name: 'Glucose',
+    synonyms: ['glucose', 'random glucose', 'random blood glucose', 'random blood sugar', 'blood sugar', 'sugar'],
+    abbreviations: ['rbs', 'rbg'],
+    defaultUnit: 'mg/dL', category: 'Blood Sugar',
+    referenceRange: { min: 70, max: 140, critical: { low: 30, high: 500 } },
+    molarMass: 180.16
+  },
+  {
+    id: 'HBA1C', loinc: '4548-4', name: 'HbA1c',
+    synonyms: ['hba1c', 'glycated hemoglobin', 'glycated haemoglobin', 'glycosylated hemoglobin', 'glycosylated haemoglobin', 'hemoglobin a1c'],
+    abbreviations: ['a1c'],
+    defaultUnit: '%', category: 'Blood Sugar',
+    referenceRange: { min: 4.0, max: 5.6, critical: { low: 0, high: 18.0 } }
+  },
+  {
+    id: 'INSULIN', loinc: '20448-7', name: 'Insulin',
+    synonyms: ['insulin', 'fasting insulin', 'insulin fasting'],
+    defaultUnit: 'μIU/mL', category: 'Blood Sugar',
+    referenceRange: { min: 2, max: 25 }
+  },
+  {
+    id: 'HOMA_IR', name: 'HOMA-IR',
+    synonyms: ['homa ir', 'homa insulin resistance', 'insulin resistance index'],
+    defaultUnit: 'index', category: 'Blood Sugar',
+    referenceRange: { min: 0, max: 2.5 }
+  },
+
+  // Lipid Profile
+  {
+    id: 'CHOL', loinc: '2093-3', name: 'Total Cholesterol',
+    synonyms: ['total cholesterol', 'cholesterol', 'cholesterol total'],
+    defaultUnit: 'mg/dL', category: 'Lipid Profile',
+    referenceRange: { min: 100, max: 200, critical: { low: 50, high: 500 } },
+    molarMass: 386.65
+  },
+  {
+    id: 'HDL', loinc: '2085-9', name: 'HDL Cholesterol',
+    synonyms: ['hdl cholesterol', 'hdl', 'high density lipoprotein', 'hdl c', 'direct hdl'],
+    defaultUnit: 'mg/dL', category: 'Lipid Profile',
+    referenceRange: { min: 40, max: 100, critical: { low: 15, high: 150 } },
+    molarMass: 386.65
+  },
+  {
+    id: 'LDL', loinc: '13457-7', name: 'LDL Cholesterol',
+    synonyms: ['ldl cholesterol', 'ldl', 'low density lipoprotein', 'ldl c', 'direct ldl', 'ldl calculated'],
+    defaultUnit: 'mg/dL', category: 'Lipid Profile',
+    referenceRange: { min: 50, max: 130, critical: { low: 20, high: 400 } },
+    molarMass: 386.65
+  },
+  {
+    id: 'VLDL', loinc: '13458-5', name: 'VLDL Cholesterol',
+    synonyms: ['vldl cholesterol', 'vldl', 'very low density lipoprotein'],
+    defaultUnit: 'mg/dL', category: 'Lipid Profile',
+    referenceRange: { min: 5, max: 40 },
+    molarMass: 386.65
+  },
+  {
+    id: 'TRIG', loinc: '2571-8', name: 'Triglycerides',
+    synonyms: ['triglycerides', 'triglyceride', 'triglycerides total'],
+    abbreviations: ['tg', 'trig'],
+    defaultUnit: 'mg/dL', category: 'Lipid Profile',
+    referenceRange: { min: 50, max: 150, critical: { low: 20, high: 2000 } },
+    molarMass: 885.7
+  },
+  {
+    id: 'NON_HDL', loinc: '43396-1', name: 'Non-HDL Cholesterol',
+    synonyms: ['non hdl cholesterol', 'non hdl'],
+    defaultUnit: 'mg/dL', category: 'Lipid Profile',
+    referenceRange: { min: 0, max: 130 },
+    molarMass: 386.65
+  },
+  {
+    id: 'CHOL_HDL_RATIO', loinc: '9830-1', name: 'Total Cholesterol/HDL Ratio',
+    synonyms: ['total cholesterol hdl ratio', 'cholesterol hdl ratio', 'chol hdl ratio', 'tc hdl ratio'],
+    defaultUnit: 'ratio', category: 'Lipid Profile',
+    referenceRange: { min: 0, max: 5.0 }
+  },
+  {
+    id: 'TG_HDL_RATIO', name: 'Triglyceride/HDL Ratio',
+    synonyms: ['triglyceride hdl ratio', 'triglycerides hdl ratio', 'tg hdl ratio'],
+    defaultUnit: 'ratio', category: 'Lipid Profile',
+    referenceRange: { min: 0, max: 3.0 }
+  },
+
+  // Kidney Function
+  {
+    id: 'CREAT', loinc: '2160-0', name: 'Creatinine',
+    synonyms: ['creatinine', 'creatinine serum'],
+    abbreviations: ['creat', 'scr'],
+    defaultUnit: 'mg/dL', category: 'Kidney Function',
+    referenceRange: { min: 0.6, max: 1.3, critical: { low: 0.2, high: 15.0 } },
+    molarMass: 113.12
+  },
+  {
+    id: 'UREA', loinc: '3091-6', name: 'Urea',
+    synonyms: ['urea', 'blood urea'],
+    defaultUnit: 'mg/dL', category: 'Kidney Function',
+    referenceRange: { min: 15, max: 40, critical: { low: 0, high: 300 } },
+    molarMass: 60.06
+  },
+  {
+    id: 'BUN', loinc: '3094-0', name: 'Blood Urea Nitrogen',
+    synonyms: ['blood urea nitrogen', 'urea nitrogen'],
+    abbreviations: ['bun'],
+    defaultUnit: 'mg/dL', category: 'Kidney Function',
+    referenceRange: { min: 7, max: 25, critical: { low: 0, high: 150 } },
+    molarMass: 28.014
+  },
+  {
+    id: 'URIC', loinc: '3084-1', name: 'Uric Acid',
+    synonyms: ['uric acid', 'urate'],
+    defaultUnit: 'mg/dL', category: 'Kidney Function',
+    referenceRange: { min: 3.5, max: 7.2 },
+    molarMass: 168.11
+  },
+  {
+    id: 'EGFR', loinc: '98979-8', name: 'eGFR',
+    synonyms: ['egfr', 'estimated glomerular filtration rate', 'glomerular filtration rate'],
+    abbreviations: ['gfr'],
+    defaultUnit: 'mL/min/1.73m²', category: 'Kidney Function',
+    referenceRange: { min: 90, max: 200, critical: { low: 15, high: 300 } }
+  },
+  {
+    id: 'CYSC', loinc: '33863-2', name: 'Cystatin C',
+    synonyms: ['cystatin c', 'cystatin'],
+    defaultUnit: 'mg/L', category: 'Kidney Function',
+    referenceRange: { min: 0.5, max: 1.0 }
+  },
+
+  // Liver Function
+  {
+    id: 'BILI_T', loinc: '1975-2', name: 'Total Bilirubin',
+    synonyms: ['total bilirubin', 'bilirubin total', 'bilirubin'],
+    abbreviations: ['tbil'],
+    defaultUnit: 'mg/dL', category: 'Liver Function',
+    referenceRange: { min: 0.2, max: 1.2, critical: { low: 0, high: 25.0 } },
+    molarMass: 584.66
+  },
+  {
+    id: 'BILI_D', loinc: '1968-7', name: 'Direct Bilirubin',
+    synonyms: ['direct bilirubin', 'bilirubin direct', 'conjugated bilirubin'],
+    abbreviations: ['dbil'],
+    defaultUnit: 'mg/dL', category: 'Liver Function',
+    referenceRange: { min: 0, max: 0.3 },
+    molarMass: 584.66
+  },
+  {
+    id: 'BILI_I', loinc: '1971-1', name: 'Indirect Bilirubin',
+    synonyms: ['indirect bilirubin', 'bilirubin indirect', 'unconjugated bilirubin'],
+    defaultUnit: 'mg/dL', category: 'Liver Function',
+    referenceRange: { min: 0.1, max: 1.0 },
+    molarMass: 584.66
+  },
+  {
+    id: 'ALT', loinc: '1742-6', name: 'ALT (SGPT)',
+    synonyms: ['alanine aminotransferase', 'alanine transaminase'],
+    abbreviations: ['alt', 'sgpt'],
+    defaultUnit: 'U/L', category: 'Liver Function',
+    referenceRange: { min: 7, max: 56, critical: { low: 0, high: 1000 } }
+  },
+  {
+    id: 'AST', loinc: '1920-8', name: 'AST (SGOT)',
+    synonyms: ['aspartate aminotransferase', 'aspartate transaminase'],
+    abbreviations: ['ast', 'sgot'],
+    defaultUnit: 'U/L', category: 'Liver Function',
+    referenceRange: { min: 10, max: 40, critical: { low: 0, high: 1000 } }
+  },
+  {
+    id: 'ALP', loinc: '6768-6', name: 'Alkaline Phosphatase',
+    synonyms: ['alkaline phosphatase'],
+    abbreviations: ['alp', 'alk phos'],
+    defaultUnit: 'U/L', category: 'Liver Function',
+    referenceRange: { min: 44, max: 147 }
+  },
+  {
+    id: 'GGT', loinc: '2324-2', name: 'Gamma GT',
+    synonyms: ['gamma glutamyl transferase', 'gamma glutamyl transpeptidase', 'gamma gt'],
+    abbreviations: ['ggt', 'ggtp'],
+    defaultUnit: 'U/L', category: 'Liver Function',
+    referenceRange: { min: 9, max: 48 }
+  },
+  {
+    id: 'PROT', loinc: '2885-2', name: 'Total Protein',
+    synonyms: ['total protein', 'protein total', 'total proteins'],
+    defaultUnit: 'g/dL', category: 'Liver Function',
+    referenceRange: { min: 6.0, max: 8.3 }
+  },
+  {
+    id: 'ALB', loinc: '1751-7', name: 'Albumin',
+    synonyms: ['albumin'],
+    defaultUnit: 'g/dL', category: 'Liver Function',
+    referenceRange: { min: 3.5, max: 5.0, critical: { low: 1.5, high: 7.0 } }
+  },
+  {
+    id: 'GLOB', loinc: '10834-0', name: 'Globulin',
+    synonyms: ['globulin'],
+    defaultUnit: 'g/dL', category: 'Liver Function',
+    referenceRange: { min: 2.0, max: 3.5 }
+  },
+  {
+    id: 'AG_RATIO', loinc: '1759-0', name: 'A/G Ratio',
+    synonyms: ['a g ratio', 'albumin globulin ratio'],
+    defaultUnit: 'ratio', category: 'Liver Function',
+    referenceRange: { min: 1.0, max: 2.5 }
+  },
+  {
+    id: 'FIB4', name: 'FIB-4 Index',
+    synonyms: ['fib 4 index', 'fib 4', 'fibrosis 4 index'],
+    defaultUnit: 'index', category: 'Liver Function',
+    referenceRange: { min: 0, max: 1.3 }
+  },
+  {
+    id: 'LDH', loinc: '2532-0', name: 'Lactate Dehydrogenase',
+    synonyms: ['lactate dehydrogenase', 'lactic dehydrogenase'],
+    abbreviations: ['ldh'],
+    defaultUnit: 'U/L', category: 'Liver Function',
+    referenceRange: { min: 140, max: 280 }
+  },
+
+  // Thyroid Function
+  {
+    id: 'TSH', loinc: '3016-3', name: 'TSH',
+    synonyms: ['thyroid stimulating hormone', 'thyrotropin', 'ultrasensitive tsh'],
+    abbreviations: ['tsh'],
+    defaultUnit: 'μIU/mL', category: 'Thyroid Function',
+    referenceRange: { min: 0.4, max: 4.5, critical: { low: 0, high: 50.0 } }
+  },
+  {
+    id: 'T3', loinc: '3053-6', name: 'Total T3',
+    synonyms: ['total t3', 'triiodothyronine', 'total triiodothyronine'],
+    abbreviations: ['t3'],
+    defaultUnit: 'ng/dL', category: 'Thyroid Function',
+    referenceRange: { min: 80, max: 200, critical: { low: 30, high: 500 } },
+    molarMass: 650.97
+  },
+  {
+    id: 'T4', loinc: '3026-2', name: 'Total T4',
+    synonyms: ['total t4', 'thyroxine', 'total thyroxine'],
+    abbreviations: ['t4'],
+    defaultUnit: 'μg/dL', category: 'Thyroid Function',
+    referenceRange: { min: 4.5, max: 12.0, critical: { low: 1.0, high: 25.0 } },
+    molarMass: 776.87
+  },
+  {
+    id: 'FT3', loinc: '3051-0', name: 'Free T3',
+    synonyms: ['free t3', 'free triiodothyronine'],
+    abbreviations: ['ft3'],
+    defaultUnit: 'pg/mL', category: 'Thyroid Function',
+    referenceRange: { min: 2.3, max: 4.2 },
+    molarMass: 650.97
+  },
+  {
+    id: 'FT4', loinc: '3024-7', name: 'Free T4',
+    synonyms: ['free t4', 'free thyroxine'],
+    abbreviations: ['ft4'],
+    defaultUnit: 'ng/dL', category: 'Thyroid Function',
+    referenceRange: { min: 0.8, max: 1.8 },
+    molarMass: 776.87
+  },
+  {
+    id: 'ANTI_TPO', loinc: '8099-4', name: 'Anti-TPO Antibodies',
+    synonyms: ['anti tpo', 'anti tpo antibodies', 'thyroid peroxidase antibodies', 'anti thyroid peroxidase'],
+    defaultUnit: 'IU/mL', category: 'Thyroid Function',
+    referenceRange: { min: 0, max: 34 }
+  },
+
+  // Vitamins & Minerals
+  {
+    id: 'VITD', loinc: '1989-3', name: 'Vitamin D (25-OH)',
+    synonyms: ['vitamin d', '25 oh vitamin d', '25 hydroxy vitamin d', 'vitamin d total', 'vitamin d3', '25 hydroxycholecalciferol'],
+    defaultUnit: 'ng/mL', category: 'Vitamins & Minerals',
+    referenceRange: { min: 30, max: 100, critical: { low: 5, high: 200 } },
+    molarMass: 400.64
+  },
+  {
+    id: 'B12', loinc: '2132-9', name: 'Vitamin B12',
+    synonyms: ['vitamin b12', 'b12', 'cobalamin', 'cyanocobalamin'],
+    defaultUnit: 'pg/mL', category: 'Vitamins & Minerals',
+    referenceRange: { min: 200, max: 900, critical: { low: 50, high: 2000 } },
+    molarMass: 1355.4
+  },
+  {
+    id: 'FOLATE', loinc: '2284-8', name: 'Folate',
+    synonyms: ['folate', 'folic acid'],
+    defaultUnit: 'ng/mL', category: 'Vitamins & Minerals',
+    referenceRange: { min: 2.7, max: 17.0, critical: { low: 1.0, high: 50.0 } },
+    molarMass: 441.4
+  },
+  {
+    id: 'IRON', loinc: '2498-4', name: 'Iron',
+    synonyms: ['iron', 'serum iron'],
+    abbreviations: ['fe'],
+    defaultUnit: 'μg/dL', category: 'Vitamins & Minerals',
+    referenceRange: { min: 60, max: 170, critical: { low: 20, high: 500 } },
+    molarMass: 55.845
+  },
+  {
+    id: 'FERRITIN', loinc: '2276-4', name: 'Ferritin',
+    synonyms: ['ferritin'],
+    defaultUnit: 'ng/mL', category: 'Vitamins & Minerals',
+    referenceRange: { min: 12, max: 300, critical: { low: 5, high: 2000 } }
+  },
+  {
+    id: 'TIBC', loinc: '2500-7', name: 'Total Iron Binding Capacity',
+    synonyms: ['total iron binding capacity', 'iron binding capacity'],
+    abbreviations: ['tibc'],
+    defaultUnit: 'μg/dL', category: 'Vitamins & Minerals',
+    referenceRange: { min: 250, max: 450 },
+    molarMass: 55.845
+  },
+  {
+    id: 'TSAT', loinc: '2502-3', name: 'Transferrin Saturation',
+    synonyms: ['transferrin saturation', 'iron saturation', 'percent saturation'],
+    defaultUnit: '%', category: 'Vitamins & Minerals',
+    referenceRange: { min: 20, max: 50 }
+  },
+  {
+    id: 'CA', loinc: '17861-6', name: 'Calcium',
+    synonyms: ['calcium', 'total calcium'],
+    abbreviations: ['ca'],
+    defaultUnit: 'mg/dL', category: 'Vitamins & Minerals',
+    referenceRange: { min: 8.5, max: 10.5, critical: { low: 6.0, high: 15.0 } },
+    molarMass: 40.08, valence: 2
+  },
+  {
+    id: 'CA_CORR', name: 'Corrected Calcium',
+    synonyms: ['corrected calcium', 'albumin corrected calcium', 'calcium corrected'],
+    defaultUnit: 'mg/dL', category: 'Vitamins & Minerals',
+    referenceRange: { min: 8.5, max: 10.5, critical: { low: 6.0, high: 15.0 } },
+    molarMass: 40.08, valence: 2
+  },
+  {
+    id: 'MG', loinc: '19123-9', name: 'Magnesium',
+    synonyms: ['magnesium'],
+    abbreviations: ['mg'],
+    defaultUnit: 'mg/dL', category: 'Vitamins & Minerals',
+    referenceRange: { min: 1.7, max: 2.2 },
+    molarMass: 24.305, valence: 2
+  },
+  {
+    id: 'PHOS', loinc: '2777-1', name: 'Phosphorus',
+    synonyms: ['phosphorus', 'inorganic phosphorus', 'phosphate'],
+    defaultUnit: 'mg/dL', category: 'Vitamins & Minerals',
+    referenceRange: { min: 2.5, max: 4.5 },
+    molarMass: 30.97
+  },
+
+  // Electrolytes
+  {
+    id: 'NA', loinc: '2951-2', name: 'Sodium',
+    synonyms: ['sodium'],
+    abbreviations: ['na'],
+    defaultUnit: 'mmol/L', category: 'Electrolytes',
+    referenceRange: { min: 135, max: 145, critical: { low: 120, high: 160 } },
+    molarMass: 22.99
+  },
+  {
+    id: 'K', loinc: '2823-3', name: 'Potassium',
+    synonyms: ['potassium'],
+    abbreviations: ['k'],
+    defaultUnit: 'mmol/L', category: 'Electrolytes',
+    referenceRange: { min: 3.5, max: 5.1, critical: { low: 2.5, high: 6.5 } },
+    molarMass: 39.1
+  },
+  {
+    id: 'CL', loinc: '2075-0', name: 'Chloride',
+    synonyms: ['chloride'],
+    abbreviations: ['cl'],
+    defaultUnit: 'mmol/L', category: 'Electrolytes',
+    referenceRange: { min: 98, max: 107 },
+    molarMass: 35.45
+  },
+  {
+    id: 'HCO3', loinc: '1963-8', name: 'Bicarbonate',
+    synonyms: ['bicarbonate', 'total co2', 'co2'],
+    abbreviations: ['hco3'],
+    defaultUnit: 'mmol/L', category: 'Electrolytes',
+    referenceRange: { min: 22, max: 29 },
+    molarMass: 61.02
+  },
+
+  // Inflammatory Markers
+  {
+    id: 'ESR', loinc: '4537-7', name: 'ESR',
+    synonyms: ['erythrocyte sedimentation rate', 'sed rate', 'sedimentation rate'],
+    abbreviations: ['esr'],
+    defaultUnit: 'mm/hr', category: 'Inflammatory Markers',
+    referenceRange: { min: 0, max: 20 }
+  },
+  {
+    id: 'CRP', loinc: '1988-5', name: 'C-Reactive Protein',
+    synonyms: ['c reactive protein', 'crp quantitative'],
+    abbreviations: ['crp'],
+    defaultUnit: 'mg/L', category: 'Inflammatory Markers',
+    referenceRange: { min: 0, max: 6 }
+  },
+  {
+    id: 'HSCRP', loinc: '30522-7', name: 'hs-CRP',
+    synonyms: ['hs crp', 'high sensitivity crp', 'high sensitivity c reactive protein'],
+    defaultUnit: 'mg/L', category: 'Inflammatory Markers',
+    referenceRange: { min: 0, max: 3 }
+  },
+
+  // Cardiac Markers
+  {
+    id: 'TROP_I', loinc: '10839-9', name: 'Troponin I',
+    synonyms: ['troponin i', 'troponin'],
+    defaultUnit: 'ng/mL', category: 'Cardiac Markers',
+    referenceRange: { min: 0, max: 0.04 }
+  },
+  {
+    id: 'BNP', loinc: '30934-4', name: 'BNP',
+    synonyms: ['b type natriuretic peptide', 'brain natriuretic peptide'],
+    abbreviations: ['bnp'],
+    defaultUnit: 'pg/mL', category: 'Cardiac Markers',
+    referenceRange: { min: 0, max: 100 }
+  },
+  {
+    id: 'NTPROBNP', loinc: '33762-6', name: 'NT-proBNP',
+    synonyms: ['nt probnp', 'n terminal pro bnp'],
+    defaultUnit: 'pg/mL', category: 'Cardiac Markers',
+    referenceRange: { min: 0, max: 125 }
+  },
+  {
+    id: 'HCY', loinc: '13965-9', name: 'Homocysteine',
+    synonyms: ['homocysteine'],
+    defaultUnit: 'μmol/L', category: 'Cardiac Markers',
+    referenceRange: { min: 5, max: 15 },
+    molarMass: 135.18
+  },
+
+  // Coagulation
+  {
+    id: 'PT', loinc: '5902-2', name: 'Prothrombin Time',
+    synonyms: ['prothrombin time'],
+    abbreviations: ['pt'],
+    defaultUnit: 'sec', category: 'Coagulation',
+    referenceRange: { min: 11, max: 13.5 }
+  },
+  {
+    id: 'INR', loinc: '6301-6', name: 'INR',
+    synonyms: ['international normalized ratio', 'pt inr'],
+    abbreviations: ['inr'],
+    defaultUnit: 'ratio', category: 'Coagulation',
+    referenceRange: { min: 0.8, max: 1.1 }
+  },
+  {
+    id: 'APTT', loinc: '3173-2', name: 'APTT',
+    synonyms: ['activated partial thromboplastin time', 'partial thromboplastin time'],
+    abbreviations: ['aptt', 'ptt'],
+    defaultUnit: 'sec', category: 'Coagulation',
+    referenceRange: { min: 25, max: 35 }
+  },
+
+  // Hormones
+  {
+    id: 'TESTO', loinc: '2986-8', name: 'Testosterone',
+    synonyms: ['testosterone', 'total testosterone'],
+    defaultUnit: 'ng/dL', category: 'Hormones',
+    molarMass: 288.42
+  },
+  {
+    id: 'CORTISOL', loinc: '2143-6', name: 'Cortisol',
+    synonyms: ['cortisol', 'morning cortisol'],
+    defaultUnit: 'μg/dL', category: 'Hormones',
+    molarMass: 362.46
+  },
+  {
+    id: 'PRL', loinc: '2842-3', name: 'Prolactin',
+    synonyms: ['prolactin'],
+    abbreviations: ['prl'],
+    defaultUnit: 'ng/mL', category: 'Hormones'
+  },
+  {
+    id: 'LH', loinc: '10501-5', name: 'Luteinizing Hormone',
+    synonyms: ['luteinizing hormone', 'luteinising hormone'],
+    abbreviations: ['lh'],
+    defaultUnit: 'mIU/mL', category: 'Hormones'
+  },
+  {
+    id: 'FSH', loinc: '15067-2', name: 'Follicle Stimulating Hormone',
+    synonyms: ['follicle stimulating hormone'],
+    abbreviations: ['fsh'],
+    defaultUnit: 'mIU/mL', category: 'Hormones'
+  },
+  {
+    id: 'E2', loinc: '2243-4', name: 'Estradiol',
+    synonyms: ['estradiol', 'oestradiol'],
+    abbreviations: ['e2'],
+    defaultUnit: 'pg/mL', category: 'Hormones'
+  },
+
+  // Tumor Markers
+  {
+    id: 'PSA', loinc: '2857-1', name: 'PSA',
+    synonyms: ['prostate specific antigen', 'total psa'],
+    abbreviations: ['psa'],
+    defaultUnit: 'ng/mL', category: 'Tumor Markers',
+    referenceRange: { min: 0, max: 4 }
+  },
+  {
+    id: 'CEA', loinc: '2039-6', name: 'CEA',
+    synonyms: ['carcinoembryonic antigen'],
+    abbreviations: ['cea'],
+    defaultUnit: 'ng/mL', category: 'Tumor Markers',
+    referenceRange: { min: 0, max: 3 }
+  },
+  {
+    id: 'AFP', loinc: '1834-1', name: 'Alpha-Fetoprotein',
+    synonyms: ['alpha fetoprotein', 'alpha feto protein'],
+    abbreviations: ['afp'],
+    defaultUnit: 'ng/mL', category: 'Tumor Markers',
+    referenceRange: { min: 0, max: 10 }
+  },
+  {
+    id: 'CA125', loinc: '10334-1', name: 'CA-125',
+    synonyms: ['ca 125', 'ca125', 'cancer antigen 125'],
+    defaultUnit: 'U/mL', category: 'Tumor Markers',
+    referenceRange: { min: 0, max: 35 }
+  },
+
+  // Urine Routine. Names carry "urine" so they don't collide with the blood
+  // tests; the extractor adds it to bare names found in a urine section.
+  {
+    id: 'URINE_COLOR', loinc: '5778-6', name: 'Urine Colour',
+    synonyms: ['urine colour', 'urine color'],
+    defaultUnit: '', category: 'Urine Routine',
+    qualitative: { expected: 'Pale Yellow' }
+  },
+  {
+    id: 'URINE_APPEAR', loinc: '5767-9', name: 'Urine Appearance',
+    synonyms: ['urine appearance', 'urine clarity', 'urine transparency'],
+    defaultUnit: '', category: 'Urine Routine',
+    qualitative: { expected: 'Clear' }
+  },
+  {
+    id: 'URINE_SG', loinc: '5811-5', name: 'Urine Specific Gravity',
+    synonyms: ['urine specific gravity', 'urine sp gravity', 'urine sp gr'],
+    defaultUnit: '', category: 'Urine Routine',
+    referenceRange: { min: 1.005, max: 1.030 }
+  },
+  {
+    id: 'URINE_PH', loinc: '5803-2', name: 'Urine pH',
+    synonyms: ['urine ph', 'urine reaction ph'],
+    defaultUnit: '', category: 'Urine Routine',
+    referenceRange: { min: 4.5, max: 8.0 }
+  },
+  {
+    id: 'URINE_GLU', loinc: '5792-7', name: 'Urine Glucose',
+    synonyms: ['urine glucose', 'urine sugar', 'urine sugar fasting'],
+    defaultUnit: 'mg/dL', category: 'Urine Routine',
+    qualitative: { expected: 'Nil' }
+  },
+  {
+    id: 'URINE_PROT', loinc: '20454-5', name: 'Urine Protein',
+    synonyms: ['urine protein', 'urine albumin', 'urine proteins'],
+    defaultUnit: 'mg/dL', category: 'Urine Routine',
+    qualitative: { expected: 'Nil' }
+  },
+  {
+    id: 'URINE_KET', loinc: '2514-8', name: 'Urine Ketones',
+    synonyms: ['urine ketones', 'urine ketone bodies', 'urine ketone', 'urine acetone'],
+    defaultUnit: 'mg/dL', category: 'Urine Routine',
+    qualitative: { expected: 'Negative' }
+  },
+  {
+    id: 'URINE_BIL', loinc: '5770-3', name: 'Urine Bilirubin',
+    synonyms: ['urine bilirubin', 'urine bile pigments', 'urine bile pigment'],
+    defaultUnit: '', category: 'Urine Routine',
+    qualitative: { expected: 'Negative' }
+  },
+  {
+    id: 'URINE_BS', name: 'Urine Bile Salts',
+    synonyms: ['urine bile salts', 'urine bile salt'],
+    defaultUnit: '', category: 'Urine Routine',
+    qualitative: { expected: 'Absent' }
+  },
+  {
+    id: 'URINE_UBG', loinc: '20405-7', name: 'Urine Urobilinogen',
+    synonyms: ['urine urobilinogen'],
+    defaultUnit: 'mg/dL', category: 'Urine Routine',
+    qualitative: { expected: 'Normal' }
+  },
+  {
+    id: 'URINE_BLD', loinc: '5794-3', name: 'Urine Occult Blood',
+    synonyms: ['urine occult blood', 'urine haemoglobin', 'urine hemoglobin'],
+    defaultUnit: '', category: 'Urine Routine',
+    qualitative: { expected: 'Negative' }
+  },
+  {
+    id: 'URINE_NIT', loinc: '5802-4', name: 'Urine Nitrite',
+    synonyms: ['urine nitrite', 'urine nitrites'],
+    defaultUnit: '', category: 'Urine Routine',
+    qualitative: { expected: 'Negative' }
+  },
+  {
+    id: 'URINE_LEU_EST', loinc: '5799-2', name: 'Urine Leukocyte Esterase',
+    synonyms: ['urine leukocyte esterase', 'urine leucocyte esterase', 'urine leukocytes', 'urine leucocytes'],
+    defaultUnit: '', category: 'Urine Routine',
+    qualitative: { expected: 'Negative' }
+  },
+  {
+    id: 'URINE_WBC', loinc: '5821-4', name: 'Urine Pus Cells',
+    synonyms: ['urine pus cells', 'urine pus cell', 'urine wbc', 'urine white blood cells'],
+    defaultUnit: '/hpf', category: 'Urine Routine',
+    referenceRange: { min: 0, max: 5 },
+    qualitative: { expected: 'Occasional', maxNormalGrade: 1 }
+  },
+  {
+    id: 'URINE_RBC', loinc: '13945-1', name: 'Urine Red Blood Cells',
+    synonyms: ['urine rbc', 'urine red blood cells', 'urine red cells', 'urine rbcs'],
+    defaultUnit: '/hpf', category: 'Urine Routine',
+    referenceRange: { min: 0, max: 2 },
+    qualitative: { expected: 'Nil', maxNormalGrade: 0.5 }
+  },
+  {
+    id: 'URINE_EPI', loinc: '11277-1', name: 'Urine Epithelial Cells',
+    synonyms: ['urine epithelial cells', 'urine epithelial cell', 'urine squamous epithelial cells'],
+    defaultUnit: '/hpf', category: 'Urine Routine',
+    referenceRange: { min: 0, max: 5 },
+    qualitative: { expected: 'Few', maxNormalGrade: 1 }
+  },
+  {
+    id: 'URINE_CASTS', loinc: '24124-0', name: 'Urine Casts',
+    synonyms: ['urine casts', 'urine cast'],
+    defaultUnit: '/lpf', category: 'Urine Routine',
+    qualitative: { expected: 'Nil' }
+  },
+  {
+    id: 'URINE_CRYSTALS', loinc: '5783-6', name: 'Urine Crystals',
+    synonyms: ['urine crystals', 'urine crystal'],
+    defaultUnit: '', category: 'Urine Routine',
+    qualitative: { expected: 'Nil' }
+  },
+  {
+    id: 'URINE_BACT', loinc: '25145-4', name: 'Urine Bacteria',
+    synonyms: ['urine bacteria'],
+    defaultUnit: '', category: 'Urine Routine',
+    qualitative: { expected: 'Nil' }
+  },
+
+  // Serology
+  {
+    id: 'HBSAG', loinc: '5196-1', name: 'HBsAg',
+    synonyms: ['hepatitis b surface antigen', 'australia antigen', 'hbs antigen'],
+    abbreviations: ['hbsag'],
+    defaultUnit: '', category: 'Serology',
+    qualitative: { expected: 'Non-Reactive' }
+  },
+  {
+    id: 'HCV_AB', loinc: '16128-1', name: 'Anti-HCV',
+    synonyms: ['anti hcv', 'hcv antibody', 'hepatitis c antibody', 'hcv antibodies'],
+    defaultUnit: '', category: 'Serology',
+    qualitative: { expected: 'Non-Reactive' }
+  },
+  {
+    id: 'HIV_AB', loinc: '31201-7', name: 'HIV 1 & 2 Antibodies',
+    synonyms: ['hiv 1 2 antibodies', 'hiv 1 2 antibody', 'hiv antibody', 'hiv i ii', 'hiv 1 and 2'],
+    abbreviations: ['hiv'],
+    defaultUnit: '', category: 'Serology',
+    qualitative: { expected: 'Non-Reactive' }
+  },
+  {
+    id: 'VDRL', loinc: '5292-8', name: 'VDRL',
+    synonyms: ['venereal disease research laboratory', 'rpr', 'syphilis screening'],
+    abbreviations: ['vdrl'],
+    defaultUnit: '', category: 'Serology',
+    qualitative: { expected: 'Non-Reactive' }
+  },
+  {
+    id: 'DENGUE_NS1', loinc: '75377-2', name: 'Dengue NS1 Antigen',
+    synonyms: ['dengue ns1 antigen', 'dengue ns1', 'ns1 antigen'],
+    defaultUnit: '', category: 'Serology',
+    qualitative: { expected: 'Negative' }
+  },
+  {
+    id: 'DENGUE_IGM', loinc: '25338-5', name: 'Dengue IgM',
+    synonyms: ['dengue igm', 'dengue igm antibody'],
+    defaultUnit: '', category: 'Serology',
+    qualitative: { expected: 'Negative' }
+  },
+  {
+    id: 'DENGUE_IGG', loinc: '25337-7', name: 'Dengue IgG',
+    synonyms: ['dengue igg', 'dengue igg antibody'],
+    defaultUnit: '', category: 'Serology',
+    qualitative: { expected: 'Negative' }
+  },
+  {
+    id: 'MALARIA_AG', loinc: '70569-9', name: 'Malaria Antigen',
+    synonyms: ['malaria antigen', 'malaria parasite', 'malarial parasite', 'malaria card test'],
+    defaultUnit: '', category: 'Serology',
+    qualitative: { expected: 'Negative' }
+  },
+  {
+    id: 'WIDAL', loinc: '5310-8', name: 'Widal Test',
+    synonyms: ['widal', 'typhoid widal'],
+    defaultUnit: '', category: 'Serology',
+    qualitative: { expected: 'Negative' }
+  },
+
+  // Microbiology
+  {
+    id: 'URINE_CULTURE', loinc: '630-4', name: 'Urine Culture',
+    synonyms: ['urine culture', 'urine culture and sensitivity', 'urine c s'],
+    defaultUnit: '', category: 'Microbiology',
+    qualitative: { expected: 'Sterile' }
+  },
+  {
+    id: 'BLOOD_CULTURE', loinc: '600-7', name: 'Blood Culture',
+    synonyms: ['blood culture', 'blood culture and sensitivity', 'blood c s'],
+    defaultUnit: '', category: 'Microbiology',
+    qualitative: { expected: 'No Growth' }
+  }
+];
@@ -0,0 +1,102 @@
+import type { PatientContext } from './ReferenceRangeService';
+
+// Looks up a result by analyte ID, in the analyte's default unit
+export type ResultLookup = (analyteId: string) => number | undefined;
+
+export interface DerivedIndexRule {
+  id: string;               // Analyte ID of the index
+  method: string;           // Formula, as clinicians know it
+  decimals: number;         // Places the index is reported to
+  compute(result: ResultLookup, patient: PatientContext): number | null; // null when an input is missing
+  tolerance?: { absolute: number; relative: number }; // When printed, how far it may be from the calculation
+}
+
+const ratio = (numerator: number | undefined, denominator: number | undefined) =>
+  numerator !== undefined && denominator ? numerator / denominator : null;
+
+const isAdult = (patient: PatientContext) => patient.ageYears !== undefined && patient.ageYears >= 18;
+
+/**
+ * Standard indices calculated from other results, by the analyte they're
+ * reported as. Only calculated when the report doesn't print them; an index
+ * with a tolerance is checked against the printed value instead.
+ */
+export const DERIVED_INDEX_RULES: DerivedIndexRule[] = [
+  {
+    id: 'EGFR', method: 'CKD-EPI 2021', decimals: 0,
+    compute: (result, patient) => {
+      const creatinine = result('CREAT');
+      if (!creatinine || !patient.sex || !isAdult(patient)) return null;
+      const female = patient.sex === 'female';
+      const scaled = creatinine / (female ? 0.7 : 0.9);
+      return 142 * Math.min(scaled, 1) ** (female ? -0.241 : -0.302) * Math.max(scaled, 1) ** -1.2 *
+        0.9938 ** patient.ageYears! * (female ? 1.012 : 1);
+    }
+  },
+  {
+    id: 'HOMA_IR', method: 'HOMA-IR', decimals: 2,
+    compute: result => {
+      const glucose = result('GLU_FAST');
+      const insulin = result('INSULIN');
+      return glucose !== undefined && insulin !== undefined ? glucose * insulin / 405 : null;
+    }
+  },
+  {
+    id: 'NON_HDL', method: 'total − HDL', decimals: 0,
+    compute: result => {
+      const total = result('CHOL');
+      const hdl = result('HDL');
+      return total !== undefined && hdl !== undefined ? total - hdl : null;
+    }
+  },
+  {
+    // Not valid once triglycerides are too high to estimate VLDL as TG/5
+    id: 'LDL', method: 'Friedewald', decimals: 0,
+    tolerance: { absolute: 10, relative: 0.15 },
+    compute: result => {
+      const [total, hdl, triglycerides] = ['CHOL', 'HDL', 'TRIG'].map(id => result(id));
+      if (total === undefined || hdl === undefined || triglycerides === undefined || triglycerides >= 400) return null;
+      return total - hdl - triglycerides / 5;
+    }
+  },
+  {
+    id: 'CHOL_HDL_RATIO', method: 'total ÷ HDL', decimals: 2,
+    compute: result => ratio(result('CHOL'), result('HDL'))
+  },
+  {
+    id: 'TG_HDL_RATIO', method: 'triglycerides ÷ HDL', decimals: 2,
+    compute: result => ratio(result('TRIG'), result('HDL'))
+  },
+  {
+    // Either pair of counts gives the same ratio
+    id: 'NLR', method: 'neutrophils ÷ lymphocytes', decimals: 2,
+    compute: result => ratio(result('NEUT_ABS'), result('LYMPH_ABS')) ?? ratio(result('NEUT_PCT'), result('LYMPH_PCT'))
+  },
+  {
+    // Platelets in 10⁹/L
+    id: 'FIB4', method: 'FIB-4', decimals: 2,
+    compute: (result, patient) => {
+      const [ast, alt, platelets] = ['AST', 'ALT', 'PLT'].map(id => result(id));
+      if (ast === undefined || !alt || !platelets || !isAdult(patient)) return null;
+      return patient.ageYears! * ast / (platelets / 1000 * Math.sqrt(alt));
+    }
+  },
+  {
+    // Globulin is total protein less albumin when not printed
+    id: 'AG_RATIO', method: 'albumin ÷ globulin', decimals: 2,
+    compute: result => {
+      const albumin = result('ALB');
+      const protein = result('PROT');
+      const globulin = result('GLOB') ?? (albumin !== undefined && protein !== undefined ? protein - albumin : undefined);
+      return globulin !== undefined && globulin > 0 ? ratio(albumin, globulin) : null;
+    }
+  },
+  {
+    id: 'CA_CORR', method: 'Payne', decimals: 1,
+    compute: result => {
+      const calcium = result('CA');
+      const albumin = result('ALB');
+      return calcium !== undefined && albumin !== undefined ? calcium + 0.8 * (4 - albumin) : null;
+    }
+  }
+];
@@ -0,0 +1,68 @@
+/**
+ * Test names as printed by Indian labs in Hindi, Marathi, Tamil, Telugu,
+ * Bengali and Gujarati, plus common romanized spellings. Keyed by analyte ID.
+ * Spelling variants of these are caught by phonetic matching in the catalogue,
+ * so one spelling per language is usually enough.
+ */
+export const LOCALIZED_ANALYTE_NAMES: Record<string, string[]> = {
+  HGB: [
+    'हीमोग्लोबिन', 'ஹீமோகுளோபின்', 'హిమోగ్లోబిన్', 'হিমোগ্লোবিন', 'હિમોગ્લોબિન',
+    'himoglobin'
+  ],
+  RBC: [
+    'लाल रक्त कोशिकाएं', 'लाल रक्त पेशी', 'சிவப்பு இரத்த அணுக்கள்', 'ఎర్ర రక్త కణాలు',
+    'লোহিত রক্তকণিকা', 'લાલ રક્તકણો', 'lal rakt koshika'
+  ],
+  WBC: [
+    'श्वेत रक्त कोशिकाएं', 'पांढऱ्या रक्त पेशी', 'வெள்ளை இரத்த அணுக்கள்', 'తెల్ల రక్త కణాలు',
+    'শ্বেত রক্তকণিকা', 'શ્વેત રક્તકણો', 'shwet rakt koshika'
+  ],
+  PLT: [
+    'प्लेटलेट्स', 'प्लेटलेट काउंट', 'தட்டணுக்கள்', 'பிளேட்லெட்', 'ప్లేట్‌లెట్స్', 'প্লেটলেট',
+    'પ્લેટલેટ્સ', 'pletlet'
+  ],
+  GLU: [
+    'रक्त शर्करा', 'ब्लड शुगर', 'ग्लूकोज', 'रक्तातील साखर', 'இரத்த சர்க்கரை', 'குளுக்கோஸ்',
+    'రక్తంలో చక్కెర', 'గ్లూకోజ్', 'রক্তে শর্করা', 'গ্লুকোজ', 'લોહીમાં શર્કરા', 'ગ્લુકોઝ',
+    'rakt sharkara', 'khoon me sugar', 'glukoj'
+  ],
+  GLU_FAST: [
+    'खाली पेट शर्करा', 'फास्टिंग ब्लड शुगर', 'उपाशीपोटी साखर', 'khali pet sharkara', 'khali pet sugar'
+  ],
+  GLU_PP: [
+    'भोजन के बाद शर्करा', 'जेवणानंतर साखर', 'bhojan ke baad sharkara'
+  ],
+  CHOL: [
+    'कोलेस्ट्रॉल', 'கொலஸ்ட்ரால்', 'కొలెస్ట్రాల్', 'কোলেস্টেরল', 'કોલેસ્ટ્રોલ', 'kolestrol'
+  ],
+  TRIG: [
+    'ट्राइग्लिसराइड्स', 'ட்ரைகிளிசரைடுகள்', 'ట్రైగ్లిజరైడ్స్', 'ট্রাইগ্লিসারাইড', 'ટ્રાઇગ્લિસરાઇડ',
+    'traiglisraid'
+  ],
+  HDL: ['एचडीएल'],
+  LDL: ['एलडीएल'],
+  CREAT: [
+    'क्रिएटिनिन', 'கிரியேட்டினின்', 'క్రియాటినిన్', 'ক্রিয়েটিনিন', 'ક્રિએટિનિન', 'kriyetinin'
+  ],
+  UREA: ['यूरिया', 'யூரியா', 'యూరియా', 'ইউরিয়া', 'યુરિયા'],
+  URIC: [
+    'यूरिक एसिड', 'யூரிக் அமிலம்', 'యూరిక్ యాసిడ్', 'ইউরিক অ্যাসিড', 'યુરિક એસિડ', 'yurik esid'
+  ],
+  BILI_T: ['बिलीरुबिन', 'பிலிரூபின்', 'బిలిరుబిన్', 'বিলিরুবিন', 'બિલીરૂબિન'],
+  PROT: ['कुल प्रोटीन', 'மொத்த புரதம்', 'మొత్తం ప్రోటీన్', 'মোট প্রোটিন', 'કુલ પ્રોટીન'],
+  ALB: ['एल्ब्यूमिन', 'அல்புமின்', 'అల్బుమిన్', 'অ্যালবুমিন', 'આલ્બ્યુમિન'],
+  TSH: ['टीएसएच'],
+  HBA1C: ['एचबीए1सी'],
+  ESR: ['ईएसआर'],
+  VITD: ['विटामिन डी', 'வைட்டமின் டி', 'విటమిన్ డి', 'ভিটামিন ডি', 'વિટામિન ડી'],
+  B12: ['विटामिन बी12', 'வைட்டமின் பி12', 'విటమిన్ బి12', 'ভিটামিন বি১২', 'વિટામિન બી12'],
+  IRON: ['आयरन', 'இரும்புச்சத்து', 'ఐరన్', 'আয়রন', 'આયર્ન'],
+  CA: ['कैल्शियम', 'கால்சியம்', 'కాల్షియం', 'ক্যালসিয়াম', 'કેલ્શિયમ'],
+  NA: ['सोडियम', 'சோடியம்', 'సోడియం', 'সোডিয়াম', 'સોડિયમ'],
+  K: ['पोटैशियम', 'பொட்டாசியம்', 'పొటాషియం', 'পটাশিয়াম', 'પોટેશિયમ']
+};
+
+// Specimen words and report boilerplate, as FILLER_WORDS in the catalogue
+export const LOCALIZED_FILLER_WORDS = [
+  'सीरम', 'प्लाज्मा', 'जांच', 'स्तर', 'சீரம்', 'సీరం', 'সিরাম', 'સીરમ'
+];
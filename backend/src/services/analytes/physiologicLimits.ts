@@ -0,0 +1,87 @@
+export interface PhysiologicLimits {
+  min: number;
+  max: number;
+}
+
+/**
+ * Widest results a living patient can have, by analyte ID, in the analyte's
+ * default unit. Far wider than critical ranges: a result outside them is a
+ * misread (usually a lost decimal point), not a finding.
+ */
+export const PHYSIOLOGIC_LIMITS: Record<string, PhysiologicLimits> = {
+  // Complete Blood Count
+  HGB: { min: 2, max: 25 },
+  HCT: { min: 5, max: 75 },
+  RBC: { min: 0.5, max: 10 },
+  WBC: { min: 100, max: 500000 },
+  PLT: { min: 1000, max: 2000000 },
+  MCV: { min: 40, max: 160 },
+  MCH: { min: 10, max: 60 },
+  MCHC: { min: 20, max: 45 },
+  RDW: { min: 8, max: 40 },
+  MPV: { min: 4, max: 20 },
+  NEUT_PCT: { min: 0, max: 100 },
+  LYMPH_PCT: { min: 0, max: 100 },
+  MONO_PCT: { min: 0, max: 100 },
+  EOS_PCT: { min: 0, max: 100 },
+  BASO_PCT: { min: 0, max: 100 },
+
+  // Diabetes and lipids
+  GLU_FAST: { min: 10, max: 2000 },
+  GLU_PP: { min: 10, max: 2000 },
+  GLU: { min: 10, max: 2000 },
+  HBA1C: { min: 2, max: 20 },
+  CHOL: { min: 20, max: 2000 },
+  HDL: { min: 2, max: 250 },
+  LDL: { min: 1, max: 1500 },
+  TRIG: { min: 5, max: 20000 },
+
+  // Kidney and liver
+  CREAT: { min: 0.05, max: 40 },
+  UREA: { min: 1, max: 600 },
+  BUN: { min: 0.5, max: 300 },
+  URIC: { min: 0.1, max: 30 },
+  BILI_T: { min: 0, max: 60 },
+  BILI_D: { min: 0, max: 40 },
+  BILI_I: { min: 0, max: 40 },
+  ALT: { min: 0, max: 30000 },
+  AST: { min: 0, max: 40000 },
+  ALP: { min: 5, max: 10000 },
+  GGT: { min: 1, max: 10000 },
+  PROT: { min: 1, max: 20 },
+  ALB: { min: 0.5, max: 8 },
+  GLOB: { min: 0.2, max: 12 },
+
+  // Thyroid, vitamins and iron
+  TSH: { min: 0, max: 1000 },
+  T3: { min: 10, max: 2000 },
+  T4: { min: 0.1, max: 50 },
+  FT3: { min: 0.1, max: 50 },
+  FT4: { min: 0.05, max: 15 },
+  VITD: { min: 1, max: 1000 },
+  B12: { min: 20, max: 30000 },
+  FOLATE: { min: 0.1, max: 100 },
+  IRON: { min: 5, max: 1000 },
+  TIBC: { min: 50, max: 1000 },
+  TSAT: { min: 1, max: 100 },
+
+  // Electrolytes and minerals
+  CA: { min: 2, max: 20 },
+  MG: { min: 0.3, max: 10 },
+  PHOS: { min: 0.5, max: 20 },
+  NA: { min: 90, max: 200 },
+  K: { min: 1, max: 10 },
+  CL: { min: 60, max: 150 },
+  HCO3: { min: 3, max: 60 },
+
+  // Inflammation and coagulation
+  ESR: { min: 0, max: 200 },
+  CRP: { min: 0, max: 600 },
+  PT: { min: 5, max: 200 },
+  INR: { min: 0.5, max: 20 },
+  APTT: { min: 10, max: 250 },
+
+  // Urine
+  URINE_SG: { min: 1.0, max: 1.06 },
+  URINE_PH: { min: 4, max: 9.5 }
+};
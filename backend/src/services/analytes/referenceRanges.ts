@@ -0,0 +1,119 @@
+import type { ReferenceInterval } from './definitions';
+
+export interface ReferenceRangeRule {
+  sex?: 'male' | 'female';
+  minAge?: number;          // Years, inclusive
+  maxAge?: number;          // Years, exclusive
+  trimester?: 1 | 2 | 3;    // Only applies during pregnancy
+  range: ReferenceInterval; // In the analyte's default unit
+}
+
+/**
+ * Demographic reference ranges by analyte ID. The most specific matching rule
+ * wins; analytes without a match fall back to the catalogue's adult range.
+ */
+export const REFERENCE_RANGE_RULES: Record<string, ReferenceRangeRule[]> = {
+  HGB: [
+    { trimester: 1, range: { min: 11.0, max: 14.0, critical: { low: 7.0, high: 20.0 } } },
+    { trimester: 2, range: { min: 10.5, max: 14.0, critical: { low: 7.0, high: 20.0 } } },
+    { trimester: 3, range: { min: 11.0, max: 14.0, critical: { low: 7.0, high: 20.0 } } },
+    { minAge: 0.5, maxAge: 5, range: { min: 11.0, max: 14.0, critical: { low: 6.0, high: 20.0 } } },
+    { minAge: 5, maxAge: 12, range: { min: 11.5, max: 15.5, critical: { low: 6.0, high: 20.0 } } },
+    { sex: 'male', minAge: 12, maxAge: 18, range: { min: 13.0, max: 16.0, critical: { low: 6.0, high: 20.0 } } },
+    { sex: 'female', minAge: 12, maxAge: 18, range: { min: 12.0, max: 16.0, critical: { low: 6.0, high: 20.0 } } },
+    { sex: 'male', minAge: 18, range: { min: 13.5, max: 17.5, critical: { low: 6.0, high: 20.0 } } },
+    { sex: 'female', minAge: 18, range: { min: 12.0, max: 15.5, critical: { low: 6.0, high: 20.0 } } }
+  ],
+  HCT: [
+    { trimester: 1, range: { min: 31, max: 41 } },
+    { trimester: 2, range: { min: 30, max: 39 } },
+    { trimester: 3, range: { min: 28, max: 40 } },
+    { sex: 'male', minAge: 18, range: { min: 40, max: 50, critical: { low: 18, high: 60 } } },
+    { sex: 'female', minAge: 18, range: { min: 36, max: 46, critical: { low: 18, high: 60 } } }
+  ],
+  RBC: [
+    { sex: 'male', minAge: 18, range: { min: 4.5, max: 5.9, critical: { low: 2.0, high: 8.0 } } },
+    { sex: 'female', minAge: 18, range: { min: 4.1, max: 5.1, critical: { low: 2.0, high: 8.0 } } }
+  ],
+  WBC: [
+    { trimester: 2, range: { min: 5600, max: 14800, critical: { low: 1000, high: 50000 } } },
+    { trimester: 3, range: { min: 5900, max: 16900, critical: { low: 1000, high: 50000 } } },
+    { minAge: 1, maxAge: 6, range: { min: 5000, max: 15000, critical: { low: 1000, high: 50000 } } },
+    { minAge: 6, maxAge: 18, range: { min: 4500, max: 13500, critical: { low: 1000, high: 50000 } } }
+  ],
+  GLU_FAST: [
+    { trimester: 1, range: { min: 60, max: 92, critical: { low: 30, high: 500 } } },
+    { trimester: 2, range: { min: 60, max: 92, critical: { low: 30, high: 500 } } },
+    { trimester: 3, range: { min: 60, max: 92, critical: { low: 30, high: 500 } } }
+  ],
+  CREAT: [
+    { trimester: 1, range: { min: 0.4, max: 0.8 } },
+    { trimester: 2, range: { min: 0.4, max: 0.8 } },
+    { trimester: 3, range: { min: 0.4, max: 0.9 } },
+    { minAge: 1, maxAge: 12, range: { min: 0.3, max: 0.7, critical: { low: 0.1, high: 10.0 } } },
+    { minAge: 12, maxAge: 18, range: { min: 0.5, max: 1.0, critical: { low: 0.2, high: 15.0 } } },
+    { sex: 'male', minAge: 18, range: { min: 0.74, max: 1.35, critical: { low: 0.2, high: 15.0 } } },
+    { sex: 'female', minAge: 18, range: { min: 0.59, max: 1.04, critical: { low: 0.2, high: 15.0 } } }
+  ],
+  URIC: [
+    { sex: 'male', minAge: 18, range: { min: 3.5, max: 7.2 } },
+    { sex: 'female', minAge: 18, range: { min: 2.6, max: 6.0 } }
+  ],
+  HDL: [
+    { sex: 'male', minAge: 18, range: { min: 40, max: 100, critical: { low: 15, high: 150 } } },
+    { sex: 'female', minAge: 18, range: { min: 50, max: 100, critical: { low: 15, high: 150 } } }
+  ],
+  ALT: [
+    { sex: 'male', minAge: 18, range: { min: 7, max: 55, critical: { low: 0, high: 1000 } } },
+    { sex: 'female', minAge: 18, range: { min: 7, max: 45, critical: { low: 0, high: 1000 } } }
+  ],
+  AST: [
+    { sex: 'male', minAge: 18, range: { min: 10, max: 40, critical: { low: 0, high: 1000 } } },
+    { sex: 'female', minAge: 18, range: { min: 9, max: 32, critical: { low: 0, high: 1000 } } }
+  ],
+  ALP: [
+    { minAge: 1, maxAge: 12, range: { min: 100, max: 420 } },
+    { minAge: 12, maxAge: 18, range: { min: 60, max: 450 } }
+  ],
+  GGT: [
+    { sex: 'male', minAge: 18, range: { min: 8, max: 61 } },
+    { sex: 'female', minAge: 18, range: { min: 5, max: 36 } }
+  ],
+  FERRITIN: [
+    { sex: 'male', minAge: 18, range: { min: 30, max: 400, critical: { low: 5, high: 2000 } } },
+    { sex: 'female', minAge: 18, range: { min: 15, max: 150, critical: { low: 5, high: 2000 } } }
+  ],
+  IRON: [
+    { sex: 'male', minAge: 18, range: { min: 65, max: 175, critical: { low: 20, high: 500 } } },
+    { sex: 'female', minAge: 18, range: { min: 50, max: 170, critical: { low: 20, high: 500 } } }
+  ],
+  TSH: [
+    { trimester: 1, range: { min: 0.1, max: 2.5, critical: { low: 0, high: 50.0 } } },
+    { trimester: 2, range: { min: 0.2, max: 3.0, critical: { low: 0, high: 50.0 } } },
+    { trimester: 3, range: { min: 0.3, max: 3.0, critical: { low: 0, high: 50.0 } } },
+    { minAge: 70, range: { min: 0.4, max: 6.0, critical: { low: 0, high: 50.0 } } }
+  ],
+  ESR: [
+    { sex: 'male', minAge: 18, maxAge: 50, range: { min: 0, max: 15 } },
+    { sex: 'male', minAge: 50, range: { min: 0, max: 20 } },
+    { sex: 'female', minAge: 18, maxAge: 50, range: { min: 0, max: 20 } },
+    { sex: 'female', minAge: 50, range: { min: 0, max: 30 } }
+  ],
+  TESTO: [
+    { sex: 'male', minAge: 18, range: { min: 264, max: 916 } },
+    { sex: 'female', minAge: 18, range: { min: 15, max: 70 } }
+  ],
+  PRL: [
+    { trimester: 1, range: { min: 10, max: 209 } },
+    { trimester: 2, range: { min: 10, max: 209 } },
+    { trimester: 3, range: { min: 10, max: 209 } },
+    { sex: 'male', minAge: 18, range: { min: 2, max: 18 } },
+    { sex: 'female', minAge: 18, range: { min: 2, max: 29 } }
+  ],
+  PSA: [
+    { sex: 'male', minAge: 40, maxAge: 50, range: { min: 0, max: 2.5 } },
+    { sex: 'male', minAge: 50, maxAge: 60, range: { min: 0, max: 3.5 } },
+    { sex: 'male', minAge: 60, maxAge: 70, range: { min: 0, max: 4.5 } },
+    { sex: 'male', minAge: 70, range: { min: 0, max: 6.5 } }
+  ]
+};
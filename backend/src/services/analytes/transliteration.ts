@@ -0,0 +1,110 @@
+// Brahmic script blocks laid out in parallel with Devanagari (U+0900), so a
+// character maps to its Devanagari counterpart by offset
+const BRAHMIC_BLOCKS = [
+  { start: 0x0900, end: 0x097f }, // Devanagari (Hindi, Marathi)
+  { start: 0x0980, end: 0x09ff }, // Bengali
+  { start: 0x0a80, end: 0x0aff }, // Gujarati
+  { start: 0x0b80, end: 0x0bff }, // Tamil
+  { start: 0x0c00, end: 0x0c7f }  // Telugu
+];
+
+const VIRAMA = '्';
+const NUKTA = '़';
+
+const INDEPENDENT_VOWELS: Record<string, string> = {
+  'अ': 'a', 'आ': 'aa', 'इ': 'i', 'ई': 'ii', 'उ': 'u', 'ऊ': 'uu', 'ऋ': 'ri',
+  'ऍ': 'e', 'ऎ': 'e', 'ए': 'e', 'ऐ': 'ai', 'ऑ': 'o', 'ऒ': 'o', 'ओ': 'o', 'औ': 'au'
+};
+
+const CONSONANTS: Record<string, string> = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n',
+  'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n',
+  'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n', 'ऩ': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm',
+  'य': 'y', 'र': 'r', 'ऱ': 'r', 'ल': 'l', 'ळ': 'l', 'ऴ': 'l', 'व': 'v',
+  'श': 'sh', 'ष': 'sh', 'स': 's', 'ह': 'h'
+};
+
+// Consonants with a nukta, used for Perso-Arabic and English sounds
+const NUKTA_CONSONANTS: Record<string, string> = {
+  'क': 'q', 'ख': 'kh', 'ग': 'g', 'ज': 'z', 'ड': 'r', 'ढ': 'rh', 'फ': 'f', 'य': 'y'
+};
+
+const VOWEL_SIGNS: Record<string, string> = {
+  'ा': 'aa', 'ि': 'i', 'ी': 'ii', 'ु': 'u', 'ू': 'uu', 'ृ': 'ri',
+  'ॅ': 'e', 'ॆ': 'e', 'े': 'e', 'ै': 'ai', 'ॉ': 'o', 'ॊ': 'o', 'ो': 'o', 'ौ': 'au'
+};
+
+const SIGNS: Record<string, string> = { 'ं': 'n', 'ँ': 'n', 'ः': 'h' };
+
+// Bengali khanda ta has no Devanagari counterpart
+const SPECIAL_CHARACTERS: Record<string, string> = { 'ৎ': 't' };
+
+// Zero digit of each script's native numerals
+const DIGIT_ZEROS = [0x0966, 0x09e6, 0x0ae6, 0x0be6, 0x0c66];
+
+export function isIndicText(text: string): boolean {
+  return /[\u0900-\u0c7f]/.test(text);
+}
+
+// Lab reports print values in native digits too (१२.५, ১২.৫)
+export function toAsciiDigits(text: string): string {
+  return text.replace(/[\u0966-\u096f\u09e6-\u09ef\u0ae6-\u0aef\u0be6-\u0bef\u0c66-\u0c6f]/g, digit => {
+    const code = digit.charCodeAt(0);
+    const zero = DIGIT_ZEROS.find(z => code >= z && code < z + 10)!;
+    return String(code - zero);
+  });
+}
+
+/**
+ * Romanize Devanagari, Bengali, Gujarati, Tamil and Telugu text. The output
+ * is a loose phonetic spelling ("हीमोग्लोबिन" -> "hiimoglobin") for matching
+ * test names, not a reversible scheme. Other characters pass through.
+ */
+export function transliterate(text: string): string {
+  const chars = [...toDevanagari(text.normalize('NFC'))];
+  let output = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+
+    if (CONSONANTS[char]) {
+      let sound = CONSONANTS[char];
+      if (chars[i + 1] === NUKTA) {
+        sound = NUKTA_CONSONANTS[char] || sound;
+        i++;
+      }
+      output += sound;
+
+      const next = chars[i + 1];
+      if (next === VIRAMA) {
+        i++;
+      } else if (VOWEL_SIGNS[next]) {
+        output += VOWEL_SIGNS[next];
+        i++;
+      } else if (CONSONANTS[next] || SIGNS[next]) {
+        // Inherent vowel, dropped at the end of a word as in spoken Hindi
+        output += 'a';
+      }
+      continue;
+    }
+
+    output += INDEPENDENT_VOWELS[char] ?? SIGNS[char] ?? SPECIAL_CHARACTERS[char] ??
+      (char === NUKTA || char === VIRAMA || char === '\u200c' || char === '\u200d' ? '' : char);
+  }
+
+  return output;
+}
+
+function toDevanagari(text: string): string {
+  let output = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    const block = BRAHMIC_BLOCKS.slice(1).find(b => code >= b.start && code <= b.end);
+    output += block && !SPECIAL_CHARACTERS[char]
+      ? String.fromCodePoint(code - block.start + BRAHMIC_BLOCKS[0].start)
+      : char;
+  }
+  return output;
+}
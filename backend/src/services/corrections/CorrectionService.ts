@@ -0,0 +1,253 @@
+import { logger } from '../../utils/logger';
+import { DatabaseService } from '../database/DatabaseService';
+import { AnalyteCatalog } from '../analytes/AnalyteCatalog';
+import { toAsciiDigits } from '../analytes/transliteration';
+import { findMisreads, LabCorrectionKind, LabCorrections, MisreadRule, toAliasKey } from './labCorrections';
+
+export type CorrectionAction = 'CREATE' | 'UPDATE' | 'DELETE';
+
+// Fields of a stored metric kept in audit snapshots
+export interface MetricSnapshot {
+  metric: string;
+  analyteId?: string | null;
+  value: string;
+  unit: string;
+  normalMin?: number | null;
+  normalMax?: number | null;
+  referenceText?: string | null;
+  flag: string;
+}
+
+// A metric_corrections row, with its snapshots as stored
+interface CorrectionRow {
+  id: string;
+  reportId: string;
+  metricId: string;
+  userId: string | null;
+  action: string;
+  before: string | null;
+  after: string | null;
+  createdAt: Date;
+}
+
+export interface MetricCorrection extends Omit<CorrectionRow, 'before' | 'after'> {
+  before: MetricSnapshot | null;
+  after: MetricSnapshot | null;
+}
+
+// An UPDATE to a metric on one of a lab's reports
+interface LabUpdate {
+  userId: string;
+  text: string; // The report's extracted text
+  before: MetricSnapshot;
+  after: MetricSnapshot;
+}
+
+interface CorrectedReport {
+  id: string;
+  labKey?: string | null;
+  extractedText?: string | null;
+}
+
+// Lab names are printed in the letterhead, within the first lines
+const LAB_HEADER_LINES = 15;
+const LAB_NAME_PATTERN = /laborator|diagnostic|patholog|pathlab|\blabs?\b|clinic|hospital|healthcare|imaging/i;
+const MAX_LAB_KEY_LENGTH = 80;
+
+// Aliases and misreads change how everyone's reports from a lab are read, so
+// they apply only once this many different users made the same correction
+const MIN_CONFIRMING_USERS = 3;
+
+/**
+ * CorrectionService - Audits metric edits and learns from them
+ *
+ * Every edit is recorded with before and after snapshots. Renamed tests
+ * become aliases for the report's lab, and values fixed by swapping
+ * look-alike characters ("1O.5" -> "10.5") become misread rules. Extraction
+ * consults both the next time a report from that lab comes in, once enough
+ * different users agree.
+ */
+export class CorrectionService {
+  private static instance: CorrectionService;
+  private analyteCatalog = AnalyteCatalog.getInstance();
+
+  static getInstance(): CorrectionService {
+    if (!CorrectionService.instance) {
+      CorrectionService.instance = new CorrectionService();
+    }
+    return CorrectionService.instance;
+  }
+
+  // Letterhead line naming the lab or hospital that printed a report, as printed
+  findLabName(text: string): string | null {
+    const header = text.split('\n').map(line => line.trim()).filter(Boolean).slice(0, LAB_HEADER_LINES);
+    return header.find(candidate => LAB_NAME_PATTERN.test(candidate) && !/\d{3,}/.test(candidate)) || null;
+  }
+
+  // Key for the lab that printed a report: its letterhead line, normalized
+  identifyLab(text: string): string | null {
+    const line = this.findLabName(text);
+    if (!line) return null;
+
+    const key = toAliasKey(line)
+      .replace(/\b(?:pvt|private|ltd|limited|llp|inc)\b/g, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, MAX_LAB_KEY_LENGTH);
+    return key || null;
+  }
+
+  async getLabCorrections(labKey?: string | null): Promise<LabCorrections | undefined> {
+    if (!labKey) return undefined;
+
+    try {
+      const prisma = DatabaseService.getInstance().getClient();
+      const rows = await prisma.labCorrection.findMany({
+        where: { labKey, occurrences: { gte: MIN_CONFIRMING_USERS } },
+        orderBy: [{ occurrences: 'desc' }, { updatedAt: 'desc' }]
+      });
+
+      const aliases = new Map<string, string>();
+      const misreads: MisreadRule[] = [];
+      for (const row of rows) {
+        if (row.kind === 'ALIAS') {
+          // Most confirmed analyte wins when users disagreed
+          if (!aliases.has(row.pattern)) aliases.set(row.pattern, row.replacement);
+        } else if (!misreads.some(rule => rule.from === row.pattern)) {
+          misreads.push({ from: row.pattern, to: row.replacement });
+        }
+      }
+
+      if (aliases.size === 0 && misreads.length === 0) return undefined;
+      logger.debug(`Loaded ${aliases.size} aliases and ${misreads.length} misreads for lab "${labKey}"`);
+      return { labKey, aliases, misreads };
+    } catch (error) {
+      logger.warn('Could not load lab corrections:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Record an edit in the audit trail, then learn from it. Learning failures
+   * are logged, never surfaced: the user's edit has already been saved.
+   */
+  async recordCorrection(
+    report: CorrectedReport,
+    metricId: string,
+    action: CorrectionAction,
+    before: MetricSnapshot | null,
+    after: MetricSnapshot | null,
+    userId?: string
+  ): Promise<void> {
+    const prisma = DatabaseService.getInstance().getClient();
+    await prisma.metricCorrection.create({
+      data: {
+        reportId: report.id,
+        metricId,
+        userId,
+        action,
+        before: before ? JSON.stringify(before) : null,
+        after: after ? JSON.stringify(after) : null
+      }
+    });
+
+    const labKey = report.labKey || (report.extractedText ? this.identifyLab(report.extractedText) : null);
+    if (action !== 'UPDATE' || !before || !after || !labKey || !userId) return;
+
+    try {
+      await this.learnAlias(labKey, before, after, userId);
+      await this.learnMisreads(labKey, report.extractedText || '', before, after, userId);
+    } catch (error) {
+      logger.warn('Could not learn from metric correction:', error);
+    }
+  }
+
+  async getCorrections(reportId: string): Promise<MetricCorrection[]> {
+    const prisma = DatabaseService.getInstance().getClient();
+    const rows: CorrectionRow[] = await prisma.metricCorrection.findMany({
+      where: { reportId },
+      orderBy: { createdAt: 'desc' }
+    });
+    return rows.map(row => ({
+      ...row,
+      before: row.before ? JSON.parse(row.before) : null,
+      after: row.after ? JSON.parse(row.after) : null
+    }));
+  }
+
+  // The lab prints a name the catalogue doesn't know; names it knows are never re-pointed
+  private async learnAlias(labKey: string, before: MetricSnapshot, after: MetricSnapshot, userId: string): Promise<void> {
+    if (!after.analyteId || before.analyteId === after.analyteId) return;
+
+    const pattern = toAliasKey(before.metric);
+    if (!pattern || this.analyteCatalog.resolve(before.metric)) return;
+
+    const updates = await this.getLabUpdates(labKey);
+    const users = this.countUsers(userId, updates.filter(update =>
+      toAliasKey(update.before.metric) === pattern && update.after.analyteId === after.analyteId));
+    await this.upsert(labKey, 'ALIAS', pattern, after.analyteId, users);
+    logger.info(`📚 Learned alias "${pattern}" -> ${after.analyteId} for lab "${labKey}" (${users} user(s))`);
+  }
+
+  private async learnMisreads(labKey: string, text: string, before: MetricSnapshot, after: MetricSnapshot, userId: string): Promise<void> {
+    const rules = this.findFixedMisreads(text, before, after);
+    if (rules.length === 0) return;
+
+    const updates = await this.getLabUpdates(labKey);
+    const fixed = updates.map(update => this.findFixedMisreads(update.text, update.before, update.after));
+    for (const rule of rules) {
+      const users = this.countUsers(userId, updates.filter((_, index) =>
+        fixed[index].some(earlier => earlier.from === rule.from && earlier.to === rule.to)));
+      await this.upsert(labKey, 'MISREAD', rule.from, rule.to, users);
+    }
+    logger.info(`📚 Learned misreads ${rules.map(rule => `"${rule.from}"->"${rule.to}"`).join(', ')} for lab "${labKey}"`);
+  }
+
+  /**
+   * Look for the value as printed on the metric's line and check whether the
+   * corrected value is the same token with look-alike characters swapped.
+   */
+  private findFixedMisreads(text: string, before: MetricSnapshot, after: MetricSnapshot): MisreadRule[] {
+    if (before.value === after.value || !text) return [];
+
+    const nameKey = toAliasKey(before.metric);
+    if (!nameKey) return [];
+
+    const lines = toAsciiDigits(text).split('\n').filter(line => toAliasKey(line).includes(nameKey));
+    for (const line of lines) {
+      const tokens = line.split(/\s+/).filter(token => token && !nameKey.includes(toAliasKey(token)));
+      const rules = tokens.map(token => findMisreads(token, after.value)).find(found => found.length > 0);
+      if (rules) return rules;
+    }
+    return [];
+  }
+
+  // Edits users made to metrics on this lab's reports, with the text they corrected
+  private async getLabUpdates(labKey: string): Promise<LabUpdate[]> {
+    const prisma = DatabaseService.getInstance().getClient();
+    const rows: (CorrectionRow & { report: { extractedText: string | null } })[] = await prisma.metricCorrection.findMany({
+      where: { action: 'UPDATE', userId: { not: null }, before: { not: null }, after: { not: null }, report: { labKey } },
+      include: { report: { select: { extractedText: true } } }
+    });
+    return rows.map(row => ({
+      userId: row.userId!,
+      text: row.report.extractedText || '',
+      before: JSON.parse(row.before!),
+      after: JSON.parse(row.after!)
+    }));
+  }
+
+  // Different users who made a correction, counting this one whether or not the lab was known then
+  private countUsers(userId: string, updates: LabUpdate[]): number {
+    return new Set([userId, ...updates.map(update => update.userId)]).size;
+  }
+
+  private async upsert(labKey: string, kind: LabCorrectionKind, pattern: string, replacement: string, users: number): Promise<void> {
+    const prisma = DatabaseService.getInstance().getClient();
+    await prisma.labCorrection.upsert({
+      where: { labKey_kind_pattern_replacement: { labKey, kind, pattern, replacement } },
+      update: { occurrences: users },
+      create: { labKey, kind, pattern, replacement, occurrences: users }
+    });
+  }
+}
@@ -0,0 +1,67 @@
+export type LabCorrectionKind = 'ALIAS' | 'MISREAD';
+
+export interface MisreadRule {
+  from: string; // Character as OCR read it, e.g. "O"
+  to: string;   // Character that was printed, e.g. "0"
+}
+
+/**
+ * What earlier corrections taught us about one lab's reports: test names it
+ * prints that the catalogue doesn't resolve the way users expect, and
+ * characters its font makes OCR misread inside numbers.
+ */
+export interface LabCorrections {
+  labKey: string;
+  aliases: Map<string, string>; // Alias key of the printed name -> analyte ID
+  misreads: MisreadRule[];
+}
+
+// Characters OCR confuses with digits and decimal points; only these are learned
+const CONFUSABLE_CHARACTERS: Record<string, string[]> = {
+  'O': ['0'], 'o': ['0'], 'D': ['0'], 'Q': ['0'],
+  'l': ['1'], 'I': ['1'], 'i': ['1'], '|': ['1'], '!': ['1'],
+  'Z': ['2'], 'z': ['2'], 'S': ['5'], 's': ['5'], 'G': ['6'], 'b': ['6'],
+  'T': ['7'], 'B': ['8'], 'g': ['9'], 'q': ['9'],
+  ',': ['.']
+};
+
+// "Hb", "HB :", "hb." -> "hb"
+export function toAliasKey(name: string): string {
+  return name.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Character substitutions turning a printed token into the value a user
+ * entered, e.g. "1O.5" -> "10.5" gives O -> 0. Empty unless every difference
+ * is a known OCR confusion, so genuine value changes teach nothing.
+ */
+export function findMisreads(printed: string, corrected: string): MisreadRule[] {
+  if (printed.length !== corrected.length || printed === corrected) return [];
+
+  const rules: MisreadRule[] = [];
+  for (let i = 0; i < printed.length; i++) {
+    const from = printed[i];
+    const to = corrected[i];
+    if (from === to) continue;
+    if (!CONFUSABLE_CHARACTERS[from]?.includes(to)) return [];
+    if (!rules.some(rule => rule.from === from && rule.to === to)) rules.push({ from, to });
+  }
+  return rules;
+}
+
+/**
+ * Undo learned misreads inside number-like tokens. Tokens that start with a
+ * letter followed by a digit are left alone, since that's how test names such
+ * as "B12" and "T3" look.
+ */
+export function applyMisreads(text: string, rules: MisreadRule[]): string {
+  if (rules.length === 0) return text;
+  const replacements = new Map(rules.map(rule => [rule.from, rule.to]));
+
+  return text.replace(/\S+/g, token => {
+    if (!/\d/.test(token) || /^\p{L}\d/u.test(token)) return token;
+    const chars = [...token];
+    if (!chars.every(char => /[\d.]/.test(char) || replacements.has(char))) return token;
+    return chars.map(char => replacements.get(char) ?? char).join('');
+  });
+}
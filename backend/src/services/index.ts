@@ -3,6 +3,7 @@ import { DatabaseService } from './database/DatabaseService';
 import { LocalOCRService } from './ocr/LocalOCRService';
 import { AIService } from './ai/AIService';
 import { StorageService } from './storage/StorageService';
+import { ReportProcessor } from './reports/ReportProcessor';
 
 export async function initializeServices() {
   logger.info('🔧 Initializing services...');
@@ -31,6 +32,9 @@ export async function initializeServices() {
       }
     }
 
+    // Picks up queued reports, including any left over from before a restart
+    ReportProcessor.getInstance().initialize();
+
     logger.info('✅ Services initialized successfully');
   } catch (error) {
     logger.error('Failed to initialize services:', error);
@@ -42,5 +46,6 @@ export {
   DatabaseService,
   LocalOCRService,
   AIService,
-  StorageService
+  StorageService,
+  ReportProcessor
 };
\ No newline at end of file
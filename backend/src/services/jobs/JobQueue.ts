@@ -0,0 +1,271 @@
+import { Prisma } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { config } from '../../config';
+import { DatabaseService } from '../database/DatabaseService';
+
+export type JobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+export interface Job {
+  id: string;
+  reportId: string;
+  stage: string;
+  attempts: number;
+  maxAttempts: number;
+  payload?: Record<string, unknown>;
+}
+
+export interface StageDefinition {
+  // Should stop soon after `signal` aborts; the job holds its slot until it has
+  run: (job: Job, signal: AbortSignal) => Promise<void>;
+  timeout: number;         // Attempts running longer than this are aborted, then fail
+  next?: string;           // Stage queued once this one completes
+  // Called when an attempt failed and another is scheduled
+  onRetry?: (job: Job, error: Error, retryAt: Date) => void;
+  // Called once the last attempt has failed
+  onFailed?: (job: Job, error: Error) => Promise<void>;
+}
+
+const POLL_INTERVAL_MS = 2000;
+const BACKOFF_BASE_MS = 5000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+// RUNNING jobs older than this were lost to a restart; longer than any stage timeout
+const STALLED_AFTER_MS = 15 * 60 * 1000;
+
+/**
+ * JobQueue - Runs report processing stages in the background
+ *
+ * Jobs live in the processing_jobs table, so they survive restarts and work
+ * on SQLite without a separate broker. Each job is one stage of one report;
+ * a failed attempt is retried with exponential backoff until maxAttempts,
+ * and every attempt's timing and error are kept on the job row.
+ */
+export class JobQueue {
+  private static instance: JobQueue;
+  private stages = new Map<string, StageDefinition>();
+  private running = 0;
+  private active = new Set<string>(); // Ids of jobs running here, so one queued again waits for them
+  private timer: NodeJS.Timeout | null = null;
+  private started = false;
+  private polling = false;
+  private lastStallCheck = 0;
+
+  static getInstance(): JobQueue {
+    if (!JobQueue.instance) {
+      JobQueue.instance = new JobQueue();
+    }
+    return JobQueue.instance;
+  }
+
+  register(stage: string, definition: StageDefinition): void {
+    this.stages.set(stage, definition);
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    logger.info(`📬 Job queue started (${config.jobs.concurrency} at a time, ${this.stages.size} stages)`);
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.started = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  async enqueue(reportId: string, stage: string, payload?: Record<string, unknown>): Promise<void> {
+    if (!this.stages.has(stage)) {
+      throw new Error(`Unknown job stage: ${stage}`);
+    }
+
+    await this.upsertJob(DatabaseService.getInstance().getClient(), reportId, stage, payload);
+    this.schedule(0);
+  }
+
+  // One job per report and stage; queueing it again starts it over, after any attempt still running
+  private async upsertJob(client: Prisma.TransactionClient, reportId: string, stage: string, payload?: Record<string, unknown>): Promise<void> {
+    const data = {
+      status: 'PENDING',
+      attempts: 0,
+      maxAttempts: config.jobs.maxAttempts,
+      runAt: new Date(),
+      error: null,
+      payload: payload ? JSON.stringify(payload) : null
+    };
+    await client.processingJob.upsert({
+      where: { reportId_stage: { reportId, stage } },
+      update: data,
+      create: { ...data, reportId, stage }
+    });
+    logger.debug(`📬 Queued ${stage} for report ${reportId}`);
+  }
+
+  private schedule(delay: number): void {
+    if (!this.started) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.poll(), delay);
+    // Pending jobs shouldn't keep the process alive on their own
+    this.timer.unref();
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      await this.recoverStalled();
+      while (this.started && this.running < config.jobs.concurrency) {
+        const job = await this.claim();
+        if (!job) break;
+        this.running++;
+        this.active.add(job.id);
+        this.execute(job).finally(() => {
+          this.running--;
+          this.active.delete(job.id);
+          this.schedule(0);
+        });
+      }
+    } catch (error) {
+      logger.warn('Job queue poll failed:', error);
+    } finally {
+      this.polling = false;
+      this.schedule(POLL_INTERVAL_MS);
+    }
+  }
+
+  // Take the next due job; the status check makes the claim safe across processes
+  private async claim(): Promise<Job | null> {
+    const prisma = DatabaseService.getInstance().getClient();
+
+    for (;;) {
+      const candidate = await prisma.processingJob.findFirst({
+        where: {
+          id: { notIn: [...this.active] },
+          status: 'PENDING',
+          runAt: { lte: new Date() },
+          stage: { in: [...this.stages.keys()] }
+        },
+        orderBy: { runAt: 'asc' }
+      });
+      if (!candidate) return null;
+
+      const claimed = await prisma.processingJob.updateMany({
+        where: { id: candidate.id, status: 'PENDING' },
+        data: { status: 'RUNNING', attempts: { increment: 1 }, startedAt: new Date(), finishedAt: null }
+      });
+      if (claimed.count === 0) continue; // Another worker got it first
+
+      return {
+        id: candidate.id,
+        reportId: candidate.reportId,
+        stage: candidate.stage,
+        attempts: candidate.attempts + 1,
+        maxAttempts: candidate.maxAttempts,
+        payload: candidate.payload ? JSON.parse(candidate.payload) : undefined
+      };
+    }
+  }
+
+  private async execute(job: Job): Promise<void> {
+    const prisma = DatabaseService.getInstance().getClient();
+    const definition = this.stages.get(job.stage)!;
+    const startTime = Date.now();
+    logger.info(`⚙️ ${job.stage} started for report ${job.reportId} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    try {
+      await this.runWithTimeout(definition, job);
+
+      // The next stage is queued with the completion, so neither is recorded without the other
+      const durationMs = Date.now() - startTime;
+      const finished = await prisma.$transaction(async tx => {
+        const updated = await tx.processingJob.updateMany({
+          where: { id: job.id, status: 'RUNNING' },
+          data: { status: 'COMPLETED', finishedAt: new Date(), durationMs, error: null }
+        });
+        if (updated.count > 0 && definition.next) {
+          await this.upsertJob(tx, job.reportId, definition.next, job.payload);
+        }
+        return updated.count > 0;
+      });
+      logger.info(`✅ ${job.stage} completed for report ${job.reportId} in ${durationMs}ms`);
+      if (!finished) return this.requeued(job);
+    } catch (caught) {
+      const error = caught instanceof Error ? caught : new Error(String(caught));
+      const durationMs = Date.now() - startTime;
+      const retry = job.attempts < job.maxAttempts;
+      const delay = Math.min(MAX_BACKOFF_MS, BACKOFF_BASE_MS * 2 ** (job.attempts - 1));
+      const retryAt = new Date(Date.now() + delay);
+
+      let finished;
+      try {
+        finished = await prisma.processingJob.updateMany({
+          where: { id: job.id, status: 'RUNNING' },
+          data: {
+            status: retry ? 'PENDING' : 'FAILED',
+            runAt: retry ? retryAt : undefined,
+            finishedAt: new Date(),
+            durationMs,
+            error: error.message
+          }
+        });
+      } catch (updateError) {
+        logger.error(`Could not record failure of job ${job.id}:`, updateError);
+      }
+      if (finished?.count === 0) return this.requeued(job);
+
+      if (retry) {
+        logger.warn(`⚠️ ${job.stage} failed for report ${job.reportId}, retrying in ${Math.round(delay / 1000)}s: ${error.message}`);
+        definition.onRetry?.(job, error, retryAt);
+        return;
+      }
+
+      logger.error(`❌ ${job.stage} failed for report ${job.reportId} after ${job.attempts} attempts: ${error.message}`);
+      try {
+        await definition.onFailed?.(job, error);
+      } catch (hookError) {
+        logger.error(`Failure handler for ${job.stage} failed:`, hookError);
+      }
+    }
+  }
+
+  // The job was queued again while it ran, so the new run supersedes this attempt's outcome
+  private requeued(job: Job): void {
+    logger.info(`📬 ${job.stage} for report ${job.reportId} was queued again while running, starting it over`);
+  }
+
+  // Jobs left RUNNING by a crash or restart go back to the queue
+  private async recoverStalled(): Promise<void> {
+    if (Date.now() - this.lastStallCheck < POLL_INTERVAL_MS * 30) return;
+    this.lastStallCheck = Date.now();
+
+    const prisma = DatabaseService.getInstance().getClient();
+    const recovered = await prisma.processingJob.updateMany({
+      where: { status: 'RUNNING', startedAt: { lt: new Date(Date.now() - STALLED_AFTER_MS) } },
+      data: { status: 'PENDING', runAt: new Date(), error: 'Interrupted before finishing' }
+    });
+    if (recovered.count > 0) {
+      logger.warn(`♻️ Requeued ${recovered.count} stalled job(s)`);
+    }
+  }
+
+  /**
+   * Aborts the attempt once the stage timeout passes, then waits for it to
+   * stop, so a retry never runs alongside it. An attempt that finishes
+   * despite the abort counts as done.
+   */
+  private async runWithTimeout(definition: StageDefinition, job: Job): Promise<void> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      logger.warn(`⏱️ ${job.stage} for report ${job.reportId} ran past ${Math.round(definition.timeout / 1000)}s, stopping it`);
+      controller.abort(new Error(`${job.stage} timed out after ${Math.round(definition.timeout / 1000)}s`));
+    }, definition.timeout);
+
+    try {
+      await definition.run(job, controller.signal);
+    } catch (error) {
+      // Whatever the attempt threw on its way out, it stopped because it ran out of time
+      throw controller.signal.aborted ? controller.signal.reason : error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
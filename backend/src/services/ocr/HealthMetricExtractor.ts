@@ -0,0 +1,600 @@
+import { logger } from '../../utils/logger';
+import { boundingBox, BoundingBox, TableReconstructor, TableRow, TextLine, WordBox } from './TableReconstructor';
+import { AnalyteCatalog, AnalyteDefinition } from '../analytes/AnalyteCatalog';
+import { UnitConverter } from '../analytes/UnitConverter';
+import { toAsciiDigits } from '../analytes/transliteration';
+import { DEFAULT_RANGE_SOURCE, PatientContext, PRINTED_RANGE_SOURCE, ReferenceRangeService } from '../analytes/ReferenceRangeService';
+import { QUALITATIVE_RESULT_PATTERN, ResultValue, ResultValueParser, ResultValueType } from '../analytes/ResultValueParser';
+import { applyMisreads, LabCorrections, toAliasKey } from '../corrections/labCorrections';
+import { PlausibilityChecker } from './PlausibilityChecker';
+
+// Share of a matched line's words that must be found on a page line to locate it
+const MIN_LINE_MATCH = 0.6;
+
+// Unit after a value: "10^3/μL", "mg/dL", "/hpf"
+const UNIT_PATTERN = String.raw`(?:x\s*)?10\s*[\^*]?\s*[0-9³⁶⁹]+\s*\/\s*[a-zA-Zμµ]+|[a-zA-Z/%μµ°]+`;
+
+export interface HealthMetric {
+  category: string;
+  metric: string;
+  value: number;
+  unit: string;
+  flag: 'LOW' | 'NORMAL' | 'HIGH' | 'CRITICAL';
+  normalRange?: number[];
+  confidence: number;
+  extractionMethod?: string;
+  analyteId?: string;
+  normalizedValue?: number; // Value in the analyte's preferred unit
+  normalizedUnit?: string;
+  rangeSource?: string;     // Where normalRange came from, e.g. "Printed on report"
+  valueType?: ResultValueType; // Omitted for plain numbers
+  valueText?: string;       // Non-numeric result as printed: "Nil", "2+", "4-6", "<0.5"
+  referenceText?: string;   // Non-numeric reference: "Nil", "Non-Reactive"
+  page?: number;            // Where the value was read, when word boxes are available
+  bbox?: BoundingBox;       // Test name through value, in page image pixels
+  reviewNotes?: ReviewNote[]; // Reasons to check the value against the scan
+}
+
+// Why an extracted value needs checking before it's trusted
+export interface ReviewNote {
+  reason: 'ocr-disagreement' | 'decimal-slip' | 'implausible' | 'inconsistent';
+  message: string;
+  suggestions?: string[]; // Other readings of the value
+}
+
+// A stored metric as AI analysis takes it: the result as printed and its flag
+export type AnalysisMetric = Pick<
+  HealthMetric,
+  'category' | 'metric' | 'value' | 'valueText' | 'unit' | 'flag' | 'normalRange' | 'analyteId'
+>;
+
+/**
+ * HealthMetricExtractor - Reads health metrics out of OCR'd text
+ *
+ * Runs on whatever the OCR engines produced, so every engine's output is
+ * read the same way: table cells first when there are word boxes, then
+ * line patterns. Each metric is resolved against the analyte catalogue,
+ * normalized to its preferred unit and flagged against the printed range,
+ * or the patient's when none is printed. Implausible values are then
+ * repaired or marked for review (PlausibilityChecker).
+ */
+export class HealthMetricExtractor {
+  private static instance: HealthMetricExtractor;
+  private analyteCatalog = AnalyteCatalog.getInstance();
+  private unitConverter = UnitConverter.getInstance();
+  private resultParser = ResultValueParser.getInstance();
+  // Aliases learned for the lab being extracted; extraction is synchronous, so
+  // this is only ever set for the duration of one extractHealthMetrics call
+  private labAliases?: Map<string, string>;
+  private plausibility = PlausibilityChecker.getInstance();
+
+  static getInstance(): HealthMetricExtractor {
+    if (!HealthMetricExtractor.instance) {
+      HealthMetricExtractor.instance = new HealthMetricExtractor();
+    }
+    return HealthMetricExtractor.instance;
+  }
+
+  // Health metrics from OCR text, with word boxes when the engine returned them
+  extractHealthMetrics(text: string, words?: WordBox[], patient?: PatientContext, corrections?: LabCorrections): HealthMetric[] {
+    this.labAliases = corrections?.aliases;
+    try {
+      const metrics = this.extractWithCorrections(text, words || [], patient, corrections);
+      for (const { metric, note, repairedValue } of this.plausibility.check(metrics)) {
+        if (repairedValue !== undefined) this.repairValue(metric, repairedValue, patient);
+        metric.reviewNotes = [...(metric.reviewNotes || []), note];
+      }
+      return metrics;
+    } finally {
+      this.labAliases = undefined;
+    }
+  }
+  
+  // A decimal slip corrected by the plausibility check: normalized and flagged again
+  private repairValue(metric: HealthMetric, value: number, patient?: PatientContext): void {
+    const analyte = metric.analyteId ? this.analyteCatalog.get(metric.analyteId) : undefined;
+    metric.value = value;
+    const normalized = analyte ? this.unitConverter.toPreferredUnit(value, metric.unit, analyte) : null;
+    if (normalized) {
+      metric.normalizedValue = normalized.value;
+      metric.normalizedUnit = normalized.unit;
+    }
+    this.applyReferenceRange(metric, patient);
+  }
+  
+  private extractWithCorrections(
+    text: string,
+    words: WordBox[],
+    patient?: PatientContext,
+    corrections?: LabCorrections
+  ): HealthMetric[] {
+    const misreads = corrections?.misreads || [];
+    const metrics: HealthMetric[] = [];
+    const lines = applyMisreads(toAsciiDigits(text), misreads).split('\n').map(line => line.trim()).filter(line => line.length > 0);
+    const asciiWords = words.map(word => ({ ...word, text: applyMisreads(toAsciiDigits(word.text), misreads) }));
+    const reconstructor = TableReconstructor.getInstance();
+    
+    // Table cells are the most reliable source when word boxes are available;
+    // line patterns below only fill in what the table stage didn't find
+    if (asciiWords.length > 0) {
+      const rows = reconstructor.reconstruct(asciiWords);
+      let section: string | undefined;
+      let urineSection = false;
+      for (const row of rows) {
+        if (row.section !== section) {
+          section = row.section;
+          urineSection = this.isUrineSection(section || '', urineSection);
+        }
+        const extractedMetric = this.parseTableRow(row, urineSection, patient);
+        if (extractedMetric && extractedMetric.confidence > 50) {
+          metrics.push(extractedMetric);
+        }
+      }
+      logger.debug(`Table layout produced ${metrics.length} metrics from ${rows.length} rows`);
+    }
+    const tableMetricKeys = new Set(metrics.map(m => this.metricKey(m)));
+    const textLines = asciiWords.length > 0 ? reconstructor.textLines(asciiWords) : [];
+    
+    // Multiple parsing patterns for different document formats. Names may be
+    // in any script ("हीमोग्लोबिन 12.5 g/dL"), values and units are Latin
+    const patterns = [
+      // Semi-quantitative: "Pus Cells 4-6 /hpf 0-5", "CRP <0.5 mg/L"
+      {
+        regex: new RegExp(`^(\\p{L}[\\p{L}\\p{M}\\s()/-]+?)\\s*:?\\s+((?:[<>≤≥]=?|less\\s+than|more\\s+than|up\\s*to)\\s*\\d+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?\\s*(?:-|–|to)\\s*\\d+(?:\\.\\d+)?)\\s*(${UNIT_PATTERN})?(?:\\s+(.*))?$`, 'iu'),
+        method: 'semi-quantitative'
+      },
+      // Qualitative: "Sugar: Nil", "HBsAg Non-Reactive Non-Reactive", "Ketones ++"
+      {
+        regex: new RegExp(`^(\\p{L}[\\p{L}\\p{M}\\s()/&'-]+?)\\s*[:-]?\\s+(${QUALITATIVE_RESULT_PATTERN})(?:\\s+(.*))?$`, 'iu'),
+        method: 'qualitative'
+      },
+      // Standard: "Hemoglobin 12.5 g/dL (12.0-15.0)"
+      {
+        regex: /^(\p{L}[\p{L}\p{M}\w\s()/-]+?)\s+(\d+\.?\d*)\s*((?:x\s*)?10\s*[\^*]?\s*[0-9³⁶⁹]+\s*\/\s*[a-zA-Zμµ]+|[a-zA-Z/%μµ°]+)\s*[\[(]?(?:[\d.-]+\s*[-–~]\s*)?(\d+\.?\d*)\s*[-–~]\s*(\d+\.?\d*)[\])]?/u,
+        method: 'standard-with-range'
+      },
+      // Colon format: "Glucose: 85 mg/dL"
+      {
+        regex: /^(\p{L}[\p{L}\p{M}\w\s()/-]+?):\s*(\d+\.?\d*)\s*([a-zA-Z/%μµ°]+)/u,
+        method: 'colon-format'
+      },
+      // Table format: "Parameter    Value    Unit    Reference"
+      {
+        regex: /^(\p{L}[\p{L}\p{M}\w\s()/-]+?)\s{2,}(\d+\.?\d*)\s+((?:x\s*)?10\s*[\^*]?\s*[0-9³⁶⁹]+\s*\/\s*[a-zA-Zμµ]+|[a-zA-Z/%μµ°]+)\s+([\d.-]+)\s*[-–~]\s*([\d.-]+)/u,
+        method: 'table-format'
+      },
+      // Range in brackets: "Creatinine: 0.9 mg/dL [0.6-1.2]"
+      {
+        regex: /^(\p{L}[\p{L}\p{M}\w\s()/-]+?):\s*(\d+\.?\d*)\s*([a-zA-Z/%μµ°]+)\s*\[([\d.-]+)\s*[-–~]\s*([\d.-]+)\]/u,
+        method: 'bracketed-range'
+      },
+      // Simple value: "Total Cholesterol 195"
+      {
+        regex: /^(\p{L}[\p{L}\p{M}\w\s()/-]+?)\s+(\d+\.?\d*)(?:\s*((?:x\s*)?10\s*[\^*]?\s*[0-9³⁶⁹]+\s*\/\s*[a-zA-Zμµ]+|[a-zA-Z/%μµ°]+))?/u,
+        method: 'simple-value'
+      }
+    ];
+    
+    let urineSection = false;
+    for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+      const line = lines[lineIndex];
+      let matched = false;
+      
+      for (const { regex, method } of patterns) {
+        const match = line.match(regex);
+        if (match) {
+          const extractedMetric = this.parseMetricMatch(match, method, urineSection, patient);
+          if (extractedMetric && !tableMetricKeys.has(this.metricKey(extractedMetric))) {
+            // Avoid duplicates
+            const isDuplicate = metrics.some(m => 
+              this.metricKey(m) === this.metricKey(extractedMetric) &&
+              Math.abs(m.value - extractedMetric.value) < 0.01
+            );
+            
+            if (!isDuplicate && extractedMetric.confidence > 50) {
+              this.locateLine(extractedMetric, line, textLines);
+              metrics.push(extractedMetric);
+              matched = true;
+              break; // Found a match, try next line
+            }
+          }
+        }
+      }
+      
+      // Section headings stand alone in capitals: "URINE ROUTINE EXAMINATION"
+      if (!matched && !/\d/.test(line) && /\p{Lu}{3}/u.test(line) && line === line.toUpperCase()) {
+        urineSection = this.isUrineSection(line, urineSection);
+      }
+    }
+    
+    // Sort by confidence and limit results
+    const sortedMetrics = metrics
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, 100); // Reasonable limit
+    
+    logger.info(`📊 Extracted ${sortedMetrics.length} health metrics using enhanced parsing`);
+    return sortedMetrics;
+  }
+  
+  /**
+   * Build a metric from what a user typed when correcting a report, flagged
+   * and normalized the same way as extracted ones. Null if the value can't
+   * be read, or is non-numeric for a test the catalogue doesn't know.
+   */
+  evaluateMetric(
+    input: { name: string; value: string; unit?: string; normalRange?: number[]; referenceText?: string },
+    patient?: PatientContext
+  ): HealthMetric | null {
+    const result = this.resultParser.parse(toAsciiDigits(input.value));
+    const name = input.name.trim().replace(/\s+/g, ' ');
+    if (!result || !name) return null;
+
+    // "12.5 g/dL" typed into the value field
+    const unitText = input.unit?.trim() || (result.type === 'numeric' ? result.remainder : '');
+    const metric = this.createMetric(
+      name, result, unitText ? this.normalizeUnit(unitText) : '', 'manual',
+      { normalRange: input.normalRange, referenceText: input.referenceText }, false, patient
+    );
+    if (metric) metric.confidence = 100; // Entered by the user
+    return metric;
+  }
+
+  private parseMetricMatch(
+    match: RegExpMatchArray,
+    method: string,
+    urineSection: boolean,
+    patient?: PatientContext
+  ): HealthMetric | null {
+    try {
+      if (method === 'semi-quantitative' || method === 'qualitative') {
+        return this.parseResultMatch(match, method, urineSection, patient);
+      }
+      
+      const [, name, valueStr, unit, ...ranges] = match;
+      const value = parseFloat(valueStr);
+      
+      if (isNaN(value) || !name || value < 0) {
+        return null;
+      }
+      
+      const cleanUnit = unit ? this.normalizeUnit(unit.trim()) : '';
+      
+      // Parse normal range if available
+      let normalRange: number[] | undefined;
+      const numericRanges = ranges.filter(r => r && !isNaN(parseFloat(r))).map(r => parseFloat(r));
+      if (numericRanges.length >= 2) {
+        normalRange = [Math.min(...numericRanges), Math.max(...numericRanges)];
+      }
+      
+      return this.createMetric(
+        name, { type: 'numeric', value, text: valueStr, remainder: '' }, cleanUnit, method,
+        { normalRange }, urineSection, patient
+      );
+    } catch (error) {
+      logger.debug('Failed to parse metric match:', error);
+      return null;
+    }
+  }
+  
+  // Lines matched by the semi-quantitative and qualitative patterns
+  private parseResultMatch(
+    match: RegExpMatchArray,
+    method: string,
+    urineSection: boolean,
+    patient?: PatientContext
+  ): HealthMetric | null {
+    const [, name, resultText] = match;
+    let unit = method === 'semi-quantitative' ? match[3] || '' : '';
+    let referenceText = (method === 'semi-quantitative' ? match[4] : match[3]) || '';
+    
+    const result = this.resultParser.parse(resultText);
+    if (!result) return null;
+    
+    // "<1.0 Non Reactive": the word after the value is the reference, not a unit
+    if (unit && !this.unitConverter.isKnownUnit(unit)) {
+      const reference = this.resultParser.parse(`${unit} ${referenceText}`);
+      if (reference && (reference.type === 'qualitative' || reference.type === 'ordinal')) {
+        referenceText = `${unit} ${referenceText}`.trim();
+        unit = '';
+      }
+    }
+    
+    const cleanUnit = unit ? this.normalizeUnit(unit.trim()) : '';
+    return this.createMetric(name, result, cleanUnit, method, this.parseReference(referenceText), urineSection, patient);
+  }
+  
+  /**
+   * Read a metric from a reconstructed table row. Unlike the line patterns this
+   * never has to guess where the name ends and the value begins.
+   */
+  private parseTableRow(row: TableRow, urineSection: boolean, patient?: PatientContext): HealthMetric | null {
+    const name = row.cells.test?.text.trim();
+    const resultText = row.cells.result?.text.trim();
+    if (!name || !resultText) return null;
+    
+    // Flags and markers sometimes come before the value: "H 12.5", "*Positive"
+    const result = this.resultParser.parse(resultText)
+      || this.resultParser.parse(resultText.replace(/^[^\p{L}\d<>≤≥+]+|^[HL]\s+/u, ''));
+    if (!result) return null;
+    
+    // Units are often printed in the result cell when there's no unit column;
+    // words after a qualitative result are commentary, not units
+    const unitText = row.cells.unit?.text.trim() || (result.type === 'qualitative' || result.type === 'ordinal'
+      ? ''
+      : result.remainder.replace(/^[\s*]*[HL]?\b/i, '').trim());
+    const cleanUnit = unitText ? this.normalizeUnit(unitText) : '';
+    
+    const metric = this.createMetric(
+      name, result, cleanUnit, 'table-cells', this.parseReference(row.cells.reference?.text || ''),
+      urineSection, patient
+    );
+    if (metric) {
+      const rowWords = Object.values(row.cells).flatMap(cell => cell?.words || []);
+      if (rowWords.length > 0) {
+        metric.page = row.page;
+        metric.bbox = boundingBox(rowWords);
+      }
+      this.noteDisagreements(metric, row.cells.result?.words || [], row.cells.reference?.words || []);
+    }
+    return metric;
+  }
+  
+  /**
+   * Find where a line-pattern match was printed: the text line sharing most of
+   * its words. Side-by-side tables put two results on one line, so the box
+   * covers only the shared words.
+   */
+  private locateLine(metric: HealthMetric, line: string, textLines: TextLine[]): void {
+    const tokens = this.lineTokens(line);
+    if (tokens.length === 0) return;
+    
+    let best: { line: TextLine; words: WordBox[] } | undefined;
+    for (const candidate of textLines) {
+      const shared = candidate.words.filter(word => {
+        const wordTokens = this.lineTokens(word.text);
+        return wordTokens.length > 0 && wordTokens.every(token => tokens.includes(token));
+      });
+      if (!best || shared.length > best.words.length) best = { line: candidate, words: shared };
+    }
+    
+    if (best && best.words.length >= Math.ceil(tokens.length * MIN_LINE_MATCH)) {
+      metric.page = best.line.page;
+      metric.bbox = boundingBox(best.words);
+      const isValue = (word: WordBox) => metric.valueText
+        ? this.lineTokens(word.text).includes(metric.valueText.toLowerCase())
+        : (word.text.match(/\d+(?:\.\d+)?/g) || []).some(number => parseFloat(number) === metric.value);
+      this.noteDisagreements(metric, best.words.filter(isValue), best.words.filter(word => !isValue(word)));
+    }
+  }
+  
+  // Numbers the OCR engines read differently (see ensembleFusion), for the user to check on the scan
+  private noteDisagreements(metric: HealthMetric, valueWords: WordBox[], referenceWords: WordBox[]): void {
+    const notes: ReviewNote[] = [];
+    const valueReadings = valueWords.flatMap(word => word.alternatives || []);
+    if (valueReadings.length > 0) {
+      notes.push({
+        reason: 'ocr-disagreement',
+        message: 'OCR engines disagreed on this value',
+        suggestions: [...new Set(valueReadings)]
+      });
+    }
+    const referenceReadings = metric.normalRange ? referenceWords.flatMap(word => word.alternatives || []) : [];
+    if (referenceReadings.length > 0) {
+      notes.push({
+        reason: 'ocr-disagreement',
+        message: 'OCR engines disagreed on the reference range',
+        suggestions: [...new Set(referenceReadings)]
+      });
+    }
+    if (notes.length > 0) metric.reviewNotes = [...(metric.reviewNotes || []), ...notes];
+  }
+  
+  private lineTokens(text: string): string[] {
+    return text.toLowerCase().split(/\s+/).map(token => token.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}%]+$/gu, '')).filter(Boolean);
+  }
+  
+  // Printed reference: "0-5", "< 200", or an expected result like "Nil"
+  private parseReference(text: string): { normalRange?: number[]; referenceText?: string } {
+    const rangeMatch = text.match(/(\d+(?:\.\d+)?)\s*(?:-|–|~|to)\s*(\d+(?:\.\d+)?)/i);
+    if (rangeMatch) {
+      const bounds = [parseFloat(rangeMatch[1]), parseFloat(rangeMatch[2])];
+      return { normalRange: [Math.min(...bounds), Math.max(...bounds)] };
+    }
+    
+    const reference = this.resultParser.parse(text.replace(/^[\s([]+/, ''));
+    if (reference?.type === 'inequality' && (reference.comparator === '<' || reference.comparator === '<=')) {
+      return { normalRange: [0, reference.value] };
+    }
+    if (reference && (reference.type === 'qualitative' || reference.type === 'ordinal')) {
+      return { referenceText: reference.text };
+    }
+    return {};
+  }
+  
+  // The analyte is resolved from the name as printed, whose "(SGPT)" or "/ALT" the catalogue reads
+  private createMetric(
+    printedName: string,
+    result: ResultValue,
+    unit: string,
+    method: string,
+    reference: { normalRange?: number[]; referenceText?: string },
+    urineSection: boolean,
+    patient?: PatientContext
+  ): HealthMetric | null {
+    const name = printedName.replace(/[^\p{L}\p{M}\p{N}\s()/-]/gu, '').replace(/\s+/g, ' ').trim();
+    if (result.value < 0 || !name) return null;
+    
+    const analyte = this.resolveAnalyte(printedName.trim(), result.type, urineSection);
+    // Words like "Normal" follow too many headings to trust without a known test
+    if (result.type !== 'numeric' && !analyte) return null;
+    
+    const metric: HealthMetric = {
+      category: analyte?.category || 'General',
+      metric: name,
+      value: result.value,
+      unit,
+      flag: 'NORMAL',
+      normalRange: reference.normalRange,
+      confidence: this.calculateMetricConfidence(name, result.value, unit, method, result.type),
+      extractionMethod: method,
+      analyteId: analyte?.id
+    };
+    
+    if (result.type !== 'numeric') {
+      metric.valueType = result.type;
+      metric.valueText = result.text;
+      if (reference.referenceText) metric.referenceText = reference.referenceText;
+    } else {
+      const normalized = analyte ? this.unitConverter.toPreferredUnit(result.value, unit, analyte) : null;
+      if (normalized) {
+        metric.normalizedValue = normalized.value;
+        metric.normalizedUnit = normalized.unit;
+      }
+    }
+    
+    this.applyReferenceRange(metric, patient, result);
+    
+    return metric;
+  }
+  
+  /**
+   * Urine reports print bare "Glucose" or "RBC", so inside a urine section,
+   * and for results only urine tests give ("Trace", "4-6"), the urine analyte
+   * is tried first. Lab aliases only name what the catalogue can't.
+   */
+  private resolveAnalyte(name: string, type: ResultValueType, urineSection: boolean) {
+    const urineFirst = urineSection || type === 'qualitative' || type === 'ordinal' || type === 'range';
+    const known = (urineFirst && this.analyteCatalog.resolve(`urine ${name}`)) || this.analyteCatalog.resolve(name);
+    if (known) return known;
+    
+    // Users have told us what this lab means by the name
+    const aliased = this.labAliases?.get(toAliasKey(name));
+    return (aliased && this.analyteCatalog.get(aliased)) || null;
+  }
+  
+  // URINE ROUTINE heading and its PHYSICAL / CHEMICAL / MICROSCOPIC subsections
+  private isUrineSection(heading: string, inUrineSection: boolean): boolean {
+    if (/\burin(?:e|alysis)\b/i.test(heading)) return true;
+    return inUrineSection && /examination|microscop|physical|chemical|dipstick|sediment/i.test(heading);
+  }
+  
+  private calculateMetricConfidence(
+    name: string, 
+    value: number, 
+    unit: string, 
+    method: string,
+    valueType: ResultValueType = 'numeric'
+  ): number {
+    let confidence = 60; // Base confidence
+    
+    // Method-based confidence adjustment
+    const methodConfidence = {
+      'table-cells': 92,
+      'semi-quantitative': 85,
+      'qualitative': 80,
+      'standard-with-range': 90,
+      'table-format': 85,
+      'bracketed-range': 88,
+      'colon-format': 75,
+      'simple-value': 60
+    };
+    confidence = methodConfidence[method as keyof typeof methodConfidence] || 60;
+    
+    // Name validation
+    if (!/^\p{L}[\p{L}\p{M}\p{N}\s-]*$/u.test(name)) confidence -= 25;
+    if (name.length < 3 || name.length > 30) confidence -= 10;
+    
+    // Value reasonableness; "Nil" and "Negative" are 0 and often unitless
+    if (valueType !== 'numeric') {
+      confidence += 5;
+    } else if (value > 0 && value < 1000000) {
+      confidence += 5;
+    } else if (value <= 0 || value > 10000000) {
+      confidence -= 30;
+    }
+    
+    // Unit validation
+    if (valueType === 'qualitative' || valueType === 'ordinal') {
+      // No unit expected
+    } else if (unit) {
+      if (this.unitConverter.isKnownUnit(unit)) confidence += 10;
+      else confidence -= 15;
+    } else {
+      confidence -= 10; // Missing unit
+    }
+    
+    // Known medical parameters get confidence boost
+    if (this.analyteCatalog.resolve(name)) confidence += 15;
+    
+    return Math.max(Math.min(confidence, 95), 0);
+  }
+  
+  private normalizeUnit(unit: string): string {
+    return this.unitConverter.normalizeUnit(unit);
+  }
+  
+  // Metrics for the same analyte printed under different names count as one
+  private metricKey(metric: HealthMetric): string {
+    return metric.analyteId || metric.metric.toLowerCase();
+  }
+  
+  /**
+   * Flag a metric against its printed range, or against the patient's
+   * reference range when the report doesn't print one. Records which range
+   * was used so users can see why a value was flagged.
+   */
+  private applyReferenceRange(metric: HealthMetric, patient?: PatientContext, result?: ResultValue): void {
+    if (result && result.type !== 'numeric') {
+      this.applyResultRules(metric, result, patient);
+      return;
+    }
+    
+    if (metric.normalRange && metric.normalRange.length >= 2) {
+      const [min, max] = metric.normalRange.sort((a, b) => a - b);
+      const value = metric.value;
+      metric.rangeSource = PRINTED_RANGE_SOURCE;
+      if (value < min) metric.flag = value < min * 0.6 ? 'CRITICAL' : 'LOW';
+      else if (value > max) metric.flag = value > max * 1.8 ? 'CRITICAL' : 'HIGH';
+      else metric.flag = 'NORMAL';
+      return;
+    }
+    
+    // Resolved name, since bare urine names ("pH") only resolve within their section
+    const name = (metric.analyteId && this.analyteCatalog.get(metric.analyteId)?.name) || metric.metric;
+    const assessment = ReferenceRangeService.getInstance()
+      .assess(name.toLowerCase(), metric.value, metric.unit, patient);
+    if (assessment) {
+      metric.flag = assessment.flag;
+      metric.normalRange = assessment.range;
+      metric.rangeSource = assessment.source;
+    }
+  }
+  
+  // Ranges and inequalities use the numeric range, grades and words the expected result
+  private applyResultRules(metric: HealthMetric, result: ResultValue, patient?: PatientContext): void {
+    const analyte = metric.analyteId ? this.analyteCatalog.get(metric.analyteId) : undefined;
+    
+    if (metric.normalRange || metric.referenceText) {
+      metric.rangeSource = PRINTED_RANGE_SOURCE;
+    } else if (analyte) {
+      const reference = ReferenceRangeService.getInstance().getRange(analyte, patient);
+      const range = reference && this.toMetricUnit([reference.range.min, reference.range.max], metric.unit, analyte);
+      if (reference && range && (result.type === 'range' || result.type === 'inequality' || !analyte.qualitative)) {
+        metric.normalRange = range;
+        metric.rangeSource = reference.source;
+      } else if (analyte.qualitative) {
+        metric.referenceText = analyte.qualitative.expected;
+        metric.rangeSource = DEFAULT_RANGE_SOURCE;
+      }
+    }
+    
+    metric.flag = this.resultParser.flag(result, metric.normalRange, analyte, metric.referenceText);
+  }
+  
+  // Catalogue ranges are in the analyte's default unit
+  private toMetricUnit(range: number[], unit: string, analyte: AnalyteDefinition): number[] | null {
+    if (!unit || unit === analyte.defaultUnit) return range;
+    const converted = range.map(bound => this.unitConverter.convert(bound, analyte.defaultUnit, unit, analyte));
+    return converted.every(bound => bound !== null) ? converted.map(bound => Number(bound!.toPrecision(4))) : null;
+  }
+}
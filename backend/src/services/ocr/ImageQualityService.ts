@@ -0,0 +1,484 @@
+import sharp from 'sharp';
+import { logger } from '../../utils/logger';
+
+export type QualityIssueCode = 'BLURRY' | 'LOW_RESOLUTION' | 'GLARE' | 'CUT_OFF' | 'SKEWED';
+export type PageEdge = 'top' | 'right' | 'bottom' | 'left';
+
+export interface QualityIssue {
+  code: QualityIssueCode;
+  message: string;    // Retake guidance, in English; clients localize by code
+  edges?: PageEdge[]; // For CUT_OFF, the sides running out of the photo
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface QualityAssessment {
+  width: number;
+  height: number;
+  sharpness: number;         // Edge strength relative to the page's contrast; low means blurred
+  skewAngle: number;         // Degrees the text lines slope, clockwise
+  glare: number;             // Share of the image blown out brighter than the paper
+  cutOffEdges: PageEdge[];
+  pageCorners: Point[] | null; // Top-left, top-right, bottom-right, bottom-left in image pixels, when background shows around the page
+  issues: QualityIssue[];
+  acceptable: boolean;
+}
+
+export interface PreparedImage {
+  image: Buffer;
+  assessment: QualityAssessment;
+  corrections: string[]; // E.g. "perspective", "deskew -3.5°"
+}
+
+// Measurements run on a copy scaled to fit this size
+const ANALYSIS_SIZE = 1000;
+// Perspective correction samples a copy no larger than this
+const WARP_MAX_SIZE = 3000;
+
+const MIN_SHORT_SIDE = 700;
+const MIN_SHARPNESS = 60;
+// Glare only shows against paper duller than this; scans are white throughout
+const MAX_PAPER_LEVEL_FOR_GLARE = 235;
+const GLARE_MARGIN = 15;
+const MAX_GLARE = 0.02;
+
+const SKEW_SEARCH_RANGE = 25;
+const MIN_DESKEW_ANGLE = 0.5;
+const MAX_DESKEW_ANGLE = 20;
+const MIN_SKEW_SAMPLES = 500;
+const MAX_SKEW_SAMPLES = 30000;
+
+// The page outline is used when it covers this share of the photo
+const MIN_PAGE_AREA = 0.25;
+const MAX_PAGE_AREA = 0.9;
+const PAGE_CELL_SIZE = 10;
+
+// Border strips where text running off the photo is looked for
+const EDGE_STRIP = 0.015;
+const MIN_EDGE_INK = 0.02;
+const MAX_EDGE_INK = 0.4;
+const MIN_EDGE_TRANSITIONS = 0.06; // Per pixel along the strip; text flickers, shadows don't
+
+const RETAKE_GUIDANCE: Record<QualityIssueCode, string> = {
+  BLURRY: 'The photo is blurry. Hold the phone steady and tap the text to focus before taking it.',
+  LOW_RESOLUTION: 'The image is too small to read. Move closer so the page fills the photo.',
+  GLARE: 'Light is reflecting off the page. Turn off the flash and tilt the page away from lamps or windows.',
+  CUT_OFF: 'Part of the page is cut off. Step back so all four edges of the page are in the photo.',
+  SKEWED: 'The page is at too steep an angle. Hold the phone flat, directly above the page.'
+};
+
+// `|| 0` turns -0 into 0
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits || 0;
+
+interface GreyImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * ImageQualityService - Checks report photos before they are read
+ *
+ * Phone photos are often blurred, glared, tilted or cropped, and OCR then
+ * returns confident-looking garbage. Photos are measured on a scaled-down
+ * greyscale copy: what can be fixed (a tilted page, or a page shot at an
+ * angle with the background showing around it) is straightened before OCR;
+ * what can't is rejected with guidance for retaking it.
+ *
+ * The same upload always gets the same corrections, so word boxes found on
+ * the prepared image can be drawn back onto it later.
+ */
+export class ImageQualityService {
+  private static instance: ImageQualityService;
+
+  static getInstance(): ImageQualityService {
+    if (!ImageQualityService.instance) {
+      ImageQualityService.instance = new ImageQualityService();
+    }
+    return ImageQualityService.instance;
+  }
+
+  async assess(buffer: Buffer): Promise<QualityAssessment> {
+    const metadata = await sharp(buffer).metadata();
+    // EXIF orientations 5-8 swap width and height
+    const swapped = (metadata.orientation ?? 1) >= 5;
+    const width = (swapped ? metadata.height : metadata.width) || 0;
+    const height = (swapped ? metadata.width : metadata.height) || 0;
+
+    const grey = await this.toGrey(buffer, ANALYSIS_SIZE);
+    const scale = width / grey.width;
+    const histogram = this.histogram(grey.data);
+    const threshold = this.otsuThreshold(histogram);
+
+    const pageCorners = this.findPage(grey, threshold);
+    const sharpness = this.measureSharpness(grey, histogram, threshold);
+    const glare = this.measureGlare(grey.data, histogram, threshold);
+    const cutOffEdges = pageCorners ? [] : this.findCutOffEdges(grey, threshold);
+    const skewAngle = pageCorners ? 0 : this.measureSkew(grey, threshold);
+
+    const issues: QualityIssue[] = [];
+    const flag = (code: QualityIssueCode, edges?: PageEdge[]) => issues.push({
+      code,
+      message: edges ? RETAKE_GUIDANCE[code].replace('cut off', `cut off at the ${edges.join(' and ')}`) : RETAKE_GUIDANCE[code],
+      ...(edges ? { edges } : {})
+    });
+    if (Math.min(width, height) < MIN_SHORT_SIDE) flag('LOW_RESOLUTION');
+    if (sharpness < MIN_SHARPNESS) flag('BLURRY');
+    if (glare > MAX_GLARE) flag('GLARE');
+    if (cutOffEdges.length > 0) flag('CUT_OFF', cutOffEdges);
+    if (Math.abs(skewAngle) > MAX_DESKEW_ANGLE) flag('SKEWED');
+
+    return {
+      width,
+      height,
+      sharpness: round(sharpness, 1),
+      skewAngle: round(skewAngle, 1),
+      glare: round(glare, 3),
+      cutOffEdges,
+      pageCorners: pageCorners && pageCorners.map(({ x, y }) => ({ x: Math.round(x * scale), y: Math.round(y * scale) })),
+      issues,
+      acceptable: issues.length === 0
+    };
+  }
+
+  // Assess the photo and straighten it for OCR
+  async prepare(buffer: Buffer): Promise<PreparedImage> {
+    const assessment = await this.assess(buffer);
+    const corrections: string[] = [];
+    let image = buffer;
+
+    try {
+      if (assessment.pageCorners) {
+        image = await this.correctPerspective(buffer, assessment);
+        corrections.push('perspective');
+      } else if (Math.abs(assessment.skewAngle) >= MIN_DESKEW_ANGLE && Math.abs(assessment.skewAngle) <= MAX_DESKEW_ANGLE) {
+        const oriented = await sharp(buffer).rotate().png().toBuffer();
+        image = await sharp(oriented)
+          .rotate(-assessment.skewAngle, { background: '#ffffff' })
+          .png()
+          .toBuffer();
+        corrections.push(`deskew ${-assessment.skewAngle}°`);
+      }
+    } catch (error) {
+      logger.warn('Could not straighten image, reading it as uploaded:', error);
+      image = buffer;
+      corrections.length = 0;
+    }
+
+    if (corrections.length > 0) {
+      logger.info(`📐 Straightened photo: ${corrections.join(', ')}`);
+    }
+    return { image, assessment, corrections };
+  }
+
+  private async toGrey(buffer: Buffer, size: number): Promise<GreyImage> {
+    const { data, info } = await sharp(buffer)
+      .rotate()
+      .flatten({ background: '#ffffff' })
+      .greyscale()
+      .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height };
+  }
+
+  private histogram(data: Buffer): number[] {
+    const histogram = new Array(256).fill(0);
+    for (const value of data) histogram[value]++;
+    return histogram;
+  }
+
+  private percentile(histogram: number[], fraction: number): number {
+    const total = histogram.reduce((sum, count) => sum + count, 0);
+    let seen = 0;
+    for (let value = 0; value < histogram.length; value++) {
+      seen += histogram[value];
+      if (seen >= total * fraction) return value;
+    }
+    return histogram.length - 1;
+  }
+
+  // Brightness separating ink from paper
+  private otsuThreshold(histogram: number[]): number {
+    const total = histogram.reduce((sum, count) => sum + count, 0);
+    const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+    let backgroundSum = 0;
+    let backgroundCount = 0;
+    let best = { threshold: 128, variance: -1 };
+
+    for (let value = 0; value < 256; value++) {
+      backgroundCount += histogram[value];
+      if (backgroundCount === 0) continue;
+      const foregroundCount = total - backgroundCount;
+      if (foregroundCount === 0) break;
+
+      backgroundSum += value * histogram[value];
+      const backgroundMean = backgroundSum / backgroundCount;
+      const foregroundMean = (sum - backgroundSum) / foregroundCount;
+      const variance = backgroundCount * foregroundCount * (backgroundMean - foregroundMean) ** 2;
+      if (variance > best.variance) best = { threshold: value, variance };
+    }
+    return best.threshold;
+  }
+
+  /**
+   * Sharp text has strong second derivatives at its edges, blurred text
+   * doesn't. The strongest 0.5% of Laplacian responses are compared with the
+   * contrast between ink and paper, so dim photos aren't mistaken for
+   * blurred ones.
+   */
+  private measureSharpness({ data, width, height }: GreyImage, histogram: number[], threshold: number): number {
+    const responses = new Array(1021).fill(0);
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const i = y * width + x;
+        const laplacian = 4 * data[i] - data[i - 1] - data[i + 1] - data[i - width] - data[i + width];
+        responses[Math.abs(laplacian)]++;
+      }
+    }
+    const ink = histogram.slice(0, threshold + 1);
+    const inkCount = ink.reduce((sum, count) => sum + count, 0);
+    const inkLevel = inkCount > 0 ? ink.reduce((sum, count, value) => sum + count * value, 0) / inkCount : 0;
+    const contrast = Math.max(1, this.paperLevel(histogram, threshold) - inkLevel);
+    return (this.percentile(responses, 0.995) / contrast) * 100;
+  }
+
+  // Median brightness of the paper
+  private paperLevel(histogram: number[], threshold: number): number {
+    return threshold + 1 + this.percentile(histogram.slice(threshold + 1), 0.5);
+  }
+
+  // Share of pixels brighter than the paper itself
+  private measureGlare(data: Buffer, histogram: number[], threshold: number): number {
+    const paperLevel = this.paperLevel(histogram, threshold);
+    if (paperLevel > MAX_PAPER_LEVEL_FOR_GLARE) return 0;
+
+    const glareLevel = Math.max(250, paperLevel + GLARE_MARGIN);
+    let glare = 0;
+    for (const value of data) if (value >= glareLevel) glare++;
+    return glare / data.length;
+  }
+
+  /**
+   * Text running into the border of the photo means the page goes on past
+   * it. A strip along each side is checked for ink that flickers like text;
+   * a white margin has none, and a table or shadow is solid.
+   */
+  private findCutOffEdges({ data, width, height }: GreyImage, threshold: number): PageEdge[] {
+    const stripX = Math.max(2, Math.round(width * EDGE_STRIP));
+    const stripY = Math.max(2, Math.round(height * EDGE_STRIP));
+    const isInk = (x: number, y: number) => data[y * width + x] <= threshold;
+
+    const strips: { edge: PageEdge; length: number; depth: number; at: (along: number, into: number) => boolean }[] = [
+      { edge: 'top', length: width, depth: stripY, at: (along, into) => isInk(along, into) },
+      { edge: 'bottom', length: width, depth: stripY, at: (along, into) => isInk(along, height - 1 - into) },
+      { edge: 'left', length: height, depth: stripX, at: (along, into) => isInk(into, along) },
+      { edge: 'right', length: height, depth: stripX, at: (along, into) => isInk(width - 1 - into, along) }
+    ];
+
+    return strips.filter(({ length, depth, at }) => {
+      let ink = 0;
+      let transitions = 0;
+      for (let into = 0; into < depth; into++) {
+        let previous = at(0, into);
+        for (let along = 0; along < length; along++) {
+          const current = at(along, into);
+          if (current) ink++;
+          if (current !== previous) transitions++;
+          previous = current;
+        }
+      }
+      const inkShare = ink / (length * depth);
+      return inkShare >= MIN_EDGE_INK && inkShare <= MAX_EDGE_INK && transitions / (length * depth) >= MIN_EDGE_TRANSITIONS;
+    }).map(({ edge }) => edge);
+  }
+
+  /**
+   * Projection profile: ink projected onto rows along the text lines' slope
+   * piles up into sharp peaks, so the angle with the most uneven profile is
+   * the skew. A coarse pass over the whole range is refined to 0.1 degrees.
+   */
+  private measureSkew({ data, width, height }: GreyImage, threshold: number): number {
+    const inkCount = data.reduce((count, value) => count + (value <= threshold ? 1 : 0), 0);
+    if (inkCount < MIN_SKEW_SAMPLES) return 0;
+
+    const stride = Math.max(1, Math.ceil(inkCount / MAX_SKEW_SAMPLES));
+    const xs: number[] = [];
+    const ys: number[] = [];
+    let seen = 0;
+    for (let i = 0; i < data.length; i++) {
+      if (data[i] > threshold || seen++ % stride !== 0) continue;
+      xs.push(i % width);
+      ys.push(Math.floor(i / width));
+    }
+
+    const diagonal = Math.ceil(Math.hypot(width, height));
+    const rows = new Float64Array(diagonal * 2 + 1);
+    const score = (degrees: number) => {
+      const radians = (degrees * Math.PI) / 180;
+      const sin = Math.sin(radians);
+      const cos = Math.cos(radians);
+      rows.fill(0);
+      for (let i = 0; i < xs.length; i++) {
+        rows[Math.round(ys[i] * cos - xs[i] * sin) + diagonal]++;
+      }
+      let sum = 0;
+      for (const count of rows) sum += count * count;
+      return sum;
+    };
+
+    const search = (from: number, to: number, step: number) => {
+      let best = { angle: 0, score: -1 };
+      for (let angle = from; angle <= to + 1e-9; angle += step) {
+        const current = score(angle);
+        if (current > best.score) best = { angle, score: current };
+      }
+      return best.angle;
+    };
+
+    const coarse = search(-SKEW_SEARCH_RANGE, SKEW_SEARCH_RANGE, 1);
+    return search(coarse - 1, coarse + 1, 0.1);
+  }
+
+  /**
+   * The page is the largest bright region of the photo, on a coarse grid of
+   * cells. Its corners are only trusted when it sits inside the photo with
+   * background around it and is close to a four-sided shape.
+   */
+  private findPage({ data, width, height }: GreyImage, threshold: number): Point[] | null {
+    const columns = Math.floor(width / PAGE_CELL_SIZE);
+    const rows = Math.floor(height / PAGE_CELL_SIZE);
+    if (columns < 4 || rows < 4) return null;
+
+    const bright = new Uint8Array(columns * rows);
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        let sum = 0;
+        for (let y = row * PAGE_CELL_SIZE; y < (row + 1) * PAGE_CELL_SIZE; y++) {
+          for (let x = column * PAGE_CELL_SIZE; x < (column + 1) * PAGE_CELL_SIZE; x++) sum += data[y * width + x];
+        }
+        bright[row * columns + column] = sum / (PAGE_CELL_SIZE * PAGE_CELL_SIZE) > threshold ? 1 : 0;
+      }
+    }
+
+    // Largest connected bright region
+    const label = new Int32Array(columns * rows).fill(-1);
+    let largest: number[] = [];
+    for (let start = 0; start < bright.length; start++) {
+      if (!bright[start] || label[start] !== -1) continue;
+      const region: number[] = [];
+      const stack = [start];
+      label[start] = start;
+      while (stack.length > 0) {
+        const cell = stack.pop()!;
+        region.push(cell);
+        const column = cell % columns;
+        const neighbours = [
+          column > 0 ? cell - 1 : -1,
+          column < columns - 1 ? cell + 1 : -1,
+          cell - columns,
+          cell + columns
+        ];
+        for (const next of neighbours) {
+          if (next >= 0 && next < bright.length && bright[next] && label[next] === -1) {
+            label[next] = start;
+            stack.push(next);
+          }
+        }
+      }
+      if (region.length > largest.length) largest = region;
+    }
+    if (largest.length === 0) return null;
+
+    // Corners are the region's extremes along the diagonals
+    const points = largest.map(cell => ({ x: (cell % columns) + 0.5, y: Math.floor(cell / columns) + 0.5 }));
+    const extreme = (key: (point: Point) => number) => points.reduce((best, point) => key(point) > key(best) ? point : best);
+    const corners = [
+      extreme(p => -p.x - p.y),
+      extreme(p => p.x - p.y),
+      extreme(p => p.x + p.y),
+      extreme(p => p.y - p.x)
+    ];
+
+    const quadArea = Math.abs(corners.reduce((sum, point, i) => {
+      const next = corners[(i + 1) % 4];
+      return sum + point.x * next.y - next.x * point.y;
+    }, 0)) / 2;
+    const imageArea = columns * rows;
+    if (quadArea < imageArea * MIN_PAGE_AREA || quadArea > imageArea * MAX_PAGE_AREA) return null;
+    // A blob that merely contains four extreme points isn't a page
+    if (largest.length < quadArea * 0.85 || largest.length > quadArea * 1.15) return null;
+
+    // Cell centres, back to pixels of the analysis copy, pushed out to the cells' outer edges
+    return corners.map((corner, i) => ({
+      x: (corner.x + (i === 1 || i === 2 ? 0.5 : -0.5)) * PAGE_CELL_SIZE,
+      y: (corner.y + (i >= 2 ? 0.5 : -0.5)) * PAGE_CELL_SIZE
+    }));
+  }
+
+  // Map the page's four corners onto an upright rectangle
+  private async correctPerspective(buffer: Buffer, assessment: QualityAssessment): Promise<Buffer> {
+    const source = await this.toGrey(buffer, WARP_MAX_SIZE);
+    const scale = source.width / assessment.width;
+    const [topLeft, topRight, bottomRight, bottomLeft] = assessment.pageCorners!.map(({ x, y }) => ({ x: x * scale, y: y * scale }));
+
+    const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+    const width = Math.round(Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight)));
+    const height = Math.round(Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight)));
+
+    const h = this.homography(
+      [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }],
+      [topLeft, topRight, bottomRight, bottomLeft]
+    );
+
+    const output = Buffer.alloc(width * height, 255);
+    for (let v = 0; v < height; v++) {
+      for (let u = 0; u < width; u++) {
+        const w = h[6] * u + h[7] * v + 1;
+        const x = (h[0] * u + h[1] * v + h[2]) / w;
+        const y = (h[3] * u + h[4] * v + h[5]) / w;
+        const x0 = Math.floor(x);
+        const y0 = Math.floor(y);
+        if (x0 < 0 || y0 < 0 || x0 >= source.width - 1 || y0 >= source.height - 1) continue;
+
+        // Bilinear interpolation
+        const fx = x - x0;
+        const fy = y - y0;
+        const i = y0 * source.width + x0;
+        const top = source.data[i] * (1 - fx) + source.data[i + 1] * fx;
+        const bottom = source.data[i + source.width] * (1 - fx) + source.data[i + source.width + 1] * fx;
+        output[v * width + u] = Math.round(top * (1 - fy) + bottom * fy);
+      }
+    }
+
+    return sharp(output, { raw: { width, height, channels: 1 } }).png().toBuffer();
+  }
+
+  // Coefficients of the projective transform taking each `from` point to its `to` point
+  private homography(from: Point[], to: Point[]): number[] {
+    const matrix: number[][] = [];
+    from.forEach(({ x, y }, i) => {
+      const { x: X, y: Y } = to[i];
+      matrix.push([x, y, 1, 0, 0, 0, -x * X, -y * X, X]);
+      matrix.push([0, 0, 0, x, y, 1, -x * Y, -y * Y, Y]);
+    });
+
+    // Gaussian elimination with partial pivoting
+    for (let column = 0; column < 8; column++) {
+      let pivot = column;
+      for (let row = column + 1; row < 8; row++) {
+        if (Math.abs(matrix[row][column]) > Math.abs(matrix[pivot][column])) pivot = row;
+      }
+      [matrix[column], matrix[pivot]] = [matrix[pivot], matrix[column]];
+      for (let row = 0; row < 8; row++) {
+        if (row === column) continue;
+        const factor = matrix[row][column] / matrix[column][column];
+        for (let k = column; k < 9; k++) matrix[row][k] -= factor * matrix[column][k];
+      }
+    }
+    return matrix.map((row, i) => row[8] / row[i]);
+  }
+}
@@ -0,0 +1,208 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { execFile } from 'child_process';
+import { v4 as uuidv4 } from 'uuid';
+import type * as PDFJS from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { logger } from '../../utils/logger';
+import { WordBox } from './TableReconstructor';
+
+const execFilePromise = promisify(execFile);
+
+// pdfjs-dist v4 ships as ES modules only. TypeScript compiles `import()` to
+// `require()` under CommonJS, so the dynamic import has to be hidden from it.
+const importESM = new Function('specifier', 'return import(specifier)') as (
+  specifier: string
+) => Promise<typeof PDFJS>;
+
+const standardFontDataUrl = path.join(path.dirname(require.resolve('pdfjs-dist/package.json')), 'standard_fonts') + path.sep;
+
+// Pages with fewer printable characters than this are treated as scanned
+const MIN_TEXT_LAYER_CHARS = 20;
+
+// Scanned pages are rendered at this resolution, and text-layer word boxes are
+// scaled to it so both kinds of page share one coordinate space
+export const PDF_RENDER_DPI = 300;
+
+export interface PDFPageText {
+  pageNumber: number;
+  text: string;
+  hasTextLayer: boolean;
+  words: WordBox[];
+}
+
+export interface PDFTextLayerResult {
+  pageCount: number;
+  pages: PDFPageText[];
+}
+
+/**
+ * PDFService - Text-layer extraction and page rasterization for PDF reports
+ *
+ * - Reads the embedded text layer with pdf.js, rebuilding lines from glyph positions
+ * - Rasterizes individual pages with poppler's `pdftoppm` so scanned pages can be OCR'd
+ */
+export class PDFService {
+  private static instance: PDFService;
+  private pdfjs?: Promise<typeof PDFJS>;
+
+  static getInstance(): PDFService {
+    if (!PDFService.instance) {
+      PDFService.instance = new PDFService();
+    }
+    return PDFService.instance;
+  }
+
+  static isPDF(buffer: Buffer, mimeType?: string): boolean {
+    return mimeType === 'application/pdf' || buffer.subarray(0, 5).toString('latin1') === '%PDF-';
+  }
+
+  private loadPdfjs(): Promise<typeof PDFJS> {
+    if (!this.pdfjs) {
+      this.pdfjs = importESM('pdfjs-dist/legacy/build/pdf.mjs');
+    }
+    return this.pdfjs;
+  }
+
+  async extractTextLayer(buffer: Buffer): Promise<PDFTextLayerResult> {
+    const pdfjs = await this.loadPdfjs();
+    const pdf = await pdfjs.getDocument({
+      data: new Uint8Array(buffer),
+      standardFontDataUrl,
+      isEvalSupported: false,
+      disableFontFace: true,
+      useSystemFonts: false
+    }).promise;
+
+    try {
+      const pageCount = pdf.numPages;
+      const pages: PDFPageText[] = [];
+
+      for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const textContent = await page.getTextContent();
+        const items = textContent.items.filter((item): item is TextItem => 'str' in item);
+        const text = this.buildLines(items);
+        const viewport = page.getViewport({ scale: 1 });
+
+        pages.push({
+          pageNumber,
+          text,
+          hasTextLayer: text.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARS,
+          words: this.buildWordBoxes(items, viewport.height, pageNumber)
+        });
+        page.cleanup();
+      }
+
+      logger.info(`📄 PDF has ${pageCount} pages, ${pages.filter(p => p.hasTextLayer).length} with a text layer`);
+      return { pageCount, pages };
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  /**
+   * Rebuild reading-order lines from positioned text items. Items sharing a
+   * baseline are joined left to right; wide horizontal gaps become runs of
+   * spaces so column layouts survive for the table parsers downstream.
+   */
+  private buildLines(items: TextItem[]): string {
+    const rows: { y: number; height: number; items: TextItem[] }[] = [];
+
+    for (const item of items) {
+      if (!item.str.trim()) continue;
+      const y = item.transform[5];
+      const height = Math.abs(item.height) || Math.abs(item.transform[3]) || 10;
+      const row = rows.find(r => Math.abs(r.y - y) < Math.max(r.height, height) * 0.5);
+      if (row) {
+        row.items.push(item);
+      } else {
+        rows.push({ y, height, items: [item] });
+      }
+    }
+
+    return rows
+      .sort((a, b) => b.y - a.y) // PDF y axis grows upwards
+      .map(row => {
+        const sorted = row.items.sort((a, b) => a.transform[4] - b.transform[4]);
+        let line = '';
+        let lastEnd: number | null = null;
+        for (const item of sorted) {
+          const x = item.transform[4];
+          if (lastEnd !== null) {
+            const gap = x - lastEnd;
+            line += gap > row.height * 1.5 ? '    ' : gap > row.height * 0.15 ? ' ' : '';
+          }
+          line += item.str;
+          lastEnd = x + item.width;
+        }
+        return line.trim();
+      })
+      .filter(line => line.length > 0)
+      .join('\n');
+  }
+
+  /**
+   * pdf.js items are usually whole phrases; they are split on whitespace with
+   * the width shared out by character count, which is accurate enough for
+   * column assignment.
+   */
+  private buildWordBoxes(items: TextItem[], pageHeight: number, pageNumber: number): WordBox[] {
+    const scale = PDF_RENDER_DPI / 72;
+    const words: WordBox[] = [];
+
+    for (const item of items) {
+      const text = item.str;
+      if (!text.trim()) continue;
+
+      const height = (Math.abs(item.height) || Math.abs(item.transform[3]) || 10) * scale;
+      const top = (pageHeight - item.transform[5]) * scale - height;
+      const charWidth = (item.width * scale) / text.length;
+      const pattern = /\S+/g;
+      let match: RegExpExecArray | null;
+
+      while ((match = pattern.exec(text)) !== null) {
+        words.push({
+          text: match[0],
+          confidence: 98,
+          x: item.transform[4] * scale + match.index * charWidth,
+          y: top,
+          width: match[0].length * charWidth,
+          height,
+          page: pageNumber
+        });
+      }
+    }
+    return words;
+  }
+
+  async renderPage(buffer: Buffer, pageNumber: number, dpi: number = PDF_RENDER_DPI): Promise<Buffer> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pdf-render-'));
+    const inputFile = path.join(workDir, `${uuidv4()}.pdf`);
+    const outputPrefix = path.join(workDir, `page-${pageNumber}`);
+
+    try {
+      await fs.writeFile(inputFile, buffer);
+      await execFilePromise('pdftoppm', [
+        '-f', String(pageNumber),
+        '-l', String(pageNumber),
+        '-r', String(dpi),
+        '-gray',
+        '-png',
+        '-singlefile',
+        inputFile,
+        outputPrefix
+      ], { timeout: 60000 });
+
+      return await fs.readFile(`${outputPrefix}.png`);
+    } catch (error) {
+      throw new Error(`Failed to rasterize PDF page ${pageNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true }).catch(error => {
+        logger.debug('Failed to clean up PDF render directory:', error);
+      });
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { logger } from '../../utils/logger';
+import { AnalyteCatalog } from '../analytes/AnalyteCatalog';
+import { PHYSIOLOGIC_LIMITS } from '../analytes/physiologicLimits';
+import { PRINTED_RANGE_SOURCE } from '../analytes/ReferenceRangeService';
+import type { HealthMetric, ReviewNote } from './HealthMetricExtractor';
+
+// Where a dropped or misplaced decimal point puts the true value
+const DECIMAL_SHIFTS = [0.1, 0.01, 0.001, 10, 100];
+
+// Values this far past the range are more likely misread than real
+const FAR_OUTSIDE_FACTOR = 10;
+
+// Allowed gap between a printed value and what related values imply
+const MCHC_TOLERANCE = 0.1;
+const BILIRUBIN_TOLERANCE = { absolute: 0.2, relative: 0.1 }; // mg/dL, share of the total
+const DIFFERENTIAL_TOLERANCE = 3;                             // Percentage points
+
+const DIFFERENTIAL = ['NEUT_PCT', 'LYMPH_PCT', 'MONO_PCT', 'EOS_PCT', 'BASO_PCT'];
+
+export interface PlausibilityFinding {
+  metric: HealthMetric;
+  note: ReviewNote;
+  repairedValue?: number; // Decimal shift to apply, in the metric's unit
+}
+
+/**
+ * PlausibilityChecker - Catches misread values before they are stored
+ *
+ * OCR often drops decimal points, so a haemoglobin of 13.5 arrives as 135
+ * and would be flagged CRITICAL. A value no living patient could have is
+ * shifted by a power of ten when exactly one shift fits the printed range;
+ * values that are possible but far out of range get the shift suggested.
+ * Related results are then checked against each other: MCHC against
+ * Hb / Hct, total bilirubin against direct + indirect, and the
+ * differential against 100%. Nothing is changed silently: every finding
+ * becomes a review note on the metric.
+ */
+export class PlausibilityChecker {
+  private static instance: PlausibilityChecker;
+  private analyteCatalog = AnalyteCatalog.getInstance();
+
+  static getInstance(): PlausibilityChecker {
+    if (!PlausibilityChecker.instance) {
+      PlausibilityChecker.instance = new PlausibilityChecker();
+    }
+    return PlausibilityChecker.instance;
+  }
+
+  check(metrics: HealthMetric[]): PlausibilityFinding[] {
+    const findings = metrics.flatMap(metric => this.checkValue(metric) || []);
+    const repaired = new Map(findings
+      .filter(finding => finding.repairedValue !== undefined)
+      .map(finding => [finding.metric, finding.repairedValue!]));
+
+    // Cross-checks use the repaired values, in each analyte's default unit
+    const byAnalyte = new Map<string, number>();
+    for (const metric of metrics) {
+      if (!metric.analyteId || byAnalyte.has(metric.analyteId) || metric.valueType) continue;
+      const value = this.defaultUnitValue(metric, repaired.get(metric));
+      if (value !== null) byAnalyte.set(metric.analyteId, value);
+    }
+    const metricFor = (analyteId: string) => metrics.find(metric => metric.analyteId === analyteId)!;
+    const inconsistent = (analyteIds: string[], message: string) => {
+      for (const analyteId of analyteIds) {
+        findings.push({ metric: metricFor(analyteId), note: { reason: 'inconsistent', message } });
+      }
+    };
+
+    const [hgb, hct, mchc] = ['HGB', 'HCT', 'MCHC'].map(id => byAnalyte.get(id));
+    if (hgb !== undefined && hct && mchc && Math.abs(hgb / hct * 100 - mchc) > mchc * MCHC_TOLERANCE) {
+      inconsistent(['HGB', 'HCT', 'MCHC'], `MCHC ${mchc} g/dL doesn't match Hb ÷ Hct (${this.round(hgb / hct * 100, 3)} g/dL)`);
+    }
+
+    const [total, direct, indirect] = ['BILI_T', 'BILI_D', 'BILI_I'].map(id => byAnalyte.get(id));
+    if (total !== undefined && direct !== undefined && indirect !== undefined &&
+        Math.abs(total - direct - indirect) > Math.max(BILIRUBIN_TOLERANCE.absolute, total * BILIRUBIN_TOLERANCE.relative)) {
+      inconsistent(['BILI_T', 'BILI_D', 'BILI_I'], `Total bilirubin ${total} mg/dL doesn't match direct + indirect (${this.round(direct + indirect, 3)} mg/dL)`);
+    }
+
+    // A partial differential can sum to less than 100%, never to more
+    const differential = DIFFERENTIAL.filter(id => byAnalyte.has(id));
+    const sum = differential.reduce((total, id) => total + byAnalyte.get(id)!, 0);
+    if (differential.length > 1 && (sum > 100 + DIFFERENTIAL_TOLERANCE ||
+        (differential.length === DIFFERENTIAL.length && sum < 100 - DIFFERENTIAL_TOLERANCE))) {
+      inconsistent(differential, `Differential counts add up to ${this.round(sum, 3)}%, not 100%`);
+    }
+
+    if (findings.length > 0) {
+      logger.info(`🔎 ${findings.length} implausible or inconsistent values, ${repaired.size} decimal slips repaired`);
+    }
+    return findings;
+  }
+
+  /**
+   * A value outside its range is tested against the analyte's physiologic
+   * limits and for a decimal shift that puts it back inside the range.
+   */
+  private checkValue(metric: HealthMetric): PlausibilityFinding | null {
+    const analyte = metric.analyteId ? this.analyteCatalog.get(metric.analyteId) : undefined;
+    const limits = metric.analyteId ? PHYSIOLOGIC_LIMITS[metric.analyteId] : undefined;
+    if (!analyte || metric.valueType || metric.extractionMethod === 'manual') return null;
+
+    const range = metric.normalRange && metric.normalRange.length >= 2
+      ? [Math.min(...metric.normalRange), Math.max(...metric.normalRange)]
+      : null;
+    if (range && metric.value >= range[0] && metric.value <= range[1]) return null;
+
+    const value = this.defaultUnitValue(metric);
+    const possible = (factor: number) => !limits || value === null ||
+      (value * factor >= limits.min && value * factor <= limits.max);
+    const shifts = range && metric.value > 0
+      ? DECIMAL_SHIFTS.filter(factor => possible(factor))
+        .map(factor => this.round(metric.value * factor, 12))
+        .filter(shifted => shifted >= range[0] && shifted <= range[1])
+      : [];
+    const unit = metric.unit ? ` ${metric.unit}` : '';
+
+    if (!possible(1)) {
+      // Only a printed range is specific enough to correct against
+      if (shifts.length === 1 && metric.rangeSource === PRINTED_RANGE_SOURCE) {
+        return {
+          metric,
+          repairedValue: shifts[0],
+          note: {
+            reason: 'decimal-slip',
+            message: `Read as ${metric.value}${unit}, which isn't possible for ${analyte.name}; corrected to ${shifts[0]} (likely a missed decimal point)`
+          }
+        };
+      }
+      return {
+        metric,
+        note: {
+          reason: 'implausible',
+          message: `${metric.value}${unit} isn't a possible ${analyte.name} result`,
+          ...(shifts.length > 0 && { suggestions: shifts.map(String) })
+        }
+      };
+    }
+
+    const farOutside = range && (metric.value > range[1] * FAR_OUTSIDE_FACTOR || metric.value < range[0] / FAR_OUTSIDE_FACTOR);
+    if (farOutside && shifts.length > 0) {
+      return {
+        metric,
+        note: {
+          reason: 'decimal-slip',
+          message: 'Far outside the printed range; may be a missed decimal point',
+          suggestions: shifts.map(String)
+        }
+      };
+    }
+    return null;
+  }
+
+  // Catalogue limits are in the default unit; a value without a unit is taken to be in it
+  private defaultUnitValue(metric: HealthMetric, repaired?: number): number | null {
+    const analyte = metric.analyteId ? this.analyteCatalog.get(metric.analyteId) : undefined;
+    if (!analyte) return null;
+    if (!metric.unit || metric.unit === analyte.defaultUnit) return repaired ?? metric.value;
+    if (metric.normalizedValue === undefined || metric.value === 0) return null;
+    return repaired !== undefined ? metric.normalizedValue * (repaired / metric.value) : metric.normalizedValue;
+  }
+
+  private round(value: number, significantDigits: number): number {
+    return Number(value.toPrecision(significantDigits));
+  }
+}
@@ -0,0 +1,164 @@
+import tesseract from 'node-tesseract-ocr';
+import { promisify } from 'util';
+import { exec } from 'child_process';
+import { logger } from '../../utils/logger';
+
+const execPromise = promisify(exec);
+
+export type Script = 'Latin' | 'Devanagari' | 'Bengali' | 'Gujarati' | 'Tamil' | 'Telugu';
+
+export interface ScriptDetection {
+  script: Script;
+  confidence: number;
+  method: 'osd' | 'text' | 'hint' | 'default';
+}
+
+const SCRIPT_RANGES: { script: Script; start: number; end: number }[] = [
+  { script: 'Devanagari', start: 0x0900, end: 0x097f },
+  { script: 'Bengali', start: 0x0980, end: 0x09ff },
+  { script: 'Gujarati', start: 0x0a80, end: 0x0aff },
+  { script: 'Tamil', start: 0x0b80, end: 0x0bff },
+  { script: 'Telugu', start: 0x0c00, end: 0x0c7f }
+];
+
+// Tesseract packs per script, most common first; Hindi and Marathi share Devanagari
+const SCRIPT_LANGUAGES: Record<Script, string[]> = {
+  Latin: [],
+  Devanagari: ['hin', 'mar'],
+  Bengali: ['ben'],
+  Gujarati: ['guj'],
+  Tamil: ['tam'],
+  Telugu: ['tel']
+};
+
+// UI locales (frontend messages/*.json) to Tesseract packs
+const LOCALE_LANGUAGES: Record<string, string> = {
+  hi: 'hin', mr: 'mar', ta: 'tam', te: 'tel', bn: 'ben', gu: 'guj'
+};
+
+// EasyOCR has no Gujarati model
+const EASYOCR_LANGUAGES: Record<string, string> = {
+  hin: 'hi', mar: 'mr', tam: 'ta', tel: 'te', ben: 'bn'
+};
+
+// Share of letters that must be in an Indian script before it counts
+const MIN_SCRIPT_SHARE = 0.1;
+const MIN_OSD_CONFIDENCE = 1.5;
+
+/**
+ * ScriptDetector - Works out which script a page is printed in
+ *
+ * Reports from smaller labs often mix Devanagari or Tamil headers with
+ * English values, so pages are OCR'd with English plus the pack for the
+ * detected script. Images go through Tesseract's orientation and script
+ * detection; text-layer pages are classified by Unicode block.
+ */
+export class ScriptDetector {
+  private static instance: ScriptDetector;
+  private installedLanguages?: Promise<Set<string>>;
+
+  static getInstance(): ScriptDetector {
+    if (!ScriptDetector.instance) {
+      ScriptDetector.instance = new ScriptDetector();
+    }
+    return ScriptDetector.instance;
+  }
+
+  detectFromText(text: string): ScriptDetection {
+    const counts = new Map<Script, number>();
+    let letters = 0;
+
+    for (const char of text) {
+      if (!/\p{L}/u.test(char)) continue;
+      letters++;
+      const code = char.codePointAt(0)!;
+      const range = SCRIPT_RANGES.find(r => code >= r.start && code <= r.end);
+      if (range) counts.set(range.script, (counts.get(range.script) || 0) + 1);
+    }
+
+    const [script, count] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] || ['Latin', 0];
+    if (letters === 0 || count / letters < MIN_SCRIPT_SHARE) {
+      return { script: 'Latin', confidence: letters === 0 ? 0 : 100, method: 'text' };
+    }
+    return { script, confidence: Math.round((count / letters) * 100), method: 'text' };
+  }
+
+  /**
+   * Run Tesseract OSD on an image. Falls back to the user's UI language, then
+   * to Latin, when the osd pack is missing or the result is unsure.
+   */
+  async detectFromImage(image: Buffer, localeHint?: string): Promise<ScriptDetection> {
+    try {
+      const output = await tesseract.recognize(image, { lang: 'osd', psm: 0 });
+      const script = output.match(/Script:\s*(\w+)/)?.[1] as Script | undefined;
+      const confidence = parseFloat(output.match(/Script confidence:\s*([\d.]+)/)?.[1] || '0');
+
+      if (script && script in SCRIPT_LANGUAGES && confidence >= MIN_OSD_CONFIDENCE) {
+        return { script, confidence, method: 'osd' };
+      }
+    } catch (error) {
+      logger.debug('Tesseract script detection failed:', error);
+    }
+
+    const hinted = this.scriptForLocale(localeHint);
+    if (hinted) return { script: hinted, confidence: 0, method: 'hint' };
+    return { script: 'Latin', confidence: 0, method: 'default' };
+  }
+
+  // Tesseract lang string, e.g. "eng+hin", limited to installed packs
+  async getTesseractLanguages(script: Script, localeHint?: string): Promise<string> {
+    const pack = await this.pickLanguage(script, localeHint);
+    return pack ? `eng+${pack}` : 'eng';
+  }
+
+  getEasyOCRLanguages(script: Script, localeHint?: string): string[] {
+    const candidates = this.orderByHint(SCRIPT_LANGUAGES[script], localeHint);
+    const code = candidates.map(language => EASYOCR_LANGUAGES[language]).find(Boolean);
+    return code ? ['en', code] : ['en'];
+  }
+
+  private async pickLanguage(script: Script, localeHint?: string): Promise<string | undefined> {
+    const candidates = this.orderByHint(SCRIPT_LANGUAGES[script], localeHint);
+    if (candidates.length === 0) return undefined;
+
+    const installed = await this.getInstalledLanguages();
+    const pack = candidates.find(language => installed.has(language));
+    if (!pack) {
+      logger.warn(`⚠️ No Tesseract language pack for ${script} script (install ${candidates.join(' or ')})`);
+    }
+    return pack;
+  }
+
+  // A Marathi-speaking user's Devanagari report is more likely Marathi
+  private orderByHint(languages: string[], localeHint?: string): string[] {
+    const hinted = this.languageForLocale(localeHint);
+    return hinted && languages.includes(hinted)
+      ? [hinted, ...languages.filter(language => language !== hinted)]
+      : languages;
+  }
+
+  private scriptForLocale(localeHint?: string): Script | undefined {
+    const language = this.languageForLocale(localeHint);
+    if (!language) return undefined;
+    return (Object.keys(SCRIPT_LANGUAGES) as Script[]).find(script => SCRIPT_LANGUAGES[script].includes(language));
+  }
+
+  // "mr", "mr-IN" -> "mar"
+  private languageForLocale(localeHint?: string): string | undefined {
+    return localeHint ? LOCALE_LANGUAGES[localeHint.toLowerCase().split(/[-_]/)[0]] : undefined;
+  }
+
+  private getInstalledLanguages(): Promise<Set<string>> {
+    if (!this.installedLanguages) {
+      this.installedLanguages = execPromise('tesseract --list-langs')
+        .then(({ stdout, stderr }) => new Set(
+          `${stdout}\n${stderr}`.split('\n').map(line => line.trim()).filter(line => /^[a-z_]+$/i.test(line))
+        ))
+        .catch(error => {
+          logger.debug('Could not list Tesseract languages:', error);
+          return new Set<string>();
+        });
+    }
+    return this.installedLanguages;
+  }
+}
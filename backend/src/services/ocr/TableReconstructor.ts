@@ -0,0 +1,457 @@
+import { logger } from '../../utils/logger';
+
+/**
+ * A recognised word (or short phrase) with its position on the page. Coordinates
+ * are pixels of the page image that was OCR'd; for PDF text layers they are
+ * scaled to the same resolution pages are rendered at.
+ */
+export interface WordBox {
+  text: string;
+  confidence: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  page?: number;
+  alternatives?: string[]; // Other engines' readings of a number in it, when they disagreed
+}
+
+// Region of a page, in the same pixel space as WordBox
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A line of text as laid out on the page, for tracing line-pattern matches
+export interface TextLine {
+  page: number;
+  text: string;
+  box: BoundingBox;
+  words: WordBox[];
+}
+
+export type ColumnRole = 'test' | 'result' | 'unit' | 'reference';
+
+export interface TableCell {
+  text: string;
+  words: WordBox[];
+}
+
+export interface TableRow {
+  page: number;
+  y: number;
+  height: number;
+  cells: Partial<Record<ColumnRole, TableCell>>;
+  section?: string;
+}
+
+interface Line {
+  page: number;
+  y: number;
+  height: number;
+  words: WordBox[];
+}
+
+interface Segment {
+  text: string;
+  words: WordBox[];
+  x0: number;
+  x1: number;
+}
+
+interface Column {
+  role: ColumnRole;
+  x0: number;
+  x1: number;
+}
+
+// A table group is one logical table; side-by-side layouts produce several
+interface TableGroup {
+  columns: Column[];
+  x0: number;
+  x1: number;
+}
+
+type SegmentKind = 'text' | 'number' | 'unit' | 'range' | 'value-unit';
+
+const HEADER_PATTERNS: Record<ColumnRole, RegExp> = {
+  test: /^(test(\s*name)?|tests|investigations?|parameters?|description|examination|analyte|particulars)$/i,
+  result: /^(results?|values?|observed(\s*values?)?|your\s*value|observations?|findings?)$/i,
+  unit: /^(units?|uom)$/i,
+  reference: /^((biological\s*)?ref(erence)?\.?(\s*(range|interval|values?|limits?))?|normal(\s*(range|values?))?|bio\.?\s*ref\.?(\s*(range|interval))?)$/i
+};
+
+const NUMBER_REGEX = /^[<>≤≥]?\s*\d+(?:[.,]\d+)?$/;
+const RANGE_REGEX = /^[<>≤≥]\s*\d|\d\s*(?:-|–|~|to)\s*\d/i;
+const UNIT_REGEX = /^(?:[a-zA-Zµμ]{0,6}\/[a-zA-Zµμ0-9^.*]{1,10}|%|fl|pg|mm\/hr|[mµμn]?(?:g|mol|iu|u)\/(?:d?l|ml|µl|μl|l)|10\^?\d+\/[a-zA-Zµμ]+|lakhs?\/cumm|cells\/[a-zA-Zµμ]+|ratio|secs?|seconds)$/i;
+
+/**
+ * TableReconstructor - Rebuilds lab result tables from OCR word boxes
+ *
+ * Lab reports are laid out as Test / Result / Unit / Reference Interval tables,
+ * often two tables side by side and with test names wrapped over two lines.
+ * Instead of guessing columns per text line, words are grouped into lines,
+ * column boundaries are taken from the header row (or inferred from how segment
+ * edges line up across the page), and every word is assigned to a cell.
+ */
+export class TableReconstructor {
+  private static instance: TableReconstructor;
+
+  static getInstance(): TableReconstructor {
+    if (!TableReconstructor.instance) {
+      TableReconstructor.instance = new TableReconstructor();
+    }
+    return TableReconstructor.instance;
+  }
+
+  reconstruct(words: WordBox[]): TableRow[] {
+    const usable = words.filter(w => w.text.trim().length > 0 && w.width > 0 && w.height > 0);
+    if (usable.length === 0) return [];
+
+    const pages = [...new Set(usable.map(w => w.page ?? 1))].sort((a, b) => a - b);
+    const rows: TableRow[] = [];
+    let groups: TableGroup[] | null = null;
+
+    for (const page of pages) {
+      const lines = this.groupLines(usable.filter(w => (w.page ?? 1) === page), page);
+      const header = this.findHeader(lines);
+
+      // Reports usually repeat the header on every page; when they don't, the
+      // previous page's columns are reused
+      let bodyLines = lines;
+      if (header) {
+        groups = header.groups;
+        bodyLines = lines.slice(header.lineIndex + 1);
+      } else {
+        groups = this.inferGroups(lines) || groups;
+      }
+
+      if (!groups) continue;
+      for (const group of groups) {
+        rows.push(...this.mergeWrappedRows(this.buildRows(bodyLines, group)));
+      }
+    }
+
+    logger.debug(`📐 Reconstructed ${rows.length} table rows from ${usable.length} word boxes`);
+    return rows;
+  }
+
+  textLines(words: WordBox[]): TextLine[] {
+    const usable = words.filter(w => w.text.trim().length > 0 && w.width > 0 && w.height > 0);
+    const pages = [...new Set(usable.map(w => w.page ?? 1))].sort((a, b) => a - b);
+
+    return pages.flatMap(page => this.groupLines(usable.filter(w => (w.page ?? 1) === page), page)
+      .map(line => {
+        const sorted = [...line.words].sort((a, b) => a.x - b.x);
+        return { page, text: sorted.map(w => w.text).join(' '), box: boundingBox(sorted), words: sorted };
+      }));
+  }
+
+  private groupLines(words: WordBox[], page: number): Line[] {
+    const lines: Line[] = [];
+    const sorted = [...words].sort((a, b) => (a.y + a.height / 2) - (b.y + b.height / 2));
+
+    for (const word of sorted) {
+      const center = word.y + word.height / 2;
+      const line = lines.find(l => Math.abs(l.y + l.height / 2 - center) < Math.max(l.height, word.height) * 0.5);
+      if (line) {
+        line.words.push(word);
+        const top = Math.min(line.y, word.y);
+        const bottom = Math.max(line.y + line.height, word.y + word.height);
+        line.y = top;
+        line.height = bottom - top;
+      } else {
+        lines.push({ page, y: word.y, height: word.height, words: [word] });
+      }
+    }
+
+    for (const line of lines) {
+      line.words.sort((a, b) => a.x - b.x);
+    }
+    return lines.sort((a, b) => a.y - b.y);
+  }
+
+  /**
+   * Split a line into phrases wherever the horizontal gap is wider than a
+   * normal inter-word space.
+   */
+  private segmentLine(line: Line): Segment[] {
+    const segments: Segment[] = [];
+    const gapThreshold = line.height * 1.2;
+
+    for (const word of line.words) {
+      const current = segments[segments.length - 1];
+      if (current && word.x - current.x1 <= gapThreshold) {
+        current.words.push(word);
+        current.text += ` ${word.text}`;
+        current.x1 = Math.max(current.x1, word.x + word.width);
+      } else {
+        segments.push({ text: word.text, words: [word], x0: word.x, x1: word.x + word.width });
+      }
+    }
+    return segments;
+  }
+
+  private matchHeader(text: string): ColumnRole | null {
+    const cleaned = text.replace(/[:|]/g, '').trim();
+    for (const [role, pattern] of Object.entries(HEADER_PATTERNS) as [ColumnRole, RegExp][]) {
+      if (pattern.test(cleaned)) return role;
+    }
+    return null;
+  }
+
+  private findHeader(lines: Line[]): { lineIndex: number; groups: TableGroup[] } | null {
+    for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+      const cells: { role: ColumnRole; x0: number; x1: number }[] = [];
+
+      for (const segment of this.segmentLine(lines[lineIndex])) {
+        const role = this.matchHeader(segment.text);
+        if (role) {
+          cells.push({ role, x0: segment.x0, x1: segment.x1 });
+          continue;
+        }
+        // Header words set close together ("Result Unit") end up in one segment
+        for (const word of segment.words) {
+          const wordRole = this.matchHeader(word.text);
+          if (wordRole) cells.push({ role: wordRole, x0: word.x, x1: word.x + word.width });
+        }
+      }
+
+      const roles = new Set(cells.map(c => c.role));
+      if (roles.has('result') && roles.size >= 2) {
+        return { lineIndex, groups: this.splitGroups(cells) };
+      }
+    }
+    return null;
+  }
+
+  private inferGroups(lines: Line[]): TableGroup[] | null {
+    const multiSegmentLines = lines
+      .map(line => this.segmentLine(line))
+      .filter(segments => segments.length >= 2);
+    if (multiSegmentLines.length < 2) return null;
+
+    const tolerance = this.medianHeight(lines) * 2;
+    const clusters: { x0: number; segments: Segment[]; lines: Set<number> }[] = [];
+
+    multiSegmentLines.forEach((segments, lineIndex) => {
+      for (const segment of segments) {
+        const cluster = clusters.find(c => Math.abs(c.x0 - segment.x0) <= tolerance);
+        if (cluster) {
+          cluster.segments.push(segment);
+          cluster.lines.add(lineIndex);
+          cluster.x0 = Math.min(cluster.x0, segment.x0);
+        } else {
+          clusters.push({ x0: segment.x0, segments: [segment], lines: new Set([lineIndex]) });
+        }
+      }
+    });
+
+    const minSupport = Math.max(2, Math.floor(multiSegmentLines.length * 0.3));
+    const columns: { role: ColumnRole; x0: number; x1: number }[] = [];
+
+    for (const cluster of clusters.filter(c => c.lines.size >= minSupport).sort((a, b) => a.x0 - b.x0)) {
+      const kinds = cluster.segments.map(s => this.classifySegment(s.text));
+      const majority = this.majorityKind(kinds);
+      const role: ColumnRole | null =
+        majority === 'text' ? 'test' :
+        majority === 'number' || majority === 'value-unit' ? 'result' :
+        majority === 'unit' ? 'unit' :
+        majority === 'range' ? 'reference' : null;
+      if (!role) continue;
+
+      const x1 = Math.max(...cluster.segments.map(s => s.x1));
+      columns.push({ role, x0: cluster.x0, x1 });
+    }
+
+    if (!columns.some(c => c.role === 'result') || !columns.some(c => c.role === 'test')) {
+      return null;
+    }
+    return this.splitGroups(columns);
+  }
+
+  /**
+   * Header cells ordered left to right; a second "test" column after a result
+   * column starts another table placed beside the first.
+   */
+  private splitGroups(cells: { role: ColumnRole; x0: number; x1: number }[]): TableGroup[] {
+    const groups: Column[][] = [];
+    let current: Column[] = [];
+
+    for (const cell of [...cells].sort((a, b) => a.x0 - b.x0)) {
+      if (cell.role === 'test' && current.some(c => c.role === 'result')) {
+        groups.push(current);
+        current = [];
+      }
+      if (!current.some(c => c.role === cell.role)) {
+        current.push({ ...cell });
+      }
+    }
+    if (current.length > 0) groups.push(current);
+
+    return groups
+      .filter(columns => columns.some(c => c.role === 'result'))
+      .map((columns, index, all) => {
+        const next = all[index + 1];
+        return {
+          columns,
+          x0: index === 0 ? -Infinity : columns[0].x0 - (columns[0].x0 - all[index - 1][all[index - 1].length - 1].x1) / 2,
+          x1: next ? next[0].x0 - (next[0].x0 - columns[columns.length - 1].x1) / 2 : Infinity
+        };
+      });
+  }
+
+  private buildRows(lines: Line[], group: TableGroup): TableRow[] {
+    const rows: TableRow[] = [];
+    const { columns } = group;
+
+    for (const line of lines) {
+      const words = line.words.filter(w => {
+        const center = w.x + w.width / 2;
+        return center >= group.x0 && center < group.x1;
+      });
+      if (words.length === 0) continue;
+
+      const cells: Partial<Record<ColumnRole, TableCell>> = {};
+      for (const word of words) {
+        const role = this.columnFor(word, columns);
+        const cell = cells[role] || (cells[role] = { text: '', words: [] });
+        cell.words.push(word);
+        cell.text = cell.text ? `${cell.text} ${word.text}` : word.text;
+      }
+
+      rows.push({ page: line.page, y: line.y, height: line.height, cells });
+    }
+    return rows;
+  }
+
+  /**
+   * Boundaries sit halfway between one column's right edge and the next one's
+   * left edge, which tolerates left-, right- and centre-aligned values.
+   */
+  private columnFor(word: WordBox, columns: Column[]): ColumnRole {
+    const center = word.x + word.width / 2;
+    for (let i = 0; i < columns.length - 1; i++) {
+      const boundary = columns[i + 1].x0 - Math.max(0, columns[i + 1].x0 - columns[i].x1) / 2;
+      if (center < boundary) return columns[i].role;
+    }
+    return columns[columns.length - 1].role;
+  }
+
+  /**
+   * Join test names wrapped across lines and pick out section headings
+   * ("LIVER FUNCTION TEST") that sit on a line of their own.
+   */
+  private mergeWrappedRows(rows: TableRow[]): TableRow[] {
+    const merged: TableRow[] = [];
+    let pendingName: TableRow | null = null;
+    let section: string | undefined;
+
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      const hasResult = !!row.cells.result;
+      const nameOnly = !hasResult && !!row.cells.test && !row.cells.unit && !row.cells.reference;
+
+      if (nameOnly) {
+        const text = row.cells.test!.text.trim();
+        const previous = merged[merged.length - 1];
+        const next = rows[i + 1];
+        const gapAbove = previous && previous.page === row.page ? row.y - (previous.y + previous.height) : Infinity;
+        const gapBelow = next && next.page === row.page ? next.y - (row.y + row.height) : Infinity;
+        const wrapLimit = row.height * 0.8;
+
+        if (/^[A-Z0-9\s&()/-]+:?$/.test(text) && text.length > 3 && gapAbove >= wrapLimit) {
+          section = text.replace(/:$/, '');
+          pendingName = null;
+          continue;
+        }
+
+        // Tail of the name above: "(HbA1c)", a lower-case continuation, or a
+        // line that hugs the previous row more closely than the next one
+        const continuesAbove = previous?.cells.test && gapAbove < wrapLimit && (
+          /^[a-z(]/.test(text) ||
+          gapAbove < gapBelow * 0.8 ||
+          (gapAbove <= gapBelow && !!next?.cells.test && !!next?.cells.result)
+        );
+        if (continuesAbove) {
+          this.appendToCell(previous, 'test', row.cells.test!);
+          continue;
+        }
+
+        // Otherwise it is the first half of the next row's name
+        pendingName = gapBelow < wrapLimit
+          ? (pendingName ? this.combineRows(pendingName, row) : row)
+          : null;
+        continue;
+      }
+
+      if (!hasResult) {
+        pendingName = null;
+        continue;
+      }
+
+      if (pendingName) {
+        if (row.cells.test) {
+          const prefix = pendingName.cells.test!;
+          row.cells.test = {
+            text: `${prefix.text} ${row.cells.test.text}`,
+            words: [...prefix.words, ...row.cells.test.words]
+          };
+        } else {
+          row.cells.test = pendingName.cells.test;
+        }
+        pendingName = null;
+      }
+
+      if (!row.cells.test) continue;
+      merged.push({ ...row, section });
+    }
+
+    return merged;
+  }
+
+  private appendToCell(row: TableRow, role: ColumnRole, addition: TableCell): void {
+    const cell = row.cells[role];
+    row.cells[role] = cell
+      ? { text: `${cell.text} ${addition.text}`, words: [...cell.words, ...addition.words] }
+      : addition;
+  }
+
+  private combineRows(first: TableRow, second: TableRow): TableRow {
+    const combined = { ...first, cells: { ...first.cells } };
+    this.appendToCell(combined, 'test', second.cells.test!);
+    return combined;
+  }
+
+  private classifySegment(text: string): SegmentKind {
+    const trimmed = text.trim();
+    if (RANGE_REGEX.test(trimmed)) return 'range';
+    if (NUMBER_REGEX.test(trimmed)) return 'number';
+    if (UNIT_REGEX.test(trimmed)) return 'unit';
+
+    const [first, ...rest] = trimmed.split(/\s+/);
+    if (NUMBER_REGEX.test(first) && rest.length > 0 && UNIT_REGEX.test(rest.join(''))) return 'value-unit';
+    return 'text';
+  }
+
+  private majorityKind(kinds: SegmentKind[]): SegmentKind {
+    const counts = new Map<SegmentKind, number>();
+    for (const kind of kinds) counts.set(kind, (counts.get(kind) || 0) + 1);
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+  }
+
+  private medianHeight(lines: Line[]): number {
+    const heights = lines.map(l => l.height).sort((a, b) => a - b);
+    return heights[Math.floor(heights.length / 2)] || 10;
+  }
+}
+
+export function boundingBox(words: WordBox[]): BoundingBox {
+  const x0 = Math.min(...words.map(w => w.x));
+  const y0 = Math.min(...words.map(w => w.y));
+  const x1 = Math.max(...words.map(w => w.x + w.width));
+  const y1 = Math.max(...words.map(w => w.y + w.height));
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
@@ -0,0 +1,105 @@
+import { logger } from '../../../utils/logger';
+import { config } from '../../../config';
+import { WordBox } from '../TableReconstructor';
+import { applyPreprocessing, PREPROCESSING, scaleToOriginal } from '../preprocessing';
+import { EngineCapabilities, EngineOutput, OCREngine, RecognizeOptions } from './OCREngine';
+
+const POLL_INTERVAL_MS = 100;
+const MAX_POLL_MS = 60 * 1000;
+
+/**
+ * Azure Computer Vision Read API. Needs `@azure/cognitiveservices-computervision`
+ * and `@azure/ms-rest-js`, which aren't dependencies, plus
+ * AZURE_COMPUTER_VISION_KEY and AZURE_COMPUTER_VISION_ENDPOINT.
+ */
+export class AzureVisionEngine implements OCREngine {
+  readonly id = 'azure-vision';
+  readonly name = 'Azure Computer Vision';
+  readonly capabilities: EngineCapabilities = {
+    local: false,
+    wordBoxes: true,
+    scripts: ['Latin', 'Devanagari', 'Bengali', 'Gujarati', 'Tamil', 'Telugu'],
+    speed: 'fast',
+    cost: 'paid'
+  };
+
+  private client?: any;
+
+  async isAvailable(): Promise<boolean> {
+    if (!config.ocr.azureVision.key || !config.ocr.azureVision.endpoint) return false;
+    try {
+      this.getClient();
+      return true;
+    } catch (error) {
+      logger.warn('⚠️ Azure Computer Vision not available (npm install @azure/cognitiveservices-computervision @azure/ms-rest-js):', error);
+      return false;
+    }
+  }
+
+  async recognize(buffer: Buffer, options: RecognizeOptions): Promise<EngineOutput> {
+    logger.info('🔍 Processing with Azure Computer Vision...');
+    const client = this.getClient();
+
+    const pipeline = options.preprocessing?.[0] || 'medical-optimized';
+    const image = await applyPreprocessing(buffer, PREPROCESSING[pipeline]);
+    const { operationLocation } = await client.readInStream(image);
+    const operationId = operationLocation?.split('/').pop();
+    if (!operationId) {
+      throw new Error('Failed to start Azure OCR operation');
+    }
+
+    // Reading is asynchronous on Azure's side
+    const startedAt = Date.now();
+    let readResult = await client.getReadResult(operationId);
+    while (readResult.status === 'notStarted' || readResult.status === 'running') {
+      options.signal?.throwIfAborted();
+      if (Date.now() - startedAt > MAX_POLL_MS) throw new Error('Azure OCR operation timed out');
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      readResult = await client.getReadResult(operationId);
+    }
+    if (readResult.status !== 'succeeded') {
+      throw new Error('Azure OCR operation failed');
+    }
+
+    const scale = await scaleToOriginal(buffer, image);
+    const lines: string[] = [];
+    const words: WordBox[] = [];
+    for (const page of readResult.analyzeResult?.readResults || []) {
+      for (const line of page.lines || []) {
+        lines.push(line.text);
+        for (const word of line.words || []) {
+          // Boxes are polygons: x1 y1 x2 y2 x3 y3 x4 y4, clockwise from top left
+          const box: number[] = word.boundingBox || [];
+          words.push({
+            text: word.text || '',
+            confidence: (word.confidence || 0) * 100,
+            x: (box[0] || 0) * scale,
+            y: (box[1] || 0) * scale,
+            width: Math.abs((box[4] || 0) - (box[0] || 0)) * scale,
+            height: Math.abs((box[5] || 0) - (box[1] || 0)) * scale
+          });
+        }
+      }
+    }
+
+    return {
+      text: lines.join('\n'),
+      confidence: words.length > 0 ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length : undefined,
+      words,
+      preprocessingUsed: [pipeline]
+    };
+  }
+
+  private getClient(): any {
+    if (!this.client) {
+      // Optional dependencies, only loaded once credentials are configured
+      const { ComputerVisionClient } = require('@azure/cognitiveservices-computervision');
+      const { ApiKeyCredentials } = require('@azure/ms-rest-js');
+      const credentials = new ApiKeyCredentials({
+        inHeader: { 'Ocp-Apim-Subscription-Key': config.ocr.azureVision.key }
+      });
+      this.client = new ComputerVisionClient(credentials, config.ocr.azureVision.endpoint);
+    }
+    return this.client;
+  }
+}
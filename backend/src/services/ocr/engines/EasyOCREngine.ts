@@ -0,0 +1,25 @@
+import { ScriptDetector } from '../ScriptDetector';
+import { EngineCapabilities, RecognizeOptions } from './OCREngine';
+import { PythonOCREngine } from './PythonOCREngine';
+
+// Deep-learning OCR; copes better than Tesseract with photos and uneven print
+export class EasyOCREngine extends PythonOCREngine {
+  readonly id = 'easyocr';
+  readonly name = 'EasyOCR';
+  readonly capabilities: EngineCapabilities = {
+    local: true,
+    wordBoxes: true,
+    // No Gujarati model
+    scripts: ['Latin', 'Devanagari', 'Bengali', 'Tamil', 'Telugu'],
+    speed: 'slow',
+    cost: 'free'
+  };
+
+  protected readonly module = 'easyocr';
+  protected readonly installHint = 'easyocr';
+
+  protected workerRequest(options: RecognizeOptions) {
+    const languages = ScriptDetector.getInstance().getEasyOCRLanguages(options.script, options.languageHint);
+    return { method: 'easyocr', params: { languages } };
+  }
+}
@@ -0,0 +1,75 @@
+import { logger } from '../../../utils/logger';
+import { config } from '../../../config';
+import { applyPreprocessing, PREPROCESSING, scaleToOriginal } from '../preprocessing';
+import { EngineCapabilities, EngineOutput, OCREngine, RecognizeOptions } from './OCREngine';
+
+/**
+ * Google Cloud Vision text detection. Needs `@google-cloud/vision`, which
+ * isn't a dependency, and a service account in GOOGLE_APPLICATION_CREDENTIALS.
+ */
+export class GoogleVisionEngine implements OCREngine {
+  readonly id = 'google-vision';
+  readonly name = 'Google Vision API';
+  readonly capabilities: EngineCapabilities = {
+    local: false,
+    wordBoxes: true,
+    scripts: ['Latin', 'Devanagari', 'Bengali', 'Gujarati', 'Tamil', 'Telugu'],
+    speed: 'fast',
+    cost: 'paid'
+  };
+
+  private client?: any;
+
+  async isAvailable(): Promise<boolean> {
+    if (!config.ocr.googleVision.credentials) return false;
+    try {
+      this.getClient();
+      return true;
+    } catch (error) {
+      logger.warn('⚠️ Google Vision API not available (npm install @google-cloud/vision):', error);
+      return false;
+    }
+  }
+
+  async recognize(buffer: Buffer, options: RecognizeOptions): Promise<EngineOutput> {
+    logger.info('🔍 Processing with Google Vision API...');
+
+    const pipeline = options.preprocessing?.[0] || 'medical-optimized';
+    const image = await applyPreprocessing(buffer, PREPROCESSING[pipeline]);
+    // The client takes no signal; a page is one short call, so an abort is checked either side of it
+    options.signal?.throwIfAborted();
+    const [result] = await this.getClient().textDetection({ image: { content: image } });
+    options.signal?.throwIfAborted();
+    const scale = await scaleToOriginal(buffer, image);
+
+    // The first annotation is the whole text, the rest are words
+    const detections: any[] = result.textAnnotations || [];
+    const words = detections.slice(1).map(detection => {
+      const vertices = detection.boundingPoly?.vertices || [];
+      return {
+        text: detection.description || '',
+        confidence: (detection.confidence || 0) * 100,
+        x: (vertices[0]?.x || 0) * scale,
+        y: (vertices[0]?.y || 0) * scale,
+        width: Math.abs((vertices[2]?.x || 0) - (vertices[0]?.x || 0)) * scale,
+        height: Math.abs((vertices[2]?.y || 0) - (vertices[0]?.y || 0)) * scale
+      };
+    });
+
+    return {
+      text: detections[0]?.description || '',
+      confidence: words.length > 0 ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length : undefined,
+      words,
+      preprocessingUsed: [pipeline]
+    };
+  }
+
+  private getClient(): any {
+    if (!this.client) {
+      // Optional dependency, only loaded once credentials are configured
+      const { ImageAnnotatorClient } = require('@google-cloud/vision');
+      this.client = new ImageAnnotatorClient();
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,45 @@
+import { WordBox } from '../TableReconstructor';
+import { Script } from '../ScriptDetector';
+import { PreprocessingName } from '../preprocessing';
+
+export interface EngineCapabilities {
+  local: boolean;          // False for cloud engines, which send the page off this machine
+  wordBoxes: boolean;      // Returns word positions, which table reconstruction needs
+  scripts: Script[];       // Scripts it can read; every engine reads Latin
+  speed: 'fast' | 'medium' | 'slow';
+  cost: 'free' | 'paid';
+}
+
+export interface RecognizeOptions {
+  script: Script;
+  languageHint?: string;   // UI locale, e.g. 'mr', used when the script alone is ambiguous
+  enhancedPreprocessing?: boolean; // Try several preprocessing pipelines where the engine supports it
+  preprocessing?: PreprocessingName[]; // Pipelines to use instead of the engine's own choice, e.g. to benchmark them
+  signal?: AbortSignal;    // Engines stop at the next point they can and reject
+}
+
+export interface EngineOutput {
+  text: string;
+  confidence?: number;     // The engine's own 0-100 score, when it gives one
+  words?: WordBox[];       // In pixels of the image passed to recognize
+  preprocessingUsed?: string[];
+}
+
+/**
+ * OCREngine - What an OCR engine adapter implements
+ *
+ * Adapters only read text off one page image. Choosing engines, scoring
+ * and combining their output, and extracting metrics are shared
+ * (LocalOCRService, HealthMetricExtractor), so adding an engine means
+ * writing an adapter and registering it with OCREngineRegistry.
+ */
+export interface OCREngine {
+  readonly id: string;     // Used in OCR_ENGINES and results, e.g. 'easyocr'
+  readonly name: string;   // Shown as the result's provider, e.g. 'EasyOCR'
+  readonly capabilities: EngineCapabilities;
+
+  // Whether the engine can run here: installed, configured, credentials present
+  isAvailable(): Promise<boolean>;
+
+  recognize(image: Buffer, options: RecognizeOptions): Promise<EngineOutput>;
+}
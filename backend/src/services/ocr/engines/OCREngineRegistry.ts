@@ -0,0 +1,136 @@
+import { logger } from '../../../utils/logger';
+import { config } from '../../../config';
+import { Script } from '../ScriptDetector';
+import { EngineCapabilities, OCREngine } from './OCREngine';
+import { TesseractEngine } from './TesseractEngine';
+import { EasyOCREngine } from './EasyOCREngine';
+import { PaddleOCREngine } from './PaddleOCREngine';
+import { GoogleVisionEngine } from './GoogleVisionEngine';
+import { AzureVisionEngine } from './AzureVisionEngine';
+
+// ensemble: run every selected engine and keep the best reading
+// fallback: run them in order of preference, stopping at the first good enough one
+export type OCRPolicy = 'ensemble' | 'fallback';
+
+export interface EngineSelection {
+  engines: OCREngine[];
+  policy: OCRPolicy;
+}
+
+export interface EngineInfo {
+  id: string;
+  name: string;
+  capabilities: EngineCapabilities;
+  enabled: boolean;   // Listed in OCR_ENGINES
+  available: boolean;
+}
+
+// Always installed, so it's the last resort when no configured engine can run
+const FALLBACK_ENGINE = 'tesseract';
+
+/**
+ * OCREngineRegistry - The OCR engines this server knows and which to run
+ *
+ * Engines are used when listed in OCR_ENGINES and available here; the
+ * order there is the order of preference. Pages in an Indian script go to
+ * the engines that can read it. Cloud engines send pages off the machine,
+ * so they're never used unless listed explicitly.
+ */
+export class OCREngineRegistry {
+  private static instance: OCREngineRegistry;
+  private engines = new Map<string, OCREngine>();
+  private availability = new Map<string, Promise<boolean>>();
+
+  private constructor() {
+    [new TesseractEngine(), new EasyOCREngine(), new PaddleOCREngine(), new GoogleVisionEngine(), new AzureVisionEngine()]
+      .forEach(engine => this.register(engine));
+  }
+
+  static getInstance(): OCREngineRegistry {
+    if (!OCREngineRegistry.instance) {
+      OCREngineRegistry.instance = new OCREngineRegistry();
+    }
+    return OCREngineRegistry.instance;
+  }
+
+  // Adds an engine, or replaces the one registered under the same id
+  register(engine: OCREngine): void {
+    this.engines.set(engine.id, engine);
+    this.availability.delete(engine.id);
+  }
+
+  get(id: string): OCREngine | undefined {
+    return this.engines.get(id);
+  }
+
+  async initialize(): Promise<void> {
+    for (const id of config.ocr.engines.filter(id => !this.engines.has(id))) {
+      logger.warn(`⚠️ Unknown OCR engine "${id}" in OCR_ENGINES (known: ${[...this.engines.keys()].join(', ')})`);
+    }
+
+    const engines = await this.describe();
+    const usable = engines.filter(engine => engine.enabled && engine.available).map(engine => engine.name);
+    logger.info(`📊 OCR engines (${config.ocr.policy}): ${usable.join(', ') || 'none, falling back to Tesseract'}`);
+  }
+
+  // Checked once per engine, since it may mean running Python
+  isAvailable(id: string): Promise<boolean> {
+    const engine = this.engines.get(id);
+    if (!engine) return Promise.resolve(false);
+
+    if (!this.availability.has(id)) {
+      this.availability.set(id, engine.isAvailable().catch(error => {
+        logger.warn(`⚠️ Could not check OCR engine ${engine.name}:`, error);
+        return false;
+      }));
+    }
+    return this.availability.get(id)!;
+  }
+
+  async describe(): Promise<EngineInfo[]> {
+    return Promise.all([...this.engines.values()].map(async engine => ({
+      id: engine.id,
+      name: engine.name,
+      capabilities: engine.capabilities,
+      enabled: config.ocr.engines.includes(engine.id),
+      available: await this.isAvailable(engine.id)
+    })));
+  }
+
+  /**
+   * Engines to run on a page in the given script. `preferred` is an engine
+   * id to try first, or a policy to use instead of OCR_POLICY; `ids` replaces
+   * OCR_ENGINES, e.g. to benchmark one engine alone.
+   */
+  async select(script: Script, preferred?: string, ids: string[] = config.ocr.engines): Promise<EngineSelection> {
+    const configured = await this.usableEngines(ids);
+    const readsScript = configured.filter(engine => engine.capabilities.scripts.includes(script));
+    // Engines that can't read the script still read the English values
+    let engines = readsScript.length > 0 ? readsScript : configured;
+    let policy: OCRPolicy = config.ocr.policy;
+
+    if (preferred === 'ensemble' || preferred === 'fallback') {
+      policy = preferred;
+    } else if (preferred) {
+      const [engine] = await this.usableEngines([preferred]);
+      if (engine && (engine.capabilities.local || ids.includes(engine.id))) {
+        engines = [engine, ...engines.filter(candidate => candidate !== engine)];
+        policy = 'fallback';
+      } else {
+        logger.warn(`⚠️ OCR engine ${preferred} not available, using ${policy} of ${engines.map(e => e.id).join(', ') || FALLBACK_ENGINE}`);
+      }
+    }
+
+    if (engines.length === 0) engines = [this.engines.get(FALLBACK_ENGINE)!];
+    return { engines, policy };
+  }
+
+  private async usableEngines(ids: string[]): Promise<OCREngine[]> {
+    const engines: OCREngine[] = [];
+    for (const id of ids) {
+      const engine = this.engines.get(id);
+      if (engine && await this.isAvailable(id)) engines.push(engine);
+    }
+    return engines;
+  }
+}
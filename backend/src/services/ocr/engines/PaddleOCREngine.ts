@@ -0,0 +1,22 @@
+import { EngineCapabilities } from './OCREngine';
+import { PythonOCREngine } from './PythonOCREngine';
+
+// Strong on tables and dense layouts; run with its English model only
+export class PaddleOCREngine extends PythonOCREngine {
+  readonly id = 'paddleocr';
+  readonly name = 'PaddleOCR';
+  readonly capabilities: EngineCapabilities = {
+    local: true,
+    wordBoxes: true,
+    scripts: ['Latin'],
+    speed: 'slow',
+    cost: 'free'
+  };
+
+  protected readonly module = 'paddleocr';
+  protected readonly installHint = 'paddlepaddle paddleocr';
+
+  protected workerRequest() {
+    return { method: 'paddleocr', params: {} };
+  }
+}
@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { exec } from 'child_process';
+import { logger } from '../../../utils/logger';
+import { config } from '../../../config';
+import { PythonWorkerPool } from '../../workers/PythonWorkerPool';
+import { WordBox } from '../TableReconstructor';
+import { applyPreprocessing, PREPROCESSING, scaleToOriginal } from '../preprocessing';
+import { EngineCapabilities, EngineOutput, OCREngine, RecognizeOptions } from './OCREngine';
+
+const execPromise = promisify(exec);
+
+// What the Python OCR methods return (python/worker.py)
+interface WorkerOutput {
+  text: string;
+  confidence: number; // 0-100
+  words: { text: string; confidence: number; x: number; y: number; width: number; height: number }[];
+}
+
+/**
+ * Base for engines run in the Python worker pool. The page is preprocessed,
+ * written to a temp file for the worker to read, and the word boxes it
+ * returns are scaled back to the page image.
+ */
+export abstract class PythonOCREngine implements OCREngine {
+  abstract readonly id: string;
+  abstract readonly name: string;
+  abstract readonly capabilities: EngineCapabilities;
+
+  // Module imported to check the engine is installed, and the pip package to suggest if not
+  protected abstract readonly module: string;
+  protected abstract readonly installHint: string;
+
+  // Worker method and its parameters besides the image
+  protected abstract workerRequest(options: RecognizeOptions): { method: string; params: Record<string, unknown> };
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await execPromise(`${config.python.bin} -c "import ${this.module}"`);
+      return true;
+    } catch (error) {
+      logger.info(`ℹ️ ${this.name} not available - install with: pip install ${this.installHint}`);
+      return false;
+    }
+  }
+
+  async recognize(buffer: Buffer, options: RecognizeOptions): Promise<EngineOutput> {
+    logger.info(`🔍 Processing with ${this.name}...`);
+    const tempFile = path.join(os.tmpdir(), `ocr-temp-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.png`);
+
+    try {
+      const pipeline = options.preprocessing?.[0] || 'medical-optimized';
+      const processedBuffer = await applyPreprocessing(buffer, PREPROCESSING[pipeline]);
+      await fs.writeFile(tempFile, processedBuffer);
+
+      const { method, params } = this.workerRequest(options);
+      const result = await PythonWorkerPool.getInstance().request<WorkerOutput>(method, { ...params, image: tempFile }, { signal: options.signal });
+
+      return {
+        text: result.text,
+        confidence: result.confidence,
+        words: this.parseWords(result.words, await scaleToOriginal(buffer, processedBuffer)),
+        preprocessingUsed: [pipeline]
+      };
+    } finally {
+      try {
+        await fs.unlink(tempFile);
+      } catch (error) {
+        logger.debug('Failed to clean up temp file:', error);
+      }
+    }
+  }
+
+  private parseWords(words: any[] | undefined, scale: number): WordBox[] | undefined {
+    if (!Array.isArray(words)) return undefined;
+    return words.map(word => ({
+      text: String(word.text),
+      confidence: Number(word.confidence),
+      x: Number(word.x) * scale,
+      y: Number(word.y) * scale,
+      width: Number(word.width) * scale,
+      height: Number(word.height) * scale
+    }));
+  }
+}
@@ -0,0 +1,149 @@
+import tesseract from 'node-tesseract-ocr';
+import { logger } from '../../../utils/logger';
+import { ScriptDetector } from '../ScriptDetector';
+import { WordBox } from '../TableReconstructor';
+import { applyPreprocessing, PREPROCESSING, PreprocessingName, scaleToOriginal } from '../preprocessing';
+import { estimateTextConfidence } from '../textConfidence';
+import { EngineCapabilities, EngineOutput, OCREngine, RecognizeOptions } from './OCREngine';
+
+const PREPROCESSING_PIPELINES: PreprocessingName[] = ['medical-optimized', 'high-contrast', 'table-optimized', 'clean-document'];
+
+// Page segmentation modes tried with each pipeline
+const PSM_MODES = [6, 3, 4, 8, 13];
+
+/**
+ * Tesseract, with every preprocessing pipeline and page segmentation mode
+ * tried and the best-looking text kept. Reads Indian scripts when their
+ * language packs are installed.
+ */
+export class TesseractEngine implements OCREngine {
+  readonly id = 'tesseract';
+  readonly name = 'Enhanced Tesseract OCR';
+  readonly capabilities: EngineCapabilities = {
+    local: true,
+    wordBoxes: true,
+    scripts: ['Latin', 'Devanagari', 'Bengali', 'Gujarati', 'Tamil', 'Telugu'],
+    speed: 'medium',
+    cost: 'free'
+  };
+
+  private config = {
+    lang: 'eng',
+    oem: 1,
+    psm: 6,
+  };
+
+  async isAvailable(): Promise<boolean> {
+    // The binary is a hard requirement, checked at install; node-tesseract-ocr fails per call if it's missing
+    return true;
+  }
+
+  async recognize(buffer: Buffer, options: RecognizeOptions): Promise<EngineOutput> {
+    logger.info('🖼️ Processing with Enhanced Tesseract OCR...');
+    const lang = await ScriptDetector.getInstance().getTesseractLanguages(options.script, options.languageHint);
+
+    // The whitelist is ASCII only, so it's dropped when reading Indian scripts
+    const characterConfig: Record<string, string> = { preserve_interword_spaces: '1' };
+    if (lang === 'eng') {
+      characterConfig.tessedit_char_whitelist = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz.,():/%- ';
+    }
+
+    let bestResult = { text: '', confidence: 0, preprocessing: '', image: buffer, psm: this.config.psm };
+    const preprocessingMethods: string[] = [];
+
+    if (options.enhancedPreprocessing !== false || options.preprocessing) {
+      for (const name of options.preprocessing || PREPROCESSING_PIPELINES) {
+        try {
+          const preprocessedBuffer = await applyPreprocessing(buffer, PREPROCESSING[name]);
+          preprocessingMethods.push(name);
+
+          for (const psm of PSM_MODES) {
+            // Each pass is one tesseract run, so stopping between passes is soon enough
+            options.signal?.throwIfAborted();
+            try {
+              const text = await tesseract.recognize(preprocessedBuffer, {
+                ...this.config,
+                lang,
+                psm,
+                c: characterConfig
+              });
+
+              const confidence = estimateTextConfidence(text);
+              if (confidence > bestResult.confidence) {
+                bestResult = {
+                  text: text.trim(),
+                  confidence,
+                  preprocessing: `${name}-psm${psm}`,
+                  image: preprocessedBuffer,
+                  psm
+                };
+              }
+            } catch (error) {
+              logger.debug(`PSM ${psm} with ${name} failed:`, error);
+            }
+          }
+        } catch (error) {
+          if (options.signal?.aborted) throw error;
+          logger.debug(`Preprocessing ${name} failed:`, error);
+        }
+      }
+    } else {
+      // Basic processing without intensive preprocessing
+      const text = await tesseract.recognize(buffer, { ...this.config, lang });
+      bestResult = {
+        text: text.trim(),
+        confidence: estimateTextConfidence(text),
+        preprocessing: 'basic',
+        image: buffer,
+        psm: this.config.psm
+      };
+    }
+
+    options.signal?.throwIfAborted();
+    let words: WordBox[] | undefined;
+    try {
+      words = await this.recognizeWordBoxes(buffer, bestResult.image, bestResult.psm, lang);
+    } catch (error) {
+      logger.debug('Tesseract word box extraction failed:', error);
+    }
+
+    return { text: bestResult.text, words, preprocessingUsed: preprocessingMethods };
+  }
+
+  /**
+   * Re-run Tesseract in TSV mode on the image that gave the best text, so the
+   * table layout stage gets word boxes. Single-word/line PSMs are swapped for
+   * block mode since they don't preserve layout.
+   */
+  private async recognizeWordBoxes(original: Buffer, image: Buffer, psm: number, lang: string): Promise<WordBox[]> {
+    const tsv = await tesseract.recognize(image, {
+      ...this.config,
+      lang,
+      psm: [8, 13].includes(psm) ? 6 : psm,
+      presets: ['tsv']
+    });
+    const scale = await scaleToOriginal(original, image);
+    const words: WordBox[] = [];
+
+    // level page block par line word left top width height conf text
+    for (const row of tsv.split('\n').slice(1)) {
+      const columns = row.split('\t');
+      if (columns.length < 12 || columns[0] !== '5') continue;
+
+      const text = columns[11].trim();
+      const confidence = parseFloat(columns[10]);
+      if (!text || confidence < 0) continue;
+
+      words.push({
+        text,
+        confidence,
+        x: parseInt(columns[6], 10) * scale,
+        y: parseInt(columns[7], 10) * scale,
+        width: parseInt(columns[8], 10) * scale,
+        height: parseInt(columns[9], 10) * scale
+      });
+    }
+
+    return words;
+  }
+}
@@ -0,0 +1,315 @@
+import { BoundingBox, TableReconstructor, WordBox } from './TableReconstructor';
+import { toAsciiDigits } from '../analytes/transliteration';
+
+// Character-bigram similarity two engines' lines need to be the same line
+const MIN_LINE_SIMILARITY = 0.5;
+
+// Cost of a token one engine read and another didn't
+const TOKEN_GAP = -0.4;
+
+// Letters engines misread digits as; only read as digits inside a number
+const DIGIT_LOOKALIKES: Record<string, string> = {
+  O: '0', o: '0', D: '0', I: '1', l: '1', '|': '1', S: '5', B: '8'
+};
+
+// One engine's reading of a page
+export interface EngineReading {
+  engine: string;
+  text: string;
+  confidence: number;
+  words?: WordBox[];
+}
+
+// A number the engines read differently
+export interface OcrDisagreement {
+  page?: number;
+  line: string;        // The fused line it's on
+  token: string;       // What the vote kept
+  confidence: number;  // Weighted share of the vote, 0-100
+  readings: { engine: string; text: string; confidence: number }[];
+  box?: BoundingBox;
+}
+
+export interface FusedReading {
+  pivot: number;       // Index of the reading whose layout the fused text follows
+  text: string;
+  words?: WordBox[];
+  changed: number;     // Values the vote changed from the pivot's reading
+  disagreements: OcrDisagreement[];
+}
+
+interface Token {
+  text: string;
+  sep: string;         // What separates it from the previous token on the line
+  confidence: number;
+  word?: WordBox;
+}
+
+interface NumericToken {
+  prefix: string;      // "<", "(": kept from the pivot
+  digits: string;      // Look-alike letters read as digits
+  core: string;        // As printed
+  suffix: string;
+}
+
+interface Vote {
+  engine: string;
+  token: Token;
+  value: NumericToken;
+}
+
+/**
+ * Merge several engines' readings of one page. The most confident reading
+ * with word boxes is the pivot: the others' lines and then tokens are
+ * aligned to it, and every number is voted on character by character,
+ * weighted by each engine's confidence in the word. Text and layout stay
+ * the pivot's; only numbers change. Numbers the engines disagreed on are
+ * returned, and their word boxes carry the losing readings as
+ * `alternatives` so the metrics read from them can be flagged for review.
+ */
+export function fuseReadings(readings: EngineReading[]): FusedReading {
+  const withWords = readings.filter(reading => (reading.words?.length || 0) > 0);
+  const pivotReading = (withWords.length > 0 ? withWords : readings)
+    .reduce((best, reading) => reading.confidence > best.confidence ? reading : best);
+  const pivot = readings.indexOf(pivotReading);
+
+  // Copies, since engines' own results are kept as alternatives
+  const words = pivotReading.words?.map(word => ({ ...word }));
+  const pivotLines = readingLines(pivotReading, words);
+  const pivotGrams = pivotLines.map(tokens => bigrams(lineKey(tokens)));
+  const votes = new Map<Token, Vote[]>();
+
+  for (const reading of readings.filter(reading => reading !== pivotReading)) {
+    const lines = readingLines(reading, reading.words);
+    const lineGrams = lines.map(tokens => bigrams(lineKey(tokens)));
+
+    const linePairs = align(pivotGrams, lineGrams, (a, b) => {
+      const similarity = dice(a, b);
+      return similarity >= MIN_LINE_SIMILARITY ? similarity : -Infinity;
+    }, 0);
+
+    for (const [pivotIndex, lineIndex] of linePairs) {
+      const tokenPairs = align(pivotLines[pivotIndex], lines[lineIndex], tokenScore, TOKEN_GAP);
+      for (const [pivotToken, tokenIndex] of tokenPairs) {
+        const token = pivotLines[pivotIndex][pivotToken];
+        const other = lines[lineIndex][tokenIndex];
+        const value = numericToken(other.text);
+        if (!value || !numericToken(token.text)) continue;
+        votes.set(token, [...(votes.get(token) || []), { engine: reading.engine, token: other, value }]);
+      }
+    }
+  }
+
+  let changed = 0;
+  const disputed: { token: Token; line: Token[]; votes: Vote[]; confidence: number }[] = [];
+  for (const line of pivotLines) {
+    for (const token of line) {
+      const others = votes.get(token);
+      if (!others) continue;
+
+      const value = numericToken(token.text)!;
+      const all = [{ engine: pivotReading.engine, token, value }, ...others];
+      const { digits, confidence } = vote(all);
+      if (digits !== value.core) {
+        token.text = `${value.prefix}${digits}${value.suffix}`;
+        changed++;
+      }
+      if (new Set(all.map(v => v.value.digits)).size > 1) {
+        disputed.push({ token, line, votes: all, confidence });
+        if (token.word) {
+          const alternatives = all.map(v => v.value.digits).filter(text => text !== digits);
+          token.word.alternatives = [...new Set([...(token.word.alternatives || []), ...alternatives])];
+        }
+      }
+    }
+  }
+
+  if (changed > 0 && words) {
+    for (const word of words) {
+      const tokens = pivotLines.flat().filter(token => token.word === word);
+      if (tokens.length > 0) word.text = joinTokens(tokens);
+    }
+  }
+
+  return {
+    pivot,
+    text: changed > 0 ? pivotLines.map(joinTokens).join('\n') : pivotReading.text,
+    words,
+    changed,
+    disagreements: disputed.map(({ token, line, votes, confidence }) => ({
+      page: token.word?.page,
+      line: joinTokens(line),
+      token: token.text,
+      confidence: Math.round(confidence),
+      readings: votes.map(v => ({
+        engine: v.engine,
+        text: `${v.value.prefix}${v.value.core}${v.value.suffix}`, // As read, before the vote
+        confidence: Math.round(v.token.confidence)
+      })),
+      box: token.word && { x: token.word.x, y: token.word.y, width: token.word.width, height: token.word.height }
+    }))
+  };
+}
+
+/**
+ * Weighted vote on a number. Readings of different lengths can't be
+ * compared character by character, so the best-supported length wins
+ * first; then each position takes the character with the most weight.
+ */
+function vote(votes: Vote[]): { digits: string; confidence: number } {
+  const total = votes.reduce((sum, v) => sum + weight(v), 0);
+  const byLength = new Map<number, Vote[]>();
+  for (const v of votes) {
+    byLength.set(v.value.digits.length, [...(byLength.get(v.value.digits.length) || []), v]);
+  }
+  // Ties go to the pivot, which votes first
+  const group = [...byLength.values()].reduce((best, candidate) =>
+    candidate.reduce((sum, v) => sum + weight(v), 0) > best.reduce((sum, v) => sum + weight(v), 0) ? candidate : best
+  );
+  const groupWeight = group.reduce((sum, v) => sum + weight(v), 0);
+
+  let digits = '';
+  let agreement = 1;
+  for (let position = 0; position < group[0].value.digits.length; position++) {
+    const tally = new Map<string, number>();
+    for (const v of group) {
+      const char = v.value.digits[position];
+      tally.set(char, (tally.get(char) || 0) + weight(v));
+    }
+    const [char, charWeight] = [...tally.entries()].reduce((best, entry) => entry[1] > best[1] ? entry : best);
+    digits += char;
+    agreement = Math.min(agreement, groupWeight > 0 ? charWeight / groupWeight : 1);
+  }
+
+  return { digits, confidence: total > 0 ? (groupWeight / total) * agreement * 100 : 0 };
+}
+
+function weight(v: Vote): number {
+  return Math.max(v.token.confidence, 1) / 100;
+}
+
+// Lines of tokens: from word boxes when there are any, as table reconstruction reads them
+function readingLines(reading: EngineReading, words?: WordBox[]): Token[][] {
+  if (words && words.length > 0) {
+    return TableReconstructor.getInstance().textLines(words).map(line => wordTokens(line.words, reading.confidence));
+  }
+  return reading.text.split('\n').map(line => splitTokens(line.trim()).map(part => ({ ...part, confidence: reading.confidence })));
+}
+
+function wordTokens(words: WordBox[], fallback: number): Token[] {
+  const tokens: Token[] = [];
+  words.forEach((word, index) => {
+    const previous = words[index - 1];
+    // A gap wider than two characters is a column break, kept as two spaces like Tesseract's text
+    const charWidth = previous ? previous.width / Math.max(previous.text.length, 1) : 0;
+    const columnBreak = previous && word.x - (previous.x + previous.width) > charWidth * 2;
+    const confidence = Number.isFinite(word.confidence) && word.confidence > 0 ? word.confidence : fallback;
+    splitTokens(word.text).forEach((part, partIndex) => tokens.push({
+      text: part.text,
+      sep: partIndex > 0 ? part.sep : columnBreak ? '  ' : ' ',
+      confidence,
+      word
+    }));
+  });
+  return tokens;
+}
+
+// Whitespace-separated tokens, with printed ranges ("4-11") split so each bound is voted on
+function splitTokens(text: string): { text: string; sep: string }[] {
+  const parts: { text: string; sep: string }[] = [];
+  for (const [, sep, chunk] of text.matchAll(/(\s*)(\S+)/g)) {
+    const range = chunk.match(/^(\d[\d.,]*)([-–~])(\d[\d.,]*)$/);
+    if (range) {
+      parts.push({ text: range[1], sep }, { text: range[2], sep: '' }, { text: range[3], sep: '' });
+    } else {
+      parts.push({ text: chunk, sep });
+    }
+  }
+  return parts;
+}
+
+function joinTokens(tokens: Token[]): string {
+  return tokens.map((token, index) => (index > 0 ? token.sep : '') + token.text).join('');
+}
+
+// "<1O.5" as { prefix: "<", digits: "10.5" }; null when it isn't a number
+function numericToken(text: string): NumericToken | null {
+  const match = toAsciiDigits(text).match(/^([<>≤≥=(]*)(\d[\d.,OoDIl|SB]*)([%*)]*)$/);
+  if (!match) return null;
+  const [, prefix, core, suffix] = match;
+  const digits = core.replace(/[OoDIl|SB]/g, char => DIGIT_LOOKALIKES[char]);
+  // "1OO" is more likely a word than a number
+  if (digits.replace(/\D/g, '').length < core.replace(/[^OoDIl|SB]/g, '').length * 2) return null;
+  return { prefix, digits, core, suffix };
+}
+
+// Engines' readings of the same value pair up even when a digit differs
+function tokenScore(a: Token, b: Token): number {
+  const x = numericToken(a.text);
+  const y = numericToken(b.text);
+  if (x && y) {
+    if (x.digits.length !== y.digits.length) return 0;
+    const differing = [...x.digits].filter((char, index) => char !== y.digits[index]).length;
+    return 1 - (2 * differing) / x.digits.length;
+  }
+  if (x || y) return -1;
+  if (a.text.toLowerCase() === b.text.toLowerCase()) return 1;
+  return dice(bigrams(a.text.toLowerCase()), bigrams(b.text.toLowerCase())) * 2 - 1;
+}
+
+// Digits blanked out, so engines disagreeing on a value still match the line
+function lineKey(tokens: Token[]): string {
+  return joinTokens(tokens).toLowerCase().replace(/\d/g, '#').replace(/\s+/g, ' ');
+}
+
+function bigrams(text: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+}
+
+function dice(a: Map<string, number>, b: Map<string, number>): number {
+  let shared = 0;
+  let size = 0;
+  for (const [gram, count] of a) {
+    shared += Math.min(count, b.get(gram) || 0);
+    size += count;
+  }
+  for (const count of b.values()) size += count;
+  return size > 0 ? (2 * shared) / size : 0;
+}
+
+/**
+ * Needleman-Wunsch alignment; returns the paired indices, as a map from
+ * `a` to `b`. Pairs scored -Infinity are never made. Ties pair the earlier
+ * items, as when an engine read fewer of a line's numbers.
+ */
+function align<A, B>(a: A[], b: B[], score: (x: A, y: B) => number, gap: number): Map<number, number> {
+  const table = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i + j) * gap)
+  );
+  const scores = a.map(x => b.map(y => score(x, y)));
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      table[i][j] = Math.max(table[i - 1][j - 1] + scores[i - 1][j - 1], table[i - 1][j] + gap, table[i][j - 1] + gap);
+    }
+  }
+
+  const pairs = new Map<number, number>();
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 && j > 0) {
+    if (table[i][j] === table[i - 1][j] + gap) {
+      i--;
+    } else if (table[i][j] === table[i - 1][j - 1] + scores[i - 1][j - 1]) {
+      pairs.set(--i, --j);
+    } else {
+      j--;
+    }
+  }
+  return pairs;
+}
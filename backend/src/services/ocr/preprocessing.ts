@@ -0,0 +1,122 @@
+import sharp from 'sharp';
+
+export interface PreprocessingConfig {
+  resize?: {
+    width?: number;
+    height?: number;
+    fit?: 'inside' | 'outside' | 'cover' | 'contain' | 'fill';
+    withoutEnlargement?: boolean;
+  };
+  greyscale?: boolean;
+  normalize?: boolean;
+  sharpen?: boolean | { sigma?: number; flat?: number; jagged?: number };
+  gamma?: number;
+  linear?: { a: number; b: number };
+  threshold?: number;
+  median?: number;
+  modulate?: { brightness?: number; contrast?: number; saturation?: number; hue?: number };
+  negate?: boolean;
+  morphology?: { operation: string; kernel: string; size: number };
+}
+
+export type PreprocessingName = 'medical-optimized' | 'high-contrast' | 'table-optimized' | 'clean-document';
+
+// Pipelines tuned for lab reports; engines pick the ones that suit them
+export const PREPROCESSING: Record<PreprocessingName, PreprocessingConfig> = {
+  // Small text and numbers in tables
+  'medical-optimized': {
+    resize: { width: 3000, height: 3000, fit: 'inside', withoutEnlargement: true },
+    greyscale: true,
+    normalize: true,
+    sharpen: { sigma: 0.5, flat: 1, jagged: 2 },
+    gamma: 0.8,
+    linear: { a: 1.2, b: -(128 * 1.2) + 128 },
+    threshold: 140,
+    median: 1
+  },
+  // Faded or low-quality scans
+  'high-contrast': {
+    resize: { width: 2800, withoutEnlargement: true },
+    greyscale: true,
+    normalize: true,
+    modulate: { brightness: 1.2, contrast: 1.4 },
+    sharpen: { sigma: 1.0, flat: 1, jagged: 2 },
+    threshold: 120
+  },
+  'table-optimized': {
+    resize: { width: 3500, height: 3500, fit: 'inside', withoutEnlargement: true },
+    greyscale: true,
+    normalize: true,
+    sharpen: { sigma: 0.3, flat: 1, jagged: 1.5 },
+    threshold: 160,
+    morphology: { operation: 'open', kernel: 'square', size: 1 }
+  },
+  'clean-document': {
+    resize: { width: 2400, withoutEnlargement: true },
+    greyscale: true,
+    normalize: true,
+    sharpen: true,
+    threshold: 180
+  }
+};
+
+export async function applyPreprocessing(buffer: Buffer, config: PreprocessingConfig): Promise<Buffer> {
+  let sharpImage = sharp(buffer);
+
+  if (config.resize) {
+    sharpImage = sharpImage.resize(config.resize);
+  }
+
+  if (config.greyscale) {
+    sharpImage = sharpImage.greyscale();
+  }
+
+  if (config.normalize) {
+    sharpImage = sharpImage.normalize();
+  }
+
+  if (config.modulate) {
+    sharpImage = sharpImage.modulate(config.modulate);
+  }
+
+  if (config.sharpen) {
+    if (typeof config.sharpen === 'object') {
+      sharpImage = sharpImage.sharpen(config.sharpen.sigma, config.sharpen.flat, config.sharpen.jagged);
+    } else {
+      sharpImage = sharpImage.sharpen();
+    }
+  }
+
+  if (config.gamma) {
+    sharpImage = sharpImage.gamma(config.gamma);
+  }
+
+  if (config.linear) {
+    sharpImage = sharpImage.linear(config.linear.a, config.linear.b);
+  }
+
+  if (config.threshold) {
+    sharpImage = sharpImage.threshold(config.threshold);
+  }
+
+  if (config.median) {
+    sharpImage = sharpImage.median(config.median);
+  }
+
+  if (config.negate) {
+    sharpImage = sharpImage.negate();
+  }
+
+  return await sharpImage.png({ quality: 100, compressionLevel: 0 }).toBuffer();
+}
+
+// Preprocessing resizes images, so boxes are mapped back to the image the engine was given
+export async function scaleToOriginal(original: Buffer, processed: Buffer): Promise<number> {
+  if (original === processed) return 1;
+  const [originalMeta, processedMeta] = await Promise.all([
+    sharp(original).metadata(),
+    sharp(processed).metadata()
+  ]);
+  if (!originalMeta.width || !processedMeta.width) return 1;
+  return originalMeta.width / processedMeta.width;
+}
@@ -0,0 +1,77 @@
+const MEDICAL_TERMS = [
+  'hemoglobin', 'glucose', 'cholesterol', 'blood', 'test', 'report', 'patient',
+  'result', 'normal', 'abnormal', 'high', 'low', 'range', 'lab', 'laboratory',
+  'serum', 'plasma', 'urine', 'creatinine', 'bilirubin', 'protein', 'albumin',
+  'triglyceride', 'hdl', 'ldl', 'thyroid', 'tsh', 'vitamin', 'iron', 'calcium',
+  'mg/dl', 'g/dl', 'mmol/l', 'u/l', 'reference', 'value', 'level'
+];
+
+const UNITS = ['mg/dl', 'g/dl', 'mmol/l', 'u/l', '/ul', '%', 'mg/l', 'ng/ml', 'pg/ml', 'iu/ml', 'miu/ml'];
+
+const STRUCTURAL_CHARS = ['-', ':', '(', ')', '[', ']', '|', '/'];
+
+const CORRUPTION_INDICATORS = ['###', '|||', '???', 'xxx', '***'];
+
+/**
+ * How much OCR'd text looks like a lab report, 0-95. Engines' own scores
+ * aren't comparable (Tesseract gives none for the whole page), so this is
+ * what ranks one engine's or preprocessing's reading against another's.
+ */
+export function estimateTextConfidence(text: string): number {
+  if (!text || text.length === 0) return 0;
+
+  let score = 40; // Lower base score for more conservative estimates
+  const words = text.split(/\s+/).filter(w => w.length > 0);
+  const wordCount = words.length;
+
+  if (wordCount === 0) return 0;
+
+  // Word count and length analysis
+  const avgWordLength = words.reduce((sum, word) => sum + word.length, 0) / wordCount;
+  if (avgWordLength >= 3 && avgWordLength <= 12) score += 15;
+  if (wordCount > 10) score += 10;
+  if (wordCount > 50) score += 5;
+
+  // Medical/health terminology presence (critical for medical documents)
+  const lowerText = text.toLowerCase();
+  const foundMedicalTerms = MEDICAL_TERMS.filter(term => lowerText.includes(term)).length;
+  score += Math.min(foundMedicalTerms * 4, 25);
+
+  // Numerical data presence (crucial for lab reports)
+  const numbers = text.match(/\d+\.?\d*/g);
+  const numberCount = numbers ? numbers.length : 0;
+  if (numberCount > 3) score += 8;
+  if (numberCount > 8) score += 7;
+  if (numberCount > 15) score += 5;
+
+  // Units and measurements
+  const foundUnits = UNITS.filter(unit => lowerText.includes(unit)).length;
+  score += Math.min(foundUnits * 5, 20);
+
+  // Structural elements (colons, parentheses, ranges)
+  const structuralCharCount = STRUCTURAL_CHARS.reduce((count, char) =>
+    count + (text.match(new RegExp(`\\${char}`, 'g')) || []).length, 0
+  );
+  if (structuralCharCount > wordCount * 0.05) score += 8;
+
+  // Proper capitalization patterns
+  const capitalizedWords = words.filter(w => w.length > 0 && w[0] === w[0].toUpperCase()).length;
+  const capitalizationRatio = capitalizedWords / wordCount;
+  if (capitalizationRatio >= 0.1 && capitalizationRatio <= 0.6) score += 6;
+
+  // Sentence structure
+  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 10);
+  if (sentences.length > 2) score += 5;
+
+  // Penalize obviously corrupted text
+  const corruptionCount = CORRUPTION_INDICATORS.reduce((count, indicator) =>
+    count + (lowerText.includes(indicator) ? 1 : 0), 0
+  );
+  score -= corruptionCount * 10;
+
+  // Penalize excessive special characters
+  const specialCharRatio = (text.match(/[^\p{L}\p{M}\p{N}\s.,():/%\-]/gu) || []).length / text.length;
+  if (specialCharRatio > 0.1) score -= 15;
+
+  return Math.max(Math.min(score, 95), 0);
+}
@@ -0,0 +1,132 @@
+import { DatabaseService } from '../database/DatabaseService';
+import { FileFingerprint, hammingDistance } from './fingerprint';
+
+export interface DuplicateMatch {
+  type: 'exact' | 'near'; // Exact: the same files again. Near: some files or pages look the same
+  reportId: string;
+  fileName: string;
+  uploadDate: Date;
+  reason: string;
+}
+
+// What an extracted report says that another photo of it would say too
+export interface ReportContent {
+  metricsHash: string | null;
+  sampleId: string | null;
+  collectedAt: Date | null;
+}
+
+// Bits out of 64 that may differ for two photos to count as the same page
+const NEAR_DUPLICATE_DISTANCE = 6;
+
+/**
+ * DuplicateService - Spots reports a user has uploaded before
+ *
+ * Files are matched by content hash on upload. A second photo of the same
+ * page is only caught once it has been read: a perceptual hash of a page
+ * mostly captures the lab's template, so it has to agree with what the
+ * page says too. Only the user's own reports are compared, and failed
+ * reports are ignored so they can be uploaded again.
+ */
+export class DuplicateService {
+  private static instance: DuplicateService;
+
+  static getInstance(): DuplicateService {
+    if (!DuplicateService.instance) {
+      DuplicateService.instance = new DuplicateService();
+    }
+    return DuplicateService.instance;
+  }
+
+  async findDuplicate(userId: string, fingerprints: FileFingerprint[]): Promise<DuplicateMatch | null> {
+    const prisma = DatabaseService.getInstance().getClient();
+    const hashes = [...new Set(fingerprints.map(fingerprint => fingerprint.contentHash))];
+
+    const candidates = await prisma.reportFile.findMany({
+      where: {
+        report: { userId, status: { not: 'FAILED' } },
+        contentHash: { in: hashes }
+      },
+      select: {
+        contentHash: true,
+        report: {
+          select: { id: true, fileName: true, uploadDate: true, files: { select: { contentHash: true } } }
+        }
+      }
+    });
+
+    // Newest first, so a match points at the latest copy
+    candidates.sort((a: any, b: any) => new Date(b.report.uploadDate).getTime() - new Date(a.report.uploadDate).getTime());
+    const describe = (report: any, type: DuplicateMatch['type'], reason: string): DuplicateMatch =>
+      ({ type, reportId: report.id, fileName: report.fileName, uploadDate: report.uploadDate, reason });
+
+    for (const { report } of candidates) {
+      const existing = new Set(report.files.map((file: any) => file.contentHash));
+      if (existing.size === hashes.length && hashes.every(hash => existing.has(hash))) {
+        return describe(report, 'exact', 'The same files were uploaded before');
+      }
+    }
+
+    const shared = candidates[0];
+    return shared ? describe(shared.report, 'near', 'Some of these files were uploaded before') : null;
+  }
+
+  /**
+   * An earlier report of the user's with a photo that looks like one of
+   * `photoHashes` and the same content: identical values, or the same
+   * sample ID (and collection date, when both were read). Only reports
+   * that agree on content are loaded, so the comparison stays small.
+   */
+  async findLookalike(userId: string, reportId: string, photoHashes: string[], content: ReportContent): Promise<string | null> {
+    const sameContent = [
+      ...(content.metricsHash ? [{ metricsHash: content.metricsHash }] : []),
+      ...(content.sampleId ? [{ sampleId: content.sampleId, ...(content.collectedAt && { collectedAt: content.collectedAt }) }] : [])
+    ];
+    if (photoHashes.length === 0 || sameContent.length === 0) return null;
+
+    const prisma = DatabaseService.getInstance().getClient();
+    const candidates = await prisma.reportFile.findMany({
+      where: {
+        perceptualHash: { not: null },
+        report: { userId, id: { not: reportId }, status: { not: 'FAILED' }, OR: sameContent }
+      },
+      select: { perceptualHash: true, report: { select: { id: true, uploadDate: true } } }
+    });
+
+    // Newest first, so a match points at the latest copy
+    candidates.sort((a: any, b: any) => new Date(b.report.uploadDate).getTime() - new Date(a.report.uploadDate).getTime());
+    const lookalike = candidates.find((file: any) =>
+      photoHashes.some(hash => hammingDistance(hash, file.perceptualHash) <= NEAR_DUPLICATE_DISTANCE));
+    return lookalike?.report.id ?? null;
+  }
+
+  // OCR of a file with the same content, read successfully before
+  async findCachedOcr(contentHash: string, excludeFileId: string) {
+    const prisma = DatabaseService.getInstance().getClient();
+    return prisma.reportFile.findFirst({
+      where: {
+        contentHash,
+        status: 'COMPLETED',
+        extractedText: { not: null },
+        id: { not: excludeFileId }
+      },
+      orderBy: { updatedAt: 'desc' }
+    });
+  }
+
+  // Analysis of another of the user's reports with the same extracted values
+  async findReusableAnalysis(userId: string, metricsHash: string, excludeReportId: string) {
+    const prisma = DatabaseService.getInstance().getClient();
+    const report = await prisma.report.findFirst({
+      where: {
+        userId,
+        metricsHash,
+        id: { not: excludeReportId },
+        analysis: { isNot: null }
+      },
+      include: { analysis: true },
+      orderBy: { uploadDate: 'desc' }
+    });
+    return report?.analysis ?? null;
+  }
+}
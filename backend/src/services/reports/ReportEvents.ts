@@ -0,0 +1,57 @@
+import { EventEmitter } from 'events';
+
+export type ReportEventType =
+  | 'uploaded'
+  | 'ocr_page'          // A page of a file has been read
+  | 'file_failed'       // A file could not be read; the others carry on
+  | 'metrics_extracted'
+  | 'analysis_started'
+  | 'retrying'          // A stage failed and will be tried again
+  | 'completed'
+  | 'failed';
+
+export interface ReportEvent {
+  type: ReportEventType;
+  reportId: string;
+  stage: string | null;
+  progress: number; // Percent, 0-100
+  message: string;
+  data?: Record<string, unknown>;
+  timestamp: string;
+}
+
+type ReportEventListener = (event: ReportEvent) => void;
+
+/**
+ * ReportEvents - Progress of reports being processed, as it happens
+ *
+ * The pipeline publishes here and event streams subscribe per report.
+ * Events only reach subscribers in this process and aren't stored; the
+ * report's status, rebuilt from the database, covers anything missed.
+ */
+export class ReportEvents {
+  private static instance: ReportEvents;
+  private emitter = new EventEmitter();
+
+  private constructor() {
+    // One listener per open stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  static getInstance(): ReportEvents {
+    if (!ReportEvents.instance) {
+      ReportEvents.instance = new ReportEvents();
+    }
+    return ReportEvents.instance;
+  }
+
+  publish(event: Omit<ReportEvent, 'timestamp'>): void {
+    this.emitter.emit(event.reportId, { ...event, timestamp: new Date().toISOString() });
+  }
+
+  // Returns the unsubscribe function
+  subscribe(reportId: string, listener: ReportEventListener): () => void {
+    this.emitter.on(reportId, listener);
+    return () => this.emitter.off(reportId, listener);
+  }
+}
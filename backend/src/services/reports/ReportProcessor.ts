@@ -0,0 +1,635 @@
+import { logger } from '../../utils/logger';
+import { AppError } from '../../middlewares/errorHandler';
+import { DatabaseService } from '../database/DatabaseService';
+import { StorageService } from '../storage/StorageService';
+import { LocalOCRService } from '../ocr/LocalOCRService';
+import { AnalysisMetric, HealthMetric, HealthMetricExtractor } from '../ocr/HealthMetricExtractor';
+import { WordBox } from '../ocr/TableReconstructor';
+import { ImageQualityService, QualityIssue } from '../ocr/ImageQualityService';
+import { AIService, RULE_BASED_MODEL } from '../ai/AIService';
+import { ReferenceRangeService } from '../analytes/ReferenceRangeService';
+import { DERIVED_METHOD, DerivedIndexService } from '../analytes/DerivedIndexService';
+import { CorrectionService } from '../corrections/CorrectionService';
+import { Job, JobQueue } from '../jobs/JobQueue';
+import { ReportEventType, ReportEvents } from './ReportEvents';
+import { DuplicateMatch, DuplicateService } from './DuplicateService';
+import { fingerprint, metricsHash } from './fingerprint';
+import { extractReportMetadata, mergeReportMetadata, testDateOf } from './reportMetadata';
+
+export type FileStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+export type PipelineStage = 'OCR' | 'EXTRACTION' | 'ANALYSIS';
+
+export interface UploadedFile {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+  size: number;
+}
+
+export interface ProcessOptions {
+  requestId: string;
+  userId?: string;       // Report owner; demo uploads have none
+  languageHint?: string; // UI locale, helps tell Hindi from Marathi reports
+}
+
+export interface StageProgress {
+  stage: PipelineStage;
+  label: string;
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  attempts: number;
+  maxAttempts?: number;
+  startedAt?: Date | null;
+  finishedAt?: Date | null;
+  durationMs?: number | null;
+  nextAttemptAt?: Date | null;
+  error?: string | null;
+}
+
+export interface ReportProgress {
+  stage: PipelineStage | null; // Stage running or next up; null once the report is done
+  progress: number;            // Percent, 0-100
+  stages: StageProgress[];
+}
+
+// Stages in order, with their share of overall progress; OCR is most of the wait
+const PIPELINE: { stage: PipelineStage; label: string; weight: number; timeout: number }[] = [
+  { stage: 'OCR', label: 'Reading files', weight: 60, timeout: 10 * 60 * 1000 },
+  { stage: 'EXTRACTION', label: 'Extracting values', weight: 10, timeout: 2 * 60 * 1000 },
+  { stage: 'ANALYSIS', label: 'Analyzing results', weight: 30, timeout: 3 * 60 * 1000 }
+];
+
+// Left of the ANALYSIS timeout once the model is out of time, to save the analysis
+const ANALYSIS_SAVE_MARGIN_MS = 15 * 1000;
+
+// Overall percent done once a stage is the given fraction through
+function progressAt(stage: PipelineStage, fraction: number): number {
+  const index = PIPELINE.findIndex(step => step.stage === stage);
+  const before = PIPELINE.slice(0, index).reduce((sum, step) => sum + step.weight, 0);
+  return Math.round(before + PIPELINE[index].weight * Math.min(1, fraction));
+}
+
+// Columns of a HealthMetric row, shared by extraction and user corrections
+export function toMetricRecord(metric: HealthMetric) {
+  return {
+    category: metric.category,
+    metric: metric.metric,
+    analyteId: metric.analyteId ?? null,
+    value: metric.valueText ?? String(metric.value),
+    valueType: metric.valueType || 'numeric',
+    numericValue: metric.value,
+    unit: metric.unit,
+    normalizedValue: metric.normalizedValue ?? null,
+    normalizedUnit: metric.normalizedUnit ?? null,
+    normalMin: metric.normalRange?.[0] ?? null,
+    normalMax: metric.normalRange?.[1] ?? null,
+    rangeSource: metric.rangeSource ?? null,
+    referenceText: metric.referenceText ?? null,
+    flag: metric.flag,
+    confidence: metric.confidence,
+    extractionMethod: metric.extractionMethod ?? null,
+    reviewNotes: metric.reviewNotes ? JSON.stringify(metric.reviewNotes) : null
+  };
+}
+
+// A stored HealthMetric row as extraction produced it, for recalculating indices from
+export function fromMetricRecord(row: any): HealthMetric {
+  return {
+    category: row.category,
+    metric: row.metric,
+    value: row.numericValue ?? 0,
+    unit: row.unit,
+    flag: row.flag,
+    confidence: row.confidence ?? 100,
+    extractionMethod: row.extractionMethod ?? undefined,
+    analyteId: row.analyteId ?? undefined,
+    normalizedValue: row.normalizedValue ?? undefined,
+    normalizedUnit: row.normalizedUnit ?? undefined,
+    valueType: row.valueType && row.valueType !== 'numeric' ? row.valueType : undefined
+  };
+}
+
+// A stored HealthMetric row as the AI analysis takes it
+export function toAnalysisMetric(row: any): AnalysisMetric {
+  return {
+    category: row.category,
+    // So the analysis doesn't read an index as something the lab measured
+    metric: row.extractionMethod === DERIVED_METHOD ? `${row.metric} (calculated)` : row.metric,
+    value: row.numericValue ?? 0,
+    valueText: row.value, // As printed, so prompts show "Nil" rather than its stand-in
+    unit: row.unit,
+    flag: row.flag,
+    normalRange: row.normalMin != null && row.normalMax != null ? [row.normalMin, row.normalMax] : undefined,
+    analyteId: row.analyteId ?? undefined
+  };
+}
+
+/**
+ * ReportProcessor - Turns uploaded files into a stored, analyzed report
+ *
+ * A report can be several files: photos of each page, or a PDF per panel.
+ * Uploads only store the files and queue the report; OCR, metric extraction
+ * and AI analysis then run as separate JobQueue stages, each retried on its
+ * own. Every file is OCR'd and tracked on its own, so one unreadable photo
+ * fails only that file.
+ */
+export class ReportProcessor {
+  private static instance: ReportProcessor;
+
+  // Stages are registered up front, so uploads can be queued before the queue starts
+  private constructor() {
+    const queue = JobQueue.getInstance();
+    PIPELINE.forEach(({ stage, label, timeout }, index) => {
+      queue.register(stage, {
+        run: (job, signal) => this.runStage(stage, job, signal),
+        timeout,
+        next: PIPELINE[index + 1]?.stage,
+        onRetry: (job, error, retryAt) => this.publish(job.reportId, 'retrying', stage, progressAt(stage, 0),
+          `${label} failed, trying again`, { error: error.message, attempt: job.attempts, retryAt }),
+        onFailed: (job, error) => this.onStageFailed(stage, job, error)
+      });
+    });
+  }
+
+  static getInstance(): ReportProcessor {
+    if (!ReportProcessor.instance) {
+      ReportProcessor.instance = new ReportProcessor();
+    }
+    return ReportProcessor.instance;
+  }
+
+  initialize(): void {
+    JobQueue.getInstance().start();
+  }
+
+  /**
+   * Store the files, create the report with a PENDING row per file and queue
+   * it. Files the user has uploaded before aren't stored again: the earlier
+   * report is returned instead. A report that only looks like an earlier one
+   * is processed, and linked to it so the user can be warned.
+   */
+  async createReport(files: UploadedFile[], options: ProcessOptions): Promise<{ report: any; duplicate: DuplicateMatch | null }> {
+    const { requestId } = options;
+    const storageService = StorageService.getInstance();
+    const prisma = DatabaseService.getInstance().getClient();
+    await this.checkImageQuality(files, requestId);
+    const fingerprints = await Promise.all(files.map(file => fingerprint(file.buffer, file.mimetype)));
+
+    let userId: string;
+    let duplicate: DuplicateMatch | null;
+    try {
+      userId = options.userId || await this.ensureDemoUser();
+      duplicate = await DuplicateService.getInstance().findDuplicate(userId, fingerprints);
+    } catch (dbError) {
+      logger.error(`❌ [${requestId}] Could not check for earlier uploads:`, dbError);
+      throw new AppError('Report processing is unavailable right now, please try again later', 503);
+    }
+
+    if (duplicate?.type === 'exact') {
+      logger.info(`♻️ [${requestId}] Same files as report ${duplicate.reportId}, reusing it`);
+      const existing = await prisma.report.findUnique({
+        where: { id: duplicate.reportId },
+        include: { files: { orderBy: { position: 'asc' } } }
+      });
+      return { report: existing, duplicate };
+    }
+    if (duplicate) {
+      logger.info(`👯 [${requestId}] Looks like report ${duplicate.reportId}: ${duplicate.reason}`);
+    }
+
+    logger.info(`💾 [${requestId}] Saving ${files.length} file(s) to storage...`);
+    const stored: { file: UploadedFile; url: string; filePath: string }[] = [];
+    for (const file of files) {
+      const storageResult = await storageService.saveFile(file.buffer, file.originalname, file.mimetype);
+      stored.push({ file, url: storageResult.url, filePath: storageResult.filePath });
+    }
+
+    let report;
+    try {
+      report = await prisma.report.create({
+        data: {
+          userId,
+          fileName: stored[0].file.originalname,
+          fileUrl: stored[0].url,
+          fileType: stored[0].file.mimetype,
+          status: 'PENDING',
+          duplicateOfId: duplicate?.reportId ?? null,
+          files: {
+            create: stored.map(({ file, url }, position) => ({
+              position,
+              fileName: file.originalname,
+              fileUrl: url,
+              fileType: file.mimetype,
+              fileSize: file.size,
+              contentHash: fingerprints[position].contentHash,
+              perceptualHash: fingerprints[position].perceptualHash
+            }))
+          }
+        },
+        include: { files: { orderBy: { position: 'asc' } } }
+      });
+      logger.info(`📄 [${requestId}] Report record created: ${report.id} (${stored.length} file(s))`);
+
+      await JobQueue.getInstance().enqueue(report.id, PIPELINE[0].stage, {
+        languageHint: options.languageHint
+      });
+      this.publish(report.id, 'uploaded', null, 0, `${stored.length} file(s) uploaded, waiting to be read`);
+    } catch (dbError) {
+      // Without the database there is nowhere to queue or keep the results
+      logger.error(`❌ [${requestId}] Could not queue report:`, dbError);
+      if (report) await prisma.report.delete({ where: { id: report.id } }).catch(() => undefined);
+      await Promise.all(stored.map(({ filePath }) => storageService.deleteFile(filePath).catch(() => undefined)));
+      throw new AppError('Report processing is unavailable right now, please try again later', 503);
+    }
+
+    return { report, duplicate };
+  }
+
+  /**
+   * Photos OCR can't read reliably are turned away before anything is stored,
+   * with what's wrong with each so it can be retaken. Tilted pages, and pages
+   * shot at an angle, pass; OCR straightens them.
+   */
+  private async checkImageQuality(files: UploadedFile[], requestId: string): Promise<void> {
+    const imageQuality = ImageQualityService.getInstance();
+    const rejected: { fileName: string; issues: QualityIssue[] }[] = [];
+
+    for (const file of files) {
+      if (!file.mimetype.startsWith('image/')) continue;
+      try {
+        const assessment = await imageQuality.assess(file.buffer);
+        if (!assessment.acceptable) {
+          rejected.push({ fileName: file.originalname, issues: assessment.issues });
+        }
+      } catch (error) {
+        // Images that can't be decoded fail at OCR, with the other unreadable files
+        logger.debug(`Could not check quality of ${file.originalname}:`, error);
+      }
+    }
+    if (rejected.length === 0) return;
+
+    logger.info(`📷 [${requestId}] Asking for a retake of ${rejected.map(file =>
+      `${file.fileName} (${file.issues.map(issue => issue.code).join(', ')})`).join(', ')}`);
+    const error = new AppError(
+      rejected.length === 1 ? 'A photo is not clear enough to read, please retake it' : 'Some photos are not clear enough to read, please retake them',
+      422,
+      'IMAGE_QUALITY'
+    );
+    error.details = { files: rejected };
+    throw error;
+  }
+
+  // Where a report is in the pipeline, from its jobs and, during OCR, its files
+  getProgress(report: { status: string; files: any[]; jobs: any[] }): ReportProgress {
+    const stages: StageProgress[] = PIPELINE.map(({ stage, label }) => {
+      const job = report.jobs.find(candidate => candidate.stage === stage);
+      if (!job) return { stage, label, status: 'PENDING', attempts: 0 };
+      return {
+        stage,
+        label,
+        status: job.status,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        startedAt: job.startedAt,
+        finishedAt: job.finishedAt,
+        durationMs: job.durationMs,
+        nextAttemptAt: job.status === 'PENDING' && job.attempts > 0 ? job.runAt : null,
+        error: job.error
+      };
+    });
+
+    // Stages run in order, so progress is how far into the first unfinished one
+    const unfinished = stages.find(stage => stage.status !== 'COMPLETED');
+    let progress = 100;
+    if (unfinished?.stage === 'OCR') {
+      const read = report.files.filter(file => file.status === 'COMPLETED' || file.status === 'FAILED').length;
+      progress = progressAt('OCR', read / Math.max(1, report.files.length));
+    } else if (unfinished) {
+      progress = progressAt(unfinished.stage, 0);
+    }
+
+    const done = report.status === 'COMPLETED' || report.status === 'FAILED';
+    return {
+      stage: done ? null : unfinished?.stage ?? null,
+      progress: report.status === 'COMPLETED' ? 100 : progress,
+      stages
+    };
+  }
+
+  /**
+   * Queue the analysis to run again once the user corrected the values. The
+   * previous analysis stays until the new one is saved, and stays if no AI
+   * provider answers.
+   */
+  async reanalyze(reportId: string): Promise<void> {
+    await JobQueue.getInstance().enqueue(reportId, 'ANALYSIS', { corrected: true });
+    logger.info(`🤖 [${reportId}] Re-analysis queued for corrected values`);
+  }
+
+  private runStage(stage: PipelineStage, job: Job, signal: AbortSignal): Promise<void> {
+    switch (stage) {
+      case 'OCR': return this.runOcr(job, signal);
+      case 'EXTRACTION': return this.runExtraction(job, signal);
+      case 'ANALYSIS': return this.runAnalysis(job, signal);
+    }
+  }
+
+  /**
+   * OCR each file not yet read. Unreadable files are marked FAILED and the
+   * rest carry on; the stage only fails, and is retried, when no file could
+   * be read at all. Once aborted, the file being read is left for the
+   * next attempt rather than marked FAILED.
+   */
+  private async runOcr(job: Job, signal: AbortSignal): Promise<void> {
+    const prisma = DatabaseService.getInstance().getClient();
+    const ocrService = LocalOCRService.getInstance();
+    const storageService = StorageService.getInstance();
+    const languageHint = typeof job.payload?.languageHint === 'string' ? job.payload.languageHint : undefined;
+
+    await prisma.report.update({ where: { id: job.reportId }, data: { status: 'PROCESSING' } });
+    const files = await prisma.reportFile.findMany({
+      where: { reportId: job.reportId },
+      orderBy: { position: 'asc' }
+    });
+
+    for (const [index, file] of files.entries()) {
+      if (file.status === 'COMPLETED') continue;
+      signal.throwIfAborted();
+      // Files count equally towards OCR progress, split by their pages
+      const fileProgress = (page: number, pageCount: number) =>
+        progressAt('OCR', (index + page / Math.max(1, pageCount)) / files.length);
+
+      // The same file read before needs no second OCR pass
+      const cached = file.contentHash ? await DuplicateService.getInstance().findCachedOcr(file.contentHash, file.id) : null;
+      if (cached) {
+        logger.info(`♻️ [${job.reportId}] Reusing OCR of ${file.fileName} from an earlier upload`);
+        await this.updateFile(file.id, {
+          status: 'COMPLETED',
+          error: null,
+          extractedText: cached.extractedText,
+          ocrConfidence: cached.ocrConfidence,
+          pageCount: cached.pageCount,
+          ocrWords: cached.ocrWords
+        });
+        file.status = 'COMPLETED';
+        this.publishPage(job.reportId, files, index, cached.pageCount || 1, cached.pageCount || 1, fileProgress(1, 1));
+        continue;
+      }
+
+      await this.updateFile(file.id, { status: 'PROCESSING', error: null });
+      logger.info(`🔍 [${job.reportId}] OCR: ${file.fileName} (${file.fileType}, ${file.fileSize} bytes)`);
+      try {
+        const buffer = await storageService.getFileByUrl(file.fileUrl);
+        const ocrResult = await ocrService.processDocument(buffer, file.fileType, {
+          enhancedPreprocessing: true,
+          languageHint,
+          signal,
+          onPage: (page, pageCount) => this.publishPage(job.reportId, files, index, page, pageCount, fileProgress(page, pageCount))
+        });
+        if (!ocrResult.text.trim()) {
+          throw new Error('No text could be read from this file');
+        }
+        // Images are a single page, read in one go
+        if (!ocrResult.pages) {
+          this.publishPage(job.reportId, files, index, 1, 1, fileProgress(1, 1));
+        }
+
+        await this.updateFile(file.id, {
+          status: 'COMPLETED',
+          extractedText: ocrResult.text,
+          ocrConfidence: ocrResult.confidence,
+          pageCount: ocrResult.pageCount,
+          ocrWords: ocrResult.words ? JSON.stringify(ocrResult.words) : null
+        });
+        file.status = 'COMPLETED';
+      } catch (error) {
+        if (signal.aborted) throw error;
+        logger.error(`❌ [${job.reportId}] Failed to process file ${file.fileName}:`, error);
+        const message = error instanceof Error ? error.message : 'Processing failed';
+        await this.updateFile(file.id, { status: 'FAILED', error: message });
+        this.publish(job.reportId, 'file_failed', 'OCR', fileProgress(1, 1), `Could not read ${file.fileName}`, {
+          fileId: file.id,
+          fileName: file.fileName,
+          error: message
+        });
+      }
+    }
+
+    if (!files.some((file: any) => file.status === 'COMPLETED')) {
+      throw new Error(files.length === 1 ? 'The file could not be read' : 'None of the files could be read');
+    }
+  }
+
+  // Extract health metrics from every read file, with what users have corrected on this lab's reports before
+  private async runExtraction(job: Job, signal: AbortSignal): Promise<void> {
+    const prisma = DatabaseService.getInstance().getClient();
+    const extractor = HealthMetricExtractor.getInstance();
+    const correctionService = CorrectionService.getInstance();
+
+    const report = await prisma.report.findUnique({
+      where: { id: job.reportId },
+      include: { files: { where: { status: 'COMPLETED' }, orderBy: { position: 'asc' } } }
+    });
+    if (!report) throw new Error('Report no longer exists');
+
+    // Header details, and when the tests were done so age-based ranges use the age then
+    const metadata = mergeReportMetadata(report.files.map((file: any) => extractReportMetadata(file.extractedText || '')));
+    metadata.labName = report.files.map((file: any) => correctionService.findLabName(file.extractedText || '')).find(Boolean) || null;
+    const testDate = testDateOf(metadata, report.uploadDate);
+
+    const patient = await ReferenceRangeService.getInstance().getPatientContext(report.userId, testDate);
+    const labKey = report.files.map((file: any) => correctionService.identifyLab(file.extractedText || '')).find(Boolean) || null;
+    const corrections = await correctionService.getLabCorrections(labKey);
+
+    const metrics: HealthMetric[] = [];
+    const metricFiles = new Map<HealthMetric, string>();
+    for (const file of report.files) {
+      const words: WordBox[] | undefined = file.ocrWords ? JSON.parse(file.ocrWords) : undefined;
+      const fileMetrics = extractor.extractHealthMetrics(file.extractedText || '', words, patient, corrections);
+
+      // Panels repeated on several pages are only kept once
+      const added = fileMetrics.filter(metric => !metrics.some(existing =>
+        (existing.analyteId || existing.metric.toLowerCase()) === (metric.analyteId || metric.metric.toLowerCase()) &&
+        (existing.valueText ?? existing.value) === (metric.valueText ?? metric.value)
+      ));
+      added.forEach(metric => metricFiles.set(metric, file.id));
+      metrics.push(...added);
+    }
+    // Indices the values allow, e.g. eGFR from creatinine and the patient's age
+    metrics.push(...DerivedIndexService.getInstance().derive(metrics, patient));
+    logger.info(`📊 [${job.reportId}] Extracted ${metrics.length} health metrics`);
+
+    const extractedText = report.files.length === 1
+      ? report.files[0].extractedText || ''
+      : report.files.map((file: any) => `--- File: ${file.fileName} ---\n${file.extractedText || ''}`).join('\n\n');
+    const ocrConfidence = report.files.reduce((sum: number, file: any) => sum + (file.ocrConfidence || 0), 0) /
+      Math.max(1, report.files.length);
+
+    const hash = metricsHash(metrics.map(toMetricRecord));
+    // Another photo of a report read before; only now is there content to confirm it with
+    const duplicateOfId = report.duplicateOfId ?? await DuplicateService.getInstance().findLookalike(
+      report.userId,
+      report.id,
+      report.files.map((file: any) => file.perceptualHash).filter(Boolean),
+      { metricsHash: hash, sampleId: metadata.sampleId, collectedAt: metadata.collectedAt }
+    );
+    if (duplicateOfId && !report.duplicateOfId) {
+      logger.info(`👯 [${job.reportId}] A photo looks like a page of report ${duplicateOfId}, with the same content`);
+    }
+
+    // Replaces metrics from an earlier attempt, so retries don't duplicate them
+    signal.throwIfAborted();
+    await prisma.$transaction([
+      prisma.healthMetric.deleteMany({ where: { reportId: report.id } }),
+      ...metrics.map(metric => prisma.healthMetric.create({
+        data: {
+          ...toMetricRecord(metric),
+          reportId: report.id,
+          fileId: metricFiles.get(metric),
+          page: metric.page,
+          boundingBox: metric.bbox ? JSON.stringify(metric.bbox) : null
+        }
+      })),
+      prisma.report.update({
+        where: { id: report.id },
+        data: { extractedText, ocrConfidence, labKey, metricsHash: hash, duplicateOfId, ...metadata, testDate }
+      })
+    ]);
+    logger.info(`🗓️ [${job.reportId}] Tests done ${testDate.toISOString().split('T')[0]}` +
+      (metadata.labName ? ` at ${metadata.labName}` : '') + (metadata.patientName ? ` for ${metadata.patientName}` : ''));
+    this.publish(report.id, 'metrics_extracted', 'EXTRACTION', progressAt('EXTRACTION', 1),
+      `Found ${metrics.length} test values`, { metricsCount: metrics.length });
+  }
+
+  private async runAnalysis(job: Job, signal: AbortSignal): Promise<void> {
+    const prisma = DatabaseService.getInstance().getClient();
+    const report = await prisma.report.findUnique({
+      where: { id: job.reportId },
+      include: { metrics: true }
+    });
+    if (!report) throw new Error('Report no longer exists');
+
+    const corrected = job.payload?.corrected === true;
+    this.publish(report.id, 'analysis_started', 'ANALYSIS', progressAt('ANALYSIS', 0), 'Analyzing your results');
+    const data = await this.reuseAnalysis(report) ?? await this.analyze(report, corrected, signal);
+    signal.throwIfAborted();
+    await prisma.$transaction([
+      prisma.analysis.upsert({
+        where: { reportId: report.id },
+        update: data,
+        create: { ...data, reportId: report.id }
+      }),
+      prisma.report.update({
+        where: { id: report.id },
+        // Reports with the corrected values can reuse this analysis
+        data: { status: 'COMPLETED', ...(corrected ? { metricsHash: metricsHash(report.metrics) } : {}) }
+      })
+    ]);
+    this.publish(report.id, 'completed', null, 100, 'Your report is ready', { healthScore: data.healthScore });
+  }
+
+  // Identical values were analyzed before, so the answer would be the same
+  private async reuseAnalysis(report: any) {
+    if (!report.metricsHash) return null;
+    const earlier = await DuplicateService.getInstance().findReusableAnalysis(report.userId, report.metricsHash, report.id);
+    if (!earlier) return null;
+
+    logger.info(`♻️ [${report.id}] Same values as an earlier report, reusing its analysis`);
+    return {
+      aiAnalysis: earlier.aiAnalysis,
+      recommendations: earlier.recommendations,
+      healthScore: earlier.healthScore,
+      modelUsed: earlier.modelUsed,
+      fieldSources: earlier.fieldSources
+    };
+  }
+
+  // Finishes within the stage timeout, however many calls the model needs
+  private async analyze(report: any, corrected: boolean, signal: AbortSignal) {
+    logger.info(`🤖 [${report.id}] Starting AI analysis...`);
+    const timeout = PIPELINE.find(step => step.stage === 'ANALYSIS')!.timeout;
+    const analysis = await AIService.getInstance().analyzeHealthReport(
+      report.extractedText || '',
+      report.metrics.map(toAnalysisMetric),
+      corrected ? 'Some values were corrected by the patient after extraction; the listed values are authoritative.' : '',
+      { signal, deadline: Date.now() + timeout - ANALYSIS_SAVE_MARGIN_MS }
+    );
+    // Flags alone say less than the analysis being replaced
+    if (corrected && analysis.modelUsed === RULE_BASED_MODEL) {
+      throw new Error('No AI provider could answer');
+    }
+    logger.info(`✅ [${report.id}] AI analysis completed in ${analysis.processingTime}ms`);
+
+    return {
+      aiAnalysis: JSON.stringify(analysis.analysis),
+      recommendations: JSON.stringify(analysis.recommendations),
+      healthScore: analysis.healthScore,
+      modelUsed: analysis.modelUsed,
+      fieldSources: JSON.stringify(analysis.fieldSources)
+    };
+  }
+
+  /**
+   * Without OCR or extraction there is nothing to show, so the report fails.
+   * Extracted values are still worth showing when only the analysis failed.
+   */
+  private async onStageFailed(stage: PipelineStage, job: Job, error: Error): Promise<void> {
+    const prisma = DatabaseService.getInstance().getClient();
+    const status = stage === 'ANALYSIS' ? 'COMPLETED' : 'FAILED';
+    await prisma.report.update({ where: { id: job.reportId }, data: { status } });
+    logger.warn(`⚠️ [${job.reportId}] Report marked ${status} after ${stage} failed: ${error.message}`);
+
+    if (status === 'COMPLETED') {
+      const message = job.payload?.corrected
+        ? 'Your corrections are saved; the AI analysis could not be updated'
+        : 'Your values are ready; the AI analysis is unavailable';
+      this.publish(job.reportId, 'completed', null, 100, message, { error: error.message });
+    } else {
+      this.publish(job.reportId, 'failed', stage, progressAt(stage, 0), error.message);
+    }
+  }
+
+  private publish(reportId: string, type: ReportEventType, stage: PipelineStage | null, progress: number,
+    message: string, data?: Record<string, unknown>): void {
+    ReportEvents.getInstance().publish({ type, reportId, stage, progress, message, data });
+  }
+
+  private publishPage(reportId: string, files: any[], index: number, page: number, pageCount: number, progress: number): void {
+    const file = files[index];
+    const where = files.length > 1 ? ` of ${file.fileName} (file ${index + 1} of ${files.length})` : '';
+    this.publish(reportId, 'ocr_page', 'OCR', progress, `Read page ${page} of ${pageCount}${where}`, {
+      fileId: file.id,
+      fileName: file.fileName,
+      fileIndex: index + 1,
+      fileCount: files.length,
+      page,
+      pageCount
+    });
+  }
+
+  // Uploads without a signed-in user are owned by the demo user
+  private async ensureDemoUser(): Promise<string> {
+    try {
+      const prisma = DatabaseService.getInstance().getClient();
+      await prisma.user.upsert({
+        where: { id: 'demo-user' },
+        update: {},
+        create: {
+          id: 'demo-user',
+          email: 'demo@healthscan.ai',
+          name: 'Demo User'
+        }
+      });
+    } catch (userError) {
+      logger.warn('Could not create demo user:', userError);
+    }
+    return 'demo-user';
+  }
+
+  private async updateFile(fileId: string, data: Record<string, unknown>): Promise<void> {
+    try {
+      await DatabaseService.getInstance().getClient().reportFile.update({ where: { id: fileId }, data });
+    } catch (error) {
+      logger.debug(`Could not update report file ${fileId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+
+export interface FileFingerprint {
+  contentHash: string;
+  perceptualHash: string | null; // Photos only
+}
+
+// Values that make up a report, as stored
+interface FingerprintedMetric {
+  metric: string;
+  analyteId?: string | null;
+  value: string;
+  unit: string;
+  flag: string;
+}
+
+// dHash compares neighbouring pixels of a 9x8 thumbnail, giving 64 bits that
+// survive rescaling, recompression and small changes in lighting
+const DHASH_WIDTH = 9;
+const DHASH_HEIGHT = 8;
+
+export function contentHash(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+// 16 hex digits, or null when the image can't be decoded
+export async function perceptualHash(buffer: Buffer): Promise<string | null> {
+  try {
+    const pixels = await sharp(buffer)
+      .rotate() // Honour EXIF orientation, so a rotated retake still matches
+      .greyscale()
+      .removeAlpha()
+      .resize(DHASH_WIDTH, DHASH_HEIGHT, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    let hash = '';
+    let nibble = 0;
+    for (let y = 0; y < DHASH_HEIGHT; y++) {
+      for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+        const left = pixels[y * DHASH_WIDTH + x];
+        const right = pixels[y * DHASH_WIDTH + x + 1];
+        nibble = (nibble << 1) | (left > right ? 1 : 0);
+        if ((y * (DHASH_WIDTH - 1) + x) % 4 === 3) {
+          hash += nibble.toString(16);
+          nibble = 0;
+        }
+      }
+    }
+    return hash;
+  } catch {
+    return null;
+  }
+}
+
+// Number of differing bits between two perceptual hashes
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+export async function fingerprint(buffer: Buffer, mimeType: string): Promise<FileFingerprint> {
+  return {
+    contentHash: contentHash(buffer),
+    perceptualHash: mimeType.startsWith('image/') ? await perceptualHash(buffer) : null
+  };
+}
+
+/**
+ * Identical values, units and flags give the same hash whatever order they
+ * were extracted in. Flags depend on the patient's reference ranges, so a
+ * match means the analysis would be asked the same question.
+ */
+export function metricsHash(metrics: FingerprintedMetric[]): string | null {
+  if (metrics.length === 0) return null;
+  const entries = metrics
+    .map(metric => [metric.analyteId || metric.metric.toLowerCase(), metric.value, metric.unit, metric.flag].join('|'))
+    .sort();
+  return crypto.createHash('sha256').update(entries.join('\n')).digest('hex');
+}
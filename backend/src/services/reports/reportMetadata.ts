@@ -0,0 +1,301 @@
+import { ReferenceRangeService } from '../analytes/ReferenceRangeService';
+import { isIndicText, toAsciiDigits } from '../analytes/transliteration';
+
+// Details printed in a report's header, as they were printed
+export interface ReportMetadata {
+  collectedAt: Date | null;
+  reportedAt: Date | null;
+  labName: string | null;
+  patientName: string | null;
+  patientAge: string | null;            // "45 Y", "6 Months", "32Y 4M"
+  patientSex: 'male' | 'female' | null;
+  referringDoctor: string | null;
+  sampleId: string | null;
+}
+
+// Header details as stored on a report row, where the sex column is any string
+export type StoredReportMetadata = Partial<Omit<ReportMetadata, 'patientSex'>> & { patientSex?: string | null };
+
+export const METADATA_FIELDS: (keyof ReportMetadata)[] = [
+  'collectedAt', 'reportedAt', 'labName', 'patientName', 'patientAge', 'patientSex', 'referringDoctor', 'sampleId'
+];
+
+export interface PatientMismatch {
+  field: 'patientName' | 'patientSex';
+  printed: string;
+  expected: string;
+  message: string;
+}
+
+type LabelledField = 'patientName' | 'ageSex' | 'age' | 'sex' | 'referringDoctor' | 'sampleId' | 'collectedAt' | 'reportedAt' | 'date' | 'other';
+
+// Header labels, most specific first: at the same position the first that
+// matches wins. Text fields need a separator after the label so prose isn't
+// taken for one; dates are checked by parsing instead. "other" labels aren't
+// read, they only end the value before them on the same line.
+const LABELS: { field: LabelledField; pattern: string }[] = [
+  { field: 'collectedAt', pattern: String.raw`(?:sample\s*)?collect(?:ed|ion)(?:\s*(?:date|on|at|time))*(?:\s*[&/]\s*time)?|sample\s*(?:date|drawn(?:\s*on)?)|drawn\s*(?:on|date)|regist(?:ered|ration)\s*(?:on|date)` },
+  { field: 'reportedAt', pattern: String.raw`report(?:ed|ing)?\s*(?:date|on|at)(?:\s*[&/]\s*time)?|date\s*of\s*report|released\s*on|authori[sz]ed\s*on|approved\s*on` },
+  { field: 'referringDoctor', pattern: String.raw`(?:ref(?:erred|erring|\.)?\s*(?:by|dr\.?|doctor|physician|consultant)|referr(?:ed|ing|al)\s*(?:doctor|physician|by)|consultant|doctor(?:'?s)?\s*name)\s*[:\-–]` },
+  { field: 'patientName', pattern: String.raw`(?:patient(?:'?s)?\s*name|name\s*of\s*(?:the\s*)?patient|pt\.?\s*name|patient|name)\s*[:\-–]` },
+  { field: 'ageSex', pattern: String.raw`(?:age\s*[/&,]\s*(?:sex|gender)|(?:sex|gender)\s*[/&,]\s*age)\s*[:\-–]` },
+  { field: 'age', pattern: String.raw`age\s*[:\-–]` },
+  { field: 'sex', pattern: String.raw`(?:sex|gender)\s*[:\-–]` },
+  { field: 'sampleId', pattern: String.raw`(?:(?:sample|specimen|lab|accession|barcode)\s*(?:id|no\.?|number|#)|sid)\s*[:\-–]` },
+  { field: 'other', pattern: String.raw`(?:(?:lab|hospital|test)\s*name|patient\s*id|uhid|mrn|mr\s*no|ip\s*no|op\s*no|reg(?:istration|\.)?\s*no|bed\s*no|ward|phone|mobile|contact(?:\s*no)?|address|location|cent(?:re|er)|client(?:\s*name)?|status|department|dept|specimen(?:\s*type)?|page)\s*[:\-–]` },
+  { field: 'date', pattern: String.raw`date\s*[:\-–]` }
+];
+
+const LABEL_PATTERN = new RegExp(LABELS.map(label => `\\b(${label.pattern})`).join('|'), 'gi');
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// 12/03/2024, 12-Mar-2024, 12 March 2024, 12.03.24, each with an optional time; or 2024-03-12
+const DATE_PATTERN = /\b(\d{1,2})\s*[/\-.\s]\s*(\d{1,2}|[a-z]{3,9})\.?\s*[/\-.,\s]\s*(\d{4}|\d{2})\b(?:[\s,]*(?:at\s*)?(\d{1,2})[:.](\d{2})(?:[:.]\d{2})?\s*([ap]\.?m\.?)?)?/i;
+const ISO_DATE_PATTERN = /\b(\d{4})-(\d{2})-(\d{2})(?:[T\s](\d{2}):(\d{2}))?/;
+const EARLIEST_YEAR = 1990;
+
+const SEX_VALUES: Record<string, 'male' | 'female'> = { m: 'male', male: 'male', f: 'female', female: 'female' };
+const AGE_PATTERN = /^\d{1,3}(?:\.\d)?\s*(?:y(?:ea)?rs?|y|mon(?:th)?s?|mths?|m|w(?:ee)?ks?|d(?:ay)?s?)?\.?(?:\s*\d{1,2}\s*(?:mon(?:th)?s?|mths?|m|d(?:ay)?s?)\.?)*(?=\s|$|[/,|])/i;
+
+// Titles and salutations printed before names
+const NAME_TITLES = new Set(['mr', 'mrs', 'ms', 'miss', 'master', 'mstr', 'baby', 'b/o', 'dr', 'smt', 'shri', 'sri', 'kumari', 'km', 'md']);
+
+/**
+ * Read the report header: who the report is for, which lab made it and
+ * when the sample was taken. Each value is the first one found, so the
+ * header wins over repeats further down. A bare "Date:" is taken as the
+ * report date. Values that don't parse are left out rather than guessed.
+ */
+export function extractReportMetadata(text: string): ReportMetadata {
+  const metadata: ReportMetadata = {
+    collectedAt: null, reportedAt: null, labName: null, patientName: null,
+    patientAge: null, patientSex: null, referringDoctor: null, sampleId: null
+  };
+  let undatedDate: Date | null = null;
+
+  for (const line of toAsciiDigits(text).split('\n')) {
+    for (const { field, value } of readLabels(line)) {
+      switch (field) {
+        case 'patientName':
+          metadata.patientName ??= cleanName(value);
+          break;
+        case 'ageSex': {
+          const { age, sex } = parseAgeSex(value);
+          metadata.patientAge ??= age;
+          metadata.patientSex ??= sex;
+          break;
+        }
+        case 'age': {
+          const { age, sex } = parseAgeSex(value);
+          metadata.patientAge ??= age;
+          metadata.patientSex ??= sex; // "Age: 45 Yrs / Male"
+          break;
+        }
+        case 'sex':
+          metadata.patientSex ??= SEX_VALUES[value.toLowerCase().match(/^[a-z]+/)?.[0] ?? ''] ?? null;
+          break;
+        case 'referringDoctor':
+          metadata.referringDoctor ??= cleanName(value);
+          break;
+        case 'sampleId': {
+          const id = value.match(/^[a-z0-9][a-z0-9\-/]*/i)?.[0];
+          metadata.sampleId ??= id && /\d/.test(id) ? id : null;
+          break;
+        }
+        case 'collectedAt':
+          metadata.collectedAt ??= parseDate(value);
+          break;
+        case 'reportedAt':
+          metadata.reportedAt ??= parseDate(value);
+          break;
+        case 'date':
+          undatedDate ??= parseDate(value);
+          break;
+      }
+    }
+  }
+
+  metadata.reportedAt ??= undatedDate;
+  return metadata;
+}
+
+// First value found for each field across a report's files, in upload order
+export function mergeReportMetadata(parts: ReportMetadata[]): ReportMetadata {
+  const merged = { ...parts[0] };
+  for (const part of parts.slice(1)) {
+    for (const field of METADATA_FIELDS) {
+      setField(merged, field, merged[field] ?? part[field]);
+    }
+  }
+  return merged;
+}
+
+// Date the tests were done, for the timeline: when the sample was collected, else when the report was issued
+export function testDateOf(metadata: Pick<ReportMetadata, 'collectedAt' | 'reportedAt'>, uploadDate: Date): Date {
+  return metadata.collectedAt ?? metadata.reportedAt ?? uploadDate;
+}
+
+// A stored report's header details, with warnings where they don't fit the family member it belongs to
+export function describeReportMetadata(report: StoredReportMetadata & {
+  uploadDate: Date;
+  testDate?: Date | null;
+  user?: { name?: string | null; gender?: string | null } | null;
+}): { metadata: ReportMetadata; testDate: Date; patientMismatches: PatientMismatch[] } {
+  const metadata: ReportMetadata = {
+    collectedAt: report.collectedAt ?? null,
+    reportedAt: report.reportedAt ?? null,
+    labName: report.labName ?? null,
+    patientName: report.patientName ?? null,
+    patientAge: report.patientAge ?? null,
+    patientSex: SEX_VALUES[report.patientSex?.toLowerCase() ?? ''] ?? null,
+    referringDoctor: report.referringDoctor ?? null,
+    sampleId: report.sampleId ?? null
+  };
+  return {
+    metadata,
+    testDate: report.testDate ?? report.uploadDate,
+    patientMismatches: report.user ? findPatientMismatches(metadata, report.user) : []
+  };
+}
+
+/**
+ * Printed name and sex that don't fit the family member the report was
+ * uploaded for, which usually means it went to the wrong person. Names
+ * match when they share a word, ignoring titles, case and initials; names
+ * printed in another script can't be compared and aren't flagged.
+ */
+export function findPatientMismatches(
+  metadata: Pick<ReportMetadata, 'patientName' | 'patientSex'>,
+  owner: { name?: string | null; gender?: string | null }
+): PatientMismatch[] {
+  const mismatches: PatientMismatch[] = [];
+
+  if (metadata.patientName && owner.name && isIndicText(metadata.patientName) === isIndicText(owner.name)) {
+    const printed = nameWords(metadata.patientName);
+    const expected = nameWords(owner.name);
+    const shared = printed.some(word => expected.some(other =>
+      word === other || (Math.min(word.length, other.length) >= 3 && (word.startsWith(other) || other.startsWith(word)))
+    ));
+    if (printed.length > 0 && expected.length > 0 && !shared) {
+      mismatches.push({
+        field: 'patientName',
+        printed: metadata.patientName,
+        expected: owner.name,
+        message: `This report is printed for "${metadata.patientName}", not ${owner.name}`
+      });
+    }
+  }
+
+  const ownerSex = ReferenceRangeService.buildPatientContext({ gender: owner.gender }).sex;
+  if (metadata.patientSex && ownerSex && metadata.patientSex !== ownerSex) {
+    mismatches.push({
+      field: 'patientSex',
+      printed: metadata.patientSex,
+      expected: ownerSex,
+      message: `This report is printed for a ${metadata.patientSex} patient, but ${owner.name || 'this family member'} is ${ownerSex}`
+    });
+  }
+
+  return mismatches;
+}
+
+// Keeps each field's value type, which a loop over METADATA_FIELDS can't
+function setField<K extends keyof ReportMetadata>(metadata: ReportMetadata, field: K, value: ReportMetadata[K]): void {
+  metadata[field] = value;
+}
+
+// Labelled values on one line; each runs up to the next label
+function readLabels(line: string): { field: LabelledField; value: string }[] {
+  const found: { field: LabelledField; start: number; end: number }[] = [];
+  LABEL_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = LABEL_PATTERN.exec(line)) !== null) {
+    const group = match.slice(1).findIndex(Boolean);
+    found.push({ field: LABELS[group].field, start: match.index, end: match.index + match[0].length });
+  }
+
+  return found.map((label, i) => ({
+    field: label.field,
+    value: line.slice(label.end, found[i + 1]?.start ?? line.length)
+      .split(/\s{3,}|\|/)[0] // Wide gaps and table borders separate columns
+      .replace(/^[\s:\-–.]+|[\s:,;\-–]+$/g, '')
+  })).filter(label => label.value);
+}
+
+function cleanName(value: string): string | null {
+  const name = value.replace(/\s+/g, ' ').trim();
+  if (name.length < 2 || name.length > 80 || !/\p{L}[\p{L}\p{M}]/u.test(name) || /\d{3,}/.test(name)) return null;
+  return name;
+}
+
+// "45 Y / M", "M / 45 Yrs", "32Y 4M/Female", "45 Years"
+function parseAgeSex(value: string): { age: string | null; sex: 'male' | 'female' | null } {
+  let age: string | null = null;
+  let sex: 'male' | 'female' | null = null;
+  for (const part of value.split(/\s*[/,|]\s*/)) {
+    const word = part.toLowerCase().trim();
+    if (!sex && SEX_VALUES[word]) {
+      sex = SEX_VALUES[word];
+    } else if (!age && AGE_PATTERN.test(part.trim())) {
+      age = part.trim().match(AGE_PATTERN)![0].trim();
+      const rest = part.trim().slice(age.length).trim().toLowerCase();
+      if (!sex && SEX_VALUES[rest]) sex = SEX_VALUES[rest]; // "45Y M"
+    }
+  }
+  return { age, sex };
+}
+
+function parseDate(value: string): Date | null {
+  const iso = value.match(ISO_DATE_PATTERN);
+  if (iso) {
+    return validDate(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]), Number(iso[4] ?? 0), Number(iso[5] ?? 0));
+  }
+
+  const match = value.match(DATE_PATTERN);
+  if (!match) return null;
+  const [, first, second, yearText, hourText, minuteText, meridiem] = match;
+
+  let day = Number(first);
+  let month: number;
+  if (/^\d+$/.test(second)) {
+    month = Number(second) - 1;
+    // Indian reports print day first; only a day that can't be a month says otherwise
+    if (month > 11 && day <= 12) [day, month] = [month + 1, day - 1];
+  } else {
+    month = MONTHS.indexOf(second.slice(0, 3).toLowerCase());
+    if (month === -1) return null;
+  }
+
+  let year = Number(yearText);
+  if (yearText.length === 2) {
+    year += year <= new Date().getFullYear() % 100 + 1 ? 2000 : 1900;
+  }
+
+  let hour = Number(hourText ?? 0);
+  if (meridiem) {
+    const pm = meridiem.toLowerCase().startsWith('p');
+    if (hour === 12) hour = pm ? 12 : 0;
+    else if (pm) hour += 12;
+  }
+  return validDate(year, month, day, hour, Number(minuteText ?? 0));
+}
+
+// Rejects impossible dates (31/02) and ones from before digital reports or the future
+function validDate(year: number, month: number, day: number, hour: number, minute: number): Date | null {
+  if (hour > 23 || minute > 59) {
+    hour = 0;
+    minute = 0;
+  }
+  const date = new Date(year, month, day, hour, minute);
+  if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) return null;
+  if (year < EARLIEST_YEAR || date.getTime() > Date.now() + 24 * 60 * 60 * 1000) return null;
+  return date;
+}
+
+function nameWords(name: string): string[] {
+  return name.normalize('NFKD').toLowerCase()
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{M}/]+/u)
+    .filter(word => word.length >= 2 && !NAME_TITLES.has(word));
+}
@@ -113,6 +113,15 @@ export class StorageService {
     }
   }
   
+  // Stored file behind a URL returned by saveFile ("/uploads/reports/...")
+  async getFileByUrl(url: string): Promise<Buffer> {
+    const filePath = path.resolve(this.uploadDir, url.replace(/^\/uploads\//, ''));
+    if (!filePath.startsWith(this.uploadDir + path.sep)) {
+      throw new AppError('File not found', 404);
+    }
+    return this.getFile(filePath);
+  }
+  
   async fileExists(filePath: string): Promise<boolean> {
     try {
       await fs.access(filePath);
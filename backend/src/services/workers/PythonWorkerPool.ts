@@ -0,0 +1,296 @@
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+import path from 'path';
+import readline from 'readline';
+import { logger } from '../../utils/logger';
+import { config } from '../../config';
+
+export interface WorkerRequestOptions {
+  timeout?: number; // ms from the call until the result, waiting included
+  signal?: AbortSignal; // Cancels the request, stopping its worker if it has started
+}
+
+export interface WorkerStats {
+  workers: { pid?: number; ready: boolean; busy: string | null; handled: number; uptimeMs: number }[];
+  queued: number;
+  restarts: number;
+}
+
+interface PendingRequest {
+  id: string;
+  method: string;
+  params: Record<string, unknown>;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+  cleanup?: () => void;
+}
+
+interface PythonWorker {
+  process: ChildProcessWithoutNullStreams;
+  ready: boolean;
+  busy: PendingRequest | null;
+  handled: number;
+  startedAt: number;
+  startupTimer?: NodeJS.Timeout;
+  retiring?: boolean; // Killed, waiting for it to exit
+}
+
+// Works from src/ and from the compiled dist/
+const WORKER_SCRIPT = path.resolve(__dirname, '../../../python/worker.py');
+
+const STARTUP_TIMEOUT_MS = 30 * 1000;
+const HEALTH_CHECK_INTERVAL_MS = 30 * 1000;
+const HEALTH_CHECK_TIMEOUT_MS = 10 * 1000;
+const RESTART_BACKOFF_BASE_MS = 1000;
+const MAX_RESTART_BACKOFF_MS = 60 * 1000;
+
+/**
+ * PythonWorkerPool - Keeps Python processes running for model-backed work
+ *
+ * Loading EasyOCR, PaddleOCR or a transformers model takes far longer than
+ * using it, so workers (python/worker.py) stay up and keep what they've
+ * loaded. Requests and responses are JSON lines over stdio. Each worker
+ * runs one request at a time and the rest wait in a bounded queue. Workers
+ * start on first use; one that crashes, stops answering health checks or
+ * overruns a request is killed and replaced, backing off if it keeps
+ * failing.
+ */
+export class PythonWorkerPool {
+  private static instance: PythonWorkerPool;
+  private workers: PythonWorker[] = [];
+  private queue: PendingRequest[] = [];
+  private nextId = 0;
+  private restarts = 0;
+  private consecutiveFailures = 0;
+  private nextSpawnAt = 0;
+  private spawnTimer: NodeJS.Timeout | null = null;
+  private healthTimer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  static getInstance(): PythonWorkerPool {
+    if (!PythonWorkerPool.instance) {
+      PythonWorkerPool.instance = new PythonWorkerPool();
+    }
+    return PythonWorkerPool.instance;
+  }
+
+  /**
+   * Run a worker method (see METHODS in python/worker.py). Rejects with the
+   * Python error, with "timeout" once the request runs out of time or
+   * "aborted" once `signal` aborts, or straight away when the queue is full
+   * or workers can't be started.
+   */
+  request<T = any>(method: string, params: Record<string, unknown> = {}, options: WorkerRequestOptions = {}): Promise<T> {
+    if (options.signal?.aborted) {
+      return Promise.reject(new Error(`Python worker request aborted: ${method}`));
+    }
+    if (this.stopped) {
+      return Promise.reject(new Error('Python workers are shut down'));
+    }
+    if (this.queue.length >= config.python.maxQueue) {
+      return Promise.reject(new Error('Python workers are busy, try again later'));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const { signal } = options;
+      const onAbort = () => this.cancel(request, new Error(`Python worker request aborted: ${method}`));
+      const request: PendingRequest = {
+        id: String(++this.nextId),
+        method,
+        params,
+        resolve: result => { request.cleanup?.(); resolve(result); },
+        reject: error => { request.cleanup?.(); reject(error); },
+        cleanup: () => signal?.removeEventListener('abort', onAbort)
+      };
+      request.timer = setTimeout(() => this.expire(request), options.timeout ?? config.python.requestTimeout);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(request);
+      this.dispatch();
+    });
+  }
+
+  getStats(): WorkerStats {
+    return {
+      workers: this.workers.map(worker => ({
+        pid: worker.process.pid,
+        ready: worker.ready,
+        busy: worker.busy?.method ?? null,
+        handled: worker.handled,
+        uptimeMs: Date.now() - worker.startedAt
+      })),
+      queued: this.queue.length,
+      restarts: this.restarts
+    };
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.healthTimer) clearInterval(this.healthTimer);
+    if (this.spawnTimer) clearTimeout(this.spawnTimer);
+    this.healthTimer = null;
+    this.spawnTimer = null;
+    this.failQueued(new Error('Python workers are shut down'));
+    for (const worker of this.workers) worker.process.kill();
+  }
+
+  // Hand queued requests to idle workers, starting workers as needed
+  private dispatch(): void {
+    for (const worker of this.workers) {
+      if (this.queue.length === 0) return;
+      if (worker.ready && !worker.busy && !worker.retiring) this.send(worker, this.queue.shift()!);
+    }
+
+    const idle = this.workers.filter(worker => !worker.busy && !worker.retiring).length;
+    if (this.queue.length > idle && this.workers.length < config.python.workers) {
+      this.scheduleSpawn();
+    }
+  }
+
+  private send(worker: PythonWorker, request: PendingRequest): void {
+    worker.busy = request;
+    worker.process.stdin.write(JSON.stringify({ id: request.id, method: request.method, params: request.params }) + '\n');
+  }
+
+  private scheduleSpawn(): void {
+    if (this.spawnTimer || this.stopped) return;
+    this.spawnTimer = setTimeout(() => {
+      this.spawnTimer = null;
+      this.spawnWorker();
+      this.dispatch();
+    }, Math.max(0, this.nextSpawnAt - Date.now()));
+  }
+
+  private spawnWorker(): void {
+    const child = spawn(config.python.bin, ['-u', WORKER_SCRIPT], { stdio: 'pipe' });
+    const worker: PythonWorker = { process: child, ready: false, busy: null, handled: 0, startedAt: Date.now() };
+    this.workers.push(worker);
+    logger.info(`🐍 Starting Python worker (pid ${child.pid ?? 'n/a'})`);
+
+    worker.startupTimer = setTimeout(() => {
+      logger.warn(`⚠️ Python worker ${child.pid} did not start in time, stopping it`);
+      child.kill();
+    }, STARTUP_TIMEOUT_MS);
+
+    readline.createInterface({ input: child.stdout }).on('line', line => this.onMessage(worker, line));
+    readline.createInterface({ input: child.stderr }).on('line', line => {
+      if (line.trim()) logger.debug(`🐍 [${child.pid}] ${line}`);
+    });
+    child.stdin.on('error', () => undefined); // Writes to a worker that just died; its exit is handled below
+
+    let exited = false;
+    const onExit = (reason: string) => {
+      if (exited) return;
+      exited = true;
+      this.onExit(worker, reason);
+    };
+    child.on('error', error => onExit(error.message));
+    child.on('exit', (code, signal) => onExit(signal ? `killed by ${signal}` : `exited with code ${code}`));
+
+    if (!this.healthTimer && !this.stopped) {
+      this.healthTimer = setInterval(() => this.checkHealth(), HEALTH_CHECK_INTERVAL_MS);
+      this.healthTimer.unref();
+    }
+  }
+
+  private onMessage(worker: PythonWorker, line: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      logger.warn(`⚠️ Python worker ${worker.process.pid} wrote a line that isn't JSON: ${line.slice(0, 200)}`);
+      return;
+    }
+
+    if (message.ready) {
+      clearTimeout(worker.startupTimer);
+      worker.ready = true;
+      this.consecutiveFailures = 0;
+      logger.info(`✅ Python worker ${worker.process.pid} ready`);
+      this.dispatch();
+      return;
+    }
+
+    const request = worker.busy;
+    if (!request || message.id !== request.id) return; // Answer to a request that already timed out
+    worker.busy = null;
+    worker.handled++;
+    clearTimeout(request.timer);
+    if (message.error) {
+      request.reject(new Error(message.error.message || 'Python worker request failed'));
+    } else {
+      request.resolve(message.result);
+    }
+    this.dispatch();
+  }
+
+  private onExit(worker: PythonWorker, reason: string): void {
+    clearTimeout(worker.startupTimer);
+    this.workers = this.workers.filter(candidate => candidate !== worker);
+    if (this.stopped) return;
+
+    const error = new Error(`Python worker ${reason}`);
+    if (worker.busy) {
+      clearTimeout(worker.busy.timer);
+      worker.busy.reject(error);
+    }
+
+    // Back off while workers keep dying; a worker that never started means
+    // Python itself is broken, so waiting requests fail rather than hang
+    this.restarts++;
+    this.consecutiveFailures++;
+    const backoff = Math.min(RESTART_BACKOFF_BASE_MS * 2 ** (this.consecutiveFailures - 1), MAX_RESTART_BACKOFF_MS);
+    this.nextSpawnAt = Date.now() + backoff;
+    if (!worker.ready) {
+      logger.error(`❌ Python worker could not start: ${reason}`);
+      this.failQueued(error);
+    } else {
+      logger.warn(`⚠️ Python worker ${worker.process.pid} ${reason}; a new one can start in ${backoff}ms`);
+    }
+    this.dispatch();
+  }
+
+  private expire(request: PendingRequest): void {
+    this.cancel(request, new Error(`Python worker timeout: ${request.method}`));
+  }
+
+  // A request out of time or aborted is dropped from the queue, or its worker killed so it's free again
+  private cancel(request: PendingRequest, error: Error): void {
+    clearTimeout(request.timer);
+    const queued = this.queue.indexOf(request);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+    } else {
+      const worker = this.workers.find(candidate => candidate.busy === request);
+      if (!worker) return;
+      worker.busy = null;
+      worker.retiring = true;
+      logger.warn(`⏱️ Stopping Python worker ${worker.process.pid}: ${error.message}`);
+      worker.process.kill();
+    }
+    request.reject(error);
+  }
+
+  // Idle workers must answer a ping; busy ones are covered by request timeouts
+  private checkHealth(): void {
+    for (const worker of this.workers) {
+      if (!worker.ready || worker.busy || worker.retiring) continue;
+
+      const ping: PendingRequest = {
+        id: String(++this.nextId),
+        method: 'ping',
+        params: {},
+        resolve: () => this.dispatch(),
+        reject: error => logger.warn(`⚠️ Python worker ${worker.process.pid} failed a health check: ${error.message}`)
+      };
+      ping.timer = setTimeout(() => this.expire(ping), HEALTH_CHECK_TIMEOUT_MS);
+      this.send(worker, ping);
+    }
+  }
+
+  private failQueued(error: Error): void {
+    for (const request of this.queue.splice(0)) {
+      clearTimeout(request.timer);
+      request.reject(error);
+    }
+  }
+}
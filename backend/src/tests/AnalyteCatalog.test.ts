@@ -0,0 +1,30 @@
+import { AnalyteCatalog } from '../services/analytes/AnalyteCatalog';
+import { HealthMetricExtractor } from '../services/ocr/HealthMetricExtractor';
+
+describe('AnalyteCatalog', () => {
+  const catalog = AnalyteCatalog.getInstance();
+
+  test.each([
+    ['ALT (SGPT)', 'ALT'],
+    ['SGPT', 'ALT'],
+    ['Hemoglobin (Hb)', 'HGB'],
+    ['Haemoglobin', 'HGB'],
+    ['Platelet Count', 'PLT']
+  ])('resolves %s to %s', (name, id) => {
+    expect(catalog.resolve(name)?.id).toBe(id);
+  });
+
+  test('returns null for names it does not know', () => {
+    expect(catalog.resolve('Patient Name')).toBeNull();
+  });
+
+  test('resolves printed names read from report lines', () => {
+    const metrics = HealthMetricExtractor.getInstance().extractHealthMetrics([
+      'ALT (SGPT) 35 U/L 5 - 40',
+      'Hemoglobin (Hb) 13.5 g/dL 12.0 - 15.0'
+    ].join('\n'));
+
+    expect(metrics.find(metric => metric.analyteId === 'ALT')?.value).toBe(35);
+    expect(metrics.find(metric => metric.analyteId === 'HGB')?.value).toBe(13.5);
+  });
+});
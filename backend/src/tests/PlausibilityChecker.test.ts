@@ -0,0 +1,44 @@
+import { PRINTED_RANGE_SOURCE } from '../services/analytes/ReferenceRangeService';
+import { HealthMetric } from '../services/ocr/HealthMetricExtractor';
+import { PlausibilityChecker } from '../services/ocr/PlausibilityChecker';
+
+const metric = (analyteId: string, value: number, unit: string, normalRange: number[], extra: Partial<HealthMetric> = {}): HealthMetric => ({
+  category: 'Test', metric: analyteId, analyteId, value, unit, normalRange,
+  flag: 'NORMAL', confidence: 90, rangeSource: PRINTED_RANGE_SOURCE, ...extra
+});
+
+describe('PlausibilityChecker', () => {
+  const checker = PlausibilityChecker.getInstance();
+
+  test('repairs a missed decimal point against the printed range', () => {
+    const [finding] = checker.check([metric('HGB', 135, 'g/dL', [12, 15])]);
+    expect(finding.note.reason).toBe('decimal-slip');
+    expect(finding.repairedValue).toBe(13.5);
+  });
+
+  test('only suggests a repair when the range was not printed', () => {
+    const [finding] = checker.check([metric('HGB', 135, 'g/dL', [12, 15], { rangeSource: 'Default' })]);
+    expect(finding.note.reason).toBe('implausible');
+    expect(finding.repairedValue).toBeUndefined();
+    expect(finding.note.suggestions).toEqual(['13.5']);
+  });
+
+  test('leaves values inside the range alone', () => {
+    expect(checker.check([metric('HGB', 13.5, 'g/dL', [12, 15])])).toEqual([]);
+  });
+
+  test('leaves manual entries alone', () => {
+    expect(checker.check([metric('HGB', 135, 'g/dL', [12, 15], { extractionMethod: 'manual' })])).toEqual([]);
+  });
+
+  test('flags a differential that adds up to more than 100%', () => {
+    const findings = checker.check([
+      metric('NEUT_PCT', 70, '%', [40, 75]),
+      metric('LYMPH_PCT', 30, '%', [20, 45]),
+      metric('MONO_PCT', 8, '%', [2, 10]),
+      metric('EOS_PCT', 3, '%', [1, 6])
+    ]);
+    expect(findings).toHaveLength(4);
+    expect(findings.every(finding => finding.note.reason === 'inconsistent')).toBe(true);
+  });
+});
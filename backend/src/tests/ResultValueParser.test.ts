@@ -0,0 +1,35 @@
+import { ResultValueParser } from '../services/analytes/ResultValueParser';
+import { HealthMetricExtractor } from '../services/ocr/HealthMetricExtractor';
+
+describe('ResultValueParser', () => {
+  const parser = ResultValueParser.getInstance();
+
+  test('reads Nil as a negative qualitative result', () => {
+    expect(parser.parse('Nil')).toMatchObject({ type: 'qualitative', value: 0, polarity: 'negative' });
+  });
+
+  test('reads a microscopy range and keeps the unit', () => {
+    expect(parser.parse('4-6 /hpf')).toMatchObject({ type: 'range', low: 4, high: 6, value: 5, remainder: '/hpf' });
+  });
+
+  test('reads inequalities', () => {
+    expect(parser.parse('<0.5')).toMatchObject({ type: 'inequality', comparator: '<', value: 0.5 });
+  });
+
+  test.each([
+    ['2+', 2],
+    ['Trace', 0.5]
+  ])('grades %s as %s', (text, value) => {
+    expect(parser.parse(text)).toMatchObject({ type: 'ordinal', value });
+  });
+
+  test('reads urine results from report lines', () => {
+    const metrics = HealthMetricExtractor.getInstance().extractHealthMetrics([
+      'Sugar: Nil',
+      'Pus Cells 4-6 /hpf 0 - 5'
+    ].join('\n'));
+
+    expect(metrics.find(metric => metric.analyteId === 'URINE_GLU')).toMatchObject({ valueType: 'qualitative', valueText: 'Nil' });
+    expect(metrics.find(metric => metric.analyteId === 'URINE_WBC')).toMatchObject({ valueType: 'range', value: 5 });
+  });
+});
@@ -0,0 +1,50 @@
+import { TableReconstructor, WordBox } from '../services/ocr/TableReconstructor';
+
+// Lays out a line of words at the given x positions, as OCR word boxes
+const line = (y: number, cells: [string, number][], page = 1): WordBox[] =>
+  cells.flatMap(([text, x]) => text.split(' ').map((word, i) => ({
+    text: word, confidence: 95, x: x + i * 60, y, width: 50, height: 14, page
+  })));
+
+const header = (y: number, page = 1) => line(y, [
+  ['Test Name', 40], ['Result', 400], ['Units', 560], ['Reference Range', 720]
+], page);
+
+describe('TableReconstructor', () => {
+  const reconstructor = TableReconstructor.getInstance();
+
+  test('splits rows into the header columns', () => {
+    const rows = reconstructor.reconstruct([
+      ...header(100),
+      ...line(140, [['Hemoglobin', 40], ['13.5', 400], ['g/dL', 560], ['12.0 - 15.0', 720]]),
+      ...line(170, [['ALT (SGPT)', 40], ['35', 400], ['U/L', 560], ['5 - 40', 720]])
+    ]);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].cells.test?.text).toBe('Hemoglobin');
+    expect(rows[0].cells.result?.text).toBe('13.5');
+    expect(rows[0].cells.unit?.text).toBe('g/dL');
+    expect(rows[0].cells.reference?.text).toBe('12.0 - 15.0');
+    expect(rows[1].cells.test?.text).toBe('ALT (SGPT)');
+    expect(rows[1].cells.result?.text).toBe('35');
+  });
+
+  test('reuses the previous page\'s columns when a page has no header', () => {
+    const rows = reconstructor.reconstruct([
+      ...header(100),
+      ...line(140, [['Hemoglobin', 40], ['13.5', 400], ['g/dL', 560], ['12.0 - 15.0', 720]]),
+      ...line(100, [['Platelet Count', 40], ['2.5', 400], ['lakhs/cumm', 560], ['1.5 - 4.5', 720]], 2)
+    ]);
+
+    const platelets = rows.find(row => row.cells.test?.text === 'Platelet Count');
+    expect(platelets?.cells.result?.text).toBe('2.5');
+    expect(platelets?.cells.unit?.text).toBe('lakhs/cumm');
+  });
+
+  test('ignores empty and zero-size words', () => {
+    expect(reconstructor.reconstruct([
+      { text: ' ', confidence: 90, x: 0, y: 0, width: 10, height: 10 },
+      { text: 'Result', confidence: 90, x: 0, y: 0, width: 0, height: 10 }
+    ])).toEqual([]);
+  });
+});
@@ -0,0 +1,36 @@
+import { AnalyteCatalog } from '../services/analytes/AnalyteCatalog';
+import { UnitConverter } from '../services/analytes/UnitConverter';
+
+describe('UnitConverter', () => {
+  const converter = UnitConverter.getInstance();
+  const catalog = AnalyteCatalog.getInstance();
+
+  test('converts glucose between mmol/L and mg/dL', () => {
+    const glucose = catalog.get('GLU');
+    expect(converter.convert(5.5, 'mmol/L', 'mg/dL', glucose)).toBeCloseTo(99.1, 1);
+    expect(converter.convert(99.1, 'mg/dL', 'mmol/L', glucose)).toBeCloseTo(5.5, 2);
+  });
+
+  test('needs the analyte to convert between mass and molar units', () => {
+    expect(converter.convert(5.5, 'mmol/L', 'mg/dL')).toBeNull();
+  });
+
+  test('reads lakhs/cumm as a count', () => {
+    expect(converter.normalizeUnit('lakhs/cumm')).toBe('lakh/μL');
+    expect(converter.convert(2.5, 'lakhs/cumm', '10^3/μL')).toBeCloseTo(250);
+    expect(converter.toPreferredUnit(2.5, 'lakhs/cumm', catalog.get('PLT')!)).toEqual({ value: 250000, unit: '/μL' });
+  });
+
+  test('scales within a dimension', () => {
+    expect(converter.convert(135, 'g/L', 'g/dL')).toBeCloseTo(13.5);
+  });
+
+  test('refuses to convert between different dimensions', () => {
+    expect(converter.convert(1, 'mg/dL', '10^3/μL')).toBeNull();
+  });
+
+  test('keeps units it does not know as printed', () => {
+    expect(converter.isKnownUnit('furlongs')).toBe(false);
+    expect(converter.normalizeUnit(' furlongs ')).toBe('furlongs');
+  });
+});
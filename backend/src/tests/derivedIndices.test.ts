@@ -0,0 +1,33 @@
+import { DERIVED_INDEX_RULES } from '../services/analytes/derivedIndices';
+import { PatientContext } from '../services/analytes/ReferenceRangeService';
+
+const rule = (id: string) => DERIVED_INDEX_RULES.find(candidate => candidate.id === id)!;
+const lookup = (results: Record<string, number>) => (id: string) => results[id];
+
+describe('derivedIndices', () => {
+  const adult: PatientContext = { sex: 'female', ageYears: 50 };
+
+  test('estimates LDL with Friedewald', () => {
+    expect(rule('LDL').compute(lookup({ CHOL: 200, HDL: 50, TRIG: 150 }), adult)).toBe(120);
+  });
+
+  test('does not estimate LDL once triglycerides reach 400', () => {
+    expect(rule('LDL').compute(lookup({ CHOL: 200, HDL: 50, TRIG: 400 }), adult)).toBeNull();
+  });
+
+  test('calculates eGFR with CKD-EPI 2021 for adults of known sex', () => {
+    expect(rule('EGFR').compute(lookup({ CREAT: 0.7 }), adult)).toBeCloseTo(105.3, 1);
+    expect(rule('EGFR').compute(lookup({ CREAT: 0.7 }), { sex: 'female', ageYears: 15 })).toBeNull();
+    expect(rule('EGFR').compute(lookup({ CREAT: 0.7 }), { ageYears: 50 })).toBeNull();
+  });
+
+  test('calculates HOMA-IR from fasting glucose and insulin', () => {
+    expect(rule('HOMA_IR').compute(lookup({ GLU_FAST: 90, INSULIN: 9 }), adult)).toBe(2);
+  });
+
+  test('returns null when an input is missing', () => {
+    for (const index of DERIVED_INDEX_RULES) {
+      expect(index.compute(lookup({}), adult)).toBeNull();
+    }
+  });
+});
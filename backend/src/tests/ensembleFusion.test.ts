@@ -0,0 +1,47 @@
+import { fuseReadings } from '../services/ocr/ensembleFusion';
+import { WordBox } from '../services/ocr/TableReconstructor';
+
+// Word boxes for one line, a character apart
+const words = (text: string, confidence: number): WordBox[] => {
+  let x = 0;
+  return text.split(' ').map(word => {
+    const box = { text: word, confidence, x, y: 10, width: word.length * 8, height: 14 };
+    x += box.width + 8;
+    return box;
+  });
+};
+
+describe('ensembleFusion', () => {
+  test('votes on numbers the engines read differently', () => {
+    const fused = fuseReadings([
+      { engine: 'a', text: 'Hemoglobin 18.5 g/dL', confidence: 80, words: words('Hemoglobin 18.5 g/dL', 70) },
+      { engine: 'b', text: 'Hemoglobin 13.5 g/dL', confidence: 75 },
+      { engine: 'c', text: 'Hemoglobin 13.5 g/dL', confidence: 75 }
+    ]);
+
+    expect(fused.pivot).toBe(0);
+    expect(fused.text).toBe('Hemoglobin 13.5 g/dL');
+    expect(fused.changed).toBe(1);
+    expect(fused.disagreements).toHaveLength(1);
+    expect(fused.disagreements[0].token).toBe('13.5');
+  });
+
+  test('reads look-alike letters inside numbers as digits', () => {
+    const fused = fuseReadings([
+      { engine: 'a', text: 'Glucose 1O5 mg/dL', confidence: 80, words: words('Glucose 1O5 mg/dL', 90) },
+      { engine: 'b', text: 'Glucose 105 mg/dL', confidence: 70 }
+    ]);
+
+    expect(fused.disagreements).toEqual([]);
+  });
+
+  test('keeps the pivot\'s text when the engines agree', () => {
+    const fused = fuseReadings([
+      { engine: 'a', text: 'ALT (SGPT) 35 U/L', confidence: 80 },
+      { engine: 'b', text: 'ALT (SGPT) 35 U/L', confidence: 70 }
+    ]);
+
+    expect(fused.text).toBe('ALT (SGPT) 35 U/L');
+    expect(fused.changed).toBe(0);
+  });
+});
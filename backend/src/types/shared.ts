@@ -6,14 +6,67 @@ export interface HealthMetric {
   reportId?: string;
   category: string;
   metric: string;
+  analyteId?: string | null;
+  fileId?: string | null;  // File of the report the value was read from
   value: number;
+  valueType?: 'numeric' | 'qualitative' | 'ordinal' | 'range' | 'inequality';
+  valueText?: string | null;  // Non-numeric result as printed: "Nil", "2+", "4-6", "<0.5"
+  numericValue?: number | null; // Stored number; the stand-in for non-numeric results
   unit: string;
+  normalizedValue?: number | null;
+  normalizedUnit?: string | null;
   flag: 'LOW' | 'NORMAL' | 'HIGH' | 'CRITICAL';
+  confidence?: number | null;
+  extractionMethod?: string | null;
   normalRange?: number[];
+  rangeSource?: string | null;
+  referenceText?: string | null;
+  page?: number | null;
+  boundingBox?: { x: number; y: number; width: number; height: number } | null;
+  reviewNotes?: { reason: string; message: string; suggestions?: string[] }[] | null;
+  originalName?: string | null;  // As extracted, once a user has corrected the metric
+  originalValue?: string | null;
+  correctedAt?: Date | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+export interface ReportFile {
+  id: string;
+  reportId: string;
+  position: number;
+  fileName: string;
+  fileUrl: string;
+  fileType: string;
+  fileSize: number;
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  error?: string | null;
+  extractedText?: string | null;
+  ocrConfidence?: number | null;
+  pageCount?: number | null;
+  contentHash?: string | null;  // SHA-256 of the file
+  perceptualHash?: string | null;  // dHash, photos only
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One stage of processing a report in the job queue
+export interface ProcessingJob {
+  id: string;
+  reportId: string;
+  stage: 'OCR' | 'EXTRACTION' | 'ANALYSIS';
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  startedAt?: Date | null;
+  finishedAt?: Date | null;
+  durationMs?: number | null;
+  error?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface Report {
   id: string;
   userId: string;
@@ -24,9 +77,24 @@ export interface Report {
   uploadDate: Date;
   extractedText?: string | null;
   ocrConfidence?: number | null;
+  labKey?: string | null;  // Lab the report came from, for its learned corrections
+  metricsHash?: string | null;  // Fingerprint of the extracted values
+  duplicateOfId?: string | null;  // Earlier report this one looks like
+  // Printed in the report header; editable
+  collectedAt?: Date | null;
+  reportedAt?: Date | null;
+  labName?: string | null;
+  patientName?: string | null;
+  patientAge?: string | null;  // As printed: "45 Y", "6 Months"
+  patientSex?: 'male' | 'female' | null;
+  referringDoctor?: string | null;
+  sampleId?: string | null;
+  testDate?: Date | null;  // Timeline date: collection, else report, else upload date
   createdAt: Date;
   updatedAt: Date;
   analysis?: Analysis | null;
+  files?: ReportFile[];
+  jobs?: ProcessingJob[];
   metrics?: HealthMetric[];
   _count?: {
     metrics: number;
@@ -1,12 +1,14 @@
 "use client"
 
-import React, { useState, useCallback, useEffect } from "react"
+import React, { useState, useCallback, useEffect, useRef } from "react"
 import { useRouter } from "next/navigation"
-import { Upload, FileText, Image, AlertCircle, CheckCircle2, Loader2, Heart, Lock, CheckCircle, Zap, Sparkles } from "lucide-react"
+import { Upload, FileText, Image, Camera, AlertCircle, CheckCircle2, Loader2, Heart, Lock, CheckCircle, Zap, Sparkles } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { reportStorage, parseAnalysisToReport } from "@/lib/reportStorage"
+import { followReport, PatientMismatch, ProcessingStage, ReportMetadata } from "@/lib/reportEvents"
 import { useAuth } from "@/contexts/AuthContext"
+import { useLanguage } from "@/contexts/LanguageContext"
 
 interface AnalysisResult {
   success: boolean
@@ -18,18 +20,67 @@ interface AnalysisResult {
     processingTime?: number
     [key: string]: any
   }
+  report?: {
+    id: string
+    status: string
+  }
+  // Outcome of each uploaded file, in upload order
+  files?: {
+    id?: string
+    fileName: string
+    status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED'
+    metricsCount: number
+    error?: string
+  }[]
   error?: string
+  // Photos to retake, when the upload was turned away
+  retake?: RetakeRequest[]
+  // Read from the report header
+  metadata?: ReportMetadata
+  testDate?: string
+  patientMismatches?: PatientMismatch[]
+}
+
+interface RetakeRequest {
+  fileName: string
+  issues: { code: string; message: string; edges?: string[] }[]
+}
+
+// Report still being processed, so a return visit can pick it up again
+const PENDING_REPORT_KEY = 'healthscan_pending_report'
+
+const PROCESSING_STEPS: { stage: ProcessingStage; label: string }[] = [
+  { stage: 'OCR', label: 'Reading Files' },
+  { stage: 'EXTRACTION', label: 'Extracting Values' },
+  { stage: 'ANALYSIS', label: 'AI Analysis' },
+]
+
+// Earlier report the upload matched
+interface DuplicateNotice {
+  merged: boolean // Same files as before: the earlier report is shown instead
+  fileName: string
+  uploadDate: string
+}
+
+interface ProcessingProgress {
+  percent: number
+  stage: ProcessingStage | null
+  message: string
 }
 
 export default function TryAppPage() {
   const router = useRouter()
   const { user, loading, token } = useAuth()
+  const { currentLanguage, t } = useLanguage()
   const [files, setFiles] = useState<File[]>([])
   const [uploading, setUploading] = useState(false)
   const [analyzing, setAnalyzing] = useState(false)
   const [result, setResult] = useState<AnalysisResult | null>(null)
   const [dragActive, setDragActive] = useState(false)
   const [filePreviews, setFilePreviews] = useState<Map<string, string>>(new Map())
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null)
+  const [duplicate, setDuplicate] = useState<DuplicateNotice | null>(null)
+  const followAbort = useRef<AbortController | null>(null)
 
   // Redirect to login if user is not authenticated
   useEffect(() => {
@@ -38,6 +89,90 @@ export default function TryAppPage() {
     }
   }, [user, loading, router])
 
+  // Follow a queued report until it's done; processing carries on if the user leaves
+  const trackReport = useCallback(async (reportId: string, fileNames: string[]) => {
+    if (!token) return
+    followAbort.current?.abort()
+    const controller = new AbortController()
+    followAbort.current = controller
+    setAnalyzing(true)
+
+    try {
+      const status = await followReport(reportId, token, {
+        onStatus: status => setProgress({
+          percent: status.progress,
+          stage: status.stage,
+          message: status.stages.find(step => step.stage === status.stage && step.status !== 'PENDING')?.label
+            || 'Waiting for processing to start...'
+        }),
+        onEvent: event => setProgress({ percent: event.progress, stage: event.stage, message: event.message }),
+      }, controller.signal)
+      localStorage.removeItem(PENDING_REPORT_KEY)
+      if (status.duplicateOf) {
+        const earlier = status.duplicateOf
+        setDuplicate(current => current ?? { merged: false, fileName: earlier.fileName, uploadDate: earlier.uploadDate })
+      }
+
+      const data: AnalysisResult = {
+        success: status.status === 'COMPLETED',
+        report: { id: status.id, status: status.status },
+        files: status.files,
+        extractedText: status.extractedText || '',
+        analysis: status.analysis || undefined,
+        error: status.error,
+        metadata: status.metadata,
+        testDate: status.testDate,
+        patientMismatches: status.patientMismatches
+      }
+      setResult(data)
+
+      // Save successful analysis to dashboard
+      if (data.success && fileNames.length > 0) {
+        try {
+          const reportData = parseAnalysisToReport(
+            fileNames.join(', '),
+            data.extractedText || '',
+            data.analysis
+          )
+          reportStorage.saveReport(reportData)
+          console.log('Reports saved to dashboard successfully')
+        } catch (error) {
+          console.error('Failed to save reports:', error)
+        }
+      }
+    } catch (error) {
+      // Left the page: the report stays pending for the next visit
+      if (controller.signal.aborted) return
+      localStorage.removeItem(PENDING_REPORT_KEY)
+      setResult({
+        success: false,
+        extractedText: '',
+        error: error instanceof Error ? error.message : 'Lost track of your report. Please check your reports page.'
+      })
+    } finally {
+      if (followAbort.current === controller) {
+        followAbort.current = null
+        setAnalyzing(false)
+        setProgress(null)
+      }
+    }
+  }, [token])
+
+  // Pick up a report that was still processing when the user left
+  useEffect(() => {
+    const pending = localStorage.getItem(PENDING_REPORT_KEY)
+    if (!token || !pending) return
+
+    try {
+      const { reportId, fileNames } = JSON.parse(pending)
+      trackReport(reportId, fileNames || [])
+    } catch {
+      localStorage.removeItem(PENDING_REPORT_KEY)
+    }
+  }, [token, trackReport])
+
+  useEffect(() => () => followAbort.current?.abort(), [])
+
   // Show loading state while checking authentication
   if (loading) {
     return (
@@ -124,12 +259,15 @@ export default function TryAppPage() {
     setUploading(true)
     setAnalyzing(false)
     setResult(null)
+    setDuplicate(null)
 
     try {
       const formData = new FormData()
       files.forEach((file, index) => {
         formData.append('files', file)
       })
+      // Lets OCR pick the right language pack for Indian-script reports
+      formData.append('language', currentLanguage.code)
 
       const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/v1/upload`, {
         method: 'POST',
@@ -145,38 +283,31 @@ export default function TryAppPage() {
           router.push('/login?redirect=/try-app&error=session-expired')
           return
         }
+        // Photos that can't be read reliably come back with what to fix in each
+        if (response.status === 422) {
+          const rejection = await response.json().catch(() => null)
+          if (rejection?.details?.files) {
+            setUploading(false)
+            setResult({ success: false, extractedText: '', error: rejection.error, retake: rejection.details.files })
+            return
+          }
+        }
         throw new Error(`Upload failed: ${response.status}`)
       }
 
-      const data = await response.json()
-      setUploading(false)
-
-      if (data.success) {
-        setAnalyzing(true)
-        setTimeout(() => {
-          setAnalyzing(false)
-          setResult(data)
-          
-          // Save successful analysis to dashboard
-          if (data.success && files.length > 0) {
-            try {
-              const reportData = parseAnalysisToReport(
-                files.map(f => f.name).join(', '),
-                data.extractedText || '',
-                data.analysis
-              )
-              reportStorage.saveReport(reportData)
-              console.log('Reports saved to dashboard successfully')
-            } catch (error) {
-              console.error('Failed to save reports:', error)
-            }
-          }
-        }, 3000)
-      } else {
-        setResult(data)
+      // The upload only queues the report; follow it as it's processed
+      const upload = await response.json()
+      if (upload.duplicate) {
+        setDuplicate({ merged: upload.merged, fileName: upload.duplicate.fileName, uploadDate: upload.duplicate.uploadDate })
       }
+      // A merged upload is already on the dashboard
+      const fileNames = upload.merged ? [] : files.map(f => f.name)
+      localStorage.setItem(PENDING_REPORT_KEY, JSON.stringify({ reportId: upload.report.id, fileNames }))
+      setUploading(false)
+      await trackReport(upload.report.id, fileNames)
     } catch (error) {
       setUploading(false)
+      setAnalyzing(false)
       setResult({
         success: false,
         extractedText: '',
@@ -190,6 +321,8 @@ export default function TryAppPage() {
     setResult(null)
     setUploading(false)
     setAnalyzing(false)
+    setProgress(null)
+    setDuplicate(null)
     setFilePreviews(new Map())
   }
 
@@ -443,33 +576,50 @@ export default function TryAppPage() {
 
                 <div>
                   <h3 className="text-2xl font-bold bg-gradient-to-r from-primary-600 to-healing-600 bg-clip-text text-transparent mb-4">
-                    {uploading ? '📤 Uploading your report...' : '🧠 AI is analyzing your report...'}
+                    {uploading ? '📤 Uploading your report...' : '🧠 Processing your report...'}
                   </h3>
                   
                   <div className="bg-white/60 backdrop-blur-sm rounded-xl p-4 border border-white/50">
                     <p className="text-gray-700 text-lg leading-relaxed mb-4">
                       {uploading 
                         ? 'Securely processing your file with advanced encryption...' 
-                        : 'Our AI is extracting insights and generating personalized Indian health recommendations...'}
+                        : progress?.message || 'Checking on your report...'}
                     </p>
+
+                    {!uploading && (
+                      <div className="mb-4">
+                        <div className="w-full bg-gray-200 rounded-full h-2.5">
+                          <div
+                            className="bg-gradient-to-r from-primary-500 to-healing-500 h-2.5 rounded-full transition-all duration-500"
+                            style={{ width: `${progress?.percent ?? 0}%` }}
+                          ></div>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">{progress?.percent ?? 0}% done</p>
+                      </div>
+                    )}
                     
-                    {/* Progress Indicators */}
+                    {/* Progress Indicators, following the report through each stage */}
                     <div className="flex flex-wrap items-center justify-center gap-4 text-sm text-gray-600">
-                      <div className={`flex items-center ${uploading ? 'text-primary-600' : 'text-gray-400'}`}>
-                        <div className={`w-2 h-2 rounded-full mr-2 ${uploading ? 'bg-primary-500 animate-pulse' : 'bg-gray-300'}`}></div>
-                        <span>Processing File</span>
-                      </div>
-                      <div className={`flex items-center ${analyzing ? 'text-healing-600' : 'text-gray-400'}`}>
-                        <div className={`w-2 h-2 rounded-full mr-2 ${analyzing ? 'bg-healing-500 animate-pulse' : 'bg-gray-300'}`}></div>
-                        <span>AI Analysis</span>
-                      </div>
-                      <div className="flex items-center text-gray-400">
-                        <div className="w-2 h-2 bg-gray-300 rounded-full mr-2"></div>
-                        <span>Generating Report</span>
-                      </div>
+                      {PROCESSING_STEPS.map((step, index) => {
+                        const current = PROCESSING_STEPS.findIndex(candidate => candidate.stage === progress?.stage)
+                        const active = !uploading && index === current
+                        const done = !uploading && current > index
+                        return (
+                          <div key={step.stage} className={`flex items-center ${active ? 'text-primary-600' : done ? 'text-healing-600' : 'text-gray-400'}`}>
+                            <div className={`w-2 h-2 rounded-full mr-2 ${active ? 'bg-primary-500 animate-pulse' : done ? 'bg-healing-500' : 'bg-gray-300'}`}></div>
+                            <span>{step.label}</span>
+                          </div>
+                        )
+                      })}
                     </div>
                   </div>
 
+                  {!uploading && (
+                    <p className="mt-4 text-sm text-gray-500">
+                      You can leave this page. Your report keeps processing, and we&apos;ll pick up here when you come back.
+                    </p>
+                  )}
+
                   {/* Fun Loading Messages */}
                   <div className="mt-4 text-primary-600 font-medium">
                     {uploading ? (
@@ -504,6 +654,39 @@ export default function TryAppPage() {
                     <p className="text-gray-600 mb-4">
                       Your blood report has been successfully analyzed. Here are your personalized health insights:
                     </p>
+                    {result.metadata && (
+                      <p className="text-sm text-gray-600 mb-4">
+                        {[
+                          result.testDate && `Tests done ${new Date(result.testDate).toLocaleDateString()}`,
+                          result.metadata.labName,
+                          result.metadata.patientName && `for ${result.metadata.patientName}`,
+                          result.metadata.referringDoctor && `referred by ${result.metadata.referringDoctor}`,
+                        ].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
+                    {result.patientMismatches && result.patientMismatches.length > 0 && (
+                      <div className="flex items-start bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-800">
+                        <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                        <div>
+                          {result.patientMismatches.map(mismatch => (
+                            <p key={mismatch.field}>{mismatch.message}.</p>
+                          ))}
+                          <p className="mt-1">
+                            Check that it was uploaded for the right family member, or correct the report details from your dashboard.
+                          </p>
+                        </div>
+                      </div>
+                    )}
+                    {duplicate && (
+                      <div className="flex items-start bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+                        <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                        <p>
+                          {duplicate.merged
+                            ? `You uploaded this report on ${new Date(duplicate.uploadDate).toLocaleDateString()}, so these are its earlier results.`
+                            : `This looks like ${duplicate.fileName}, uploaded on ${new Date(duplicate.uploadDate).toLocaleDateString()}. If it's the same report, you can delete one of them from your reports.`}
+                        </p>
+                      </div>
+                    )}
                   </Card>
 
                   {/* Scanned Reports Preview */}
@@ -516,8 +699,21 @@ export default function TryAppPage() {
                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                         {files.map((file, index) => {
                           const preview = filePreviews.get(file.name)
+                          const outcome = result.files?.[index]
                           return (
                             <div key={index} className="bg-gray-50 rounded-lg p-4">
+                              {outcome && (
+                                <p
+                                  className={`text-xs font-medium mb-2 flex items-center ${outcome.status === 'FAILED' ? 'text-red-600' : 'text-green-700'}`}
+                                  title={outcome.error}
+                                >
+                                  {outcome.status === 'FAILED' ? (
+                                    <><AlertCircle className="h-3.5 w-3.5 mr-1" /> Could not be read</>
+                                  ) : (
+                                    <><CheckCircle2 className="h-3.5 w-3.5 mr-1" /> {outcome.metricsCount} values found</>
+                                  )}
+                                </p>
+                              )}
                               {preview === 'pdf' ? (
                                 <div className="text-center py-8">
                                   <FileText className="h-12 w-12 text-gray-400 mx-auto mb-2" />
@@ -642,9 +838,30 @@ export default function TryAppPage() {
                       Analysis Failed
                     </h3>
                   </div>
-                  <p className="text-gray-600 mb-4">
-                    {result.error || 'Something went wrong while analyzing your report.'}
-                  </p>
+                  {result.retake ? (
+                    <div className="space-y-3 mb-4">
+                      {result.retake.map(file => (
+                        <div key={file.fileName} className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+                          <p className="text-sm font-medium text-gray-900 mb-1 flex items-center">
+                            <Camera className="h-4 w-4 mr-2 text-amber-600" />
+                            {t('tryApp.retake.title')}: {file.fileName}
+                          </p>
+                          <ul className="list-disc pl-6 text-sm text-amber-800 space-y-1">
+                            {file.issues.map(issue => (
+                              <li key={issue.code}>
+                                {t(`tryApp.retake.${issue.code}`, issue.message)}
+                                {issue.edges && ` (${issue.edges.map(edge => t(`tryApp.retake.edges.${edge}`, edge)).join(', ')})`}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-gray-600 mb-4">
+                      {result.error || 'Something went wrong while analyzing your report.'}
+                    </p>
+                  )}
                   <Button onClick={resetUpload} variant="outline">
                     Try Again
                   </Button>
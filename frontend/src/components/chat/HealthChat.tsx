@@ -1,16 +1,18 @@
 "use client"
 
 import { useState, useRef, useEffect } from 'react'
-import { Send, MessageCircle, Loader2, Bot, User, Heart, Lock } from 'lucide-react'
+import { Send, MessageCircle, Loader2, Bot, User, Heart, Lock, Square } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import { useAuth } from '@/contexts/AuthContext'
+import { streamChatMessage } from '@/lib/chatStream'
 
 interface Message {
   id: string
   role: 'user' | 'assistant'
   content: string
   timestamp: string
+  stopped?: boolean // Stopped before the end, so not saved
 }
 
 interface HealthChatProps {
@@ -23,8 +25,13 @@ export default function HealthChat({ reportId, className = '' }: HealthChatProps
   const [messages, setMessages] = useState<Message[]>([])
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
+  const [streaming, setStreaming] = useState<Message | null>(null) // The answer being written
   const [sessionId] = useState(() => `session_${Date.now()}`)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Stop an answer still being written when the chat closes
+  useEffect(() => () => abortRef.current?.abort(), [])
 
   // Initialize messages based on auth state
   useEffect(() => {
@@ -44,7 +51,7 @@ export default function HealthChat({ reportId, className = '' }: HealthChatProps
 
   useEffect(() => {
     scrollToBottom()
-  }, [messages])
+  }, [messages, streaming])
 
   const sendMessage = async () => {
     if (!input.trim() || isLoading || !user) return
@@ -60,50 +67,59 @@ export default function HealthChat({ reportId, className = '' }: HealthChatProps
     setInput('')
     setIsLoading(true)
 
+    const controller = new AbortController()
+    abortRef.current = controller
+    const assistantId = (Date.now() + 1).toString()
+    let content = ''
+
     try {
       const token = await getAuthToken()
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/chat/message`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          message: input,
-          sessionId,
-          context: reportId ? { reportId } : undefined
-        })
-      })
-
-      if (!response.ok) {
-        throw new Error('Failed to send message')
+      if (!token) {
+        throw new Error('Not signed in')
       }
 
-      const data = await response.json()
-
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: data.response,
-        timestamp: data.timestamp
-      }
+      const done = await streamChatMessage(
+        {
+          message: userMessage.content,
+          sessionId,
+          context: reportId ? { reportId } : undefined
+        },
+        token,
+        text => {
+          content += text
+          setStreaming({ id: assistantId, role: 'assistant', content, timestamp: new Date().toISOString() })
+        },
+        controller.signal
+      )
 
-      setMessages(prev => [...prev, assistantMessage])
+      setMessages(prev => [...prev, { id: done.messageId, role: 'assistant', content, timestamp: done.timestamp }])
 
     } catch (error) {
-      console.error('Chat error:', error)
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: "I'm sorry, I'm having trouble connecting right now. Please try again in a moment.",
-        timestamp: new Date().toISOString()
+      const stopped = controller.signal.aborted
+      if (content) {
+        setMessages(prev => [...prev, { id: assistantId, role: 'assistant', content, timestamp: new Date().toISOString(), stopped: true }])
+      }
+      if (!stopped) {
+        console.error('Chat error:', error)
+        const errorMessage: Message = {
+          id: (Date.now() + 2).toString(),
+          role: 'assistant',
+          content: "I'm sorry, I'm having trouble connecting right now. Please try again in a moment.",
+          timestamp: new Date().toISOString()
+        }
+        setMessages(prev => [...prev, errorMessage])
       }
-      setMessages(prev => [...prev, errorMessage])
     } finally {
+      if (abortRef.current === controller) abortRef.current = null
+      setStreaming(null)
       setIsLoading(false)
     }
   }
 
+  const stopAnswer = () => {
+    abortRef.current?.abort()
+  }
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -153,7 +169,7 @@ export default function HealthChat({ reportId, className = '' }: HealthChatProps
 
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map((message) => (
+        {(streaming ? [...messages, streaming] : messages).map((message) => (
           <div
             key={message.id}
             className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -191,13 +207,14 @@ export default function HealthChat({ reportId, className = '' }: HealthChatProps
                     hour: '2-digit', 
                     minute: '2-digit' 
                   })}
+                  {message.stopped && ' · Stopped'}
                 </p>
               </div>
             </div>
           </div>
         ))}
         
-        {isLoading && (
+        {isLoading && !streaming && (
           <div className="flex justify-start">
             <div className="flex flex-row">
               <div className="flex-shrink-0 h-8 w-8 rounded-full bg-green-500 mr-2 flex items-center justify-center">
@@ -226,14 +243,26 @@ export default function HealthChat({ reportId, className = '' }: HealthChatProps
             className="flex-1 min-h-[44px] max-h-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
             disabled={isLoading}
           />
-          <Button
-            onClick={sendMessage}
-            disabled={!input.trim() || isLoading}
-            size="sm"
-            className="px-3 py-2"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
+          {isLoading ? (
+            <Button
+              onClick={stopAnswer}
+              size="sm"
+              variant="outline"
+              className="px-3 py-2"
+              title="Stop answering"
+            >
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button
+              onClick={sendMessage}
+              disabled={!input.trim()}
+              size="sm"
+              className="px-3 py-2"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
         </div>
         <p className="text-xs text-gray-500 mt-2">
           Press Enter to send, Shift+Enter for new line
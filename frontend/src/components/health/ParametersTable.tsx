@@ -1,27 +1,82 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { Calendar, Download, Search, Filter, Eye, TrendingUp, TrendingDown, Activity } from "lucide-react"
+import { Calendar, Download, Search, Filter, Eye, TrendingUp, TrendingDown, Activity, X, Pencil, Trash2, Plus, Check, AlertCircle } from "lucide-react"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
+import { useAuth } from "@/contexts/AuthContext"
+import { PatientMismatch, ReportMetadata } from "@/lib/reportEvents"
 
 interface HealthParameter {
   id: string
   category: string
   parameter: string
   value: string
+  valueType?: 'numeric' | 'qualitative' | 'ordinal' | 'range' | 'inequality'
+  numericValue?: number | null
   unit: string
   status: string
   statusIcon: string
   statusColor: string
   normalRange: string
+  rangeSource?: string
+  normalMin?: number | null
+  normalMax?: number | null
+  confidence?: number | null
+  extractionMethod?: string | null
+  page?: number | null
+  hasLocation?: boolean
+  reviewNotes?: { reason: string; message: string; suggestions?: string[] }[]
+  originalName?: string | null
+  originalValue?: string | null
+  correctedAt?: string | null
   createdAt?: string
 }
 
+// Fields a user can correct; value as printed ("12.5", "Nil", "2+")
+interface MetricForm {
+  metric: string
+  value: string
+  unit: string
+  normalMin: string
+  normalMax: string
+}
+
+const EMPTY_FORM: MetricForm = { metric: '', value: '', unit: '', normalMin: '', normalMax: '' }
+
+// Extraction confidence below which a value is worth checking against the scan
+const LOW_CONFIDENCE = 70
+
+// Report header details a user can correct, as form strings; dates as yyyy-mm-dd
+type DetailsForm = Record<keyof ReportMetadata, string>
+
+const DETAIL_FIELDS: { field: keyof ReportMetadata; label: string; type?: 'date' | 'sex' }[] = [
+  { field: 'collectedAt', label: 'Collected', type: 'date' },
+  { field: 'reportedAt', label: 'Reported', type: 'date' },
+  { field: 'labName', label: 'Lab / hospital' },
+  { field: 'patientName', label: 'Patient' },
+  { field: 'patientAge', label: 'Age' },
+  { field: 'patientSex', label: 'Sex', type: 'sex' },
+  { field: 'referringDoctor', label: 'Referred by' },
+  { field: 'sampleId', label: 'Sample ID' },
+]
+
+const toDetailsForm = (metadata?: ReportMetadata): DetailsForm => {
+  const form = {} as DetailsForm
+  for (const { field, type } of DETAIL_FIELDS) {
+    const value = metadata?.[field] ?? ''
+    form[field] = type === 'date' && value ? new Date(value).toLocaleDateString('en-CA') : value
+  }
+  return form
+}
+
 interface ReportData {
   id: string
   fileName: string
   uploadDate: string
+  testDate?: string // When the tests were done, if read from the report
+  metadata?: ReportMetadata
+  patientMismatches?: PatientMismatch[]
   fileType: string
   status: string
   ocrConfidence: string
@@ -47,6 +102,20 @@ export function ParametersTable({ reportId, showHistory = false }: ParametersTab
   const [searchTerm, setSearchTerm] = useState("")
   const [selectedCategory, setSelectedCategory] = useState("all")
   const [selectedReport, setSelectedReport] = useState<string | null>(null)
+  const [selectedParam, setSelectedParam] = useState<HealthParameter | null>(null)
+  const [showFullPage, setShowFullPage] = useState(false)
+  const [regionImage, setRegionImage] = useState<string | null>(null)
+  const [regionLoading, setRegionLoading] = useState(false)
+  const [regionError, setRegionError] = useState<string | null>(null)
+  // Row being corrected ('new' while adding one), its form and save state
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<MetricForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [editError, setEditError] = useState<string | null>(null)
+  // Report details being corrected, null when not editing
+  const [detailsForm, setDetailsForm] = useState<DetailsForm | null>(null)
+  const [detailsError, setDetailsError] = useState<string | null>(null)
+  const { getAuthToken } = useAuth()
 
   const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080/api/v1'
 
@@ -58,6 +127,50 @@ export function ParametersTable({ reportId, showHistory = false }: ParametersTab
     }
   }, [reportId, showHistory])
 
+  // Load the scan region a parameter was read from
+  useEffect(() => {
+    const currentReportId = reportData?.id || reportId
+    if (!selectedParam || !currentReportId) return
+
+    if (!selectedParam.hasLocation) {
+      setRegionImage(null)
+      setRegionError('The position of this value was not recorded for this report.')
+      return
+    }
+
+    let objectUrl: string | null = null
+    let cancelled = false
+    const loadRegion = async () => {
+      try {
+        setRegionLoading(true)
+        setRegionError(null)
+        const token = await getAuthToken()
+        const params = new URLSearchParams({ metricId: selectedParam.id, crop: String(!showFullPage) })
+        const response = await fetch(`${API_BASE_URL}/upload/annotated/${currentReportId}?${params}`, {
+          headers: token ? { 'Authorization': `Bearer ${token}` } : {}
+        })
+        if (!response.ok) throw new Error(`Failed to load report image: ${response.status}`)
+
+        objectUrl = URL.createObjectURL(await response.blob())
+        if (!cancelled) setRegionImage(objectUrl)
+      } catch (error) {
+        console.error('Failed to load report region:', error)
+        if (!cancelled) {
+          setRegionImage(null)
+          setRegionError('Could not load the original report image.')
+        }
+      } finally {
+        if (!cancelled) setRegionLoading(false)
+      }
+    }
+    loadRegion()
+
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [selectedParam, showFullPage, reportData?.id, reportId])
+
   const fetchReportParameters = async (id: string) => {
     try {
       setLoading(true)
@@ -74,17 +187,20 @@ export function ParametersTable({ reportId, showHistory = false }: ParametersTab
     }
   }
 
-  const fetchAllReports = async () => {
+  // Reloads keep the report being viewed selected, without the loading state
+  const fetchAllReports = async (keepReportId?: string) => {
     try {
-      setLoading(true)
+      if (!keepReportId) setLoading(true)
       const response = await fetch(`${API_BASE_URL}/upload/history`)
       const data = await response.json()
       
       if (data.success) {
-        setAllReports(data.data.reports)
-        if (data.data.reports.length > 0) {
-          setSelectedReport(data.data.reports[0].id)
-          setReportData(data.data.reports[0])
+        const reports: ReportData[] = data.data.reports
+        setAllReports(reports)
+        const current = reports.find(report => report.id === keepReportId) || reports[0]
+        if (current) {
+          setSelectedReport(current.id)
+          setReportData(current)
         }
       }
     } catch (error) {
@@ -94,6 +210,121 @@ export function ParametersTable({ reportId, showHistory = false }: ParametersTab
     }
   }
 
+  const startEditing = (param: HealthParameter | null) => {
+    setEditError(null)
+    setEditingId(param ? param.id : 'new')
+    setForm(param ? {
+      metric: param.parameter,
+      value: param.value,
+      unit: param.unit,
+      normalMin: param.normalMin != null ? String(param.normalMin) : '',
+      normalMax: param.normalMax != null ? String(param.normalMax) : ''
+    } : EMPTY_FORM)
+  }
+
+  const cancelEditing = () => {
+    setEditingId(null)
+    setEditError(null)
+  }
+
+  // Corrections are re-flagged and the report re-analyzed on the server
+  const sendCorrection = async (method: 'POST' | 'PATCH' | 'DELETE', metricId?: string) => {
+    const currentReportId = reportData?.id || reportId
+    if (!currentReportId) return
+
+    try {
+      setSaving(true)
+      setEditError(null)
+      const token = await getAuthToken()
+      const range = form.normalMin.trim() && form.normalMax.trim()
+        ? { normalMin: parseFloat(form.normalMin), normalMax: parseFloat(form.normalMax) }
+        : {}
+      const response = await fetch(`${API_BASE_URL}/reports/${currentReportId}/metrics${metricId ? `/${metricId}` : ''}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {})
+        },
+        body: method === 'DELETE' ? undefined : JSON.stringify({
+          metric: form.metric.trim(),
+          value: form.value.trim(),
+          unit: form.unit.trim(),
+          ...range
+        })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || `Request failed: ${response.status}`)
+      }
+
+      setEditingId(null)
+      if (selectedParam?.id === metricId) setSelectedParam(null)
+      if (showHistory) {
+        await fetchAllReports(currentReportId)
+      } else {
+        await fetchReportParameters(currentReportId)
+      }
+    } catch (error) {
+      console.error('Failed to save correction:', error)
+      setEditError(error instanceof Error ? error.message : 'Could not save the correction.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Only changed details are sent; the timeline date follows the dates on the server
+  const saveDetails = async () => {
+    const currentReportId = reportData?.id || reportId
+    if (!currentReportId || !detailsForm) return
+
+    const original = toDetailsForm(reportData?.metadata)
+    const changes: Record<string, string | null> = {}
+    for (const { field } of DETAIL_FIELDS) {
+      const value = detailsForm[field].trim()
+      if (value !== original[field]) changes[field] = value || null
+    }
+    if (Object.keys(changes).length === 0) {
+      setDetailsForm(null)
+      return
+    }
+
+    try {
+      setSaving(true)
+      setDetailsError(null)
+      const token = await getAuthToken()
+      const response = await fetch(`${API_BASE_URL}/reports/${currentReportId}/details`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {})
+        },
+        body: JSON.stringify(changes)
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || `Request failed: ${response.status}`)
+      }
+
+      setDetailsForm(null)
+      if (showHistory) {
+        await fetchAllReports(currentReportId)
+      } else {
+        await fetchReportParameters(currentReportId)
+      }
+    } catch (error) {
+      console.error('Failed to save report details:', error)
+      setDetailsError(error instanceof Error ? error.message : 'Could not save the report details.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteParameter = (param: HealthParameter) => {
+    if (window.confirm(`Delete ${param.parameter} from this report? The original value is kept in the report history.`)) {
+      sendCorrection('DELETE', param.id)
+    }
+  }
+
   const getStatusBadge = (status: string) => {
     const colors = {
       'NORMAL': 'bg-green-100 text-green-800 border-green-200',
@@ -114,6 +345,96 @@ export function ParametersTable({ reportId, showHistory = false }: ParametersTab
     }
   }
 
+  // Grade of "+", "2+", "Trace", "Few"... on a 0-4 scale
+  const getOrdinalGrade = (value: string) => {
+    const plus = value.match(/^([1-4])\s*\+$|^(\+{1,4})$/)
+    if (plus) return plus[1] ? parseInt(plus[1], 10) : plus[2].length
+    const words: Record<string, number> = { trace: 0.5, occasional: 0.5, rare: 0.5, few: 1, moderate: 2, many: 3, numerous: 3, plenty: 3, loaded: 4 }
+    return words[value.toLowerCase()] ?? 0
+  }
+
+  const renderValue = (param: HealthParameter) => {
+    switch (param.valueType) {
+      case 'qualitative':
+        return (
+          <span className={getStatusBadge(param.status)}>{param.value}</span>
+        )
+      case 'ordinal': {
+        const grade = getOrdinalGrade(param.value)
+        return (
+          <span className="flex items-center" title={`Grade ${grade} of 4`}>
+            <span className="font-semibold text-gray-900 mr-2">{param.value}</span>
+            {[1, 2, 3, 4].map(step => (
+              <span
+                key={step}
+                className={`h-2 w-3 mr-0.5 rounded-sm ${grade >= step ? 'bg-orange-400' : grade >= step - 0.5 ? 'bg-orange-200' : 'bg-gray-200'}`}
+              />
+            ))}
+          </span>
+        )
+      }
+      case 'range':
+        return <span className="font-semibold text-gray-900">{param.value.replace('-', '–')}</span>
+      case 'inequality':
+        return (
+          <span
+            className="font-semibold text-gray-900 underline decoration-dotted"
+            title={`Reported as ${param.value.startsWith('<') ? 'below' : 'above'} this value, usually the limit the test can measure`}
+          >
+            {param.value.replace('<=', '≤ ').replace('>=', '≥ ').replace(/^([<>])/, '$1 ')}
+          </span>
+        )
+      default:
+        return <span className="font-semibold text-gray-900">{param.value}</span>
+    }
+  }
+
+  const renderEditRow = (param?: HealthParameter) => {
+    const inputClass = "w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+    const update = (field: keyof MetricForm) => (e: React.ChangeEvent<HTMLInputElement>) => setForm({ ...form, [field]: e.target.value })
+    return (
+      <tr key={param?.id || 'new'} className="border-b bg-blue-50">
+        <td className="py-3 px-4">
+          <input className={inputClass} placeholder="Parameter" value={form.metric} onChange={update('metric')} />
+          {param?.originalValue != null && (
+            <div className="text-xs text-gray-500 mt-1">Originally read as {param.originalName} {param.originalValue}</div>
+          )}
+        </td>
+        <td className="py-3 px-4">
+          <input className={inputClass} placeholder="12.5, Nil, 2+" value={form.value} onChange={update('value')} />
+        </td>
+        <td className="py-3 px-4">
+          <input className={inputClass} placeholder="Unit" value={form.unit} onChange={update('unit')} />
+        </td>
+        <td className="py-3 px-4 text-xs text-gray-500">Flagged on save</td>
+        <td className="py-3 px-4">
+          <div className="flex items-center space-x-1">
+            <input className={inputClass} placeholder="Min" inputMode="decimal" value={form.normalMin} onChange={update('normalMin')} />
+            <span className="text-gray-400">–</span>
+            <input className={inputClass} placeholder="Max" inputMode="decimal" value={form.normalMax} onChange={update('normalMax')} />
+          </div>
+        </td>
+        <td className="py-3 px-4 text-sm text-red-600">{editError}</td>
+        <td className="py-3 px-4">
+          <div className="flex items-center justify-end space-x-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Save"
+              disabled={saving || !form.metric.trim() || !form.value.trim()}
+              onClick={() => sendCorrection(param ? 'PATCH' : 'POST', param?.id)}
+            >
+              <Check className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" title="Cancel" disabled={saving} onClick={cancelEditing}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </td>
+      </tr>
+    )
+  }
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -177,13 +498,14 @@ export function ParametersTable({ reportId, showHistory = false }: ParametersTab
                   if (selected) {
                     setSelectedReport(e.target.value)
                     setReportData(selected)
+                    setSelectedParam(null)
                   }
                 }}
                 className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
                 {allReports.map(report => (
                   <option key={report.id} value={report.id}>
-                    {report.fileName} - {formatDate(report.uploadDate)}
+                    {report.fileName} - {formatDate(report.testDate || report.uploadDate)}
                   </option>
                 ))}
               </select>
@@ -200,7 +522,7 @@ export function ParametersTable({ reportId, showHistory = false }: ParametersTab
             <div className="flex items-center space-x-4 text-sm text-gray-600">
               <span className="flex items-center">
                 <Calendar className="h-4 w-4 mr-1" />
-                {formatDate(reportData.uploadDate)}
+                {formatDate(reportData.testDate || reportData.uploadDate)}
               </span>
               <span>📁 {reportData.fileName}</span>
               <span>🔍 {reportData.ocrConfidence} confidence</span>
@@ -215,6 +537,86 @@ export function ParametersTable({ reportId, showHistory = false }: ParametersTab
           )}
         </div>
 
+        {reportData.patientMismatches && reportData.patientMismatches.length > 0 && (
+          <div className="flex items-start bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-800">
+            <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+            <div>
+              {reportData.patientMismatches.map(mismatch => (
+                <p key={mismatch.field}>{mismatch.message}.</p>
+              ))}
+              <p className="mt-1">If it belongs to another family member, upload it to their profile instead; if it was misread, correct the details below.</p>
+            </div>
+          </div>
+        )}
+
+        {/* Details printed in the report header */}
+        <div className="border-t border-gray-100 pt-4 mb-6">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-gray-900">Report details</h3>
+            {!detailsForm && (
+              <Button variant="ghost" size="sm" disabled={saving} onClick={() => {
+                setDetailsError(null)
+                setDetailsForm(toDetailsForm(reportData.metadata))
+              }}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Edit details
+              </Button>
+            )}
+          </div>
+          {detailsForm ? (
+            <div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+                {DETAIL_FIELDS.map(({ field, label, type }) => {
+                  const inputClass = "mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  return (
+                    <label key={field} className="text-xs text-gray-600">
+                      {label}
+                      {type === 'sex' ? (
+                        <select className={inputClass} value={detailsForm[field]} onChange={(e) => setDetailsForm({ ...detailsForm, [field]: e.target.value })}>
+                          <option value="">Not printed</option>
+                          <option value="male">Male</option>
+                          <option value="female">Female</option>
+                        </select>
+                      ) : (
+                        <input
+                          type={type === 'date' ? 'date' : 'text'}
+                          className={inputClass}
+                          value={detailsForm[field]}
+                          onChange={(e) => setDetailsForm({ ...detailsForm, [field]: e.target.value })}
+                        />
+                      )}
+                    </label>
+                  )
+                })}
+              </div>
+              <div className="flex items-center space-x-2 mt-3">
+                <Button size="sm" disabled={saving} onClick={saveDetails}>
+                  <Check className="h-4 w-4 mr-2" />
+                  Save
+                </Button>
+                <Button variant="ghost" size="sm" disabled={saving} onClick={() => setDetailsForm(null)}>
+                  Cancel
+                </Button>
+                {detailsError && <span className="text-sm text-red-600">{detailsError}</span>}
+              </div>
+            </div>
+          ) : (
+            <dl className="grid grid-cols-2 lg:grid-cols-4 gap-x-4 gap-y-2 text-sm">
+              {DETAIL_FIELDS.map(({ field, label, type }) => {
+                const value = reportData.metadata?.[field]
+                return (
+                  <div key={field}>
+                    <dt className="text-xs text-gray-500">{label}</dt>
+                    <dd className="text-gray-900">
+                      {!value ? '—' : type === 'date' ? new Date(value).toLocaleDateString() : type === 'sex' ? value.charAt(0).toUpperCase() + value.slice(1) : value}
+                    </dd>
+                  </div>
+                )
+              })}
+            </dl>
+          )}
+        </div>
+
         {/* Filters */}
         <div className="flex flex-wrap items-center gap-4 mb-6">
           <div className="flex items-center space-x-2">
@@ -246,6 +648,11 @@ export function ParametersTable({ reportId, showHistory = false }: ParametersTab
             <Download className="h-4 w-4 mr-2" />
             Export
           </Button>
+
+          <Button variant="outline" size="sm" onClick={() => startEditing(null)} disabled={editingId !== null}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add parameter
+          </Button>
         </div>
       </Card>
 
@@ -261,19 +668,59 @@ export function ParametersTable({ reportId, showHistory = false }: ParametersTab
                 <th className="text-left py-3 px-4 font-semibold text-gray-900">Status</th>
                 <th className="text-left py-3 px-4 font-semibold text-gray-900">Normal Range</th>
                 <th className="text-left py-3 px-4 font-semibold text-gray-900">Category</th>
+                <th className="py-3 px-4"><span className="sr-only">Actions</span></th>
               </tr>
             </thead>
             <tbody>
-              {filteredParameters.map((param, index) => (
-                <tr key={param.id} className={`border-b hover:bg-gray-50 ${index % 2 === 0 ? 'bg-white' : 'bg-gray-25'}`}>
+              {editingId === 'new' && renderEditRow()}
+              {filteredParameters.map((param, index) => editingId === param.id ? renderEditRow(param) : (
+                <tr
+                  key={param.id}
+                  onClick={() => setSelectedParam(selectedParam?.id === param.id ? null : param)}
+                  title="Show where this value appears in the report"
+                  className={`border-b cursor-pointer hover:bg-gray-50 ${selectedParam?.id === param.id ? 'bg-yellow-50' : index % 2 === 0 ? 'bg-white' : 'bg-gray-25'}`}
+                >
                   <td className="py-4 px-4">
-                    <div className="font-medium text-gray-900">{param.parameter}</div>
+                    <div className="flex items-center font-medium text-gray-900">
+                      {param.parameter}
+                      {param.hasLocation && <Eye className="h-3.5 w-3.5 ml-2 text-gray-400" />}
+                      {param.correctedAt && (
+                        <span
+                          className="ml-2 px-1.5 py-0.5 bg-purple-50 text-purple-700 border border-purple-200 rounded text-xs font-normal"
+                          title={param.originalValue != null
+                            ? `Originally read as ${param.originalName} ${param.originalValue}`
+                            : 'Added by you, not read from the report'}
+                        >
+                          {param.originalValue != null ? 'edited' : 'added'}
+                        </span>
+                      )}
+                      {param.extractionMethod === 'derived' && (
+                        <span
+                          className="ml-2 px-1.5 py-0.5 bg-sky-50 text-sky-700 border border-sky-200 rounded text-xs font-normal"
+                          title="Calculated from other results on this report, not printed on it"
+                        >
+                          calculated
+                        </span>
+                      )}
+                    </div>
                   </td>
                   <td className="py-4 px-4">
                     <div className="flex items-center">
                       <span className="text-2xl mr-2">{getStatusIcon(param.status)}</span>
-                      <span className="font-semibold text-gray-900">{param.value}</span>
+                      {renderValue(param)}
                     </div>
+                    {param.confidence != null && param.confidence < LOW_CONFIDENCE && (
+                      <div className="text-xs text-amber-600 mt-0.5" title={`Read with ${Math.round(param.confidence)}% confidence`}>
+                        Low confidence, check the scan
+                      </div>
+                    )}
+                    {param.reviewNotes?.map((note, noteIndex) => (
+                      <div key={noteIndex} className="text-xs text-amber-600 mt-0.5">
+                        {note.message}
+                        {note.suggestions && note.suggestions.length > 0 && ` (possibly ${note.suggestions.join(' or ')})`}
+                        , check the scan
+                      </div>
+                    ))}
                   </td>
                   <td className="py-4 px-4 text-gray-600">{param.unit}</td>
                   <td className="py-4 px-4">
@@ -281,17 +728,36 @@ export function ParametersTable({ reportId, showHistory = false }: ParametersTab
                       {param.status}
                     </span>
                   </td>
-                  <td className="py-4 px-4 text-gray-600 text-sm">{param.normalRange}</td>
+                  <td className="py-4 px-4 text-gray-600 text-sm">
+                    {param.normalRange}
+                    {param.rangeSource && (
+                      <div className="text-xs text-gray-400 mt-0.5">{param.rangeSource}</div>
+                    )}
+                  </td>
                   <td className="py-4 px-4">
                     <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded-md text-xs font-medium">
                       {param.category}
                     </span>
                   </td>
+                  <td className="py-4 px-4" onClick={(e) => e.stopPropagation()}>
+                    <div className="flex items-center justify-end space-x-1">
+                      <Button variant="ghost" size="sm" title="Correct this value" disabled={editingId !== null || saving} onClick={() => startEditing(param)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Delete this parameter" disabled={editingId !== null || saving} onClick={() => deleteParameter(param)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </td>
                 </tr>
               ))}
             </tbody>
           </table>
           
+          {editError && !editingId && (
+            <p className="mt-4 text-sm text-red-600">{editError}</p>
+          )}
+
           {filteredParameters.length === 0 && (
             <div className="text-center py-8">
               <p className="text-gray-500">No parameters found matching your search criteria.</p>
@@ -300,6 +766,44 @@ export function ParametersTable({ reportId, showHistory = false }: ParametersTab
         </div>
       </Card>
 
+      {/* Source region of the selected parameter */}
+      {selectedParam && (
+        <Card className="p-6">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">🔎 {selectedParam.parameter} in the original report</h3>
+              <p className="text-sm text-gray-600">
+                Extracted as <span className="font-medium">{selectedParam.value} {selectedParam.unit}</span>
+                {selectedParam.page ? ` on page ${selectedParam.page}` : ''}. Compare it with the highlighted region.
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              {selectedParam.hasLocation && (
+                <Button variant="outline" size="sm" onClick={() => setShowFullPage(!showFullPage)}>
+                  {showFullPage ? 'Zoom to value' : 'Show full page'}
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={() => setSelectedParam(null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          {regionLoading && (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            </div>
+          )}
+          {!regionLoading && regionError && <p className="text-sm text-gray-500">{regionError}</p>}
+          {!regionLoading && regionImage && (
+            <img
+              src={regionImage}
+              alt={`${selectedParam.parameter} highlighted in the original report`}
+              className="w-full rounded-md border border-gray-200"
+            />
+          )}
+        </Card>
+      )}
+
       {/* Summary Card */}
       {reportData.summary && (
         <Card className="p-6">
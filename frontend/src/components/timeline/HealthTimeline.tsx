@@ -10,6 +10,7 @@ interface TimelineData {
   reportCount: number
   metrics: Array<{
     metric: string
+    analyteId: string | null
     average: string
     min: number
     max: number
@@ -82,7 +83,7 @@ export default function HealthTimeline() {
 
   const fetchMetricTrend = async (metric: string) => {
     try {
-      const response = await fetch(`http://localhost:8080/api/v1/timeline/metric/${metric}`)
+      const response = await fetch(`http://localhost:8080/api/v1/timeline/metric/${encodeURIComponent(metric)}`)
       if (response.ok) {
         const data = await response.json()
         setMetricTrend(data)
@@ -192,8 +193,8 @@ export default function HealthTimeline() {
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
                   {period.metrics.slice(0, 6).map((metric) => (
                     <button
-                      key={metric.metric}
-                      onClick={() => handleMetricClick(metric.metric)}
+                      key={metric.analyteId || metric.metric}
+                      onClick={() => handleMetricClick(metric.analyteId || metric.metric)}
                       className="text-left p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
                     >
                       <div className="font-medium text-sm text-gray-900">
@@ -226,7 +227,7 @@ export default function HealthTimeline() {
       {selectedMetric && metricTrend && (
         <Card className="p-6">
           <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold">{selectedMetric} Trend</h3>
+            <h3 className="text-lg font-semibold">{metricTrend.metric} Trend</h3>
             <Button 
               variant="outline" 
               size="sm"
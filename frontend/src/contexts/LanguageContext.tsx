@@ -1,6 +1,13 @@
 "use client";
 
 import React, { createContext, useContext, useState, ReactNode } from 'react';
+import en from '../../messages/en.json';
+import hi from '../../messages/hi.json';
+import ta from '../../messages/ta.json';
+import te from '../../messages/te.json';
+import bn from '../../messages/bn.json';
+import gu from '../../messages/gu.json';
+import mr from '../../messages/mr.json';
 
 export interface Language {
   code: string;
@@ -26,6 +33,17 @@ interface LanguageContextType {
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
+const messages: Record<string, unknown> = { en, hi, ta, te, bn, gu, mr };
+
+// Look up a dotted key, e.g. 'tryApp.retake.BLURRY', in a language's message file
+const getMessage = (key: string, languageCode: string): string | undefined => {
+  const value = key.split('.').reduce<unknown>(
+    (node, part) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined),
+    messages[languageCode]
+  );
+  return typeof value === 'string' ? value : undefined;
+};
+
 // Simple translation function that loads from our translation files
 const getTranslation = (key: string, languageCode: string, fallback?: string): string => {
   // Basic English translations - in production, these would be loaded dynamically
@@ -54,7 +72,8 @@ const getTranslation = (key: string, languageCode: string, fallback?: string): s
   };
 
   const translations = languageCode === 'hi' ? hindiTranslations : englishTranslations;
-  return translations[key] || fallback || key;
+  // Keys missing from a language's message file fall back to English
+  return translations[key] || getMessage(key, languageCode) || getMessage(key, 'en') || fallback || key;
 };
 
 export function LanguageProvider({ children }: { children: ReactNode }) {
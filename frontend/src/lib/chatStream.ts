@@ -0,0 +1,56 @@
+import { readSseEvents } from './sse';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+
+export interface ChatRequest {
+  message: string;
+  sessionId?: string;
+  context?: { reportId?: string };
+}
+
+export interface ChatDone {
+  sessionId: string;
+  messageId: string;
+  timestamp: string;
+}
+
+export class ChatStreamError extends Error {}
+
+/**
+ * Send a chat message and read the answer as the model writes it, calling
+ * `onToken` with each piece. Resolves once the answer is complete and
+ * saved. Aborting `signal` stops the answer, which is then not saved.
+ */
+export async function streamChatMessage(
+  request: ChatRequest,
+  token: string,
+  onToken: (text: string) => void,
+  signal?: AbortSignal
+): Promise<ChatDone> {
+  const response = await fetch(`${API_BASE_URL}/api/v1/chat/message/stream`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'Accept': 'text/event-stream',
+    },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw new ChatStreamError(`Failed to send message: ${response.status}`);
+  }
+
+  for await (const { type, data } of readSseEvents(response.body.getReader())) {
+    const payload = JSON.parse(data);
+    if (type === 'token') {
+      onToken(payload.text);
+    } else if (type === 'done') {
+      return payload;
+    } else if (type === 'error') {
+      throw new ChatStreamError(payload.error);
+    }
+  }
+  throw new ChatStreamError('The answer ended unexpectedly');
+}
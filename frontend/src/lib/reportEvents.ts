@@ -0,0 +1,140 @@
+import { readSseEvents } from './sse';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+
+export type ProcessingStage = 'OCR' | 'EXTRACTION' | 'ANALYSIS';
+
+export interface ReportProgressEvent {
+  type: 'uploaded' | 'ocr_page' | 'file_failed' | 'metrics_extracted' | 'analysis_started' | 'retrying' | 'completed' | 'failed';
+  reportId: string;
+  stage: ProcessingStage | null;
+  progress: number;
+  message: string;
+  data?: Record<string, unknown>;
+  timestamp: string;
+}
+
+// Details printed in the report header, as read or corrected by the user
+export interface ReportMetadata {
+  collectedAt: string | null;
+  reportedAt: string | null;
+  labName: string | null;
+  patientName: string | null;
+  patientAge: string | null;
+  patientSex: 'male' | 'female' | null;
+  referringDoctor: string | null;
+  sampleId: string | null;
+}
+
+// Printed name or sex that doesn't fit the family member the report belongs to
+export interface PatientMismatch {
+  field: 'patientName' | 'patientSex';
+  printed: string;
+  expected: string;
+  message: string;
+}
+
+export interface ReportStatus {
+  id: string;
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  stage: ProcessingStage | null;
+  progress: number;
+  stages: { stage: ProcessingStage; label: string; status: string; error?: string | null }[];
+  error?: string;
+  duplicateOf?: { id: string; fileName: string; uploadDate: string } | null;
+  files: {
+    id?: string;
+    fileName: string;
+    status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+    metricsCount: number;
+    error?: string;
+  }[];
+  extractedText?: string;
+  analysis?: {
+    healthScore?: number;
+    overallAssessment?: string;
+    concernsCount?: number;
+  } | null;
+  metadata?: ReportMetadata;
+  testDate?: string; // When the tests were done; the timeline places the report here
+  patientMismatches?: PatientMismatch[];
+}
+
+interface FollowHandlers {
+  onStatus?: (status: ReportStatus) => void;
+  onEvent?: (event: ReportProgressEvent) => void;
+}
+
+const RECONNECT_DELAY = 2000;
+const MAX_RECONNECTS = 5;
+
+const isDone = (status: ReportStatus) => status.status === 'COMPLETED' || status.status === 'FAILED';
+
+/**
+ * Follow a report through processing until it completes or fails, resolving
+ * with its final status. EventSource can't send the auth header, so the
+ * event stream is read with fetch. Dropped connections, and streams the
+ * server ends early or with an `error` event, are reopened up to
+ * MAX_RECONNECTS times; each stream starts with the current status, so
+ * nothing is missed. After that it rejects with the last error, which is
+ * the server's message when it sent one.
+ */
+export async function followReport(
+  reportId: string,
+  token: string,
+  handlers: FollowHandlers,
+  signal?: AbortSignal
+): Promise<ReportStatus> {
+  let failures = 0;
+
+  for (;;) {
+    try {
+      return await readStream(reportId, token, handlers, signal);
+    } catch (error) {
+      if (signal?.aborted || (error instanceof StreamError && error.status !== undefined && error.status < 500)) throw error;
+      if (++failures > MAX_RECONNECTS) throw error;
+    }
+    await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY));
+  }
+}
+
+// Status is the HTTP status when the stream couldn't be opened; 4xx aren't worth retrying
+class StreamError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+  }
+}
+
+// Reads one connection; resolves with the final status, and rejects if it ends without one
+async function readStream(
+  reportId: string,
+  token: string,
+  handlers: FollowHandlers,
+  signal?: AbortSignal
+): Promise<ReportStatus> {
+  const response = await fetch(`${API_BASE_URL}/api/v1/upload/events/${reportId}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Accept': 'text/event-stream',
+    },
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw new StreamError(`Could not follow report progress: ${response.status}`, response.status);
+  }
+
+  for await (const { type, data } of readSseEvents(response.body.getReader())) {
+    const payload = JSON.parse(data);
+    if (type === 'status') {
+      handlers.onStatus?.(payload);
+      if (isDone(payload)) return payload;
+    } else if (type === 'error') {
+      // The server closes the stream after an error
+      throw new StreamError(payload.error || 'Failed to get upload status');
+    } else {
+      handlers.onEvent?.(payload);
+    }
+  }
+  throw new StreamError('Lost track of your report. Please check your reports page.');
+}
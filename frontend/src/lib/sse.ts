@@ -0,0 +1,42 @@
+export interface SseEvent {
+  type: string;
+  data: string;
+}
+
+/**
+ * Read server-sent events from a response body as they arrive. Multi-line
+ * data is joined with newlines and keep-alive comments are skipped. Ends
+ * when the server closes the stream; stopping early cancels the reader.
+ */
+export async function* readSseEvents(reader: ReadableStreamDefaultReader<Uint8Array>): AsyncGenerator<SseEvent> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      // A trailing \r waits for the next chunk, in case it's half of \r\n
+      buffer = (buffer + decoder.decode(value, { stream: true })).replace(/\r\n|\r(?!$)/g, '\n');
+
+      // Events are separated by a blank line
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        let type = 'message';
+        const data: string[] = [];
+        for (const line of frame.split('\n')) {
+          if (line.startsWith('event:')) type = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+        }
+        if (data.length === 0) continue; // Keep-alive comment
+
+        yield { type, data: data.join('\n') };
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+}